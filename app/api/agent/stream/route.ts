@@ -0,0 +1,143 @@
+import { NextRequest } from 'next/server'
+import {
+  LYZR_AGENT_READY,
+  submitLyzrTask,
+  fetchLyzrTask,
+  buildCompletedResponse,
+} from '@/lib/lyzrTask'
+
+export const dynamic = 'force-dynamic'
+
+const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes, same budget as the client poller
+const HEARTBEAT_MS = 15 * 1000
+
+/**
+ * POST /api/agent/stream
+ *
+ * Body: { message, agent_id, user_id?, session_id?, assets? }
+ *
+ * Submits the task and polls Lyzr on the server, streaming Server-Sent Events:
+ *   submitted → { task_id, agent_id, user_id, session_id }
+ *   status    → { status, elapsed_ms, attempt, partial? }   (on every poll)
+ *   result    → same body POST /api/agent returns on completion/failure
+ *   error     → { error, elapsed_ms }                       (submit failure, poll failure, timeout)
+ * The stream closes after `result` or `error`.
+ */
+export async function POST(request: NextRequest) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    body = {}
+  }
+
+  const encoder = new TextEncoder()
+  const signal = request.signal
+
+  // Shared with cancel(), which runs when the client disconnects
+  let closed = false
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const enqueue = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          // The stream closed between the check and the write
+          closed = true
+          clearInterval(heartbeat)
+        }
+      }
+      const send = (event: string, data: unknown) => enqueue(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        controller.close()
+      }
+
+      // Comment frames keep proxies from closing an idle connection
+      heartbeat = setInterval(() => enqueue(': keep-alive\n\n'), HEARTBEAT_MS)
+
+      const startTime = Date.now()
+      const elapsed = () => Date.now() - startTime
+
+      try {
+        if (!LYZR_AGENT_READY) {
+          send('error', { error: 'LYZR_API_KEY not configured on server', elapsed_ms: elapsed() })
+          return close()
+        }
+
+        const submitted = await submitLyzrTask(body)
+        if (!submitted.ok) {
+          send('error', { error: submitted.error, elapsed_ms: elapsed() })
+          return close()
+        }
+
+        const { task_id, agent_id, user_id, session_id } = submitted
+        send('submitted', { task_id, agent_id, user_id, session_id })
+
+        let attempt = 0
+        while (elapsed() < POLL_TIMEOUT_MS) {
+          if (closed || signal.aborted) return close()
+
+          const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
+          await new Promise(r => setTimeout(r, delay))
+          attempt++
+          if (closed || signal.aborted) return close()
+
+          const polled = await fetchLyzrTask(task_id)
+          if (!polled.ok) {
+            send('error', { error: polled.error, elapsed_ms: elapsed() })
+            return close()
+          }
+
+          const task = polled.task
+          if (task.status === 'processing') {
+            // Forward whatever intermediate output Lyzr exposes, if any
+            const partial = task.partial_response ?? task.progress ?? task.response ?? undefined
+            send('status', { status: 'processing', elapsed_ms: elapsed(), attempt, ...(partial !== undefined && { partial }) })
+            continue
+          }
+
+          if (task.status === 'failed') {
+            send('result', {
+              success: false,
+              status: 'failed',
+              response: { status: 'error', result: {}, message: task.error || 'Agent task failed' },
+              error: task.error || 'Agent task failed',
+              agent_id,
+              user_id,
+              session_id,
+            })
+            return close()
+          }
+
+          send('status', { status: 'completed', elapsed_ms: elapsed(), attempt })
+          send('result', { ...buildCompletedResponse(task), agent_id, user_id, session_id })
+          return close()
+        }
+
+        send('error', { error: 'Agent task timed out after 5 minutes', elapsed_ms: elapsed() })
+        close()
+      } catch (error) {
+        send('error', { error: error instanceof Error ? error.message : 'Server error', elapsed_ms: elapsed() })
+        close()
+      }
+    },
+    cancel() {
+      closed = true
+      clearInterval(heartbeat)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
+  })
+}
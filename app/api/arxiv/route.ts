@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ArxivApiError, arxivCategoriesFor, fetchArxivPapers } from '@/lib/arxiv'
+
+export const dynamic = 'force-dynamic'
+
+function splitList(value: string | null): string[] {
+  return (value || '').split(',').map(v => v.trim()).filter(Boolean)
+}
+
+// ---------------------------------------------------------------------------
+// GET — papers from the arXiv export API
+// ?categories=cs.AI,cs.CR  (arXiv codes) or ?topics=AI/ML,Cybersecurity (dashboard categories)
+// &days=7&start=0&limit=50
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const explicit = splitList(searchParams.get('categories'))
+    const categories = explicit.length > 0 ? explicit : arxivCategoriesFor(splitList(searchParams.get('topics')))
+
+    const days = parseInt(searchParams.get('days') || '7') || 0
+    const from = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null
+    const start = Math.max(0, parseInt(searchParams.get('start') || '0') || 0)
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    const result = await fetchArxivPapers({ categories, from, start, limit })
+    return NextResponse.json({ success: true, categories, ...result })
+  } catch (error) {
+    if (error instanceof ArxivApiError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateUUID } from '@/lib/utils'
+import { readRecord, writeRecord, deleteRecord, listRecords } from '@/lib/fileStore'
+import { RSS_CACHE_COLLECTION, RSS_FEEDS_COLLECTION, pollFeed } from '@/lib/rssReader'
+import { DEFAULT_FEED_WEIGHT, DEFAULT_POLL_INTERVAL_MINUTES, type FeedConfig } from '@/lib/feedConfig'
+
+export const dynamic = 'force-dynamic'
+
+const MIN_POLL_INTERVAL_MINUTES = 5
+const MAX_POLL_INTERVAL_MINUTES = 1440
+
+function parseFeedUrl(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? ''))
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n))) : fallback
+}
+
+// ---------------------------------------------------------------------------
+// GET — list
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const feeds = (await listRecords<FeedConfig>(RSS_FEEDS_COLLECTION))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    return NextResponse.json({ success: true, feeds })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — create | update | refresh
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, feedId, ...params } = body
+
+    switch (action) {
+      case 'refresh': {
+        const existing = feedId ? await readRecord<FeedConfig>(RSS_FEEDS_COLLECTION, feedId) : null
+        if (!existing) {
+          return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 })
+        }
+        const result = await pollFeed(existing, { force: true })
+        if (result.error) {
+          return NextResponse.json({ success: false, feed: result.feed, error: result.error }, { status: 502 })
+        }
+        return NextResponse.json({ success: true, feed: result.feed })
+      }
+
+      case 'update': {
+        const existing = feedId ? await readRecord<FeedConfig>(RSS_FEEDS_COLLECTION, feedId) : null
+        if (!existing) {
+          return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 })
+        }
+        let url = existing.url
+        if (params.url !== undefined) {
+          url = parseFeedUrl(params.url)
+          if (!url) {
+            return NextResponse.json({ success: false, error: 'url must be an http(s) URL' }, { status: 400 })
+          }
+        }
+        const feed: FeedConfig = {
+          ...existing,
+          url,
+          name: typeof params.name === 'string' && params.name.trim() ? params.name.trim() : existing.name,
+          category: typeof params.category === 'string' && params.category ? params.category : existing.category,
+          weight: params.weight !== undefined ? clampInt(params.weight, 1, 100, existing.weight) : existing.weight,
+          poll_interval_minutes: params.poll_interval_minutes !== undefined
+            ? clampInt(params.poll_interval_minutes, MIN_POLL_INTERVAL_MINUTES, MAX_POLL_INTERVAL_MINUTES, existing.poll_interval_minutes)
+            : existing.poll_interval_minutes,
+          enabled: typeof params.enabled === 'boolean' ? params.enabled : existing.enabled,
+          updated_at: new Date().toISOString(),
+        }
+        await writeRecord(RSS_FEEDS_COLLECTION, feed.id, feed)
+        return NextResponse.json({ success: true, feed })
+      }
+
+      case 'create':
+      default: {
+        const url = parseFeedUrl(params.url)
+        if (!url) {
+          return NextResponse.json({ success: false, error: 'url must be an http(s) URL' }, { status: 400 })
+        }
+        if (typeof params.category !== 'string' || !params.category) {
+          return NextResponse.json({ success: false, error: 'category is required' }, { status: 400 })
+        }
+        const all = await listRecords<FeedConfig>(RSS_FEEDS_COLLECTION)
+        if (all.some(f => f.url === url)) {
+          return NextResponse.json({ success: false, error: 'That feed is already registered' }, { status: 409 })
+        }
+
+        const now = new Date().toISOString()
+        const draft: FeedConfig = {
+          id: `feed-${Date.now()}-${generateUUID().substring(0, 8)}`,
+          url,
+          name: typeof params.name === 'string' && params.name.trim() ? params.name.trim() : new URL(url).hostname,
+          category: params.category,
+          weight: clampInt(params.weight, 1, 100, DEFAULT_FEED_WEIGHT),
+          poll_interval_minutes: clampInt(params.poll_interval_minutes, MIN_POLL_INTERVAL_MINUTES, MAX_POLL_INTERVAL_MINUTES, DEFAULT_POLL_INTERVAL_MINUTES),
+          enabled: typeof params.enabled === 'boolean' ? params.enabled : true,
+          last_fetched_at: null,
+          last_error: '',
+          item_count: 0,
+          created_at: now,
+          updated_at: now,
+        }
+
+        // Fetch once up front so a typo'd URL is caught here rather than mid-scan
+        const result = await pollFeed(draft, { force: true })
+        if (result.error) {
+          await deleteRecord(RSS_FEEDS_COLLECTION, draft.id)
+          return NextResponse.json({ success: false, error: `Could not read feed: ${result.error}` }, { status: 422 })
+        }
+        return NextResponse.json({ success: true, feed: result.feed })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a feed and its cache
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const { feedId } = await request.json()
+    if (!feedId) {
+      return NextResponse.json({ success: false, error: 'feedId is required' }, { status: 400 })
+    }
+    const deleted = await deleteRecord(RSS_FEEDS_COLLECTION, feedId)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Feed not found' }, { status: 404 })
+    }
+    await deleteRecord(RSS_CACHE_COLLECTION, feedId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
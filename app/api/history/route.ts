@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateUUID } from '@/lib/utils'
+import { readRecord, writeRecord, deleteRecord, listRecords } from '@/lib/fileStore'
+import { PUBLISH_QUEUE_COLLECTION } from '@/lib/publishWorker'
+import { THREAD_METRICS_COLLECTION } from '@/lib/metricsCollector'
+import { scanToEntries, type DedupEntry } from '@/lib/dedup'
+import { SOURCE_ADAPTERS } from '@/lib/sources'
+import type { ScanRecord, ScanSummary } from '@/lib/scanHistory'
+import type { ScheduledPost } from '@/lib/publishQueue'
+import type { TrackedThread } from '@/lib/engagement'
+
+const COLLECTION = 'scans'
+
+function toSummary(record: ScanRecord): ScanSummary {
+  const response = record.response
+  return {
+    id: record.id,
+    scan_timestamp: response?.scan_timestamp ?? record.saved_at,
+    saved_at: record.saved_at,
+    pipeline_status: response?.pipeline_status ?? 'unknown',
+    item_counts: Object.fromEntries(SOURCE_ADAPTERS.map(adapter => [adapter.id, adapter.read(response).items.length])),
+    draft_count: Array.isArray(response?.thread_drafts) ? response.thread_drafts.length : 0,
+    flagged_for_review: response?.flagged_for_review ?? 0,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET — list | get | dedup_entries
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const action = searchParams.get('action') || 'list'
+
+    if (action === 'get') {
+      const scanId = searchParams.get('scanId')
+      if (!scanId) {
+        return NextResponse.json({ success: false, error: 'scanId is required' }, { status: 400 })
+      }
+      const record = await readRecord<ScanRecord>(COLLECTION, scanId)
+      if (!record) {
+        return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, scan: record })
+    }
+
+    // Everything seen in past scans plus everything posted — from the queue, or by hand (every thread that posts is tracked for metrics)
+    if (action === 'dedup_entries') {
+      const exclude = searchParams.get('exclude')
+      const scans = await listRecords<ScanRecord>(COLLECTION)
+      const seen = scans
+        .filter(record => record.id !== exclude && record.response)
+        .flatMap(record => scanToEntries(record.response, record.id, record.saved_at))
+      const posted: DedupEntry[] = (await listRecords<ScheduledPost>(PUBLISH_QUEUE_COLLECTION))
+        .filter(post => post.status === 'published')
+        .map(post => ({
+          kind: 'draft',
+          url: post.draft?.source_url ?? '',
+          title: post.draft?.title ?? '',
+          status: 'posted',
+          origin_id: post.id,
+          at: post.published_at ?? post.updated_at,
+        }))
+      const tracked: DedupEntry[] = (await listRecords<TrackedThread>(THREAD_METRICS_COLLECTION)).map(thread => ({
+        kind: 'draft',
+        url: thread.source_url ?? '',
+        title: thread.title ?? '',
+        status: 'posted',
+        origin_id: thread.id,
+        at: thread.posted_at,
+      }))
+      return NextResponse.json({ success: true, entries: [...posted, ...tracked, ...seen] })
+    }
+
+    // Newest first, paginated
+    const skip = Math.max(0, parseInt(searchParams.get('skip') || '0') || 0)
+    const limit = Math.max(1, parseInt(searchParams.get('limit') || '50') || 50)
+    const summaries = (await listRecords<ScanRecord>(COLLECTION))
+      .map(toSummary)
+      .sort((a, b) => b.saved_at.localeCompare(a.saved_at))
+
+    return NextResponse.json({
+      success: true,
+      scans: summaries.slice(skip, skip + limit),
+      total: summaries.length,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — save | update_drafts
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, response, settings, raw_response, filter_report, schema_report, draft_versions } = body
+
+    switch (action) {
+      // Write edited drafts and their version history back to an archived scan
+      case 'update_drafts': {
+        const { scanId, thread_drafts } = body
+        if (!scanId || !Array.isArray(thread_drafts)) {
+          return NextResponse.json({ success: false, error: 'scanId and thread_drafts are required' }, { status: 400 })
+        }
+        const existing = await readRecord<ScanRecord>(COLLECTION, scanId)
+        if (!existing) {
+          return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 })
+        }
+        const record: ScanRecord = {
+          ...existing,
+          response: {
+            ...existing.response,
+            thread_drafts,
+            total_drafts: thread_drafts.length,
+            flagged_for_review: thread_drafts.filter(d => d?.requires_review).length,
+          },
+          draft_versions: draft_versions && typeof draft_versions === 'object' ? draft_versions : existing.draft_versions ?? {},
+        }
+        await writeRecord(COLLECTION, record.id, record)
+        return NextResponse.json({ success: true, scan: toSummary(record) })
+      }
+
+      case 'save':
+      default: {
+        if (!response || typeof response !== 'object') {
+          return NextResponse.json({ success: false, error: 'response is required' }, { status: 400 })
+        }
+
+        const record: ScanRecord = {
+          id: `scan-${Date.now()}-${generateUUID().substring(0, 8)}`,
+          saved_at: new Date().toISOString(),
+          response,
+          settings: settings ?? null,
+          raw_response: typeof raw_response === 'string' ? raw_response : JSON.stringify(raw_response ?? null),
+          filter_report: Array.isArray(filter_report) ? filter_report : [],
+          schema_report: Array.isArray(schema_report) ? schema_report : [],
+          draft_versions: draft_versions && typeof draft_versions === 'object' ? draft_versions : {},
+        }
+
+        await writeRecord(COLLECTION, record.id, record)
+        return NextResponse.json({ success: true, scan: toSummary(record) })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a scan from the archive
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { scanId } = body
+
+    if (!scanId) {
+      return NextResponse.json({ success: false, error: 'scanId is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteRecord(COLLECTION, scanId)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Scan not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, message: 'Scan deleted successfully', scanId })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { HN_FEEDS, fetchHNStories } from '@/lib/hackerNews'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// GET — stories from the HN Firebase API
+// ?feeds=HN Top,Show HN&limit=30
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const feeds = (searchParams.get('feeds') || '')
+      .split(',')
+      .map(f => f.trim())
+      .filter(f => HN_FEEDS[f])
+    if (feeds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: `feeds must list one or more of: ${Object.keys(HN_FEEDS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '30') || 30))
+
+    const result = await fetchHNStories({ feeds, limit })
+    if (result.stories.length === 0 && result.errors.length > 0) {
+      return NextResponse.json({ success: false, error: result.errors.join(' | ') }, { status: 502 })
+    }
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { collectDueMetrics, listTrackedThreads, startMetricsCollector } from '@/lib/metricsCollector'
+import { metricsAdapter } from '@/lib/metricsAdapters'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// GET — every tracked thread with its checkpoint metrics
+// ---------------------------------------------------------------------------
+export async function GET() {
+  // Idempotent; covers dev servers where instrumentation has not started it
+  startMetricsCollector()
+
+  try {
+    const threads = await listTrackedThreads()
+    return NextResponse.json({ success: true, threads, adapter: metricsAdapter()?.id ?? 'off' })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — collect: read every checkpoint that is due now (also for external cron)
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  startMetricsCollector()
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { action } = body
+
+    switch (action) {
+      case 'collect':
+      default: {
+        const adapter = metricsAdapter()
+        if (!adapter) {
+          return NextResponse.json({ success: false, error: 'Engagement metrics are off — set ENGAGEMENT_METRICS to live or fake' }, { status: 400 })
+        }
+        const summary = await collectDueMetrics(new Date(), adapter)
+        const threads = await listTrackedThreads()
+        return NextResponse.json({ success: true, summary, threads, adapter: adapter.id })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateUUID } from '@/lib/utils'
+import { readRecord, writeRecord, deleteRecord, listRecords } from '@/lib/fileStore'
+import { PUBLISH_QUEUE_COLLECTION, processDuePosts, startPublishWorker } from '@/lib/publishWorker'
+import type { ScheduledPost } from '@/lib/publishQueue'
+
+export const dynamic = 'force-dynamic'
+
+function parseScheduledAt(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function isValidTimeZone(timeZone: unknown): boolean {
+  if (typeof timeZone !== 'string' || !timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GET — list
+// ---------------------------------------------------------------------------
+export async function GET() {
+  // Idempotent; covers dev servers where instrumentation has not started it
+  startPublishWorker()
+
+  try {
+    const posts = (await listRecords<ScheduledPost>(PUBLISH_QUEUE_COLLECTION))
+      .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at))
+    return NextResponse.json({ success: true, posts })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — schedule | reschedule | run_due
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  startPublishWorker()
+
+  try {
+    const body = await request.json()
+    const { action, postId, ...params } = body
+
+    switch (action) {
+      // Publish everything due now — for external cron on serverless hosts
+      case 'run_due': {
+        const summary = await processDuePosts()
+        return NextResponse.json({ success: true, summary })
+      }
+
+      case 'reschedule': {
+        if (!postId) {
+          return NextResponse.json({ success: false, error: 'postId is required' }, { status: 400 })
+        }
+        const scheduledAt = parseScheduledAt(params.scheduled_at)
+        if (!scheduledAt) {
+          return NextResponse.json({ success: false, error: 'scheduled_at must be a valid date' }, { status: 400 })
+        }
+        const existing = await readRecord<ScheduledPost>(PUBLISH_QUEUE_COLLECTION, postId)
+        if (!existing) {
+          return NextResponse.json({ success: false, error: 'Post not found' }, { status: 404 })
+        }
+        if (existing.status === 'posting' || existing.status === 'published') {
+          return NextResponse.json({ success: false, error: `Cannot reschedule a post that is ${existing.status}` }, { status: 409 })
+        }
+        const post: ScheduledPost = {
+          ...existing,
+          scheduled_at: scheduledAt,
+          timezone: isValidTimeZone(params.timezone) ? params.timezone : existing.timezone,
+          status: 'scheduled',
+          error_message: '',
+          updated_at: new Date().toISOString(),
+        }
+        await writeRecord(PUBLISH_QUEUE_COLLECTION, post.id, post)
+        return NextResponse.json({ success: true, post })
+      }
+
+      case 'schedule':
+      default: {
+        const { draft, agent_id, timezone } = params
+        if (!draft?.id || !draft?.thread_content || !agent_id) {
+          return NextResponse.json(
+            { success: false, error: 'draft (with id and thread_content) and agent_id are required' },
+            { status: 400 }
+          )
+        }
+        const scheduledAt = parseScheduledAt(params.scheduled_at)
+        if (!scheduledAt) {
+          return NextResponse.json({ success: false, error: 'scheduled_at must be a valid date' }, { status: 400 })
+        }
+        if (!isValidTimeZone(timezone)) {
+          return NextResponse.json({ success: false, error: 'timezone must be an IANA time zone' }, { status: 400 })
+        }
+
+        // One pending entry per draft — scheduling again moves it
+        const all = await listRecords<ScheduledPost>(PUBLISH_QUEUE_COLLECTION)
+        const pending = all.find(p => p.draft_id === draft.id && p.status === 'scheduled')
+
+        const now = new Date().toISOString()
+        const post: ScheduledPost = {
+          id: pending?.id ?? `post-${Date.now()}-${generateUUID().substring(0, 8)}`,
+          draft_id: draft.id,
+          draft,
+          agent_id,
+          scheduled_at: scheduledAt,
+          timezone,
+          status: 'scheduled',
+          attempts: pending?.attempts ?? 0,
+          tweet_url: '',
+          error_message: '',
+          created_at: pending?.created_at ?? now,
+          updated_at: now,
+          published_at: null,
+        }
+        await writeRecord(PUBLISH_QUEUE_COLLECTION, post.id, post)
+        return NextResponse.json({ success: true, post })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE — remove a post from the queue
+// ---------------------------------------------------------------------------
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { postId } = body
+
+    if (!postId) {
+      return NextResponse.json({ success: false, error: 'postId is required' }, { status: 400 })
+    }
+
+    const existing = await readRecord<ScheduledPost>(PUBLISH_QUEUE_COLLECTION, postId)
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Post not found' }, { status: 404 })
+    }
+    if (existing.status === 'posting') {
+      return NextResponse.json({ success: false, error: 'Post is being published right now' }, { status: 409 })
+    }
+
+    await deleteRecord(PUBLISH_QUEUE_COLLECTION, postId)
+    return NextResponse.json({ success: true, message: 'Post removed from queue', postId })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
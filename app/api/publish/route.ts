@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { platformStatus, publishToPlatform } from '@/lib/platformPublish'
+import { publishUsage, readPublishPolicy, savePublishPolicy } from '@/lib/publishLimiter'
+import { resetProgress } from '@/lib/threadProgress'
+import { getPublisher, PUBLISHERS } from '@/lib/publishers'
+
+export const dynamic = 'force-dynamic'
+
+// ---------------------------------------------------------------------------
+// GET — which platforms have credentials, the publishing policy and how much of it is used
+// ---------------------------------------------------------------------------
+export async function GET() {
+  try {
+    const [policy, usage] = await Promise.all([readPublishPolicy(), publishUsage(PUBLISHERS.map(p => p.id))])
+    return NextResponse.json({ success: true, platforms: platformStatus(), policy, usage })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST — post a draft to one platform, resuming a part-posted thread
+// (action 'publish', the default), save the publishing policy, or start an
+// edited draft's threads over (action 'reset_progress')
+// ---------------------------------------------------------------------------
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action } = body
+
+    switch (action) {
+      case 'save_policy': {
+        if (!body.policy || typeof body.policy !== 'object') {
+          return NextResponse.json({ success: false, error: 'policy is required' }, { status: 400 })
+        }
+        const policy = await savePublishPolicy(body.policy)
+        return NextResponse.json({ success: true, policy })
+      }
+
+      case 'reset_progress': {
+        const { draftId } = body
+        if (!draftId) {
+          return NextResponse.json({ success: false, error: 'draftId is required' }, { status: 400 })
+        }
+        const busy: string[] = []
+        for (const publisher of PUBLISHERS) {
+          if (!(await resetProgress(draftId, publisher.id))) busy.push(publisher.label)
+        }
+        if (busy.length > 0) {
+          return NextResponse.json({ success: false, error: `The thread is being posted to ${busy.join(', ')} — it keeps its progress` }, { status: 409 })
+        }
+        return NextResponse.json({ success: true })
+      }
+
+      case 'publish':
+      default: {
+        const { platform, draft, agent_id, restart } = body
+        if (!getPublisher(platform)) {
+          return NextResponse.json({ success: false, error: 'platform must be one of twitter, mastodon, bluesky' }, { status: 400 })
+        }
+        if (!draft?.id || !draft?.thread_content) {
+          return NextResponse.json({ success: false, error: 'draft (with id and thread_content) is required' }, { status: 400 })
+        }
+        const status = platformStatus()[platform]
+        if (!status.configured) {
+          return NextResponse.json({ success: false, error: `${getPublisher(platform).label} is not configured — set ${status.hint}` }, { status: 400 })
+        }
+
+        const result = await publishToPlatform(platform, draft, { agentId: agent_id, restart: restart === true })
+        return NextResponse.json({ success: true, result })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -23,12 +23,16 @@
  *    - Body: JSON array of filenames
  *    - Headers: x-api-key, Content-Type: application/json
  *
+ * LYZR_RAG_BASE_URL and LYZR_CRAWL_BASE_URL swap the hosts for the local
+ * mock server (npm run mock-lyzr, see scripts/mock-lyzr.js).
+ *
  * NEVER expose LYZR_API_KEY to client — always proxy through this route.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 
-const LYZR_RAG_BASE_URL = "https://rag-prod.studio.lyzr.ai/v3";
+const LYZR_RAG_BASE_URL = `${process.env.LYZR_RAG_BASE_URL || "https://rag-prod.studio.lyzr.ai"}/v3`;
+const LYZR_CRAWL_BASE_URL = process.env.LYZR_CRAWL_BASE_URL || "https://api.beta.architect.new";
 const LYZR_API_KEY = process.env.LYZR_API_KEY || "";
 
 const FILE_TYPE_MAP: Record<string, "pdf" | "docx" | "txt"> = {
@@ -232,7 +236,7 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const response = await fetch(`https://api.beta.architect.new/api/v1/rag/crawl`, {
+    const response = await fetch(`${LYZR_CRAWL_BASE_URL}/api/v1/rag/crawl`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
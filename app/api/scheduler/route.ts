@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
+// LYZR_SCHEDULER_BASE_URL swaps the host for the local mock server (npm run mock-lyzr)
+const SCHEDULER_BASE_URL = process.env.LYZR_SCHEDULER_BASE_URL || 'https://scheduler.studio.lyzr.ai'
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
 function getHeaders() {
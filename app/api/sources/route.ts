@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SOURCE_FETCHERS } from '@/lib/sourceFetchers'
+
+export const dynamic = 'force-dynamic'
+
+function splitList(value: string | null): string[] {
+  return (value || '').split(',').map(v => v.trim()).filter(Boolean)
+}
+
+// Any other query parameter is handed to the fetcher as-is
+const RESERVED_PARAMS = ['source', 'labels', 'categories', 'limit']
+
+// ---------------------------------------------------------------------------
+// GET — raw items from one source adapter
+// ?source=<adapter id>&labels=HN Top,Show HN&categories=AI/ML&limit=30[&watchlist=…]
+// ---------------------------------------------------------------------------
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const source = searchParams.get('source') || ''
+    const fetcher = SOURCE_FETCHERS[source]
+    if (!fetcher) {
+      return NextResponse.json(
+        { success: false, error: `Unknown source "${source}". Available: ${Object.keys(SOURCE_FETCHERS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '30') || 30))
+    const result = await fetcher({
+      labels: splitList(searchParams.get('labels')),
+      categories: splitList(searchParams.get('categories')),
+      limit,
+      params: Object.fromEntries(Array.from(searchParams.entries()).filter(([key]) => !RESERVED_PARAMS.includes(key))),
+    })
+    if (result.items.length === 0 && result.errors.length > 0) {
+      return NextResponse.json({ success: false, error: result.errors.join(' | ') }, { status: 502 })
+    }
+    return NextResponse.json({ success: true, source, ...result })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 502 }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { LYZR_AGENT_BASE_URL, LYZR_API_KEY } from '@/lib/lyzrTask'
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+const LYZR_UPLOAD_URL = `${LYZR_AGENT_BASE_URL}/v3/assets/upload`
 
 export async function POST(request: NextRequest) {
   try {
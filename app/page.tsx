@@ -1,7 +1,33 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
-import { callAIAgent } from '@/lib/aiAgent'
+import { useAIAgentStream } from '@/lib/aiAgent'
+import type { ThreadDraft, ManagerResponse, PublishPlatform, PublishRecord, AppSettings } from '@/lib/types'
+import { sanitizeManagerResponse } from '@/lib/agentData'
+import { extractAgentPayload } from '@/lib/agentExtraction'
+import { getDedupEntries, saveScan, updateScanDrafts, type ScanRecord } from '@/lib/scanHistory'
+import { buildDedupIndex, dedupScan, dedupStatusOf, itemKey, type DedupEntry, type DedupMatch, type DedupReport } from '@/lib/dedup'
+import { US_TIMEZONES } from '@/lib/publishQueue'
+import { applyContentFilters, type FilterDrop } from '@/lib/contentFilter'
+import { splitThread } from '@/lib/tweetText'
+import { checkDraftPlatforms, describeOverLimit, draftPlatforms, getPublisher, type PlatformPostResult } from '@/lib/publishers'
+import { postToPlatform, resetThreadProgress, usePlatformStatus } from '@/lib/platformPublishClient'
+import { findDraftSource, regenerateDraft } from '@/lib/draftRewrite'
+import { appendVersion, seedVersions, type DraftVersion, type DraftVersionMap, type VersionAction, type VersionAuthor } from '@/lib/draftVersions'
+import { buildManagerScanMessage, fetchDirectSources, runOrchestratedScan, type OrchestrationStage, type StageStatus } from '@/lib/orchestrator'
+import { countViolations, validatePayload, type SchemaReport } from '@/lib/schemaValidation'
+import { DEFAULT_SOURCE_LABELS, SOURCE_ADAPTERS, SOURCE_LABELS, describeSourceCounts, sourceTotals } from '@/lib/sources'
+import { ScanHistory } from '@/components/ScanHistory'
+import { ScanSchedules } from '@/components/ScanSchedules'
+import { FeedSettings } from '@/components/FeedSettings'
+import { PublishPolicySettings } from '@/components/PublishPolicySettings'
+import { EngagementAnalytics } from '@/components/EngagementAnalytics'
+import { ThreadDraftEditor } from '@/components/ThreadDraftEditor'
+import { PublishSchedule } from '@/components/PublishSchedule'
+import { DraftVersionHistory } from '@/components/DraftVersionHistory'
+import { SourceResults } from '@/components/SourceResults'
+import { SchemaReportPanel, SchemaStatusBadge } from '@/components/SchemaReportPanel'
+import { PublishTargets, ThreadProgressDots } from '@/components/PublishTargets'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -18,8 +44,7 @@ import {
   HiOutlineNewspaper, HiOutlineBeaker, HiOutlineAdjustmentsHorizontal,
   HiOutlineRocketLaunch, HiOutlineArrowPath, HiOutlineCheck,
   HiOutlineExclamationTriangle, HiOutlineXMark, HiOutlineLink,
-  HiOutlineChatBubbleLeftRight, HiOutlineClipboardDocument,
-  HiOutlineArrowTopRightOnSquare, HiOutlineFunnel,
+  HiOutlineClipboardDocument, HiOutlineFunnel,
   HiOutlineEye, HiOutlineChartBarSquare, HiOutlineCog6Tooth,
   HiOutlineDocumentText, HiOutlineBookOpen, HiOutlineGlobeAlt,
   HiOutlineCpuChip,
@@ -27,6 +52,7 @@ import {
   HiOutlineInformationCircle
 } from 'react-icons/hi2'
 import { FaXTwitter } from 'react-icons/fa6'
+import { BarChart3, History, RefreshCw, Wand2, CalendarClock } from 'lucide-react'
 
 // --- Agent IDs ---
 const MANAGER_AGENT_ID = '69995e040ab3a50ca24853ef'
@@ -35,170 +61,25 @@ const ARXIV_AGENT_ID = '69995ddf746ef9435cac7e0e'
 const CLASSIFIER_AGENT_ID = '69995d8abdf6b4ca4c1bedf7'
 const TWITTER_AGENT_ID = '69995e05746ef9435cac7e1d'
 
-// --- Interfaces ---
-interface HNStory {
-  title: string
-  url: string
-  hn_score: number
-  comments_count: number
-  category: string
-  relevance_score: number
-  summary: string
-  source_type: string
-}
-
-interface ArxivPaper {
-  title: string
-  authors: string
-  abstract_summary: string
-  arxiv_link: string
-  category: string
-  relevance_score: number
-  novelty_score: number
-  applicability_score: number
-}
-
-interface ThreadDraft {
-  id: string
-  title: string
-  classification: string
-  thread_content: string
-  hashtags: string
-  hook: string
-  requires_review: boolean
-  review_reason: string
-  source_url: string
-  relevance_score: number
-}
-
-interface ManagerResponse {
-  pipeline_status: string
-  hn_results: {
-    stories: HNStory[]
-    total_fetched: number
-    total_filtered: number
-  }
-  arxiv_results: {
-    papers: ArxivPaper[]
-    total_fetched: number
-    total_filtered: number
-  }
-  thread_drafts: ThreadDraft[]
-  total_drafts: number
-  auto_approved: number
-  flagged_for_review: number
-  scan_timestamp: string
-}
-
-interface TwitterResponse {
-  post_status: string
-  tweet_url: string
-  posted_content: string
-  timestamp: string
-  error_message: string
-}
-
-interface PublishRecord {
-  draftId: string
-  title: string
-  status: 'pending' | 'posting' | 'success' | 'failed'
-  tweetUrl: string
-  timestamp: string
-  errorMessage: string
-}
-
-interface AppSettings {
-  relevanceThreshold: number
-  categories: string[]
-  sources: string[]
-  autoApproveThreshold: number
-  maxThreadsPerScan: number
-  threadStyle: string
-  blockedDomains: string
-}
+const SCAN_CATEGORIES = ['AI/ML', 'Cybersecurity', 'Startups', 'Developer Tools', 'Research']
 
 const DEFAULT_SETTINGS: AppSettings = {
   relevanceThreshold: 50,
-  categories: ['AI/ML', 'Cybersecurity', 'Startups', 'Developer Tools', 'Research'],
-  sources: ['HN Top', 'HN New', 'Ask HN', 'Show HN', 'HN Jobs', 'arXiv'],
+  categories: SCAN_CATEGORIES,
+  sources: DEFAULT_SOURCE_LABELS,
   autoApproveThreshold: 75,
   maxThreadsPerScan: 10,
   threadStyle: 'Professional',
-  blockedDomains: ''
+  blockedDomains: '',
+  githubWatchlist: '',
+  scanMode: 'manager',
+  publishTimezone: 'America/New_York',
+  publishWindowStart: 9,
+  publishWindowEnd: 21,
+  publishSpacingMinutes: 90
 }
 
-// --- Deep Response Extractor ---
-// The Lyzr API normalizes responses through multiple layers.
-// result.response is a NormalizedAgentResponse with { status, result, message }.
-// The actual schema data can be at:
-//   1) result.response.result directly (ideal)
-//   2) result.response.result wrapped in another { result: ... }
-//   3) result.response.result as stringified JSON in a text/message field
-//   4) result.response itself if normalizeResponse flattened it
-//   5) result.raw_response as a string containing JSON
-// This function walks every possibility and returns the first valid match.
-function extractAgentData<T>(result: any, validatorKey: string): T | null {
-  if (!result) return null
-
-  // Helper: check if obj has the expected key (e.g., "pipeline_status" for Manager, "post_status" for Twitter)
-  const isMatch = (obj: any): boolean => {
-    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false
-    return validatorKey in obj
-  }
-
-  // Helper: try to parse a string as JSON
-  const tryParse = (str: any): any => {
-    if (typeof str !== 'string') return null
-    try { return JSON.parse(str) } catch { return null }
-  }
-
-  // Helper: recursively search for the schema within an object (max depth 6)
-  const deepSearch = (obj: any, depth: number = 0): any => {
-    if (depth > 6 || !obj) return null
-    if (typeof obj === 'string') {
-      const parsed = tryParse(obj)
-      if (parsed && isMatch(parsed)) return parsed
-      if (parsed) return deepSearch(parsed, depth + 1)
-      return null
-    }
-    if (typeof obj !== 'object') return null
-    if (isMatch(obj)) return obj
-
-    // Check known wrapper keys
-    const wrapperKeys = ['result', 'response', 'data', 'output', 'content', 'message', 'text', 'raw_response']
-    for (const key of wrapperKeys) {
-      if (obj[key] != null) {
-        const found = deepSearch(obj[key], depth + 1)
-        if (found) return found
-      }
-    }
-    return null
-  }
-
-  // Path 1: Direct from result.response.result
-  const directResult = result?.response?.result
-  if (isMatch(directResult)) return directResult as T
-
-  // Path 2: Search deeper inside result.response.result
-  const deepInResult = deepSearch(directResult, 0)
-  if (deepInResult) return deepInResult as T
-
-  // Path 3: Search in result.response itself
-  const fromResponse = deepSearch(result?.response, 0)
-  if (fromResponse) return fromResponse as T
-
-  // Path 4: Search in raw_response
-  if (result?.raw_response) {
-    const fromRaw = deepSearch(result.raw_response, 0)
-    if (fromRaw) return fromRaw as T
-  }
-
-  // Path 5: Search the entire result object
-  const fromTopLevel = deepSearch(result, 0)
-  if (fromTopLevel) return fromTopLevel as T
-
-  return null
-}
+const INITIAL_STAGES: Record<OrchestrationStage, StageStatus> = { hn: 'pending', arxiv: 'pending', classify: 'pending' }
 
 // --- Sample Data ---
 const SAMPLE_MANAGER_RESPONSE: ManagerResponse = {
@@ -271,49 +152,27 @@ function renderMarkdown(text: string) {
   )
 }
 
-// --- Category Color Map ---
-function getCategoryColor(category: string): string {
-  const c = (category ?? '').toLowerCase()
-  if (c.includes('ai') || c.includes('ml')) return 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
-  if (c.includes('cyber') || c.includes('security')) return 'bg-rose-500/20 text-rose-400 border-rose-500/30'
-  if (c.includes('startup')) return 'bg-amber-500/20 text-amber-400 border-amber-500/30'
-  if (c.includes('developer') || c.includes('tool')) return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
-  if (c.includes('research')) return 'bg-purple-500/20 text-purple-400 border-purple-500/30'
-  return 'bg-slate-500/20 text-slate-400 border-slate-500/30'
-}
-
+// --- Classification Color Map ---
 function getClassificationColor(classification: string): string {
   const c = (classification ?? '').toUpperCase()
   if (c.includes('TECH DEEP DIVE')) return 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
   if (c.includes('JOB')) return 'bg-amber-500/20 text-amber-400 border-amber-500/30'
   if (c.includes('RESEARCH')) return 'bg-purple-500/20 text-purple-400 border-purple-500/30'
+  if (c.includes('TOOL LAUNCH')) return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
   return 'bg-slate-500/20 text-slate-400 border-slate-500/30'
 }
 
-function getSourceBadgeColor(source: string): string {
-  const s = (source ?? '').toLowerCase()
-  if (s === 'top') return 'bg-emerald-500/20 text-emerald-400'
-  if (s === 'new') return 'bg-cyan-500/20 text-cyan-400'
-  if (s.includes('ask')) return 'bg-amber-500/20 text-amber-400'
-  if (s.includes('show')) return 'bg-purple-500/20 text-purple-400'
-  if (s.includes('job')) return 'bg-rose-500/20 text-rose-400'
-  return 'bg-slate-500/20 text-slate-400'
-}
-
-// --- Score Bar Component ---
-function ScoreBar({ value, max, label, color }: { value: number; max: number; label: string; color: string }) {
-  const pct = Math.min(100, Math.max(0, (value / max) * 100))
-  return (
-    <div className="space-y-1">
-      <div className="flex justify-between text-xs">
-        <span className="text-slate-400">{label}</span>
-        <span className="text-slate-300">{value}</span>
-      </div>
-      <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
-        <div className={`h-full rounded-full ${color}`} style={{ width: `${pct}%` }} />
-      </div>
-    </div>
-  )
+// --- Dedup Badge ---
+function DedupBadge({ match }: { match: DedupMatch }) {
+  if (match.status === 'new') {
+    return <Badge className="bg-emerald-500/15 text-emerald-400 border-none text-xs w-fit">New</Badge>
+  }
+  const when = match.match?.at ? new Date(match.match.at).toLocaleDateString() : ''
+  const hint = `Matched by ${match.via === 'url' ? 'URL' : 'similar title'}${match.match?.title ? ` — "${match.match.title}"` : ''}${when ? ` (${when})` : ''}`
+  if (match.status === 'posted') {
+    return <Badge title={hint} className="bg-amber-500/20 text-amber-400 border-none text-xs w-fit">Already posted</Badge>
+  }
+  return <Badge title={hint} className="bg-slate-700/60 text-slate-300 border-none text-xs w-fit">Seen</Badge>
 }
 
 // --- Stat Card ---
@@ -334,13 +193,13 @@ function StatCard({ icon, label, value, accent }: { icon: React.ReactNode; label
 }
 
 // --- Pipeline Step ---
-function PipelineStep({ step, label, isActive, isDone }: { step: number; label: string; isActive: boolean; isDone: boolean }) {
+function PipelineStep({ step, label, isActive, isDone, isFailed = false }: { step: number; label: string; isActive: boolean; isDone: boolean; isFailed?: boolean }) {
   return (
     <div className="flex items-center gap-2">
-      <div className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-300 ${isDone ? 'bg-emerald-500 text-white' : isActive ? 'bg-cyan-500 text-white animate-pulse' : 'bg-slate-700 text-slate-400'}`}>
-        {isDone ? <HiOutlineCheck className="w-4 h-4" /> : step}
+      <div className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold transition-all duration-300 ${isFailed ? 'bg-rose-500 text-white' : isDone ? 'bg-emerald-500 text-white' : isActive ? 'bg-cyan-500 text-white animate-pulse' : 'bg-slate-700 text-slate-400'}`}>
+        {isFailed ? <HiOutlineXMark className="w-4 h-4" /> : isDone ? <HiOutlineCheck className="w-4 h-4" /> : step}
       </div>
-      <span className={`text-xs transition-all duration-200 ${isDone ? 'text-emerald-400' : isActive ? 'text-cyan-400' : 'text-slate-500'}`}>
+      <span className={`text-xs transition-all duration-200 ${isFailed ? 'text-rose-400' : isDone ? 'text-emerald-400' : isActive ? 'text-cyan-400' : 'text-slate-500'}`}>
         {label}
       </span>
     </div>
@@ -350,7 +209,7 @@ function PipelineStep({ step, label, isActive, isDone }: { step: number; label:
 // --- Thread Tweet Display ---
 function ThreadTweetDisplay({ content }: { content: string }) {
   if (!content) return null
-  const tweets = content.split('---').map(t => t.trim()).filter(Boolean)
+  const tweets = splitThread(content)
   return (
     <div className="space-y-2">
       {tweets.map((tweet, i) => (
@@ -366,7 +225,7 @@ function ThreadTweetDisplay({ content }: { content: string }) {
 }
 
 // --- Agent Status Panel ---
-function AgentStatusPanel({ activeAgentId }: { activeAgentId: string | null }) {
+function AgentStatusPanel({ activeAgentIds }: { activeAgentIds: Set<string> }) {
   const agents = [
     { id: MANAGER_AGENT_ID, name: 'Trend Intelligence Manager', desc: 'Orchestrates pipeline' },
     { id: HN_AGENT_ID, name: 'HN Data Agent', desc: 'Fetches Hacker News' },
@@ -386,8 +245,8 @@ function AgentStatusPanel({ activeAgentId }: { activeAgentId: string | null }) {
       <CardContent className="space-y-1.5 pt-0">
         {agents.map(agent => (
           <div key={agent.id} className="flex items-center gap-2 py-1">
-            <div className={`w-2 h-2 rounded-full transition-all duration-300 ${activeAgentId === agent.id ? 'bg-cyan-400 animate-pulse' : 'bg-slate-600'}`} />
-            <span className={`text-xs transition-all duration-200 ${activeAgentId === agent.id ? 'text-cyan-400 font-medium' : 'text-slate-400'}`}>
+            <div className={`w-2 h-2 rounded-full transition-all duration-300 ${activeAgentIds.has(agent.id) ? 'bg-cyan-400 animate-pulse' : 'bg-slate-600'}`} />
+            <span className={`text-xs transition-all duration-200 ${activeAgentIds.has(agent.id) ? 'text-cyan-400 font-medium' : 'text-slate-400'}`}>
               {agent.name}
             </span>
             <span className="text-xs text-slate-600 ml-auto">{agent.desc}</span>
@@ -437,10 +296,11 @@ export default function Page() {
 
   // --- Scan State ---
   const [scanStatus, setScanStatus] = useState<'idle' | 'scanning' | 'completed' | 'failed'>('idle')
-  const [scanStep, setScanStep] = useState(0)
   const [scanData, setScanData] = useState<ManagerResponse | null>(null)
   const [scanError, setScanError] = useState<string | null>(null)
-  const [activeAgentId, setActiveAgentId] = useState<string | null>(null)
+  const [activeAgentIds, setActiveAgentIds] = useState<Set<string>>(new Set())
+  const [stageStatus, setStageStatus] = useState<Record<OrchestrationStage, StageStatus>>(INITIAL_STAGES)
+  const { callAgent: callManagerStream, status: managerStatus, elapsedMs: managerElapsedMs, taskId: managerTaskId } = useAIAgentStream()
 
   // --- Sample Data Toggle ---
   const [showSample, setShowSample] = useState(false)
@@ -449,12 +309,22 @@ export default function Page() {
   const [approvedDraftIds, setApprovedDraftIds] = useState<Set<string>>(new Set())
   const [selectedDraftIds, setSelectedDraftIds] = useState<Set<string>>(new Set())
   const [expandedDraftIds, setExpandedDraftIds] = useState<Set<string>>(new Set())
+  const [editingDraftIds, setEditingDraftIds] = useState<Set<string>>(new Set())
+  const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set())
+  const [rewriteDraftId, setRewriteDraftId] = useState<string | null>(null)
+  const [rewriteInstruction, setRewriteInstruction] = useState('')
+  const [draftVersions, setDraftVersions] = useState<DraftVersionMap>({})
+  // Archived scan the drafts on screen belong to; edits and versions are written back to it
+  const [archivedScanId, setArchivedScanId] = useState<string | null>(null)
+  const [draftsDirty, setDraftsDirty] = useState(false)
+  const [versionViewDraftId, setVersionViewDraftId] = useState<string | null>(null)
   const [classFilter, setClassFilter] = useState('All')
   const [reviewFilter, setReviewFilter] = useState('All')
 
   // --- Publisher State ---
   const [publishHistory, setPublishHistory] = useState<PublishRecord[]>([])
   const [publishingIds, setPublishingIds] = useState<Set<string>>(new Set())
+  const platformStatus = usePlatformStatus()
 
   // --- Settings ---
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
@@ -465,8 +335,20 @@ export default function Page() {
 
   // --- Debug State ---
   const [lastRawResponse, setLastRawResponse] = useState<string | null>(null)
+  const [schemaReports, setSchemaReports] = useState<SchemaReport[]>([])
   const [showDebug, setShowDebug] = useState(false)
 
+  // --- Content Filter State ---
+  const [filterReport, setFilterReport] = useState<FilterDrop[]>([])
+  const [showFilterReport, setShowFilterReport] = useState(false)
+
+  // --- Dedup State ---
+  const [dedupReport, setDedupReport] = useState<DedupReport>({})
+  const [hidePosted, setHidePosted] = useState(false)
+
+  // --- Scan History State ---
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0)
+
   // Load settings from localStorage
   useEffect(() => {
     try {
@@ -482,12 +364,11 @@ export default function Page() {
 
   // Derive data based on sample toggle
   const data = showSample ? SAMPLE_MANAGER_RESPONSE : scanData
-  const stories = Array.isArray(data?.hn_results?.stories) ? data.hn_results.stories : []
-  const papers = Array.isArray(data?.arxiv_results?.papers) ? data.arxiv_results.papers : []
   const drafts = Array.isArray(data?.thread_drafts) ? data.thread_drafts : []
 
-  const totalScanned = (data?.hn_results?.total_fetched ?? 0) + (data?.arxiv_results?.total_fetched ?? 0)
-  const highSignal = (data?.hn_results?.total_filtered ?? 0) + (data?.arxiv_results?.total_filtered ?? 0)
+  const totals = sourceTotals(data)
+  const totalScanned = totals.fetched
+  const highSignal = totals.filtered
   const totalDrafts = data?.total_drafts ?? 0
   const flaggedForReview = data?.flagged_for_review ?? 0
 
@@ -498,35 +379,135 @@ export default function Page() {
       if (classFilter === 'Tech Deep Dive' && !upper.includes('TECH DEEP DIVE')) return false
       if (classFilter === 'Job Post' && !upper.includes('JOB')) return false
       if (classFilter === 'Research Summary' && !upper.includes('RESEARCH')) return false
+      if (classFilter === 'Tool Launch' && !upper.includes('TOOL LAUNCH')) return false
     }
     if (reviewFilter === 'Auto-Approved' && d?.requires_review) return false
     if (reviewFilter === 'Needs Review' && !d?.requires_review) return false
+    if (hidePosted && dedupStatusOf(dedupReport, 'draft', d?.source_url ?? '', d?.title ?? '').status === 'posted') return false
     return true
   })
 
   // Approved drafts for publisher
   const approvedDrafts = drafts.filter(d => approvedDraftIds.has(d?.id ?? ''))
 
+  // --- Cross-Scan Dedup ---
+  // Compare a scan against archived scans, queue publishes and this session's publishes
+  const loadDedupReport = useCallback(async (response: ManagerResponse, excludeScanId?: string): Promise<DedupReport> => {
+    const result = await getDedupEntries(excludeScanId)
+    const sessionPosted: DedupEntry[] = publishHistory
+      .filter(p => p.status === 'success')
+      .map(p => ({ kind: 'draft', url: p.sourceUrl ?? '', title: p.title, status: 'posted', origin_id: p.draftId, at: p.timestamp }))
+    const report = dedupScan(response, buildDedupIndex([...sessionPosted, ...result.entries]))
+    setDedupReport(report)
+    return report
+  }, [publishHistory])
+
+  // --- Apply Completed Scan ---
+  const applyScanResult = useCallback(async (sanitized: ManagerResponse, rawResponse: unknown, schemaReport: SchemaReport[] = []) => {
+    setSchemaReports(schemaReport)
+    // Enforce blocked domains, categories and sources regardless of what the agent honoured
+    const { response: filtered, dropped } = applyContentFilters(sanitized, settings)
+    setScanData(filtered)
+    setFilterReport(dropped)
+    const versions = seedVersions(filtered.thread_drafts)
+    setDraftVersions(versions)
+    setArchivedScanId(null)
+    setDraftsDirty(false)
+    setVersionViewDraftId(null)
+    setScanStatus('completed')
+
+    // Must run before the scan is archived, or it would match itself
+    const report = await loadDedupReport(filtered)
+
+    // Auto-approve drafts that meet threshold and were not already posted
+    const autoApproved = new Set<string>()
+    filtered.thread_drafts.forEach(d => {
+      const posted = dedupStatusOf(report, 'draft', d.source_url, d.title).status === 'posted'
+      if (!d.requires_review && !posted && d.relevance_score >= settings.autoApproveThreshold && checkDraftPlatforms(d).valid) {
+        autoApproved.add(d.id)
+      }
+    })
+    setApprovedDraftIds(autoApproved)
+
+    // Archive the scan with the settings that produced it
+    const saved = await saveScan({ response: filtered, settings, raw_response: rawResponse, filter_report: dropped, schema_report: schemaReport, draft_versions: versions })
+    if (saved.success) {
+      setArchivedScanId(saved.scan?.id ?? null)
+      setHistoryRefreshKey(k => k + 1)
+    }
+  }, [settings, loadDedupReport])
+
+  // --- Orchestrated Scan (HN + arXiv agents in parallel, then Classifier) ---
+  const runOrchestrated = useCallback(async () => {
+    setStageStatus(INITIAL_STAGES)
+
+    const outcome = await runOrchestratedScan({
+      agentIds: { hn: HN_AGENT_ID, arxiv: ARXIV_AGENT_ID, classifier: CLASSIFIER_AGENT_ID },
+      settings,
+      onStage: (stage, status, agentId) => {
+        setStageStatus(prev => ({ ...prev, [stage]: status }))
+        setActiveAgentIds(prev => {
+          const next = new Set(prev)
+          if (status === 'active') next.add(agentId)
+          else next.delete(agentId)
+          return next
+        })
+      },
+    })
+
+    // Capture raw responses for debug inspection
+    try {
+      setLastRawResponse(JSON.stringify(outcome.raw, null, 2).slice(0, 5000))
+    } catch {
+      setLastRawResponse('Could not serialize response')
+    }
+
+    const failures = Object.entries(outcome.errors).map(([stage, err]) => `${stage}: ${err}`)
+
+    if (!outcome.response) {
+      setSchemaReports(outcome.validation)
+      setScanStatus('failed')
+      setScanError(failures.length > 0 ? failures.join(' | ') : 'No sources selected in Settings')
+      setStatusMessage({ type: 'error', text: 'Scan failed: no source agent returned any items.' })
+      return
+    }
+
+    await applyScanResult(outcome.response, outcome.raw, outcome.validation)
+    const summary = `${outcome.response.total_drafts} thread drafts from ${describeSourceCounts(outcome.response)}`
+    if (failures.length > 0) {
+      setScanError(failures.join(' | '))
+      setStatusMessage({ type: 'error', text: `Partial scan: ${summary}. Failed stages: ${Object.keys(outcome.errors).join(', ')}.` })
+    } else {
+      setStatusMessage({ type: 'success', text: `Scan complete! Found ${summary}.` })
+    }
+  }, [settings, applyScanResult])
+
   // --- Scan Handler ---
   const runScan = useCallback(async () => {
     setScanStatus('scanning')
-    setScanStep(1)
     setScanError(null)
+    setSchemaReports([])
     setStatusMessage({ type: 'info', text: 'Intelligence scan in progress...' })
-    setActiveAgentId(MANAGER_AGENT_ID)
 
-    // Simulate step progression
-    const stepTimer1 = setTimeout(() => setScanStep(2), 3000)
-    const stepTimer2 = setTimeout(() => setScanStep(3), 8000)
-    const stepTimer3 = setTimeout(() => setScanStep(4), 15000)
+    if (settings.scanMode === 'orchestrated') {
+      try {
+        await runOrchestrated()
+      } catch (err) {
+        setScanStatus('failed')
+        const msg = err instanceof Error ? err.message : 'Network error'
+        setScanError(msg)
+        setStatusMessage({ type: 'error', text: `Scan failed: ${msg}` })
+      }
+      setActiveAgentIds(new Set())
+      return
+    }
+
+    setActiveAgentIds(new Set([MANAGER_AGENT_ID]))
 
     try {
-      const message = `Run a comprehensive intelligence scan of Hacker News and arXiv for trending AI, cybersecurity, startups, and breakthrough innovation content. Fetch, filter, score, classify, and generate Twitter thread drafts for all high-signal items. Relevance threshold: ${settings.relevanceThreshold}. Max threads: ${settings.maxThreadsPerScan}. Style: ${settings.threadStyle}.`
-      const result = await callAIAgent(message, MANAGER_AGENT_ID)
-
-      clearTimeout(stepTimer1)
-      clearTimeout(stepTimer2)
-      clearTimeout(stepTimer3)
+      // The Manager only returns HN and arXiv; feeds and other agent-less sources are fetched alongside
+      const directSources = fetchDirectSources(settings)
+      const result = await callManagerStream(buildManagerScanMessage(settings), MANAGER_AGENT_ID)
 
       // Capture raw response for debug inspection
       try {
@@ -537,53 +518,20 @@ export default function Page() {
 
       if (result.success) {
         // Use deep extractor to find the Manager response schema regardless of nesting
-        const responseData = extractAgentData<ManagerResponse>(result, 'pipeline_status')
+        const extracted = extractAgentPayload<ManagerResponse>(result, 'pipeline_status')
+        const responseData = extracted?.data
 
         if (responseData && (Array.isArray(responseData.thread_drafts) || responseData.hn_results || responseData.arxiv_results)) {
-          // Ensure arrays are properly typed even if the agent returned partial data
-          const sanitized: ManagerResponse = {
-            pipeline_status: responseData.pipeline_status ?? 'completed',
-            hn_results: {
-              stories: Array.isArray(responseData.hn_results?.stories) ? responseData.hn_results.stories : [],
-              total_fetched: responseData.hn_results?.total_fetched ?? 0,
-              total_filtered: responseData.hn_results?.total_filtered ?? 0,
-            },
-            arxiv_results: {
-              papers: Array.isArray(responseData.arxiv_results?.papers) ? responseData.arxiv_results.papers : [],
-              total_fetched: responseData.arxiv_results?.total_fetched ?? 0,
-              total_filtered: responseData.arxiv_results?.total_filtered ?? 0,
-            },
-            thread_drafts: Array.isArray(responseData.thread_drafts) ? responseData.thread_drafts.map((d: any, idx: number) => ({
-              id: d?.id ?? `draft-${idx + 1}`,
-              title: d?.title ?? 'Untitled',
-              classification: d?.classification ?? 'TECH DEEP DIVE',
-              thread_content: d?.thread_content ?? '',
-              hashtags: d?.hashtags ?? '',
-              hook: d?.hook ?? '',
-              requires_review: d?.requires_review === true,
-              review_reason: d?.review_reason ?? '',
-              source_url: d?.source_url ?? '',
-              relevance_score: typeof d?.relevance_score === 'number' ? d.relevance_score : 50,
-            })) : [],
-            total_drafts: responseData.total_drafts ?? (Array.isArray(responseData.thread_drafts) ? responseData.thread_drafts.length : 0),
-            auto_approved: responseData.auto_approved ?? 0,
-            flagged_for_review: responseData.flagged_for_review ?? 0,
-            scan_timestamp: responseData.scan_timestamp ?? new Date().toISOString(),
+          // Checked before sanitizing, which would paper over missing fields
+          const schemaReport = validatePayload('Manager', 'manager', responseData, { extractedFrom: extracted.path })
+          let sanitized = sanitizeManagerResponse(responseData)
+          const direct = await directSources
+          for (const { adapter, results } of direct.sources) {
+            sanitized = adapter.write(sanitized, results)
           }
 
-          setScanData(sanitized)
-          setScanStatus('completed')
-          setScanStep(5)
-          setStatusMessage({ type: 'success', text: `Scan complete! Found ${sanitized.total_drafts} thread drafts from ${sanitized.hn_results.stories.length} HN stories and ${sanitized.arxiv_results.papers.length} arXiv papers.` })
-
-          // Auto-approve drafts that meet threshold
-          const autoApproved = new Set<string>()
-          sanitized.thread_drafts.forEach(d => {
-            if (!d.requires_review && d.relevance_score >= settings.autoApproveThreshold) {
-              autoApproved.add(d.id)
-            }
-          })
-          setApprovedDraftIds(autoApproved)
+          setStatusMessage({ type: 'success', text: `Scan complete! Found ${sanitized.total_drafts} thread drafts from ${describeSourceCounts(sanitized)}.` })
+          await applyScanResult(sanitized, result, [schemaReport])
         } else {
           // result.success was true but we could not find schema data - try to surface what we got
           const rawText = typeof result?.response?.message === 'string' ? result.response.message
@@ -600,81 +548,263 @@ export default function Page() {
         setStatusMessage({ type: 'error', text: `Scan failed: ${result?.error ?? result?.response?.message ?? 'Unknown error'}` })
       }
     } catch (err) {
-      clearTimeout(stepTimer1)
-      clearTimeout(stepTimer2)
-      clearTimeout(stepTimer3)
       setScanStatus('failed')
       const msg = err instanceof Error ? err.message : 'Network error'
       setScanError(msg)
       setStatusMessage({ type: 'error', text: `Scan failed: ${msg}` })
     }
-    setActiveAgentId(null)
-  }, [settings.relevanceThreshold, settings.maxThreadsPerScan, settings.threadStyle, settings.autoApproveThreshold])
+    setActiveAgentIds(new Set())
+  }, [settings, runOrchestrated, applyScanResult, callManagerStream])
+
+  // --- Open Archived Scan ---
+  const openArchivedScan = useCallback((record: ScanRecord) => {
+    setShowSample(false)
+    setScanData(record.response)
+    setScanStatus('completed')
+    setScanError(null)
+    setApprovedDraftIds(new Set())
+    setSelectedDraftIds(new Set())
+    setLastRawResponse((record.raw_response ?? '').slice(0, 5000))
+    setFilterReport(Array.isArray(record.filter_report) ? record.filter_report : [])
+    setSchemaReports(Array.isArray(record.schema_report) ? record.schema_report : [])
+    // Scans archived before versions were saved with them start over from their drafts
+    setDraftVersions(record.draft_versions && Object.keys(record.draft_versions).length > 0
+      ? record.draft_versions
+      : seedVersions(record.response?.thread_drafts ?? []))
+    setArchivedScanId(record.id)
+    setDraftsDirty(false)
+    setVersionViewDraftId(null)
+    setDedupReport({})
+    loadDedupReport(record.response, record.id)
+    setStatusMessage({ type: 'info', text: `Loaded archived scan from ${record.response?.scan_timestamp ?? record.saved_at}.` })
+  }, [loadDedupReport])
+
+  // --- Open Scheduled Scan Output ---
+  const openScheduledOutput = useCallback(async (output: string) => {
+    const extracted = extractAgentPayload<ManagerResponse>(output, 'pipeline_status')
+    if (!extracted) {
+      setStatusMessage({ type: 'error', text: 'That run did not return structured pipeline results.' })
+      return
+    }
+    setShowSample(false)
+    setScanError(null)
+    setLastRawResponse(output.slice(0, 5000))
+    const schemaReport = validatePayload('Manager (scheduled)', 'manager', extracted.data, { extractedFrom: extracted.path })
+    const sanitized = sanitizeManagerResponse(extracted.data)
+    await applyScanResult(sanitized, output, [schemaReport])
+    setStatusMessage({ type: 'success', text: `Loaded scheduled scan with ${sanitized.total_drafts} thread drafts.` })
+  }, [applyScanResult])
+
+  // --- Update Draft (inline editor) ---
+  // `before` is passed when the text may have changed
+  const updateDraft = useCallback((updated: ThreadDraft, before?: ThreadDraft) => {
+    setScanData(prev => prev ? {
+      ...prev,
+      thread_drafts: prev.thread_drafts.map(d => d.id === updated.id ? updated : d),
+    } : prev)
+    setDraftsDirty(true)
+
+    // New text can't resume a thread that went out with the old one — its next post starts from the top
+    if (before && (before.thread_content !== updated.thread_content || before.hashtags !== updated.hashtags)) {
+      resetThreadProgress(updated.id).then(result => {
+        if (!result.success) {
+          setStatusMessage({ type: 'error', text: `Posting progress was not reset for the edited draft: ${result.error ?? 'Unknown error'}` })
+          return
+        }
+        setPublishHistory(prev => prev.filter(p => p.draftId !== updated.id || p.status === 'success'))
+      })
+    }
 
-  // --- Publish Handler ---
-  const publishThread = useCallback(async (draft: ThreadDraft) => {
+    // An edit (or a new platform) that pushes a post over its limit revokes approval
+    if (!checkDraftPlatforms(updated).valid) {
+      setApprovedDraftIds(prev => {
+        if (!prev.has(updated.id)) return prev
+        const next = new Set(prev)
+        next.delete(updated.id)
+        return next
+      })
+    }
+  }, [])
+
+  // --- Write Draft Changes Back to the Archived Scan ---
+  useEffect(() => {
+    if (!draftsDirty || !archivedScanId || !scanData) return
+    // Batches an edit and the version recorded with it into one write
+    const timer = setTimeout(async () => {
+      setDraftsDirty(false)
+      const result = await updateScanDrafts(archivedScanId, scanData.thread_drafts, draftVersions)
+      if (!result.success) {
+        setStatusMessage({ type: 'error', text: `Draft changes were not saved to the scan archive: ${result.error ?? 'Unknown error'}` })
+      }
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [draftsDirty, archivedScanId, scanData, draftVersions])
+
+  // --- Record Draft Version ---
+  const recordVersion = useCallback((before: ThreadDraft, after: ThreadDraft, author: VersionAuthor, action: VersionAction, note: string = '') => {
+    setDraftVersions(prev => {
+      // Drafts loaded without a seed still get their original kept as v1
+      const seeded = prev[before.id]?.length ? prev : appendVersion(prev, before, 'agent', 'scan')
+      return appendVersion(seeded, after, author, action, note)
+    })
+  }, [])
+
+  // --- Regenerate Draft (Classifier agent) ---
+  const regenerateThread = useCallback(async (draft: ThreadDraft, instruction: string) => {
     const draftId = draft?.id ?? ''
     if (!draftId) return
 
-    setPublishingIds(prev => new Set(prev).add(draftId))
-    setPublishHistory(prev => [
-      ...prev.filter(p => p.draftId !== draftId),
-      { draftId, title: draft?.title ?? 'Untitled', status: 'posting', tweetUrl: '', timestamp: '', errorMessage: '' }
-    ])
-    setActiveAgentId(TWITTER_AGENT_ID)
+    setRegeneratingIds(prev => new Set(prev).add(draftId))
+    setActiveAgentIds(prev => new Set(prev).add(CLASSIFIER_AGENT_ID))
+    setStatusMessage({ type: 'info', text: `Regenerating "${draft?.title ?? 'Untitled'}"...` })
 
     try {
-      const message = `Post this Twitter thread:\n\n${draft?.thread_content ?? ''}\n\nHashtags: ${draft?.hashtags ?? ''}`
-      const result = await callAIAgent(message, TWITTER_AGENT_ID)
+      const outcome = await regenerateDraft({
+        agentId: CLASSIFIER_AGENT_ID,
+        draft,
+        source: findDraftSource(draft, scanData),
+        instruction,
+        settings,
+      })
 
-      if (result.success) {
-        // Use deep extractor to find Twitter response schema
-        const twitterData = extractAgentData<TwitterResponse>(result, 'post_status')
-
-        if (twitterData) {
-          const isSuccess = (twitterData.post_status ?? '').toLowerCase() === 'success'
-          setPublishHistory(prev => prev.map(p =>
-            p.draftId === draftId
-              ? { ...p, status: isSuccess ? 'success' as const : 'failed' as const, tweetUrl: twitterData.tweet_url ?? '', timestamp: twitterData.timestamp ?? new Date().toISOString(), errorMessage: twitterData.error_message ?? '' }
-              : p
-          ))
-          if (isSuccess) {
-            setStatusMessage({ type: 'success', text: `Thread "${draft?.title ?? 'Untitled'}" posted successfully!` })
-          } else {
-            setStatusMessage({ type: 'error', text: `Failed to post "${draft?.title ?? 'Untitled'}": ${twitterData.error_message || 'Agent reported failure'}` })
-          }
-        } else {
-          // Agent returned success but no structured Twitter response - check if the tool actually posted
-          // The Composio TWITTER tool may return confirmation in a text message
-          const msgText = result?.response?.message || result?.response?.result?.text || result?.response?.result?.message || ''
-          const looksSuccessful = typeof msgText === 'string' && (msgText.toLowerCase().includes('posted') || msgText.toLowerCase().includes('tweet') || msgText.toLowerCase().includes('success'))
-          setPublishHistory(prev => prev.map(p =>
-            p.draftId === draftId
-              ? { ...p, status: looksSuccessful ? 'success' as const : 'failed' as const, tweetUrl: '', timestamp: new Date().toISOString(), errorMessage: looksSuccessful ? '' : `Unstructured response: ${String(msgText).slice(0, 200)}` }
-              : p
-          ))
-          if (looksSuccessful) {
-            setStatusMessage({ type: 'success', text: `Thread "${draft?.title ?? 'Untitled'}" appears to have been posted. Check your Twitter account.` })
-          } else {
-            setStatusMessage({ type: 'error', text: `Post response unclear for "${draft?.title ?? 'Untitled'}". Check your Twitter account.` })
-          }
-        }
+      try {
+        setLastRawResponse(JSON.stringify(outcome.raw, null, 2).slice(0, 5000))
+      } catch {
+        setLastRawResponse('Could not serialize response')
+      }
+
+      if (outcome.draft) {
+        recordVersion(draft, outcome.draft, 'agent', instruction.trim() ? 'rewrite' : 'regenerate', instruction.trim())
+        updateDraft(outcome.draft, draft)
+        // New content needs a fresh review
+        setApprovedDraftIds(prev => {
+          if (!prev.has(draftId)) return prev
+          const next = new Set(prev)
+          next.delete(draftId)
+          return next
+        })
+        setRewriteDraftId(null)
+        setRewriteInstruction('')
+        setStatusMessage({ type: 'success', text: `"${outcome.draft.title}" regenerated. Previous version kept.` })
       } else {
-        setPublishHistory(prev => prev.map(p =>
-          p.draftId === draftId
-            ? { ...p, status: 'failed' as const, errorMessage: result?.error ?? result?.response?.message ?? 'Unknown error' }
-            : p
-        ))
-        setStatusMessage({ type: 'error', text: `Failed to post: ${result?.error ?? result?.response?.message ?? 'Unknown error'}` })
+        setStatusMessage({ type: 'error', text: `Regeneration failed: ${outcome.error ?? 'Unknown error'}` })
       }
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Network error'
+      setStatusMessage({ type: 'error', text: `Regeneration failed: ${err instanceof Error ? err.message : 'Network error'}` })
+    }
+
+    setRegeneratingIds(prev => {
+      const next = new Set(prev)
+      next.delete(draftId)
+      return next
+    })
+    setActiveAgentIds(prev => {
+      const next = new Set(prev)
+      next.delete(CLASSIFIER_AGENT_ID)
+      return next
+    })
+  }, [scanData, settings, updateDraft, recordVersion])
+
+  // --- Restore Draft Version ---
+  const restoreDraftVersion = useCallback((current: ThreadDraft, version: DraftVersion) => {
+    const restored = { ...version.snapshot, id: current.id }
+    recordVersion(current, restored, 'human', 'restore', `v${version.version}`)
+    updateDraft(restored, current)
+    // Restored content needs a fresh review
+    setApprovedDraftIds(prev => {
+      if (!prev.has(current.id)) return prev
+      const next = new Set(prev)
+      next.delete(current.id)
+      return next
+    })
+    setStatusMessage({ type: 'info', text: `Restored v${version.version} of "${restored.title}".` })
+  }, [updateDraft, recordVersion])
+
+  // --- Publish Handler ---
+  // Every platform posts through /api/publish, which resumes a part-posted thread; `restart` reposts from the top.
+  // Resolves to the earliest time the publishing policy allows a held platform, or null when nothing was held.
+  const publishThread = useCallback(async (draft: ThreadDraft, platforms: PublishPlatform[] = draftPlatforms(draft), restart = false): Promise<string | null> => {
+    const draftId = draft?.id ?? ''
+    if (!draftId || platforms.length === 0) return null
+    const title = draft?.title ?? 'Untitled'
+
+    // What the history showed before this attempt, restored for platforms the policy holds
+    const earlier = publishHistory.filter(p => p.draftId === draftId && platforms.includes(p.platform))
+    setPublishingIds(prev => new Set(prev).add(draftId))
+    setPublishHistory(prev => {
+      const previous = (platform: PublishPlatform) => prev.find(p => p.draftId === draftId && p.platform === platform)
+      return [
+        ...prev.filter(p => !(p.draftId === draftId && platforms.includes(p.platform))),
+        ...platforms.map(platform => ({
+          draftId, platform, title, sourceUrl: draft?.source_url ?? '', status: 'posting' as const, tweetUrl: '', timestamp: '', errorMessage: '',
+          posts: restart ? undefined : previous(platform)?.posts,
+        })),
+      ]
+    })
+
+    const posted: string[] = []
+    const failures: string[] = []
+    const held: string[] = []
+    let heldUntil: string | null = null
+    let unconfirmed = false
+    for (const platform of platforms) {
+      const label = getPublisher(platform)?.label ?? platform
+      if (platform === 'twitter') setActiveAgentIds(new Set([TWITTER_AGENT_ID]))
+      const response = await postToPlatform(platform, draft, { agentId: platform === 'twitter' ? TWITTER_AGENT_ID : undefined, restart })
+      setActiveAgentIds(new Set())
+      const outcome: PlatformPostResult = response.result ?? {
+        platform, status: 'failed', url: '', posts: [], resumed_from: null, held_until: null, timestamp: new Date().toISOString(), error_message: response.error ?? 'Unknown error', validation: null,
+      }
+
+      if (outcome.validation) {
+        setSchemaReports(prev => [...prev.filter(r => r.agent !== outcome.validation.agent), outcome.validation])
+      }
+      // Held by the publishing policy — nothing went out, so the history keeps its earlier row
+      if (outcome.held_until) {
+        const before = earlier.find(p => p.platform === platform)
+        setPublishHistory(prev => [
+          ...prev.filter(p => !(p.draftId === draftId && p.platform === platform)),
+          ...(before ? [before] : []),
+        ])
+        held.push(`${label} at ${new Date(outcome.held_until).toLocaleString()}`)
+        if (!heldUntil || outcome.held_until < heldUntil) heldUntil = outcome.held_until
+        failures.push(`${label}: ${outcome.error_message}`)
+        continue
+      }
       setPublishHistory(prev => prev.map(p =>
-        p.draftId === draftId
-          ? { ...p, status: 'failed' as const, errorMessage: msg }
+        p.draftId === draftId && p.platform === platform
+          ? { ...p, status: outcome.status, tweetUrl: outcome.url, timestamp: outcome.timestamp, errorMessage: outcome.error_message, posts: outcome.posts.length > 0 ? outcome.posts : p.posts }
           : p
       ))
-      setStatusMessage({ type: 'error', text: `Failed to post: ${msg}` })
+
+      if (outcome.status === 'success') {
+        posted.push(outcome.resumed_from ? `${label} (resumed from ${getPublisher(platform)?.postNoun} ${outcome.resumed_from})` : label)
+        const at = outcome.timestamp || new Date().toISOString()
+        setDedupReport(prev => ({
+          ...prev,
+          [itemKey('draft', draft?.source_url ?? '', title)]: {
+            status: 'posted',
+            match: { kind: 'draft', url: draft?.source_url ?? '', title, status: 'posted', origin_id: draftId, at },
+            via: 'url',
+          },
+        }))
+      } else {
+        if (outcome.status === 'unconfirmed') unconfirmed = true
+        failures.push(`${label}: ${outcome.error_message}`)
+      }
+    }
+
+    if (failures.length === 0) {
+      setStatusMessage({ type: 'success', text: `Thread "${title}" posted to ${posted.join(', ')}.` })
+    } else if (held.length === failures.length) {
+      setStatusMessage({
+        type: 'info',
+        text: `${posted.length > 0 ? `"${title}" posted to ${posted.join(', ')}. ` : ''}${failures.join('; ')}. Next slot: ${held.join(', ')}.`,
+      })
+    } else if (posted.length === 0) {
+      setStatusMessage({ type: 'error', text: `${unconfirmed ? 'Could not confirm' : 'Failed to post'} "${title}" — ${failures.join('; ')}` })
+    } else {
+      setStatusMessage({ type: 'error', text: `"${title}" posted to ${posted.join(', ')}, but failed on ${failures.join('; ')}` })
     }
 
     setPublishingIds(prev => {
@@ -682,15 +812,27 @@ export default function Page() {
       next.delete(draftId)
       return next
     })
-    setActiveAgentId(null)
-  }, [])
+    return heldUntil
+  }, [publishHistory])
 
   // --- Publish All Approved ---
+  // Platforms a draft already reached this session are skipped. The first draft the
+  // publishing policy holds ends the run, so the rest wait for the next slot rather than pile up.
   const publishAllApproved = useCallback(async () => {
-    for (const draft of approvedDrafts) {
-      const existing = publishHistory.find(p => p.draftId === (draft?.id ?? '') && p.status === 'success')
-      if (!existing) {
-        await publishThread(draft)
+    for (let i = 0; i < approvedDrafts.length; i++) {
+      const draft = approvedDrafts[i]
+      const pending = draftPlatforms(draft).filter(platform =>
+        !publishHistory.some(p => p.draftId === (draft?.id ?? '') && p.platform === platform && p.status === 'success')
+      )
+      if (pending.length === 0) continue
+      const heldUntil = await publishThread(draft, pending)
+      if (heldUntil) {
+        const left = approvedDrafts.length - i
+        setStatusMessage({
+          type: 'info',
+          text: `Publishing paused by the publishing policy — ${left} approved ${left === 1 ? 'draft' : 'drafts'} left. Next slot ${new Date(heldUntil).toLocaleString()}; schedule them from the Publisher tab to post automatically.`,
+        })
+        return
       }
     }
   }, [approvedDrafts, publishHistory, publishThread])
@@ -707,6 +849,18 @@ export default function Page() {
     }
   }, [settings])
 
+  // --- Accept calibrated thresholds (Analytics tab); saved straight away ---
+  const acceptThresholds = useCallback((patch: Partial<AppSettings>) => {
+    const next = { ...settings, ...patch }
+    setSettings(next)
+    try {
+      localStorage.setItem('ai-trend-settings', JSON.stringify(next))
+      setStatusMessage({ type: 'success', text: `Thresholds updated — relevance ${next.relevanceThreshold}, auto-approve ${next.autoApproveThreshold}.` })
+    } catch {
+      setStatusMessage({ type: 'error', text: 'Thresholds applied but could not be saved.' })
+    }
+  }, [settings])
+
   // --- Toggle category in settings ---
   const toggleCategory = (cat: string) => {
     setSettings(prev => ({
@@ -791,6 +945,14 @@ export default function Page() {
                 <FaXTwitter className="w-4 h-4" />
                 Publisher
               </TabsTrigger>
+              <TabsTrigger value="history" className="rounded-lg data-[state=active]:bg-slate-800 data-[state=active]:text-cyan-400 text-slate-400 gap-1.5">
+                <History className="w-4 h-4" />
+                History
+              </TabsTrigger>
+              <TabsTrigger value="analytics" className="rounded-lg data-[state=active]:bg-slate-800 data-[state=active]:text-cyan-400 text-slate-400 gap-1.5">
+                <BarChart3 className="w-4 h-4" />
+                Analytics
+              </TabsTrigger>
               <TabsTrigger value="settings" className="rounded-lg data-[state=active]:bg-slate-800 data-[state=active]:text-cyan-400 text-slate-400 gap-1.5">
                 <HiOutlineCog6Tooth className="w-4 h-4" />
                 Settings
@@ -833,19 +995,34 @@ export default function Page() {
                     </div>
 
                     {/* Pipeline Steps */}
-                    {scanStatus === 'scanning' && (
+                    {scanStatus === 'scanning' && settings.scanMode === 'orchestrated' && (
                       <div className="mt-6 flex flex-wrap items-center gap-4">
-                        <PipelineStep step={1} label="Fetching HN..." isActive={scanStep === 1} isDone={scanStep > 1} />
+                        <PipelineStep step={1} label={stageStatus.hn === 'skipped' ? 'HN skipped' : 'Fetching HN...'} isActive={stageStatus.hn === 'active'} isDone={stageStatus.hn === 'done' || stageStatus.hn === 'skipped'} isFailed={stageStatus.hn === 'failed'} />
+                        <div className="w-6 h-px bg-slate-700 hidden sm:block" />
+                        <PipelineStep step={2} label={stageStatus.arxiv === 'skipped' ? 'arXiv skipped' : 'Fetching arXiv...'} isActive={stageStatus.arxiv === 'active'} isDone={stageStatus.arxiv === 'done' || stageStatus.arxiv === 'skipped'} isFailed={stageStatus.arxiv === 'failed'} />
                         <div className="w-6 h-px bg-slate-700 hidden sm:block" />
-                        <PipelineStep step={2} label="Fetching arXiv..." isActive={scanStep === 2} isDone={scanStep > 2} />
+                        <PipelineStep step={3} label="Classifying & generating threads..." isActive={stageStatus.classify === 'active'} isDone={stageStatus.classify === 'done'} isFailed={stageStatus.classify === 'failed'} />
                         <div className="w-6 h-px bg-slate-700 hidden sm:block" />
-                        <PipelineStep step={3} label="Classifying..." isActive={scanStep === 3} isDone={scanStep > 3} />
+                        <PipelineStep step={4} label="Complete" isActive={false} isDone={false} />
+                      </div>
+                    )}
+                    {/* The Manager runs every stage inside one task, so only the task's own status is shown */}
+                    {scanStatus === 'scanning' && settings.scanMode !== 'orchestrated' && (
+                      <div className="mt-6 flex flex-wrap items-center gap-4">
+                        <PipelineStep step={1} label="Submitting task..." isActive={managerStatus === 'idle' || managerStatus === 'submitting'} isDone={managerStatus === 'processing' || managerStatus === 'completed'} />
                         <div className="w-6 h-px bg-slate-700 hidden sm:block" />
-                        <PipelineStep step={4} label="Generating threads..." isActive={scanStep === 4} isDone={scanStep > 4} />
+                        <PipelineStep step={2} label="Manager running..." isActive={managerStatus === 'processing'} isDone={managerStatus === 'completed'} />
                         <div className="w-6 h-px bg-slate-700 hidden sm:block" />
-                        <PipelineStep step={5} label="Complete" isActive={false} isDone={scanStep >= 5} />
+                        <PipelineStep step={3} label="Complete" isActive={false} isDone={false} />
                       </div>
                     )}
+                    {scanStatus === 'scanning' && settings.scanMode !== 'orchestrated' && (
+                      <p className="mt-3 text-xs text-slate-500 font-mono">
+                        {managerTaskId ? `Task ${managerTaskId.slice(0, 8)}` : 'Submitting task'}
+                        {' · '}{managerStatus}
+                        {' · '}{Math.round(managerElapsedMs / 1000)}s elapsed
+                      </p>
+                    )}
 
                     {scanStatus === 'completed' && (
                       <div className="mt-4 flex items-center gap-2 text-emerald-400 text-sm">
@@ -854,6 +1031,13 @@ export default function Page() {
                       </div>
                     )}
 
+                    {scanStatus === 'completed' && scanError && (
+                      <div className="mt-3 bg-amber-500/10 border border-amber-500/20 rounded-lg p-3 text-amber-300 text-xs flex items-start gap-2">
+                        <HiOutlineExclamationTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                        <span className="break-words">Partial results — {scanError}</span>
+                      </div>
+                    )}
+
                     {scanStatus === 'failed' && scanError && (
                       <div className="mt-4 bg-rose-500/10 border border-rose-500/20 rounded-lg p-3 text-rose-400 text-sm flex items-start gap-2">
                         <HiOutlineExclamationTriangle className="w-5 h-5 shrink-0 mt-0.5" />
@@ -867,7 +1051,7 @@ export default function Page() {
                 </Card>
 
                 {/* Agent Status */}
-                <AgentStatusPanel activeAgentId={activeAgentId} />
+                <AgentStatusPanel activeAgentIds={activeAgentIds} />
               </div>
 
               {/* Stats Overview */}
@@ -880,21 +1064,68 @@ export default function Page() {
                 </div>
               )}
 
-              {/* Debug Panel */}
-              {lastRawResponse && (
+              {/* Content Filter Report */}
+              {!showSample && filterReport.length > 0 && (
                 <Card className="bg-slate-900 border-slate-700/50">
                   <CardContent className="p-4">
                     <button
-                      onClick={() => setShowDebug(!showDebug)}
-                      className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1.5 transition-colors"
+                      onClick={() => setShowFilterReport(!showFilterReport)}
+                      className="text-xs text-slate-400 hover:text-slate-300 flex items-center gap-1.5 transition-colors"
                     >
-                      <HiOutlineInformationCircle className="w-3.5 h-3.5" />
-                      {showDebug ? 'Hide' : 'Show'} raw agent response (debug)
+                      <HiOutlineFunnel className="w-3.5 h-3.5" />
+                      {filterReport.length} item{filterReport.length === 1 ? '' : 's'} removed by content filters — {showFilterReport ? 'hide' : 'show'} details
                     </button>
-                    {showDebug && (
-                      <pre className="mt-3 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-400 overflow-x-auto max-h-64 overflow-y-auto whitespace-pre-wrap break-all">
-                        {lastRawResponse}
-                      </pre>
+                    {showFilterReport && (
+                      <div className="mt-3 overflow-x-auto">
+                        <table className="w-full text-xs">
+                          <thead>
+                            <tr className="border-b border-slate-700/50">
+                              <th className="text-left py-2 px-3 font-medium text-slate-500 uppercase">Type</th>
+                              <th className="text-left py-2 px-3 font-medium text-slate-500 uppercase">Item</th>
+                              <th className="text-left py-2 px-3 font-medium text-slate-500 uppercase">Reason</th>
+                              <th className="text-left py-2 px-3 font-medium text-slate-500 uppercase">Rule</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {filterReport.map((drop, idx) => (
+                              <tr key={idx} className="border-b border-slate-800/50">
+                                <td className="py-2 px-3 text-slate-500">{drop.kind}</td>
+                                <td className="py-2 px-3 text-slate-300 max-w-[280px] truncate">{drop.title}</td>
+                                <td className="py-2 px-3 text-amber-400">{drop.reason.replace(/_/g, ' ')}</td>
+                                <td className="py-2 px-3 text-slate-400 font-mono">{drop.detail}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Debug Panel */}
+              {(lastRawResponse || schemaReports.length > 0) && (
+                <Card className="bg-slate-900 border-slate-700/50">
+                  <CardContent className="p-4">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <button
+                        onClick={() => setShowDebug(!showDebug)}
+                        className="text-xs text-slate-500 hover:text-slate-300 flex items-center gap-1.5 transition-colors"
+                      >
+                        <HiOutlineInformationCircle className="w-3.5 h-3.5" />
+                        {showDebug ? 'Hide' : 'Show'} raw agent response (debug)
+                      </button>
+                      <SchemaStatusBadge reports={schemaReports} />
+                    </div>
+                    {(showDebug || countViolations(schemaReports) > 0) && (
+                      <div className="mt-3 space-y-3">
+                        <SchemaReportPanel reports={schemaReports} expanded={showDebug} />
+                        {showDebug && lastRawResponse && (
+                          <pre className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-400 overflow-x-auto max-h-64 overflow-y-auto whitespace-pre-wrap break-all">
+                            {lastRawResponse}
+                          </pre>
+                        )}
+                      </div>
                     )}
                   </CardContent>
                 </Card>
@@ -943,108 +1174,15 @@ export default function Page() {
                 </div>
               )}
 
-              {/* HN Stories Section */}
-              {stories.length > 0 && (
-                <Card className="bg-slate-900 border-slate-700/50">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
-                      <HiOutlineNewspaper className="w-5 h-5 text-orange-400" />
-                      Hacker News Stories
-                      <Badge variant="secondary" className="ml-2 bg-slate-800 text-slate-300 border-none text-xs">
-                        {stories.length} items
-                      </Badge>
-                    </CardTitle>
-                    <CardDescription className="text-slate-400 text-sm">
-                      Fetched {data?.hn_results?.total_fetched ?? 0}, filtered to {data?.hn_results?.total_filtered ?? 0} high-signal items
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <ScrollArea className="h-auto max-h-[500px]">
-                      <div className="space-y-3">
-                        {stories.map((story, idx) => (
-                          <div key={idx} className="bg-slate-800/50 border border-slate-700/30 rounded-xl p-4 hover:border-slate-600/50 transition-all duration-200">
-                            <div className="flex flex-col sm:flex-row sm:items-start gap-3">
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-start gap-2 mb-2">
-                                  <a href={story?.url ?? '#'} target="_blank" rel="noopener noreferrer" className="text-sm font-semibold text-cyan-300 hover:text-cyan-200 transition-colors leading-snug flex items-start gap-1.5">
-                                    {story?.title ?? 'Untitled'}
-                                    <HiOutlineArrowTopRightOnSquare className="w-3.5 h-3.5 shrink-0 mt-0.5" />
-                                  </a>
-                                </div>
-                                <p className="text-xs text-slate-400 mb-2 line-clamp-2">{story?.summary ?? ''}</p>
-                                <div className="flex flex-wrap items-center gap-2">
-                                  <Badge variant="outline" className={`text-xs border ${getCategoryColor(story?.category ?? '')}`}>
-                                    {story?.category ?? 'Unknown'}
-                                  </Badge>
-                                  <Badge variant="outline" className={`text-xs border-none ${getSourceBadgeColor(story?.source_type ?? '')}`}>
-                                    {story?.source_type ?? 'unknown'}
-                                  </Badge>
-                                </div>
-                              </div>
-                              <div className="flex sm:flex-col items-center sm:items-end gap-3 sm:gap-1.5 shrink-0">
-                                <div className="flex items-center gap-1.5 text-xs text-slate-400">
-                                  <HiOutlineChartBarSquare className="w-3.5 h-3.5 text-orange-400" />
-                                  <span className="font-medium text-orange-300">{story?.hn_score ?? 0}</span>
-                                  <span>pts</span>
-                                </div>
-                                <div className="flex items-center gap-1.5 text-xs text-slate-400">
-                                  <HiOutlineChatBubbleLeftRight className="w-3.5 h-3.5" />
-                                  <span>{story?.comments_count ?? 0}</span>
-                                </div>
-                                <div className="w-16">
-                                  <ScoreBar value={story?.relevance_score ?? 0} max={100} label="" color="bg-cyan-500" />
-                                </div>
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </ScrollArea>
-                  </CardContent>
-                </Card>
-              )}
-
-              {/* arXiv Papers Section */}
-              {papers.length > 0 && (
-                <Card className="bg-slate-900 border-slate-700/50">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
-                      <HiOutlineBeaker className="w-5 h-5 text-purple-400" />
-                      arXiv Research Papers
-                      <Badge variant="secondary" className="ml-2 bg-slate-800 text-slate-300 border-none text-xs">
-                        {papers.length} papers
-                      </Badge>
-                    </CardTitle>
-                    <CardDescription className="text-slate-400 text-sm">
-                      Fetched {data?.arxiv_results?.total_fetched ?? 0}, filtered to {data?.arxiv_results?.total_filtered ?? 0} high-relevance papers
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent className="pt-0">
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                      {papers.map((paper, idx) => (
-                        <Card key={idx} className="bg-slate-800/50 border-slate-700/30 hover:border-slate-600/50 transition-all duration-200">
-                          <CardContent className="p-4 space-y-3">
-                            <a href={paper?.arxiv_link ?? '#'} target="_blank" rel="noopener noreferrer" className="text-sm font-semibold text-purple-300 hover:text-purple-200 transition-colors leading-snug flex items-start gap-1.5">
-                              {paper?.title ?? 'Untitled'}
-                              <HiOutlineArrowTopRightOnSquare className="w-3.5 h-3.5 shrink-0 mt-0.5" />
-                            </a>
-                            <p className="text-xs text-slate-500 font-medium">{paper?.authors ?? 'Unknown authors'}</p>
-                            <Badge variant="outline" className={`text-xs border ${getCategoryColor(paper?.category ?? '')}`}>
-                              {paper?.category ?? 'Unknown'}
-                            </Badge>
-                            <p className="text-xs text-slate-400 line-clamp-3">{paper?.abstract_summary ?? ''}</p>
-                            <div className="space-y-1.5">
-                              <ScoreBar value={paper?.relevance_score ?? 0} max={100} label="Relevance" color="bg-cyan-500" />
-                              <ScoreBar value={paper?.novelty_score ?? 0} max={100} label="Novelty" color="bg-purple-500" />
-                              <ScoreBar value={paper?.applicability_score ?? 0} max={100} label="Applicability" color="bg-emerald-500" />
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
-                  </CardContent>
-                </Card>
-              )}
+              {/* Source Sections */}
+              {SOURCE_ADAPTERS.map(adapter => (
+                <SourceResults
+                  key={adapter.id}
+                  adapter={adapter}
+                  results={adapter.read(data)}
+                  renderBadges={showSample ? undefined : item => <DedupBadge match={dedupStatusOf(dedupReport, adapter.itemKind, item.url, item.title)} />}
+                />
+              ))}
             </TabsContent>
 
             {/* ================================================================ */}
@@ -1060,7 +1198,7 @@ export default function Page() {
                       <span className="font-medium">Classification:</span>
                     </div>
                     <div className="flex flex-wrap gap-2">
-                      {['All', 'Tech Deep Dive', 'Job Post', 'Research Summary'].map(f => (
+                      {['All', 'Tech Deep Dive', 'Job Post', 'Research Summary', 'Tool Launch'].map(f => (
                         <Button
                           key={f}
                           variant={classFilter === f ? 'default' : 'outline'}
@@ -1089,6 +1227,11 @@ export default function Page() {
                         </Button>
                       ))}
                     </div>
+                    <Separator orientation="vertical" className="hidden sm:block h-6 bg-slate-700" />
+                    <div className="flex items-center gap-2">
+                      <Switch id="hide-posted" checked={hidePosted} onCheckedChange={setHidePosted} />
+                      <Label htmlFor="hide-posted" className="text-sm text-slate-400 cursor-pointer">Hide already posted</Label>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -1100,13 +1243,19 @@ export default function Page() {
                   <Button
                     size="sm"
                     onClick={() => {
+                      const blocked = drafts.filter(d => selectedDraftIds.has(d?.id ?? '') && !checkDraftPlatforms(d).valid)
+                      const blockedIds = new Set(blocked.map(d => d.id))
                       setApprovedDraftIds(prev => {
                         const next = new Set(prev)
-                        selectedDraftIds.forEach(id => next.add(id))
+                        selectedDraftIds.forEach(id => { if (!blockedIds.has(id)) next.add(id) })
                         return next
                       })
                       setSelectedDraftIds(new Set())
-                      setStatusMessage({ type: 'success', text: `${selectedDraftIds.size} drafts approved.` })
+                      if (blocked.length > 0) {
+                        setStatusMessage({ type: 'error', text: `${selectedDraftIds.size - blocked.length} drafts approved. ${blocked.length} skipped — posts over a platform's character limit.` })
+                      } else {
+                        setStatusMessage({ type: 'success', text: `${selectedDraftIds.size} drafts approved.` })
+                      }
                     }}
                     className="bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-xs"
                   >
@@ -1133,6 +1282,11 @@ export default function Page() {
                       const isApproved = approvedDraftIds.has(draftId)
                       const isSelected = selectedDraftIds.has(draftId)
                       const isExpanded = expandedDraftIds.has(draftId)
+                      const isEditing = editingDraftIds.has(draftId)
+                      const isRegenerating = regeneratingIds.has(draftId)
+                      const isRewriteOpen = rewriteDraftId === draftId
+                      const versions = draftVersions[draftId] ?? []
+                      const threadCheck = checkDraftPlatforms(draft)
 
                       return (
                         <Card key={draftId} className={`bg-slate-900 border transition-all duration-200 ${isApproved ? 'border-emerald-500/30' : draft?.requires_review ? 'border-amber-500/30' : 'border-slate-700/50'}`}>
@@ -1161,6 +1315,7 @@ export default function Page() {
                                     {draft?.classification ?? 'Unknown'}
                                   </Badge>
                                   <h3 className="text-sm font-semibold text-white">{draft?.title ?? 'Untitled'}</h3>
+                                  {!showSample && <DedupBadge match={dedupStatusOf(dedupReport, 'draft', draft?.source_url ?? '', draft?.title ?? '')} />}
                                   {isApproved && (
                                     <Badge className="bg-emerald-500/20 text-emerald-400 border-none text-xs w-fit">
                                       <HiOutlineCheckCircle className="w-3 h-3 mr-1" />
@@ -1202,13 +1357,105 @@ export default function Page() {
                                     <HiOutlineEye className="w-3.5 h-3.5" />
                                     {isExpanded ? 'Hide thread' : 'View full thread'}
                                   </button>
-                                  {isExpanded && (
+                                  {isExpanded && !isEditing && (
                                     <div className="mt-3">
                                       <ThreadTweetDisplay content={draft?.thread_content ?? ''} />
                                     </div>
                                   )}
                                 </div>
 
+                                {/* Inline Editor */}
+                                {isEditing && (
+                                  <ThreadDraftEditor
+                                    draft={draft}
+                                    onSave={(updated) => {
+                                      recordVersion(draft, updated, 'human', 'edit')
+                                      updateDraft(updated, draft)
+                                      setEditingDraftIds(prev => {
+                                        const next = new Set(prev)
+                                        next.delete(draftId)
+                                        return next
+                                      })
+                                      setStatusMessage({ type: 'success', text: `"${updated.title}" saved.` })
+                                    }}
+                                    onCancel={() => {
+                                      setEditingDraftIds(prev => {
+                                        const next = new Set(prev)
+                                        next.delete(draftId)
+                                        return next
+                                      })
+                                    }}
+                                  />
+                                )}
+
+                                {/* Version History */}
+                                {versionViewDraftId === draftId && !isEditing && versions.length > 0 && (
+                                  <DraftVersionHistory
+                                    versions={versions}
+                                    current={draft}
+                                    onRestore={(version) => restoreDraftVersion(draft, version)}
+                                    onClose={() => setVersionViewDraftId(null)}
+                                  />
+                                )}
+
+                                {/* Rewrite Instruction */}
+                                {isRewriteOpen && !isEditing && (
+                                  <div className="flex flex-col sm:flex-row gap-2">
+                                    <Input
+                                      value={rewriteInstruction}
+                                      onChange={(e) => setRewriteInstruction(e.target.value)}
+                                      onKeyDown={(e) => {
+                                        if (e.key === 'Enter' && rewriteInstruction.trim() && !isRegenerating) {
+                                          regenerateThread(draft, rewriteInstruction)
+                                        }
+                                      }}
+                                      placeholder='e.g. "shorter", "less hype", "add a code example"'
+                                      className="bg-slate-800 border-slate-700 text-white text-sm"
+                                    />
+                                    <div className="flex gap-2 shrink-0">
+                                      <Button
+                                        size="sm"
+                                        disabled={!rewriteInstruction.trim() || isRegenerating}
+                                        onClick={() => regenerateThread(draft, rewriteInstruction)}
+                                        className="bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-xs"
+                                      >
+                                        {isRegenerating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                                        Rewrite
+                                      </Button>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => {
+                                          setRewriteDraftId(null)
+                                          setRewriteInstruction('')
+                                        }}
+                                        className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+                                      >
+                                        Cancel
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+
+                                {!threadCheck.valid && (
+                                  <div className="bg-rose-500/10 border border-rose-500/20 rounded-lg p-2.5 text-xs text-rose-300 flex items-start gap-2">
+                                    <HiOutlineExclamationTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                                    <span>
+                                      {threadCheck.failing.map(f => describeOverLimit(f.publisher, f.check)).join('. ')}. Edit the thread or drop the platform before approving.
+                                    </span>
+                                  </div>
+                                )}
+
+                                {/* Platforms */}
+                                {!showSample && (
+                                  <PublishTargets
+                                    draft={draft}
+                                    status={platformStatus}
+                                    disabled={isEditing}
+                                    onChange={(platforms) => updateDraft({ ...draft, platforms })}
+                                  />
+                                )}
+
                                 {/* Meta Row */}
                                 <div className="flex flex-wrap items-center gap-3">
                                   <span className="text-xs text-slate-500 flex items-center gap-1">
@@ -1227,15 +1474,16 @@ export default function Page() {
                                 </div>
 
                                 {/* Actions */}
-                                <div className="flex items-center gap-2">
+                                <div className="flex flex-wrap items-center gap-2">
                                   {!isApproved && (
                                     <Button
                                       size="sm"
+                                      disabled={!threadCheck.valid}
                                       onClick={() => {
                                         setApprovedDraftIds(prev => new Set(prev).add(draftId))
                                         setStatusMessage({ type: 'success', text: `"${draft?.title ?? 'Untitled'}" approved.` })
                                       }}
-                                      className="bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-xs"
+                                      className="bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-xs disabled:opacity-50"
                                     >
                                       <HiOutlineCheck className="w-3.5 h-3.5" />
                                       Approve
@@ -1258,6 +1506,55 @@ export default function Page() {
                                       Revoke
                                     </Button>
                                   )}
+                                  {!showSample && !isEditing && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setEditingDraftIds(prev => new Set(prev).add(draftId))}
+                                      className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+                                    >
+                                      <HiOutlinePencilSquare className="w-3.5 h-3.5" />
+                                      Edit
+                                    </Button>
+                                  )}
+                                  {!showSample && !isEditing && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      disabled={isRegenerating}
+                                      onClick={() => regenerateThread(draft, '')}
+                                      className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+                                    >
+                                      <RefreshCw className={`w-3.5 h-3.5 ${isRegenerating && !isRewriteOpen ? 'animate-spin' : ''}`} />
+                                      Regenerate
+                                    </Button>
+                                  )}
+                                  {!showSample && !isEditing && !isRewriteOpen && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      disabled={isRegenerating}
+                                      onClick={() => {
+                                        setRewriteDraftId(draftId)
+                                        setRewriteInstruction('')
+                                      }}
+                                      className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+                                    >
+                                      <Wand2 className="w-3.5 h-3.5" />
+                                      Rewrite with instructions
+                                    </Button>
+                                  )}
+                                  {!showSample && versions.length > 1 && !isRegenerating && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => setVersionViewDraftId(prev => prev === draftId ? null : draftId)}
+                                      className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+                                    >
+                                      <History className="w-3.5 h-3.5" />
+                                      Versions ({versions.length})
+                                    </Button>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -1322,8 +1619,13 @@ export default function Page() {
                       {approvedDrafts.map((draft) => {
                         const draftId = draft?.id ?? ''
                         const isPublishing = publishingIds.has(draftId)
-                        const historyEntry = publishHistory.find(p => p.draftId === draftId)
-                        const isPublished = historyEntry?.status === 'success'
+                        const platforms = draftPlatforms(draft)
+                        const records = publishHistory.filter(p => p.draftId === draftId)
+                        const failedRecords = records.filter(p => (p.status === 'failed' || p.status === 'unconfirmed') && platforms.includes(p.platform))
+                        const isUnconfirmed = failedRecords.some(p => p.status === 'unconfirmed')
+                        const pending = platforms.filter(platform => !records.some(p => p.platform === platform && p.status === 'success'))
+                        const isPublished = pending.length === 0
+                        const resumable = isUnconfirmed || failedRecords.some(r => r.posts?.some(p => p.status === 'posted'))
 
                         return (
                           <div key={draftId} className="bg-slate-800/50 border border-slate-700/30 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
@@ -1335,9 +1637,18 @@ export default function Page() {
                                 <h4 className="text-sm font-semibold text-white truncate">{draft?.title ?? 'Untitled'}</h4>
                               </div>
                               <p className="text-xs text-slate-400 truncate">{draft?.hook ?? ''}</p>
-                              {historyEntry?.status === 'failed' && (
-                                <p className="text-xs text-rose-400 mt-1">{historyEntry.errorMessage}</p>
-                              )}
+                              <div className="mt-2">
+                                <PublishTargets
+                                  draft={draft}
+                                  status={platformStatus}
+                                  records={records}
+                                  disabled={isPublishing}
+                                  onChange={(next) => updateDraft({ ...draft, platforms: next })}
+                                />
+                              </div>
+                              {failedRecords.map(record => (
+                                <p key={record.platform} className={`text-xs mt-1 ${record.status === 'unconfirmed' ? 'text-orange-400' : 'text-rose-400'}`}>{getPublisher(record.platform)?.label}: {record.errorMessage}</p>
+                              ))}
                             </div>
                             <div className="flex items-center gap-2 shrink-0">
                               {isPublished && (
@@ -1346,7 +1657,13 @@ export default function Page() {
                                   Posted
                                 </Badge>
                               )}
-                              {historyEntry?.status === 'failed' && (
+                              {isUnconfirmed && !isPublishing && (
+                                <Badge className="bg-orange-500/20 text-orange-400 border-none text-xs" title="The agent did not return a verifiable tweet — check the account before resuming">
+                                  <HiOutlineExclamationTriangle className="w-3 h-3 mr-1" />
+                                  Unconfirmed
+                                </Badge>
+                              )}
+                              {failedRecords.some(p => p.status === 'failed') && !isPublishing && (
                                 <Badge className="bg-rose-500/20 text-rose-400 border-none text-xs">
                                   <HiOutlineXMark className="w-3 h-3 mr-1" />
                                   Failed
@@ -1360,12 +1677,15 @@ export default function Page() {
                               )}
                               <Button
                                 size="sm"
-                                onClick={() => publishThread(draft)}
+                                onClick={() => {
+                                  if (isPublished && !window.confirm(`Post "${draft?.title ?? 'Untitled'}" again from the first post? It is already live.`)) return
+                                  publishThread(draft, isPublished ? platforms : pending, isPublished)
+                                }}
                                 disabled={isPublishing}
                                 className="bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs"
                               >
-                                <FaXTwitter className="w-3.5 h-3.5" />
-                                {isPublished ? 'Repost' : 'Post to Twitter'}
+                                <HiOutlineRocketLaunch className="w-3.5 h-3.5" />
+                                {isPublished ? 'Repost' : resumable ? 'Resume Posting' : pending.length === 1 ? `Post to ${getPublisher(pending[0])?.label}` : `Post to ${pending.length} platforms`}
                               </Button>
                             </div>
                           </div>
@@ -1386,6 +1706,21 @@ export default function Page() {
                 </CardContent>
               </Card>
 
+              {/* Publishing Schedule */}
+              {!showSample && (
+                <PublishSchedule
+                  drafts={approvedDrafts}
+                  agentId={TWITTER_AGENT_ID}
+                  window={{
+                    timezone: settings.publishTimezone,
+                    startHour: settings.publishWindowStart,
+                    endHour: settings.publishWindowEnd,
+                    spacingMinutes: settings.publishSpacingMinutes,
+                  }}
+                  onStatus={setStatusMessage}
+                />
+              )}
+
               {/* Post History */}
               {publishHistory.length > 0 && (
                 <Card className="bg-slate-900 border-slate-700/50">
@@ -1401,8 +1736,10 @@ export default function Page() {
                         <thead>
                           <tr className="border-b border-slate-700/50">
                             <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Thread</th>
+                            <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Platform</th>
                             <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Status</th>
-                            <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Tweet URL</th>
+                            <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Posts</th>
+                            <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Post URL</th>
                             <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Timestamp</th>
                             <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Error</th>
                           </tr>
@@ -1411,16 +1748,20 @@ export default function Page() {
                           {publishHistory.map((record, idx) => (
                             <tr key={idx} className="border-b border-slate-800/50">
                               <td className="py-2 px-3 text-slate-300 max-w-[200px] truncate">{record.title}</td>
+                              <td className="py-2 px-3 text-xs text-slate-400">{getPublisher(record.platform)?.label ?? record.platform}</td>
                               <td className="py-2 px-3">
-                                <Badge className={`text-xs border-none ${record.status === 'success' ? 'bg-emerald-500/20 text-emerald-400' : record.status === 'failed' ? 'bg-rose-500/20 text-rose-400' : record.status === 'posting' ? 'bg-cyan-500/20 text-cyan-400' : 'bg-slate-500/20 text-slate-400'}`}>
+                                <Badge className={`text-xs border-none ${record.status === 'success' ? 'bg-emerald-500/20 text-emerald-400' : record.status === 'failed' ? 'bg-rose-500/20 text-rose-400' : record.status === 'unconfirmed' ? 'bg-orange-500/20 text-orange-400' : record.status === 'posting' ? 'bg-cyan-500/20 text-cyan-400' : 'bg-slate-500/20 text-slate-400'}`}>
                                   {record.status}
                                 </Badge>
                               </td>
+                              <td className="py-2 px-3">
+                                <ThreadProgressDots posts={record.posts} noun={getPublisher(record.platform)?.postNoun ?? 'post'} />
+                              </td>
                               <td className="py-2 px-3">
                                 {record.tweetUrl ? (
                                   <a href={record.tweetUrl} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 text-xs flex items-center gap-1">
                                     <HiOutlineLink className="w-3 h-3" />
-                                    View Tweet
+                                    View Post
                                   </a>
                                 ) : (
                                   <span className="text-slate-600 text-xs">--</span>
@@ -1438,6 +1779,21 @@ export default function Page() {
               )}
             </TabsContent>
 
+            {/* ================================================================ */}
+            {/* HISTORY TAB */}
+            {/* ================================================================ */}
+            <TabsContent value="history" className="space-y-6">
+              <ScanSchedules agentId={MANAGER_AGENT_ID} message={buildManagerScanMessage(settings)} onOpenOutput={openScheduledOutput} />
+              <ScanHistory onOpen={openArchivedScan} refreshKey={historyRefreshKey} />
+            </TabsContent>
+
+            {/* ================================================================ */}
+            {/* ANALYTICS TAB */}
+            {/* ================================================================ */}
+            <TabsContent value="analytics" className="space-y-6">
+              <EngagementAnalytics settings={settings} onAcceptThresholds={acceptThresholds} />
+            </TabsContent>
+
             {/* ================================================================ */}
             {/* SETTINGS TAB */}
             {/* ================================================================ */}
@@ -1473,7 +1829,7 @@ export default function Page() {
                     <div className="space-y-3">
                       <Label className="text-sm text-slate-300">Categories to Scan</Label>
                       <div className="flex flex-wrap gap-3">
-                        {['AI/ML', 'Cybersecurity', 'Startups', 'Developer Tools', 'Research'].map(cat => (
+                        {SCAN_CATEGORIES.map(cat => (
                           <label key={cat} className="flex items-center gap-2 cursor-pointer">
                             <Checkbox
                               checked={settings.categories.includes(cat)}
@@ -1490,7 +1846,7 @@ export default function Page() {
                     <div className="space-y-3">
                       <Label className="text-sm text-slate-300">Sources to Scan</Label>
                       <div className="flex flex-wrap gap-3">
-                        {['HN Top', 'HN New', 'Ask HN', 'Show HN', 'HN Jobs', 'arXiv'].map(src => (
+                        {SOURCE_LABELS.map(src => (
                           <label key={src} className="flex items-center gap-2 cursor-pointer">
                             <Checkbox
                               checked={settings.sources.includes(src)}
@@ -1502,6 +1858,19 @@ export default function Page() {
                         ))}
                       </div>
                     </div>
+
+                    {/* GitHub Watchlist */}
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">GitHub Watchlist</Label>
+                      <Textarea
+                        value={settings.githubWatchlist}
+                        onChange={(e) => setSettings(prev => ({ ...prev, githubWatchlist: e.target.value }))}
+                        placeholder={'vercel/next.js\nollama/ollama'}
+                        rows={3}
+                        className="bg-slate-800 border-slate-700 text-white text-sm font-mono"
+                      />
+                      <p className="text-xs text-slate-500">One owner/repo per line. GitHub Releases reports their releases from the last 7 days; drafts from them need Direct Orchestration.</p>
+                    </div>
                   </CardContent>
                 </Card>
 
@@ -1562,6 +1931,25 @@ export default function Page() {
                       </div>
                     </div>
 
+                    {/* Pipeline Mode */}
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Pipeline Mode</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {([['manager', 'Manager Agent'], ['orchestrated', 'Direct Orchestration']] as const).map(([mode, label]) => (
+                          <Button
+                            key={mode}
+                            variant={settings.scanMode === mode ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSettings(prev => ({ ...prev, scanMode: mode }))}
+                            className={`rounded-lg text-xs ${settings.scanMode === mode ? 'bg-purple-500 text-white border-purple-500 hover:bg-purple-600' : 'bg-transparent border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-300'}`}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-slate-500">Direct Orchestration calls the HN and arXiv agents in parallel, then the Classifier, with live per-stage progress. RSS feed entries only become drafts in this mode; the Manager Agent shows them without drafting.</p>
+                    </div>
+
                     {/* Blocked Domains */}
                     <div className="space-y-2">
                       <Label className="text-sm text-slate-300">Blocked Domains</Label>
@@ -1576,8 +1964,73 @@ export default function Page() {
                     </div>
                   </CardContent>
                 </Card>
+
+                {/* Publishing Schedule Settings */}
+                <Card className="bg-slate-900 border-slate-700/50">
+                  <CardHeader>
+                    <CardTitle className="text-base font-semibold text-white flex items-center gap-2">
+                      <CalendarClock className="w-5 h-5 text-cyan-400" />
+                      Publishing Schedule
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {/* Time Zone */}
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Audience Time Zone</Label>
+                      <div className="flex flex-wrap gap-2">
+                        {US_TIMEZONES.map(tz => (
+                          <Button
+                            key={tz.value}
+                            variant={settings.publishTimezone === tz.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => setSettings(prev => ({ ...prev, publishTimezone: tz.value }))}
+                            className={`rounded-lg text-xs ${settings.publishTimezone === tz.value ? 'bg-cyan-500 text-white border-cyan-500 hover:bg-cyan-600' : 'bg-transparent border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-300'}`}
+                          >
+                            {tz.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Posting Window */}
+                    <div className="space-y-3">
+                      <div className="flex justify-between items-center">
+                        <Label className="text-sm text-slate-300">Posting Window</Label>
+                        <span className="text-sm font-mono text-cyan-400">{settings.publishWindowStart}:00 – {settings.publishWindowEnd}:00</span>
+                      </div>
+                      <Slider
+                        value={[settings.publishWindowStart, settings.publishWindowEnd]}
+                        onValueChange={(val) => setSettings(prev => ({ ...prev, publishWindowStart: val[0] ?? 9, publishWindowEnd: Math.max((val[0] ?? 9) + 1, val[1] ?? 21) }))}
+                        max={24}
+                        min={0}
+                        step={1}
+                        className="[&_[role=slider]]:bg-cyan-500 [&_[role=slider]]:border-cyan-600"
+                      />
+                      <p className="text-xs text-slate-500">Auto-scheduled posts only land between these local hours</p>
+                    </div>
+
+                    {/* Spacing */}
+                    <div className="space-y-2">
+                      <Label className="text-sm text-slate-300">Minutes Between Posts</Label>
+                      <Input
+                        type="number"
+                        value={settings.publishSpacingMinutes}
+                        onChange={(e) => setSettings(prev => ({ ...prev, publishSpacingMinutes: parseInt(e.target.value) || 0 }))}
+                        min={0}
+                        max={1440}
+                        className="bg-slate-800 border-slate-700 text-white"
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
               </div>
 
+              {/* RSS / Atom Feeds — saved as they change, independent of Save Settings */}
+              <FeedSettings categories={SCAN_CATEGORIES} />
+
+              {/* Publishing Policy — saved on its own, enforced by the server on every post */}
+              <PublishPolicySettings />
+
               {/* Save Button */}
               <div className="flex justify-end">
                 <Button
@@ -0,0 +1,156 @@
+'use client'
+
+import * as React from 'react'
+import type { ThreadDraft } from '@/lib/types'
+import { diffDrafts, type DraftVersion, type WordDiffPart } from '@/lib/draftVersions'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Bot, User, RotateCcw, X } from 'lucide-react'
+
+interface DraftVersionHistoryProps {
+  versions: DraftVersion[]
+  /** The draft as it currently stands in the queue */
+  current: ThreadDraft
+  onRestore: (version: DraftVersion) => void
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<DraftVersion['action'], string> = {
+  scan: 'Scan',
+  regenerate: 'Regenerated',
+  rewrite: 'Rewritten',
+  edit: 'Edited',
+  restore: 'Restored',
+}
+
+function DiffText({ parts }: { parts: WordDiffPart[] }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, i) => (
+        <span
+          key={i}
+          className={
+            part.type === 'added' ? 'bg-emerald-500/20 text-emerald-300'
+            : part.type === 'removed' ? 'bg-rose-500/20 text-rose-300 line-through'
+            : 'text-slate-300'
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  )
+}
+
+function FieldChange({ label, before, after }: { label: string; before: string; after: string }) {
+  return (
+    <div className="grid grid-cols-2 gap-3 text-xs">
+      <p className="text-rose-300"><span className="text-slate-500">{label}:</span> {before || '—'}</p>
+      <p className="text-emerald-300"><span className="text-slate-500">{label}:</span> {after || '—'}</p>
+    </div>
+  )
+}
+
+export function DraftVersionHistory({ versions, current, onRestore, onClose }: DraftVersionHistoryProps) {
+  const latest = versions[versions.length - 1]
+  // Default to the version before the latest so the most recent change is shown first
+  const [selected, setSelected] = React.useState<number>(() =>
+    versions.length > 1 ? versions[versions.length - 2].version : latest?.version ?? 0
+  )
+
+  const selectedVersion = versions.find(v => v.version === selected) ?? latest
+  const diff = selectedVersion ? diffDrafts(selectedVersion.snapshot, current) : null
+  const isLatest = selectedVersion?.version === latest?.version
+
+  return (
+    <div className="space-y-4 bg-slate-950/60 border border-slate-700/40 rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">Version History</p>
+        <button onClick={onClose} className="p-1 text-slate-500 hover:text-slate-300" title="Close">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {/* Version List */}
+      <div className="flex flex-wrap gap-2">
+        {versions.map(v => (
+          <button
+            key={v.version}
+            onClick={() => setSelected(v.version)}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border text-xs transition-colors ${v.version === selectedVersion?.version ? 'border-cyan-500/50 bg-cyan-500/10 text-cyan-300' : 'border-slate-700/50 text-slate-400 hover:bg-slate-800'}`}
+            title={v.note || undefined}
+          >
+            {v.author === 'agent' ? <Bot className="w-3.5 h-3.5" /> : <User className="w-3.5 h-3.5" />}
+            <span className="font-mono">v{v.version}</span>
+            <span>{ACTION_LABELS[v.action]}</span>
+            <span className="text-slate-500">{new Date(v.created_at).toLocaleTimeString()}</span>
+          </button>
+        ))}
+      </div>
+
+      {selectedVersion && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <p className="text-xs text-slate-500">
+            v{selectedVersion.version} by {selectedVersion.author === 'agent' ? 'agent' : 'reviewer'}
+            {selectedVersion.note ? ` — "${selectedVersion.note}"` : ''}
+            {isLatest ? ' (current)' : ` compared with current v${latest.version}`}
+          </p>
+          {!isLatest && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRestore(selectedVersion)}
+              className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              Restore v{selectedVersion.version}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Side-by-side Diff */}
+      {diff && !isLatest && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-3 text-xs text-slate-500">
+            <span>v{selectedVersion.version}</span>
+            <span>Current</span>
+          </div>
+          {diff.hookChanged && <FieldChange label="Hook" before={selectedVersion.snapshot.hook} after={current.hook} />}
+          {diff.hashtagsChanged && <FieldChange label="Hashtags" before={selectedVersion.snapshot.hashtags} after={current.hashtags} />}
+          {diff.reviewChanged && (
+            <FieldChange
+              label="Review"
+              before={selectedVersion.snapshot.requires_review ? selectedVersion.snapshot.review_reason || 'Needs review' : 'Not flagged'}
+              after={current.requires_review ? current.review_reason || 'Needs review' : 'Not flagged'}
+            />
+          )}
+          {diff.tweets.map((row, i) => (
+            <div key={i} className="grid grid-cols-2 gap-3">
+              <div className={`rounded-lg border p-2.5 ${row.status === 'same' ? 'border-slate-700/40 bg-slate-800/30' : row.beforeIndex ? 'border-rose-500/30 bg-rose-500/5' : 'border-dashed border-slate-700/40'}`}>
+                {row.beforeIndex && (
+                  <>
+                    <Badge variant="outline" className="text-[10px] border-slate-700 text-slate-500 mb-1">{row.beforeIndex}</Badge>
+                    <DiffText parts={row.beforeParts} />
+                  </>
+                )}
+              </div>
+              <div className={`rounded-lg border p-2.5 ${row.status === 'same' ? 'border-slate-700/40 bg-slate-800/30' : row.afterIndex ? 'border-emerald-500/30 bg-emerald-500/5' : 'border-dashed border-slate-700/40'}`}>
+                {row.afterIndex && (
+                  <>
+                    <Badge variant="outline" className="text-[10px] border-slate-700 text-slate-500 mb-1">{row.afterIndex}</Badge>
+                    <DiffText parts={row.afterParts} />
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {versions.length <= 1 && (
+        <p className="text-xs text-slate-500">Only the original version exists. Edits and regenerations will appear here.</p>
+      )}
+    </div>
+  )
+}
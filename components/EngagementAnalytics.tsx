@@ -0,0 +1,301 @@
+'use client'
+
+import * as React from 'react'
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts'
+import { useEngagementMetrics } from '@/lib/engagementClient'
+import {
+  engagementRate,
+  engagementsOf,
+  groupEngagement,
+  hookTraits,
+  MAX_METRICS_ATTEMPTS,
+  METRICS_CHECKPOINTS,
+  type EngagementGroup,
+  type MetricsCheckpoint,
+  type TrackedThread,
+} from '@/lib/engagement'
+import { getPublisher } from '@/lib/publishers'
+import type { AppSettings } from '@/lib/types'
+import { ThresholdCalibration, type ThresholdPatch } from '@/components/ThresholdCalibration'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { BarChart3, ExternalLink, FlaskConical, RefreshCw } from 'lucide-react'
+
+const CHART_CONFIG: ChartConfig = {
+  likes: { label: 'Likes', color: '#22d3ee' },
+  reposts: { label: 'Reposts', color: '#34d399' },
+  replies: { label: 'Replies', color: '#a78bfa' },
+  bookmarks: { label: 'Bookmarks', color: '#fbbf24' },
+}
+
+// Long classification names would crowd the axis
+const MAX_AXIS_LABEL = 18
+
+function formatCount(value: number | null | undefined): string {
+  if (value == null) return '—'
+  if (value >= 10000) return `${Math.round(value / 1000)}k`
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}k`
+  return String(Math.round(value))
+}
+
+function formatRate(rate: number | null | undefined): string {
+  return rate == null ? '—' : `${(rate * 100).toFixed(1)}%`
+}
+
+function shortLabel(text: string): string {
+  return text.length > MAX_AXIS_LABEL ? `${text.slice(0, MAX_AXIS_LABEL - 1)}…` : text
+}
+
+/** Stacked average engagement per group, with the numbers behind it. */
+function GroupBreakdown({ title, description, groups }: { title: string; description: string; groups: EngagementGroup[] }) {
+  const data = groups.map(g => ({ ...g, label: shortLabel(g.key), bookmarks: g.bookmarks ?? 0 }))
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-white">{title}</CardTitle>
+        <CardDescription className="text-xs text-slate-500">{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {groups.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-6">No metrics at this checkpoint yet.</p>
+        ) : (
+          <>
+            <ChartContainer config={CHART_CONFIG} className="aspect-auto h-64 w-full">
+              <BarChart data={data} margin={{ left: -12, right: 8 }}>
+                <CartesianGrid vertical={false} stroke="#334155" />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fill: '#94a3b8' }} interval={0} />
+                <YAxis tickLine={false} axisLine={false} tick={{ fill: '#94a3b8' }} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="likes" stackId="engagement" fill="var(--color-likes)" />
+                <Bar dataKey="reposts" stackId="engagement" fill="var(--color-reposts)" />
+                <Bar dataKey="replies" stackId="engagement" fill="var(--color-replies)" />
+                <Bar dataKey="bookmarks" stackId="engagement" fill="var(--color-bookmarks)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-800">
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Group</th>
+                    <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Threads</th>
+                    <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Avg Impressions</th>
+                    <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Avg Engagements</th>
+                    <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Engagement Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(g => (
+                    <tr key={g.key} className="border-b border-slate-800/50">
+                      <td className="py-1.5 px-2 text-slate-300">{g.key}</td>
+                      <td className="py-1.5 px-2 text-right font-mono text-slate-400">{g.threads}</td>
+                      <td className="py-1.5 px-2 text-right font-mono text-slate-400">{formatCount(g.impressions)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono text-slate-300">{formatCount(g.engagements)}</td>
+                      <td className="py-1.5 px-2 text-right font-mono text-cyan-400">{formatRate(g.engagement_rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/** One checkpoint cell of the thread table: engagements over impressions, or why there are none. */
+function CheckpointCell({ thread, checkpoint }: { thread: TrackedThread; checkpoint: MetricsCheckpoint }) {
+  const snapshot = thread.snapshots?.[checkpoint]
+  if (!snapshot) return <span className="text-slate-600">pending</span>
+  if (!snapshot.metrics) return <span className="text-rose-400/80" title={snapshot.error}>{snapshot.attempts >= MAX_METRICS_ATTEMPTS ? 'missed' : 'retrying'}</span>
+  const m = snapshot.metrics
+  return (
+    <span title={`${m.likes} likes · ${m.reposts} reposts · ${m.replies} replies${m.bookmarks != null ? ` · ${m.bookmarks} bookmarks` : ''}`}>
+      <span className="text-slate-200">{formatCount(engagementsOf(m))}</span>
+      {m.impressions != null && <span className="text-slate-500"> / {formatCount(m.impressions)}</span>}
+    </span>
+  )
+}
+
+/**
+ * Analytics tab: engagement of posted threads at 1 hour, 24 hours and 7 days,
+ * broken down by classification and by hook style, and the relevance and
+ * auto-approve thresholds calibrated against it.
+ */
+export function EngagementAnalytics({ settings, onAcceptThresholds }: { settings: AppSettings; onAcceptThresholds: (patch: ThresholdPatch) => void }) {
+  const { threads, adapter, loading, error, fetchThreads, collect } = useEngagementMetrics()
+  const [checkpoint, setCheckpoint] = React.useState<MetricsCheckpoint>('24h')
+  const [collectMessage, setCollectMessage] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    fetchThreads()
+  }, [fetchThreads])
+
+  const handleCollect = async () => {
+    setCollectMessage(null)
+    const result = await collect()
+    if (result.success && result.summary) {
+      const { collected, failed, missed } = result.summary
+      setCollectMessage(collected + failed + missed === 0
+        ? 'No checkpoints are due.'
+        : `Read ${collected} ${collected === 1 ? 'checkpoint' : 'checkpoints'}${failed ? `, ${failed} failed` : ''}${missed ? `, ${missed} missed` : ''}.`)
+    }
+  }
+
+  const byClassification = React.useMemo(
+    () => groupEngagement(threads, checkpoint, t => [t.classification?.trim() || 'Unclassified']),
+    [threads, checkpoint]
+  )
+  const byHookStyle = React.useMemo(() => groupEngagement(threads, checkpoint, t => hookTraits(t.hook)), [threads, checkpoint])
+  const measured = threads.filter(t => t.snapshots?.[checkpoint]?.metrics)
+  const overall = groupEngagement(measured, checkpoint, () => ['all'])[0] ?? null
+  const ranked = [...threads].sort((a, b) => {
+    const score = (t: TrackedThread) => {
+      const m = t.snapshots?.[checkpoint]?.metrics
+      return m ? engagementsOf(m) : -1
+    }
+    return score(b) - score(a)
+  })
+  const checkpointLabel = METRICS_CHECKPOINTS.find(c => c.id === checkpoint)?.label ?? checkpoint
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900 border-slate-700/50">
+        <CardHeader className="pb-3">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+            <div>
+              <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+                <BarChart3 className="w-5 h-5 text-cyan-400" />
+                Engagement Analytics
+                {adapter === 'fake' && (
+                  <Badge className="bg-amber-500/20 text-amber-400 border-none text-xs">
+                    <FlaskConical className="w-3 h-3 mr-1" />
+                    Fake metrics
+                  </Badge>
+                )}
+              </CardTitle>
+              <CardDescription className="text-xs text-slate-500 mt-1">
+                Every posted thread is measured 1 hour, 24 hours and 7 days after it went up. Impressions are the first post&apos;s; likes, reposts, replies and bookmarks are summed over the thread. Only X reports impressions and bookmarks.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {METRICS_CHECKPOINTS.map(c => (
+                <Button
+                  key={c.id}
+                  size="sm"
+                  variant={checkpoint === c.id ? 'default' : 'outline'}
+                  onClick={() => setCheckpoint(c.id)}
+                  className={`rounded-lg text-xs ${checkpoint === c.id ? 'bg-cyan-500 text-white hover:bg-cyan-600' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {c.id}
+                </Button>
+              ))}
+              <Button size="sm" variant="outline" onClick={handleCollect} disabled={loading || adapter === 'off'} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+                Collect Now
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Threads tracked', value: String(threads.length) },
+              { label: `Measured at ${checkpointLabel}`, value: String(measured.length) },
+              { label: 'Avg impressions', value: formatCount(overall?.impressions) },
+              { label: 'Engagement rate', value: formatRate(overall?.engagement_rate) },
+            ].map(stat => (
+              <div key={stat.label} className="bg-slate-800/40 border border-slate-700/30 rounded-lg p-3">
+                <p className="text-xs text-slate-500">{stat.label}</p>
+                <p className="text-xl font-semibold text-white font-mono">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          {adapter === 'off' && <p className="text-xs text-slate-500">Collection is off — set ENGAGEMENT_METRICS to live or fake on the server.</p>}
+          {collectMessage && <p className="text-xs text-slate-400">{collectMessage}</p>}
+          {error && <p className="text-xs text-rose-400">{error}</p>}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <GroupBreakdown
+          title="By Classification"
+          description={`Average engagement per thread at ${checkpointLabel}, by the classification the Manager gave the draft.`}
+          groups={byClassification}
+        />
+        <GroupBreakdown
+          title="By Hook Style"
+          description={`Average engagement per thread at ${checkpointLabel}, by what the opening line leans on. A hook can count toward several styles.`}
+          groups={byHookStyle}
+        />
+      </div>
+
+      <ThresholdCalibration
+        threads={threads}
+        checkpoint={checkpoint}
+        checkpointLabel={checkpointLabel}
+        settings={settings}
+        onAccept={onAcceptThresholds}
+      />
+
+      <Card className="bg-slate-900 border-slate-700/50">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-semibold text-white">Threads</CardTitle>
+          <CardDescription className="text-xs text-slate-500">Engagements / impressions at each checkpoint, best at {checkpointLabel} first.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {ranked.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-6">No posted threads yet. Threads are tracked from the moment they finish posting.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-800">
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Thread</th>
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Classification</th>
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Platform</th>
+                    {METRICS_CHECKPOINTS.map(c => (
+                      <th key={c.id} className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">{c.id}</th>
+                    ))}
+                    <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {ranked.map(thread => {
+                    const metrics = thread.snapshots?.[checkpoint]?.metrics
+                    return (
+                      <tr key={thread.id} className="border-b border-slate-800/50 align-top">
+                        <td className="py-2 px-2 max-w-md">
+                          <div className="flex items-center gap-1.5">
+                            <span className="text-slate-200 truncate">{thread.title || 'Untitled'}</span>
+                            {thread.url && (
+                              <a href={thread.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 shrink-0">
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                            )}
+                          </div>
+                          <p className="text-slate-500 truncate" title={thread.hook}>{thread.hook}</p>
+                        </td>
+                        <td className="py-2 px-2 text-slate-400">{thread.classification || '—'}</td>
+                        <td className="py-2 px-2 text-slate-400">{getPublisher(thread.platform)?.label ?? thread.platform}</td>
+                        {METRICS_CHECKPOINTS.map(c => (
+                          <td key={c.id} className="py-2 px-2 text-right font-mono whitespace-nowrap">
+                            <CheckpointCell thread={thread} checkpoint={c.id} />
+                          </td>
+                        ))}
+                        <td className="py-2 px-2 text-right font-mono text-cyan-400">{metrics ? formatRate(engagementRate(metrics)) : '—'}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
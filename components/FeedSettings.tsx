@@ -0,0 +1,239 @@
+'use client'
+
+import * as React from 'react'
+import { useRssFeeds } from '@/lib/rssFeeds'
+import { DEFAULT_FEED_WEIGHT, DEFAULT_POLL_INTERVAL_MINUTES, type FeedConfig, type FeedInput } from '@/lib/feedConfig'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Rss, Plus, Pencil, Trash2, RefreshCw, Save, X } from 'lucide-react'
+
+interface FeedSettingsProps {
+  /** Categories a feed can be filed under — the scan categories */
+  categories: string[]
+}
+
+const POLL_INTERVALS = [15, 30, 60, 180, 360, 720, 1440]
+
+function intervalLabel(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  const hours = minutes / 60
+  return hours === 1 ? '1 hour' : `${hours} hours`
+}
+
+function formatTime(iso: string | null): string {
+  if (!iso) return 'never'
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? iso : date.toLocaleString()
+}
+
+function emptyForm(category: string): FeedInput {
+  return {
+    url: '',
+    name: '',
+    category,
+    weight: DEFAULT_FEED_WEIGHT,
+    poll_interval_minutes: DEFAULT_POLL_INTERVAL_MINUTES,
+    enabled: true,
+  }
+}
+
+export function FeedSettings({ categories }: FeedSettingsProps) {
+  const { feeds, loading, error, fetchFeeds, create, update, refresh, remove } = useRssFeeds()
+  const [form, setForm] = React.useState<FeedInput>(() => emptyForm(categories[0] ?? ''))
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [saving, setSaving] = React.useState(false)
+  const [refreshingId, setRefreshingId] = React.useState<string | null>(null)
+  const [actionMessage, setActionMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  React.useEffect(() => {
+    fetchFeeds()
+  }, [fetchFeeds])
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm(categories[0] ?? ''))
+  }
+
+  const startEdit = (feed: FeedConfig) => {
+    setEditingId(feed.id)
+    setActionMessage(null)
+    setForm({
+      url: feed.url,
+      name: feed.name,
+      category: feed.category,
+      weight: feed.weight,
+      poll_interval_minutes: feed.poll_interval_minutes,
+      enabled: feed.enabled,
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form.url.trim()) return
+    setSaving(true)
+    setActionMessage(null)
+    const result = editingId ? await update(editingId, form) : await create(form)
+    setSaving(false)
+    if (result.success) {
+      setActionMessage({
+        type: 'success',
+        text: editingId ? `Updated ${result.feed?.name ?? 'feed'}.` : `Added ${result.feed?.name ?? 'feed'} with ${result.feed?.item_count ?? 0} entries.`,
+      })
+      resetForm()
+    } else {
+      setActionMessage({ type: 'error', text: result.error ?? 'Failed to save feed' })
+    }
+  }
+
+  const handleRefresh = async (feed: FeedConfig) => {
+    setRefreshingId(feed.id)
+    setActionMessage(null)
+    const result = await refresh(feed.id)
+    setRefreshingId(null)
+    setActionMessage(result.success
+      ? { type: 'success', text: `${feed.name}: ${result.feed?.item_count ?? 0} entries.` }
+      : { type: 'error', text: `${feed.name}: ${result.error ?? 'refresh failed'}` })
+  }
+
+  const handleDelete = async (feed: FeedConfig) => {
+    const result = await remove(feed.id)
+    if (result.success && editingId === feed.id) resetForm()
+  }
+
+  const selectClass = 'bg-slate-800 border border-slate-700 text-white text-sm rounded-md h-9 px-2'
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <Rss className="w-5 h-5 text-amber-400" />
+              RSS &amp; Atom Feeds
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500 mt-1">
+              Blogs and news feeds scanned alongside HN and arXiv when the RSS Feeds source is on. Weight is the relevance a fresh entry starts with; it halves over a week. Feed entries become drafts in Direct Orchestration mode.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => fetchFeeds()} disabled={loading} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+            <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-5">
+        {/* Add / Edit Form */}
+        <div className="space-y-3 bg-slate-800/40 border border-slate-700/30 rounded-xl p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Feed URL</Label>
+              <Input
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://example.com/feed.xml"
+                className="bg-slate-800 border-slate-700 text-white text-sm"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Defaults to the site's host"
+                className="bg-slate-800 border-slate-700 text-white text-sm"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Category</Label>
+              <select value={form.category} onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))} className={selectClass}>
+                {categories.map(cat => <option key={cat} value={cat}>{cat}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Weight (1-100)</Label>
+              <Input
+                type="number"
+                value={form.weight}
+                onChange={(e) => setForm(prev => ({ ...prev, weight: parseInt(e.target.value) || DEFAULT_FEED_WEIGHT }))}
+                min={1}
+                max={100}
+                className="bg-slate-800 border-slate-700 text-white text-sm w-24"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Poll every</Label>
+              <select value={form.poll_interval_minutes} onChange={(e) => setForm(prev => ({ ...prev, poll_interval_minutes: parseInt(e.target.value) }))} className={selectClass}>
+                {POLL_INTERVALS.map(m => <option key={m} value={m}>{intervalLabel(m)}</option>)}
+              </select>
+            </div>
+            <Button size="sm" onClick={handleSave} disabled={!form.url.trim() || saving} className="bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs">
+              {saving ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : editingId ? <Save className="w-3.5 h-3.5" /> : <Plus className="w-3.5 h-3.5" />}
+              {editingId ? 'Save Changes' : 'Add Feed'}
+            </Button>
+            {editingId && (
+              <Button size="sm" variant="outline" onClick={resetForm} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                <X className="w-3.5 h-3.5" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {actionMessage && (
+          <p className={`text-xs ${actionMessage.type === 'success' ? 'text-emerald-400' : 'text-rose-400'}`}>{actionMessage.text}</p>
+        )}
+        {error && !actionMessage && <p className="text-xs text-rose-400">{error}</p>}
+
+        {/* Feed List */}
+        {feeds.length > 0 ? (
+          <div className="space-y-3">
+            {feeds.map(feed => (
+              <div key={feed.id} className={`bg-slate-800/50 border rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${editingId === feed.id ? 'border-amber-500/40' : 'border-slate-700/30'}`}>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-white">{feed.name}</span>
+                    <Badge variant="outline" className="text-xs border-slate-600 text-slate-400">{feed.category}</Badge>
+                    <Badge className="text-xs border-none bg-amber-500/20 text-amber-400">weight {feed.weight}</Badge>
+                    {feed.last_error && (
+                      <Badge className="text-xs border-none bg-rose-500/20 text-rose-400">fetch failed</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 truncate">{feed.url}</p>
+                  <p className="text-xs text-slate-500">
+                    every {intervalLabel(feed.poll_interval_minutes)} · last fetched {formatTime(feed.last_fetched_at)} · {feed.item_count} entries
+                  </p>
+                  {feed.last_error && <p className="text-xs text-rose-400">{feed.last_error}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={feed.enabled}
+                    onCheckedChange={(checked) => update(feed.id, { enabled: checked })}
+                    className="data-[state=checked]:bg-amber-500"
+                  />
+                  <Button size="sm" variant="outline" onClick={() => handleRefresh(feed)} disabled={refreshingId === feed.id} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                    <RefreshCw className={`w-3.5 h-3.5 ${refreshingId === feed.id ? 'animate-spin' : ''}`} />
+                    Fetch now
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startEdit(feed)} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                    <Pencil className="w-3.5 h-3.5" />
+                    Edit
+                  </Button>
+                  <button onClick={() => handleDelete(feed)} className="p-1.5 text-slate-500 hover:text-rose-400" title="Delete feed">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          !loading && <p className="text-sm text-slate-500 text-center py-4">No feeds registered yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import * as React from 'react'
+import { usePublishPolicy } from '@/lib/platformPublishClient'
+import { DEFAULT_PUBLISH_POLICY, type PublishPolicy } from '@/lib/publishPolicy'
+import { formatInZone, US_TIMEZONES } from '@/lib/publishQueue'
+import { PUBLISHERS } from '@/lib/publishers'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Gauge, RefreshCw, Save } from 'lucide-react'
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h)
+
+function hourLabel(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM'
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`
+}
+
+// Number fields: blank or invalid input means "no cap"
+type NumberField = 'min_gap_minutes' | 'max_per_hour' | 'max_per_day' | 'category_daily_cap'
+
+const NUMBER_FIELDS: { key: NumberField; label: string; hint: string; max: number }[] = [
+  { key: 'min_gap_minutes', label: 'Minutes Between Threads', hint: 'Per platform', max: 1440 },
+  { key: 'max_per_hour', label: 'Threads per Hour', hint: 'Any rolling hour', max: 60 },
+  { key: 'max_per_day', label: 'Threads per Day', hint: 'Any rolling 24 hours', max: 500 },
+  { key: 'category_daily_cap', label: 'Per Category per Day', hint: 'By draft classification', max: 100 },
+]
+
+/**
+ * Publishing policy editor. Saved on its own — the server enforces it on
+ * manual posts, Publish All and scheduled posts alike.
+ */
+export function PublishPolicySettings() {
+  const { policy, usage, loading, error, fetchPolicy, save } = usePublishPolicy()
+  const [form, setForm] = React.useState<PublishPolicy>(DEFAULT_PUBLISH_POLICY)
+  const [saving, setSaving] = React.useState(false)
+  const [actionMessage, setActionMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  React.useEffect(() => {
+    fetchPolicy()
+  }, [fetchPolicy])
+
+  React.useEffect(() => {
+    if (policy) setForm(policy)
+  }, [policy])
+
+  const handleSave = async () => {
+    setSaving(true)
+    setActionMessage(null)
+    const result = await save(form)
+    setSaving(false)
+    setActionMessage(result.success
+      ? { type: 'success', text: 'Publishing policy saved.' }
+      : { type: 'error', text: result.error ?? 'Failed to save publishing policy' })
+  }
+
+  const selectClass = 'bg-slate-800 border border-slate-700 text-white text-sm rounded-md h-9 px-2'
+  const quietOff = form.quiet_start_hour === form.quiet_end_hour
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-cyan-400" />
+              Publishing Policy
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500 mt-1">
+              Limits every thread is held to, whether posted by hand, with Publish All or from the schedule. Each platform counts separately; 0 means no limit. A held scheduled post moves to the next allowed time.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Label className="text-xs text-slate-400">Enforce</Label>
+            <Switch checked={form.enabled} onCheckedChange={(enabled) => setForm(prev => ({ ...prev, enabled }))} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-5">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {NUMBER_FIELDS.map(field => (
+            <div key={field.key} className="space-y-1.5">
+              <Label className="text-xs text-slate-400">{field.label}</Label>
+              <Input
+                type="number"
+                value={form[field.key]}
+                onChange={(e) => setForm(prev => ({ ...prev, [field.key]: Math.max(0, parseInt(e.target.value) || 0) }))}
+                min={0}
+                max={field.max}
+                disabled={!form.enabled}
+                className="bg-slate-800 border-slate-700 text-white text-sm"
+              />
+              <p className="text-xs text-slate-500">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Quiet Hours From</Label>
+            <select value={form.quiet_start_hour} onChange={(e) => setForm(prev => ({ ...prev, quiet_start_hour: parseInt(e.target.value) }))} disabled={!form.enabled} className={selectClass}>
+              {HOURS.map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Until</Label>
+            <select value={form.quiet_end_hour} onChange={(e) => setForm(prev => ({ ...prev, quiet_end_hour: parseInt(e.target.value) }))} disabled={!form.enabled} className={selectClass}>
+              {HOURS.map(h => <option key={h} value={h}>{hourLabel(h)}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Time Zone</Label>
+            <select value={form.timezone} onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))} disabled={!form.enabled} className={selectClass}>
+              {US_TIMEZONES.map(tz => <option key={tz.value} value={tz.value}>{tz.label}</option>)}
+            </select>
+          </div>
+          <Button size="sm" onClick={handleSave} disabled={saving || loading} className="bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-xs">
+            {saving ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+            Save Policy
+          </Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          {quietOff ? 'No quiet hours — set different start and end hours to pause posting overnight.' : `Nothing is posted from ${hourLabel(form.quiet_start_hour)} to ${hourLabel(form.quiet_end_hour)}.`}
+        </p>
+
+        {actionMessage && (
+          <p className={`text-xs ${actionMessage.type === 'success' ? 'text-emerald-400' : 'text-rose-400'}`}>{actionMessage.text}</p>
+        )}
+        {error && !actionMessage && <p className="text-xs text-rose-400">{error}</p>}
+
+        {/* Recent usage */}
+        {usage && (
+          <div className="flex flex-wrap gap-2">
+            {PUBLISHERS.map(publisher => {
+              const u = usage[publisher.id]
+              if (!u) return null
+              return (
+                <div key={publisher.id} className="bg-slate-800/40 border border-slate-700/30 rounded-lg px-3 py-2 text-xs text-slate-400">
+                  <span className="text-slate-300 font-medium">{publisher.label}</span>
+                  {' · '}{u.last_hour}{form.max_per_hour > 0 ? `/${form.max_per_hour}` : ''} this hour
+                  {' · '}{u.last_day}{form.max_per_day > 0 ? `/${form.max_per_day}` : ''} in 24h
+                  {u.last_at && <>{' · '}last {formatInZone(u.last_at, form.timezone)}</>}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
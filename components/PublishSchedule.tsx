@@ -0,0 +1,279 @@
+'use client'
+
+import * as React from 'react'
+import type { ThreadDraft } from '@/lib/types'
+import {
+  usePublishQueue,
+  suggestPublishSlots,
+  zonedTimeToUtc,
+  utcToZonedInput,
+  formatInZone,
+  zonedDayKey,
+  isInsideWindow,
+  type PublishWindow,
+  type ScheduledPost,
+} from '@/lib/publishQueue'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { CalendarClock, Clock, RefreshCw, Trash2, Wand2, ExternalLink, AlertTriangle } from 'lucide-react'
+
+interface PublishScheduleProps {
+  /** Approved drafts that can be queued */
+  drafts: ThreadDraft[]
+  /** Twitter Publisher agent the worker posts through */
+  agentId: string
+  window: PublishWindow
+  onStatus?: (status: { type: 'success' | 'error' | 'info'; text: string }) => void
+}
+
+const STATUS_STYLES: Record<ScheduledPost['status'], string> = {
+  scheduled: 'bg-cyan-500/20 text-cyan-400',
+  posting: 'bg-amber-500/20 text-amber-400',
+  published: 'bg-emerald-500/20 text-emerald-400',
+  failed: 'bg-rose-500/20 text-rose-400',
+  unconfirmed: 'bg-orange-500/20 text-orange-400',
+}
+
+// Refresh while something is pending so worker results show up without a reload
+const POLL_MS = 30 * 1000
+
+export function PublishSchedule({ drafts, agentId, window: publishWindow, onStatus }: PublishScheduleProps) {
+  const { posts, loading, error, fetchPosts, schedule, reschedule, cancel } = usePublishQueue()
+  const [pickedTimes, setPickedTimes] = React.useState<Record<string, string>>({})
+  const [busyIds, setBusyIds] = React.useState<Set<string>>(new Set())
+
+  React.useEffect(() => {
+    fetchPosts()
+  }, [fetchPosts])
+
+  const hasPending = posts.some(p => p.status === 'scheduled' || p.status === 'posting')
+  React.useEffect(() => {
+    if (!hasPending) return
+    const timer = setInterval(() => { fetchPosts() }, POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasPending, fetchPosts])
+
+  const unscheduled = React.useMemo(() => {
+    const queuedDraftIds = new Set(posts.filter(p => p.status !== 'failed').map(p => p.draft_id))
+    return drafts.filter(d => !queuedDraftIds.has(d?.id ?? ''))
+  }, [drafts, posts])
+  const takenSlots = React.useMemo(() => posts.filter(p => p.status === 'scheduled').map(p => p.scheduled_at), [posts])
+
+  // Default each unscheduled draft to its own suggested slot
+  const { timezone, startHour, endHour, spacingMinutes } = publishWindow
+  const suggested = React.useMemo(() => {
+    const slots = suggestPublishSlots(unscheduled.length, { timezone, startHour, endHour, spacingMinutes }, takenSlots)
+    const map: Record<string, string> = {}
+    unscheduled.forEach((d, i) => {
+      if (slots[i]) map[d.id] = utcToZonedInput(slots[i].toISOString(), timezone)
+    })
+    return map
+  }, [unscheduled, takenSlots, timezone, startHour, endHour, spacingMinutes])
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => {
+      const next = new Set(prev)
+      if (busy) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  const handleSchedule = async (draft: ThreadDraft, local: string) => {
+    const when = zonedTimeToUtc(local, publishWindow.timezone)
+    if (!when) {
+      onStatus?.({ type: 'error', text: 'Pick a valid date and time.' })
+      return
+    }
+    if (when.getTime() < Date.now()) {
+      onStatus?.({ type: 'error', text: 'That time has already passed.' })
+      return
+    }
+    setBusy(draft.id, true)
+    const result = await schedule({ draft, agent_id: agentId, scheduled_at: when.toISOString(), timezone: publishWindow.timezone })
+    setBusy(draft.id, false)
+    if (result.success) {
+      onStatus?.({ type: 'success', text: `"${draft.title}" scheduled for ${formatInZone(when.toISOString(), publishWindow.timezone)}.` })
+    } else {
+      onStatus?.({ type: 'error', text: `Failed to schedule: ${result.error ?? 'Unknown error'}` })
+    }
+  }
+
+  const handleAutoSchedule = async () => {
+    const slots = suggestPublishSlots(unscheduled.length, publishWindow, takenSlots)
+    let scheduled = 0
+    for (let i = 0; i < unscheduled.length && i < slots.length; i++) {
+      const draft = unscheduled[i]
+      setBusy(draft.id, true)
+      const result = await schedule({ draft, agent_id: agentId, scheduled_at: slots[i].toISOString(), timezone: publishWindow.timezone })
+      setBusy(draft.id, false)
+      if (result.success) scheduled++
+    }
+    onStatus?.({
+      type: scheduled === unscheduled.length ? 'success' : 'error',
+      text: `Scheduled ${scheduled} of ${unscheduled.length} threads inside the ${publishWindow.startHour}:00–${publishWindow.endHour}:00 window.`,
+    })
+  }
+
+  const handleReschedule = async (post: ScheduledPost, local: string) => {
+    const when = zonedTimeToUtc(local, publishWindow.timezone)
+    if (!when) return
+    setBusy(post.id, true)
+    const result = await reschedule(post.id, when.toISOString(), publishWindow.timezone)
+    setBusy(post.id, false)
+    if (!result.success) onStatus?.({ type: 'error', text: `Failed to reschedule: ${result.error ?? 'Unknown error'}` })
+  }
+
+  const handleCancel = async (post: ScheduledPost) => {
+    setBusy(post.id, true)
+    const result = await cancel(post.id)
+    setBusy(post.id, false)
+    if (!result.success) onStatus?.({ type: 'error', text: `Failed to remove: ${result.error ?? 'Unknown error'}` })
+  }
+
+  // Timeline grouped by local day in the publishing time zone
+  const days = posts.reduce<Record<string, ScheduledPost[]>>((acc, post) => {
+    const key = zonedDayKey(post.scheduled_at, publishWindow.timezone)
+    acc[key] = [...(acc[key] ?? []), post]
+    return acc
+  }, {})
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-cyan-400" />
+              Publishing Schedule
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500 mt-1">
+              Posts go out from the server at the scheduled time, even with this tab closed. Times shown in {publishWindow.timezone}; posting window {publishWindow.startHour}:00–{publishWindow.endHour}:00.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Button size="sm" variant="outline" onClick={() => fetchPosts()} disabled={loading} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+              <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+            {unscheduled.length > 0 && (
+              <Button size="sm" onClick={handleAutoSchedule} className="bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-xs">
+                <Wand2 className="w-3.5 h-3.5" />
+                Auto-schedule {unscheduled.length}
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-5">
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+
+        {/* Unscheduled approved drafts */}
+        {unscheduled.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">Not yet scheduled</p>
+            {unscheduled.map(draft => {
+              const local = pickedTimes[draft.id] ?? suggested[draft.id] ?? ''
+              const when = local ? zonedTimeToUtc(local, publishWindow.timezone) : null
+              const outside = when ? !isInsideWindow(when, publishWindow) : false
+              return (
+                <div key={draft.id} className="bg-slate-800/50 border border-slate-700/30 rounded-xl p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{draft.title}</p>
+                    {outside && (
+                      <p className="text-xs text-amber-400 flex items-center gap-1 mt-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        Outside the posting window
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Input
+                      type="datetime-local"
+                      value={local}
+                      onChange={(e) => setPickedTimes(prev => ({ ...prev, [draft.id]: e.target.value }))}
+                      className="bg-slate-800 border-slate-700 text-white text-xs h-8 w-[190px]"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleSchedule(draft, local)}
+                      disabled={!local || busyIds.has(draft.id)}
+                      className="bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs"
+                    >
+                      <Clock className="w-3.5 h-3.5" />
+                      Schedule
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {/* Timeline */}
+        {Object.keys(days).length > 0 ? (
+          <div className="space-y-4">
+            {Object.keys(days).sort().map(day => (
+              <div key={day} className="space-y-2">
+                <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+                  {formatInZone(days[day][0].scheduled_at, publishWindow.timezone).split(',').slice(0, 2).join(',')}
+                </p>
+                <div className="border-l border-slate-700/50 ml-1.5 pl-4 space-y-2">
+                  {days[day].map(post => {
+                    const editable = post.status === 'scheduled' || post.status === 'failed' || post.status === 'unconfirmed'
+                    return (
+                      <div key={post.id} className="relative bg-slate-800/40 border border-slate-700/30 rounded-lg p-3">
+                        <span className={`absolute -left-[21px] top-4 w-2.5 h-2.5 rounded-full ${post.status === 'published' ? 'bg-emerald-400' : post.status === 'failed' ? 'bg-rose-400' : post.status === 'unconfirmed' ? 'bg-orange-400' : post.status === 'posting' ? 'bg-amber-400 animate-pulse' : 'bg-cyan-400'}`} />
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                          <span className="text-xs font-mono text-slate-400 w-28 shrink-0">
+                            {new Date(post.scheduled_at).toLocaleTimeString('en-US', { timeZone: publishWindow.timezone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' })}
+                          </span>
+                          <span className="text-sm text-slate-200 flex-1 min-w-0 truncate">{post.draft?.title ?? 'Untitled'}</span>
+                          <Badge className={`text-xs border-none w-fit ${STATUS_STYLES[post.status]}`}>{post.status}</Badge>
+                          {post.tweet_url && (
+                            <a href={post.tweet_url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:text-cyan-300 text-xs flex items-center gap-1">
+                              <ExternalLink className="w-3 h-3" />
+                              View
+                            </a>
+                          )}
+                          {editable && (
+                            <div className="flex items-center gap-2">
+                              <Input
+                                key={post.scheduled_at}
+                                type="datetime-local"
+                                defaultValue={utcToZonedInput(post.scheduled_at, publishWindow.timezone)}
+                                onBlur={(e) => {
+                                  if (e.target.value && e.target.value !== utcToZonedInput(post.scheduled_at, publishWindow.timezone)) {
+                                    handleReschedule(post, e.target.value)
+                                  }
+                                }}
+                                disabled={busyIds.has(post.id)}
+                                className="bg-slate-800 border-slate-700 text-white text-xs h-8 w-[190px]"
+                              />
+                              <button onClick={() => handleCancel(post)} disabled={busyIds.has(post.id)} className="p-1 text-slate-500 hover:text-rose-400" title="Remove from queue">
+                                <Trash2 className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          )}
+                        </div>
+                        {post.error_message && post.status !== 'published' && post.status !== 'posting' && (
+                          <p className={`text-xs mt-2 ${post.status === 'failed' ? 'text-rose-400' : post.status === 'unconfirmed' ? 'text-orange-400' : 'text-slate-400'}`}>{post.error_message}</p>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          unscheduled.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-6">Nothing scheduled. Approve drafts in the Content Queue to schedule them.</p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import * as React from 'react'
+import type { PublishPlatform, PublishRecord, ThreadDraft, ThreadPostState } from '@/lib/types'
+import { PUBLISHERS, checkThreadFor, describeOverLimit, draftPlatforms } from '@/lib/publishers'
+import type { PlatformStatusMap } from '@/lib/platformPublishClient'
+import { Check, CircleHelp, ExternalLink, Loader2, X } from 'lucide-react'
+
+interface PublishTargetsProps {
+  draft: ThreadDraft
+  /** Server credentials per platform; null while loading */
+  status: PlatformStatusMap | null
+  /** This draft's publish records, for the per-platform result marks */
+  records?: PublishRecord[]
+  disabled?: boolean
+  onChange: (platforms: PublishPlatform[]) => void
+}
+
+const POST_STATE_STYLES: Record<ThreadPostState['status'], string> = {
+  posted: 'bg-emerald-400',
+  failed: 'bg-rose-400',
+  pending: 'bg-slate-600',
+  unconfirmed: 'bg-orange-400',
+}
+
+/** One dot per post of a thread — which went out, which failed, which are still to go. */
+export function ThreadProgressDots({ posts, noun }: { posts?: ThreadPostState[]; noun: string }) {
+  if (!posts || posts.length === 0) return <span className="text-slate-600 text-xs">--</span>
+  const posted = posts.filter(p => p.status === 'posted').length
+  return (
+    <span className="inline-flex items-center gap-1" title={`${posted} of ${posts.length} ${noun}s posted`}>
+      {posts.map(post => (
+        post.url ? (
+          <a key={post.index} href={post.url} target="_blank" rel="noopener noreferrer" title={`${noun} ${post.index + 1}: ${post.status}`} className={`w-2 h-2 rounded-full ${POST_STATE_STYLES[post.status]}`} />
+        ) : (
+          <span key={post.index} title={`${noun} ${post.index + 1}: ${post.status}${post.error_message ? ` — ${post.error_message}` : ''}`} className={`w-2 h-2 rounded-full ${POST_STATE_STYLES[post.status]}`} />
+        )
+      ))}
+    </span>
+  )
+}
+
+/** Per-draft platform toggles with each platform's limit check and last publish result. */
+export function PublishTargets({ draft, status, records = [], disabled, onChange }: PublishTargetsProps) {
+  const selected = draftPlatforms(draft)
+
+  const toggle = (id: PublishPlatform) => {
+    const next = selected.includes(id) ? selected.filter(p => p !== id) : [...selected, id]
+    // A draft always goes somewhere
+    if (next.length > 0) onChange(PUBLISHERS.map(p => p.id).filter(p => next.includes(p)))
+  }
+
+  const warnings = PUBLISHERS
+    .filter(p => selected.includes(p.id))
+    .map(p => ({ publisher: p, check: checkThreadFor(p, draft) }))
+    .filter(({ check }) => !check.valid)
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {PUBLISHERS.map(publisher => {
+          const Icon = publisher.icon
+          const isOn = selected.includes(publisher.id)
+          const configured = status ? status[publisher.id]?.configured : true
+          const record = records.find(r => r.platform === publisher.id)
+          return (
+            <span key={publisher.id} className="inline-flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => toggle(publisher.id)}
+                disabled={disabled || (!configured && !isOn)}
+                title={configured ? `${publisher.charLimit} characters per ${publisher.postNoun}, ${publisher.linkNote}` : `Not configured — set ${status?.[publisher.id]?.hint}`}
+                className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-xs transition-colors disabled:opacity-40 ${isOn ? publisher.accent : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                <Icon className="w-3 h-3" />
+                {publisher.label}
+                {record?.status === 'success' && <Check className="w-3 h-3 text-emerald-400" />}
+                {record?.status === 'failed' && <X className="w-3 h-3 text-rose-400" />}
+                {record?.status === 'unconfirmed' && <CircleHelp className="w-3 h-3 text-orange-400" />}
+                {record?.status === 'posting' && <Loader2 className="w-3 h-3 animate-spin" />}
+              </button>
+              {(record?.status === 'failed' || record?.status === 'unconfirmed') && record.posts?.some(p => p.status !== 'pending') && (
+                <ThreadProgressDots posts={record.posts} noun={publisher.postNoun} />
+              )}
+              {record?.status === 'success' && record.tweetUrl && (
+                <a href={record.tweetUrl} target="_blank" rel="noopener noreferrer" className="text-slate-500 hover:text-cyan-400" title={`View on ${publisher.label}`}>
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </span>
+          )
+        })}
+      </div>
+      {warnings.map(({ publisher, check }) => (
+        <p key={publisher.id} className="text-xs text-rose-400">{describeOverLimit(publisher, check)}.</p>
+      ))}
+      {selected.some(id => status && !status[id]?.configured) && (
+        <p className="text-xs text-amber-400">
+          {selected.filter(id => status && !status[id]?.configured).map(id => PUBLISHERS.find(p => p.id === id)?.label).join(', ')} not configured on the server.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import * as React from 'react'
+import { useScanHistory, getScan, compareScans, type ScanRecord, type ScanItemDiff } from '@/lib/scanHistory'
+import { SOURCE_ADAPTERS } from '@/lib/sources'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { History, RefreshCw, FolderOpen, Trash2, GitCompare, Info, ChevronDown } from 'lucide-react'
+
+interface ScanHistoryProps {
+  /** Load a past scan back into the dashboard */
+  onOpen: (record: ScanRecord) => void
+  /** Bumped by the page after each saved scan so the list refreshes */
+  refreshKey?: number
+}
+
+function DiffColumn({ label, diff }: { label: string; diff: ScanItemDiff }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">{label}</p>
+      <p className="text-xs text-slate-500">
+        +{diff.added.length} / -{diff.removed.length} / ={diff.unchanged.length}
+      </p>
+      <div className="space-y-1 max-h-48 overflow-y-auto">
+        {diff.added.map(t => (
+          <p key={`a-${t}`} className="text-xs text-emerald-400 truncate">+ {t}</p>
+        ))}
+        {diff.removed.map(t => (
+          <p key={`r-${t}`} className="text-xs text-rose-400 truncate">- {t}</p>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function ScanHistory({ onOpen, refreshKey = 0 }: ScanHistoryProps) {
+  const { scans, total, loading, error, fetchScans, loadMore, remove } = useScanHistory()
+  const [compareIds, setCompareIds] = React.useState<string[]>([])
+  const [comparison, setComparison] = React.useState<ReturnType<typeof compareScans> | null>(null)
+  const [inspected, setInspected] = React.useState<ScanRecord | null>(null)
+  const [actionError, setActionError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    fetchScans()
+  }, [fetchScans, refreshKey])
+
+  const toggleCompare = (scanId: string) => {
+    setComparison(null)
+    setCompareIds(prev =>
+      prev.includes(scanId)
+        ? prev.filter(id => id !== scanId)
+        : [...prev, scanId].slice(-2)
+    )
+  }
+
+  const handleOpen = async (scanId: string) => {
+    setActionError(null)
+    const result = await getScan(scanId)
+    if (result.success && result.scan) {
+      setInspected(result.scan)
+      onOpen(result.scan)
+    } else {
+      setActionError(result.error || 'Failed to load scan')
+    }
+  }
+
+  const handleCompare = async () => {
+    if (compareIds.length !== 2) return
+    setActionError(null)
+    const [first, second] = await Promise.all(compareIds.map(id => getScan(id)))
+    if (!first.scan || !second.scan) {
+      setActionError(first.error || second.error || 'Failed to load scans for comparison')
+      return
+    }
+    // Older scan is the baseline regardless of selection order
+    const [before, after] = first.scan.saved_at <= second.scan.saved_at
+      ? [first.scan, second.scan]
+      : [second.scan, first.scan]
+    setComparison(compareScans(before.response, after.response))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-slate-900 border-slate-700/50">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <History className="w-5 h-5 text-cyan-400" />
+              Scan History
+              <Badge variant="secondary" className="ml-2 bg-slate-800 text-slate-300 border-none text-xs">
+                {total} scans
+              </Badge>
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                onClick={handleCompare}
+                disabled={compareIds.length !== 2}
+                className="bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-xs disabled:opacity-50"
+              >
+                <GitCompare className="w-3.5 h-3.5" />
+                Compare Selected
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fetchScans()}
+                disabled={loading}
+                className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+          <CardDescription className="text-slate-400 text-sm">
+            Every completed scan is archived with the settings used and the raw agent response. Select two scans to compare.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          {(error || actionError) && (
+            <p className="text-xs text-rose-400">{error || actionError}</p>
+          )}
+          {scans.length === 0 && !loading && (
+            <p className="text-sm text-slate-500 py-8 text-center">No saved scans yet. Completed scans are archived automatically.</p>
+          )}
+          {scans.map(scan => (
+            <div key={scan.id} className={`bg-slate-800/50 border rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${inspected?.id === scan.id ? 'border-cyan-500/40' : 'border-slate-700/30'}`}>
+              <Checkbox
+                checked={compareIds.includes(scan.id)}
+                onCheckedChange={() => toggleCompare(scan.id)}
+                className="border-slate-600 data-[state=checked]:bg-purple-500 data-[state=checked]:border-purple-500"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white">{scan.scan_timestamp}</p>
+                <p className="text-xs text-slate-500">
+                  {SOURCE_ADAPTERS.map(a => `${scan.item_counts?.[a.id] ?? 0} ${a.countNoun}`).join(' · ')} · {scan.draft_count} drafts · {scan.flagged_for_review} flagged · {scan.pipeline_status}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Button
+                  size="sm"
+                  onClick={() => handleOpen(scan.id)}
+                  className="bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Open
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => remove(scan.id)}
+                  className="border-slate-700 text-rose-400 hover:bg-slate-800 rounded-lg text-xs"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {scans.length > 0 && scans.length < total && (
+            <div className="flex items-center justify-center gap-3 pt-1">
+              <span className="text-xs text-slate-500">Showing {scans.length} of {total}</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => loadMore()}
+                disabled={loading}
+                className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs"
+              >
+                <ChevronDown className="w-3.5 h-3.5" />
+                Load Older Scans
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {comparison && (
+        <Card className="bg-slate-900 border-slate-700/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold text-white flex items-center gap-2">
+              <GitCompare className="w-5 h-5 text-purple-400" />
+              Comparison (older → newer)
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="pt-0 grid grid-cols-1 md:grid-cols-3 gap-6">
+            {comparison.sources.map(source => (
+              <DiffColumn key={source.id} label={source.title} diff={source.diff} />
+            ))}
+            <DiffColumn label="Thread Drafts" diff={comparison.drafts} />
+          </CardContent>
+        </Card>
+      )}
+
+      {inspected && (
+        <Card className="bg-slate-900 border-slate-700/50">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold text-white flex items-center gap-2">
+              <Info className="w-5 h-5 text-slate-400" />
+              Scan Details
+            </CardTitle>
+            <CardDescription className="text-slate-400 text-sm">
+              Saved {inspected.saved_at}. Loaded into the Dashboard and Content Queue.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-3">
+            <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">Settings used</p>
+            <pre className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-400 overflow-x-auto whitespace-pre-wrap">
+              {inspected.settings ? JSON.stringify(inspected.settings, null, 2) : 'Not recorded'}
+            </pre>
+            <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">Raw agent response</p>
+            <pre className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-400 overflow-x-auto max-h-64 overflow-y-auto whitespace-pre-wrap break-all">
+              {inspected.raw_response}
+            </pre>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,371 @@
+'use client'
+
+import * as React from 'react'
+import {
+  useScheduler,
+  createSchedule,
+  getScheduleLogs,
+  cronToHuman,
+  buildCron,
+  isValidCron,
+  type CronFrequency,
+  type CronSpec,
+  type ExecutionLog,
+  type Schedule,
+} from '@/lib/scheduler'
+import { US_TIMEZONES } from '@/lib/publishQueue'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { CalendarClock, Play, Pause, Zap, Trash2, RefreshCw, ScrollText, ChevronLeft, ChevronRight, FolderOpen } from 'lucide-react'
+
+interface ScanSchedulesProps {
+  /** Manager agent the schedules run */
+  agentId: string
+  /** Scan instruction built from the current settings */
+  message: string
+  /** Load a scheduled run's output into the dashboard */
+  onOpenOutput?: (output: string) => void
+}
+
+const LOGS_PAGE_SIZE = 10
+
+const FREQUENCIES: { value: CronFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekdays', label: 'Weekdays' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'hourly', label: 'Every N hours' },
+  { value: 'custom', label: 'Custom cron' },
+]
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const DEFAULT_SPEC: CronSpec = {
+  frequency: 'daily',
+  hour: 8,
+  minute: 0,
+  dayOfWeek: 1,
+  everyHours: 6,
+  custom: '0 8 * * *',
+}
+
+function formatTime(iso: string | null): string {
+  if (!iso) return '--'
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? iso : date.toLocaleString()
+}
+
+function ExecutionLogViewer({ schedule, onOpenOutput }: { schedule: Schedule; onOpenOutput?: (output: string) => void }) {
+  const [logs, setLogs] = React.useState<ExecutionLog[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [page, setPage] = React.useState(0)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [expandedId, setExpandedId] = React.useState<string | null>(null)
+
+  const load = React.useCallback(async (pageIndex: number) => {
+    setLoading(true)
+    setError(null)
+    const result = await getScheduleLogs(schedule.id, { skip: pageIndex * LOGS_PAGE_SIZE, limit: LOGS_PAGE_SIZE })
+    if (result.success) {
+      setLogs(result.executions)
+      setTotal(result.total)
+    } else {
+      setError(result.error || 'Failed to load execution logs')
+    }
+    setLoading(false)
+  }, [schedule.id])
+
+  React.useEffect(() => {
+    load(page)
+  }, [load, page])
+
+  const pageCount = Math.max(1, Math.ceil(total / LOGS_PAGE_SIZE))
+
+  return (
+    <div className="space-y-3 bg-slate-950/60 border border-slate-700/40 rounded-xl p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-slate-400 uppercase tracking-wider">Execution Log · {total} runs</p>
+        <button onClick={() => load(page)} className="p-1 text-slate-500 hover:text-slate-300" title="Refresh">
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-rose-400">{error}</p>}
+
+      {logs.length === 0 && !loading ? (
+        <p className="text-xs text-slate-500">No runs yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700/50">
+                <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Executed</th>
+                <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Result</th>
+                <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Attempt</th>
+                <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">HTTP</th>
+                <th className="text-left py-2 px-3 text-xs font-medium text-slate-500 uppercase">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {logs.map(log => (
+                <React.Fragment key={log.id}>
+                  <tr className="border-b border-slate-800/50">
+                    <td className="py-2 px-3 text-xs text-slate-400">{formatTime(log.executed_at)}</td>
+                    <td className="py-2 px-3">
+                      <Badge className={`text-xs border-none ${log.success ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+                        {log.success ? 'success' : 'failed'}
+                      </Badge>
+                    </td>
+                    <td className="py-2 px-3 text-xs text-slate-500">{log.attempt}/{log.max_attempts}</td>
+                    <td className="py-2 px-3 text-xs text-slate-500">{log.response_status || '--'}</td>
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => setExpandedId(prev => prev === log.id ? null : log.id)} className="text-xs text-cyan-400 hover:text-cyan-300">
+                          {expandedId === log.id ? 'Hide' : 'Show'}
+                        </button>
+                        {log.success && log.response_output && onOpenOutput && (
+                          <button onClick={() => onOpenOutput(log.response_output)} className="text-xs text-cyan-400 hover:text-cyan-300 flex items-center gap-1">
+                            <FolderOpen className="w-3 h-3" />
+                            Open
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedId === log.id && (
+                    <tr className="border-b border-slate-800/50">
+                      <td colSpan={5} className="py-2 px-3">
+                        {log.error_message && <p className="text-xs text-rose-400 mb-2">{log.error_message}</p>}
+                        <pre className="text-xs text-slate-400 bg-slate-900 rounded-lg p-3 max-h-64 overflow-auto whitespace-pre-wrap break-words">
+                          {(log.response_output || '(no output)').slice(0, 5000)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {total > LOGS_PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-2">
+          <Button size="sm" variant="outline" disabled={page === 0 || loading} onClick={() => setPage(p => p - 1)} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+            <ChevronLeft className="w-3.5 h-3.5" />
+          </Button>
+          <span className="text-xs text-slate-500">Page {page + 1} of {pageCount}</span>
+          <Button size="sm" variant="outline" disabled={page + 1 >= pageCount || loading} onClick={() => setPage(p => p + 1)} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+            <ChevronRight className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ScanSchedules({ agentId, message, onOpenOutput }: ScanSchedulesProps) {
+  const { schedules, loading, error, fetchSchedules, toggleSchedule, trigger, remove } = useScheduler()
+  const [spec, setSpec] = React.useState<CronSpec>(DEFAULT_SPEC)
+  const [timezone, setTimezone] = React.useState('America/New_York')
+  const [creating, setCreating] = React.useState(false)
+  const [actionMessage, setActionMessage] = React.useState<{ type: 'success' | 'error'; text: string } | null>(null)
+  const [logsScheduleId, setLogsScheduleId] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    fetchSchedules({ agentId })
+  }, [fetchSchedules, agentId])
+
+  const cron = buildCron(spec)
+  const cronValid = isValidCron(cron)
+
+  const handleCreate = async () => {
+    if (!cronValid) return
+    setCreating(true)
+    setActionMessage(null)
+    const result = await createSchedule({ agent_id: agentId, cron_expression: cron, message, timezone })
+    setCreating(false)
+    if (result.success) {
+      setActionMessage({ type: 'success', text: `Schedule created: ${cronToHuman(cron)} (${timezone}).` })
+      fetchSchedules({ agentId })
+    } else {
+      setActionMessage({ type: 'error', text: `Failed to create schedule: ${result.error ?? 'Unknown error'}` })
+    }
+  }
+
+  // Pause/resume may report "already" states as success — always resync from the server
+  const handleToggle = async (schedule: Schedule) => {
+    await toggleSchedule(schedule)
+    fetchSchedules({ agentId })
+  }
+
+  const handleTrigger = async (schedule: Schedule) => {
+    const result = await trigger(schedule.id)
+    setActionMessage(result.success
+      ? { type: 'success', text: 'Scan triggered. The run will appear in the execution log shortly.' }
+      : { type: 'error', text: `Failed to trigger: ${result.error ?? 'Unknown error'}` })
+  }
+
+  const handleDelete = async (schedule: Schedule) => {
+    const result = await remove(schedule.id)
+    if (result.success && logsScheduleId === schedule.id) setLogsScheduleId(null)
+  }
+
+  const selectClass = 'bg-slate-800 border border-slate-700 text-white text-sm rounded-md h-9 px-2'
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+              <CalendarClock className="w-5 h-5 text-purple-400" />
+              Scheduled Scans
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500 mt-1">
+              Recurring Manager scans run by the Lyzr scheduler, using the scan settings in effect when each schedule is created.
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => fetchSchedules({ agentId })} disabled={loading} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+            <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-5">
+        {/* Cron Builder */}
+        <div className="space-y-3 bg-slate-800/40 border border-slate-700/30 rounded-xl p-4">
+          <div className="flex flex-wrap gap-2">
+            {FREQUENCIES.map(f => (
+              <Button
+                key={f.value}
+                size="sm"
+                variant={spec.frequency === f.value ? 'default' : 'outline'}
+                onClick={() => setSpec(prev => ({ ...prev, frequency: f.value }))}
+                className={`rounded-lg text-xs ${spec.frequency === f.value ? 'bg-purple-500 text-white border-purple-500 hover:bg-purple-600' : 'bg-transparent border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-300'}`}
+              >
+                {f.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            {spec.frequency === 'custom' ? (
+              <div className="space-y-1.5">
+                <Label className="text-xs text-slate-400">Cron expression</Label>
+                <Input
+                  value={spec.custom}
+                  onChange={(e) => setSpec(prev => ({ ...prev, custom: e.target.value }))}
+                  placeholder="0 8 * * *"
+                  className="bg-slate-800 border-slate-700 text-white text-sm font-mono w-48"
+                />
+              </div>
+            ) : (
+              <>
+                {spec.frequency === 'weekly' && (
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-slate-400">Day</Label>
+                    <select value={spec.dayOfWeek} onChange={(e) => setSpec(prev => ({ ...prev, dayOfWeek: parseInt(e.target.value) }))} className={selectClass}>
+                      {DAYS.map((d, i) => <option key={d} value={i}>{d}</option>)}
+                    </select>
+                  </div>
+                )}
+                {spec.frequency === 'hourly' ? (
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-slate-400">Every</Label>
+                    <select value={spec.everyHours} onChange={(e) => setSpec(prev => ({ ...prev, everyHours: parseInt(e.target.value) }))} className={selectClass}>
+                      {[1, 2, 3, 4, 6, 8, 12].map(h => <option key={h} value={h}>{h} {h === 1 ? 'hour' : 'hours'}</option>)}
+                    </select>
+                  </div>
+                ) : (
+                  <div className="space-y-1.5">
+                    <Label className="text-xs text-slate-400">Hour</Label>
+                    <select value={spec.hour} onChange={(e) => setSpec(prev => ({ ...prev, hour: parseInt(e.target.value) }))} className={selectClass}>
+                      {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{String(h).padStart(2, '0')}</option>)}
+                    </select>
+                  </div>
+                )}
+                <div className="space-y-1.5">
+                  <Label className="text-xs text-slate-400">Minute</Label>
+                  <select value={spec.minute} onChange={(e) => setSpec(prev => ({ ...prev, minute: parseInt(e.target.value) }))} className={selectClass}>
+                    {[0, 15, 30, 45].map(m => <option key={m} value={m}>{String(m).padStart(2, '0')}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+            <div className="space-y-1.5">
+              <Label className="text-xs text-slate-400">Time zone</Label>
+              <select value={timezone} onChange={(e) => setTimezone(e.target.value)} className={selectClass}>
+                {US_TIMEZONES.map(tz => <option key={tz.value} value={tz.value}>{tz.label}</option>)}
+              </select>
+            </div>
+            <Button size="sm" onClick={handleCreate} disabled={!cronValid || creating} className="bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-xs">
+              {creating ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <CalendarClock className="w-3.5 h-3.5" />}
+              Create Schedule
+            </Button>
+          </div>
+
+          <p className={`text-xs ${cronValid ? 'text-slate-400' : 'text-rose-400'}`}>
+            {cronValid ? <>Preview: <span className="text-purple-300">{cronToHuman(cron)}</span> · <span className="font-mono">{cron}</span> · {timezone}</> : 'Enter a 5-part cron expression (minute hour day month weekday).'}
+          </p>
+        </div>
+
+        {actionMessage && (
+          <p className={`text-xs ${actionMessage.type === 'success' ? 'text-emerald-400' : 'text-rose-400'}`}>{actionMessage.text}</p>
+        )}
+        {error && <p className="text-xs text-rose-400">{error}</p>}
+
+        {/* Schedule List */}
+        {schedules.length > 0 ? (
+          <div className="space-y-3">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="space-y-3">
+                <div className="bg-slate-800/50 border border-slate-700/30 rounded-xl p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-semibold text-white">{cronToHuman(schedule.cron_expression)}</span>
+                      <Badge className={`text-xs border-none ${schedule.is_active ? 'bg-emerald-500/20 text-emerald-400' : 'bg-slate-500/20 text-slate-400'}`}>
+                        {schedule.is_active ? 'active' : 'paused'}
+                      </Badge>
+                      {schedule.last_run_success === false && (
+                        <Badge className="text-xs border-none bg-rose-500/20 text-rose-400">last run failed</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500">
+                      <span className="font-mono">{schedule.cron_expression}</span> · {schedule.timezone} · next {formatTime(schedule.next_run_time)} · last {formatTime(schedule.last_run_at)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => handleToggle(schedule)} disabled={loading} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                      {schedule.is_active ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+                      {schedule.is_active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleTrigger(schedule)} disabled={loading} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                      <Zap className="w-3.5 h-3.5" />
+                      Run now
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setLogsScheduleId(prev => prev === schedule.id ? null : schedule.id)} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+                      <ScrollText className="w-3.5 h-3.5" />
+                      Logs
+                    </Button>
+                    <button onClick={() => handleDelete(schedule)} disabled={loading} className="p-1.5 text-slate-500 hover:text-rose-400" title="Delete schedule">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                {logsScheduleId === schedule.id && (
+                  <ExecutionLogViewer schedule={schedule} onOpenOutput={onOpenOutput} />
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          !loading && <p className="text-sm text-slate-500 text-center py-4">No scheduled scans yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import * as React from 'react'
+import { countViolations, type SchemaReport, type ViolationKind } from '@/lib/schemaValidation'
+import { Badge } from '@/components/ui/badge'
+import { ShieldAlert, ShieldCheck } from 'lucide-react'
+
+interface SchemaReportPanelProps {
+  reports: SchemaReport[]
+  /** Show every violation rather than just the per-agent summary */
+  expanded: boolean
+}
+
+// Long runs of the same drift (e.g. every draft missing a field) are capped per report
+const MAX_ROWS_PER_REPORT = 50
+
+const KIND_STYLES: Record<ViolationKind, string> = {
+  missing: 'bg-rose-500/20 text-rose-400',
+  wrong_type: 'bg-amber-500/20 text-amber-400',
+  out_of_range: 'bg-purple-500/20 text-purple-400',
+}
+
+/** Summary badge for the debug panel header — visible even when the panel is collapsed. */
+export function SchemaStatusBadge({ reports }: { reports: SchemaReport[] }) {
+  if (reports.length === 0) return null
+  const total = countViolations(reports)
+  return total === 0 ? (
+    <Badge className="bg-emerald-500/15 text-emerald-400 border-none text-xs">
+      <ShieldCheck className="w-3 h-3 mr-1" />
+      Matches schema
+    </Badge>
+  ) : (
+    <Badge className="bg-rose-500/20 text-rose-400 border-none text-xs">
+      <ShieldAlert className="w-3 h-3 mr-1" />
+      {total} schema {total === 1 ? 'violation' : 'violations'}
+    </Badge>
+  )
+}
+
+/** Per-agent schema check results with every violating field. */
+export function SchemaReportPanel({ reports, expanded }: SchemaReportPanelProps) {
+  if (reports.length === 0) return null
+
+  return (
+    <div className="space-y-3">
+      {reports.map(report => (
+        <div key={`${report.agent}-${report.checked_at}`} className="bg-slate-950 border border-slate-800 rounded-lg p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-slate-300">{report.agent}</span>
+            <span className="text-xs text-slate-600 font-mono">{report.schema}</span>
+            {report.extracted_from && (
+              <span className="text-xs text-slate-500 font-mono" title="Where the payload was found in the agent response">via {report.extracted_from}</span>
+            )}
+            <Badge className={`text-xs border-none ${report.violations.length === 0 ? 'bg-emerald-500/15 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+              {report.violations.length === 0 ? 'valid' : `${report.violations.length} ${report.violations.length === 1 ? 'violation' : 'violations'}`}
+            </Badge>
+          </div>
+          {expanded && report.violations.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-slate-800">
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Field</th>
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Problem</th>
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Expected</th>
+                    <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Got</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.violations.slice(0, MAX_ROWS_PER_REPORT).map((v, i) => (
+                    <tr key={`${v.path}-${i}`} className="border-b border-slate-800/50">
+                      <td className="py-1.5 px-2 font-mono text-slate-300">{v.path}</td>
+                      <td className="py-1.5 px-2">
+                        <Badge className={`text-xs border-none ${KIND_STYLES[v.kind]}`}>{v.kind.replace('_', ' ')}</Badge>
+                      </td>
+                      <td className="py-1.5 px-2 text-slate-400">{v.expected}</td>
+                      <td className="py-1.5 px-2 text-slate-500 font-mono break-all">{v.actual}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.violations.length > MAX_ROWS_PER_REPORT && (
+                <p className="text-xs text-slate-500 mt-2">+{report.violations.length - MAX_ROWS_PER_REPORT} more</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
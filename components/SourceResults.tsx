@@ -0,0 +1,156 @@
+'use client'
+
+import * as React from 'react'
+import { scoreValue, type SourceAdapter } from '@/lib/sources'
+import type { SourceItem, SourceResults as SourceResultsData } from '@/lib/types'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { ExternalLink } from 'lucide-react'
+
+interface SourceResultsProps {
+  adapter: SourceAdapter<any>
+  results: SourceResultsData<any>
+  /** Extra badges per item, e.g. dedup status */
+  renderBadges?: (item: SourceItem) => React.ReactNode
+}
+
+// --- Category Color Map ---
+function getCategoryColor(category: string): string {
+  const c = (category ?? '').toLowerCase()
+  if (c.includes('ai') || c.includes('ml')) return 'bg-cyan-500/20 text-cyan-400 border-cyan-500/30'
+  if (c.includes('cyber') || c.includes('security')) return 'bg-rose-500/20 text-rose-400 border-rose-500/30'
+  if (c.includes('startup')) return 'bg-amber-500/20 text-amber-400 border-amber-500/30'
+  if (c.includes('developer') || c.includes('tool')) return 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
+  if (c.includes('research')) return 'bg-purple-500/20 text-purple-400 border-purple-500/30'
+  return 'bg-slate-500/20 text-slate-400 border-slate-500/30'
+}
+
+function getSourceBadgeColor(source: string): string {
+  const s = (source ?? '').toLowerCase()
+  if (s === 'top') return 'bg-emerald-500/20 text-emerald-400'
+  if (s === 'new') return 'bg-cyan-500/20 text-cyan-400'
+  if (s.includes('ask')) return 'bg-amber-500/20 text-amber-400'
+  if (s.includes('show')) return 'bg-purple-500/20 text-purple-400'
+  if (s.includes('job')) return 'bg-rose-500/20 text-rose-400'
+  return 'bg-slate-500/20 text-slate-400'
+}
+
+// --- Score Bar Component ---
+function ScoreBar({ value, max, label, color }: { value: number; max: number; label: string; color: string }) {
+  const pct = Math.min(100, Math.max(0, (value / max) * 100))
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-slate-400">{label}</span>
+        <span className="text-slate-300">{value}</span>
+      </div>
+      <div className="h-1.5 bg-slate-700 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  )
+}
+
+function ItemBadges({ item, extra }: { item: SourceItem; extra?: React.ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Badge variant="outline" className={`text-xs border ${getCategoryColor(item.category)}`}>
+        {item.category || 'Unknown'}
+      </Badge>
+      {item.source_type && (
+        <Badge variant="outline" className={`text-xs border-none ${getSourceBadgeColor(item.source_type)}`}>
+          {item.source_type}
+        </Badge>
+      )}
+      {extra}
+    </div>
+  )
+}
+
+function ItemLink({ item, className }: { item: SourceItem; className: string }) {
+  return (
+    <a href={item.url || '#'} target="_blank" rel="noopener noreferrer" className={`text-sm font-semibold transition-colors leading-snug flex items-start gap-1.5 ${className}`}>
+      {item.title || 'Untitled'}
+      <ExternalLink className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+    </a>
+  )
+}
+
+/** One dashboard section listing a source's items, laid out as the adapter asks. */
+export function SourceResults({ adapter, results, renderBadges }: SourceResultsProps) {
+  const Icon = adapter.icon
+  const items = results.items.map(raw => adapter.normalize(raw))
+
+  if (items.length === 0) return null
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-semibold text-white flex items-center gap-2">
+          <Icon className={`w-5 h-5 ${adapter.accent.icon}`} />
+          {adapter.title}
+          <Badge variant="secondary" className="ml-2 bg-slate-800 text-slate-300 border-none text-xs">
+            {items.length} items
+          </Badge>
+        </CardTitle>
+        <CardDescription className="text-slate-400 text-sm">
+          Fetched {results.total_fetched ?? 0}, filtered to {results.total_filtered ?? 0} high-signal items
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {adapter.layout === 'grid' ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {items.map((item, idx) => (
+              <Card key={idx} className="bg-slate-800/50 border-slate-700/30 hover:border-slate-600/50 transition-all duration-200">
+                <CardContent className="p-4 space-y-3">
+                  <ItemLink item={item} className={adapter.accent.link} />
+                  {item.byline && <p className="text-xs text-slate-500 font-medium">{item.byline}</p>}
+                  <ItemBadges item={item} extra={renderBadges?.(item)} />
+                  <p className="text-xs text-slate-400 line-clamp-3">{item.summary}</p>
+                  <div className="space-y-1.5">
+                    {adapter.scoreFields.map(field => (
+                      <ScoreBar key={field.key} value={scoreValue(item, field)} max={100} label={field.label} color={field.color} />
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <ScrollArea className="h-auto max-h-[500px]">
+            <div className="space-y-3">
+              {items.map((item, idx) => (
+                <div key={idx} className="bg-slate-800/50 border border-slate-700/30 rounded-xl p-4 hover:border-slate-600/50 transition-all duration-200">
+                  <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start gap-2 mb-2">
+                        <ItemLink item={item} className={adapter.accent.link} />
+                      </div>
+                      {item.byline && <p className="text-xs text-slate-500 font-medium mb-1">{item.byline}</p>}
+                      <p className="text-xs text-slate-400 mb-2 line-clamp-2">{item.summary}</p>
+                      <ItemBadges item={item} extra={renderBadges?.(item)} />
+                    </div>
+                    <div className="flex sm:flex-col items-center sm:items-end gap-3 sm:gap-1.5 shrink-0">
+                      {(item.stats ?? []).map((stat, i) => (
+                        <div key={stat.label} className="flex items-center gap-1.5 text-xs text-slate-400">
+                          <span className={i === 0 ? `font-medium ${adapter.accent.icon}` : ''}>{stat.value}</span>
+                          <span>{stat.label}</span>
+                        </div>
+                      ))}
+                      {adapter.scoreFields.map(field => (
+                        <div key={field.key} className="w-16">
+                          <ScoreBar value={scoreValue(item, field)} max={100} label={field.label} color={field.color} />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
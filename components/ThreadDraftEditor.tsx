@@ -0,0 +1,144 @@
+'use client'
+
+import * as React from 'react'
+import type { ThreadDraft } from '@/lib/types'
+import { splitThread, joinThread, validateThread, tweetWeightedLength, TWEET_CHAR_LIMIT } from '@/lib/tweetText'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { ArrowUp, ArrowDown, Plus, Trash2, Save, X } from 'lucide-react'
+
+interface ThreadDraftEditorProps {
+  draft: ThreadDraft
+  onSave: (updated: ThreadDraft) => void
+  onCancel: () => void
+}
+
+export function ThreadDraftEditor({ draft, onSave, onCancel }: ThreadDraftEditorProps) {
+  const [tweets, setTweets] = React.useState<string[]>(() => {
+    const split = splitThread(draft?.thread_content ?? '')
+    return split.length > 0 ? split : ['']
+  })
+  const [hook, setHook] = React.useState(draft?.hook ?? '')
+  const [hashtags, setHashtags] = React.useState(draft?.hashtags ?? '')
+
+  // Validate exactly what will be saved, including hashtags on the last tweet
+  const check = validateThread({ thread_content: joinThread(tweets), hashtags })
+  const lengths = tweets.map((t, i) =>
+    tweetWeightedLength(i === tweets.length - 1 && hashtags.trim() ? `${t.trim()} ${hashtags.trim()}` : t.trim())
+  )
+
+  const updateTweet = (index: number, text: string) => {
+    setTweets(prev => prev.map((t, i) => (i === index ? text : t)))
+  }
+
+  const moveTweet = (index: number, offset: number) => {
+    setTweets(prev => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const insertTweet = (index: number) => {
+    setTweets(prev => [...prev.slice(0, index + 1), '', ...prev.slice(index + 1)])
+  }
+
+  const deleteTweet = (index: number) => {
+    setTweets(prev => (prev.length > 1 ? prev.filter((_, i) => i !== index) : ['']))
+  }
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      thread_content: joinThread(tweets),
+      hook: hook.trim(),
+      hashtags: hashtags.trim(),
+    })
+  }
+
+  return (
+    <div className="space-y-4 bg-slate-950/60 border border-slate-700/40 rounded-xl p-4">
+      <div className="space-y-1.5">
+        <Label className="text-xs text-slate-400">Hook</Label>
+        <Input
+          value={hook}
+          onChange={(e) => setHook(e.target.value)}
+          className="bg-slate-800 border-slate-700 text-white text-sm"
+        />
+      </div>
+
+      <div className="space-y-3">
+        {tweets.map((tweet, i) => {
+          const length = lengths[i]
+          const over = length > TWEET_CHAR_LIMIT
+          return (
+            <div key={i} className={`rounded-lg border p-3 space-y-2 ${over ? 'border-rose-500/50 bg-rose-500/5' : 'border-slate-700/40 bg-slate-800/40'}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-mono text-slate-500">{i + 1}/{tweets.length}</span>
+                <div className="flex items-center gap-1">
+                  <span className={`text-xs font-mono mr-2 ${over ? 'text-rose-400 font-semibold' : length > TWEET_CHAR_LIMIT - 20 ? 'text-amber-400' : 'text-slate-500'}`}>
+                    {length}/{TWEET_CHAR_LIMIT}
+                  </span>
+                  <button onClick={() => moveTweet(i, -1)} disabled={i === 0} className="p-1 text-slate-500 hover:text-slate-300 disabled:opacity-30" title="Move up">
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => moveTweet(i, 1)} disabled={i === tweets.length - 1} className="p-1 text-slate-500 hover:text-slate-300 disabled:opacity-30" title="Move down">
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => insertTweet(i)} className="p-1 text-slate-500 hover:text-cyan-400" title="Insert tweet below">
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={() => deleteTweet(i)} className="p-1 text-slate-500 hover:text-rose-400" title="Delete tweet">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <Textarea
+                value={tweet}
+                onChange={(e) => updateTweet(i, e.target.value)}
+                rows={4}
+                className="bg-slate-900 border-slate-700 text-white text-sm"
+              />
+              {i === tweets.length - 1 && hashtags.trim() && (
+                <p className="text-xs text-slate-500">Count includes hashtags appended to the final tweet.</p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-slate-400">Hashtags</Label>
+        <Input
+          value={hashtags}
+          onChange={(e) => setHashtags(e.target.value)}
+          className="bg-slate-800 border-slate-700 text-white text-sm"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className={`text-xs ${check.valid ? 'text-slate-500' : 'text-rose-400'}`}>
+          {check.overLimit.length > 0
+            ? `Tweet ${check.overLimit.join(', ')} over ${TWEET_CHAR_LIMIT} characters — approval is blocked until fixed.`
+            : check.tweets.length === 0
+            ? 'Thread is empty.'
+            : `${check.tweets.length} tweets, all within the limit.`}
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button size="sm" variant="outline" onClick={onCancel} className="border-slate-700 text-slate-400 hover:bg-slate-800 rounded-lg text-xs">
+            <X className="w-3.5 h-3.5" />
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} className="bg-cyan-500 hover:bg-cyan-600 text-white rounded-lg text-xs">
+            <Save className="w-3.5 h-3.5" />
+            Save Draft
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import * as React from 'react'
+import { Bar, BarChart, CartesianGrid, Cell, ReferenceLine, XAxis, YAxis } from 'recharts'
+import {
+  calibrateThresholds,
+  UNDERPERFORM_INDEX,
+  type CalibrationBin,
+  type ScoreCorrelation,
+  type ThresholdSetting,
+  type ThresholdSuggestion,
+} from '@/lib/thresholdCalibration'
+import type { MetricsCheckpoint, TrackedThread } from '@/lib/engagement'
+import type { AppSettings } from '@/lib/types'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Check, Gauge } from 'lucide-react'
+
+export type ThresholdPatch = Partial<Pick<AppSettings, ThresholdSetting>>
+
+const CHART_CONFIG: ChartConfig = {
+  performance: { label: 'Median vs typical', color: '#22d3ee' },
+}
+
+const SETTING_LABELS: Record<ThresholdSetting, string> = {
+  relevanceThreshold: 'Relevance Threshold',
+  autoApproveThreshold: 'Auto-Approve Threshold',
+}
+
+const STRENGTH_STYLES: Record<ScoreCorrelation['strength'], string> = {
+  strong: 'bg-emerald-500/20 text-emerald-400',
+  moderate: 'bg-cyan-500/20 text-cyan-400',
+  weak: 'bg-amber-500/20 text-amber-400',
+  none: 'bg-slate-700/50 text-slate-300',
+  inverse: 'bg-rose-500/20 text-rose-400',
+  'too few': 'bg-slate-700/50 text-slate-400',
+}
+
+function formatCorrelation(correlation: number | null): string {
+  return correlation === null ? '—' : `${correlation >= 0 ? '+' : ''}${correlation.toFixed(2)}`
+}
+
+/** Bar colour: what the current settings do to items scored in the bin. */
+function binColor(bin: CalibrationBin, settings: Pick<AppSettings, ThresholdSetting>): string {
+  if (bin.max < settings.relevanceThreshold) return '#475569'
+  if (bin.min >= settings.autoApproveThreshold) return '#34d399'
+  return '#22d3ee'
+}
+
+function CorrelationTable({ title, rows }: { title: string; rows: ScoreCorrelation[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-slate-400 uppercase">{title}</p>
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="border-b border-slate-800">
+            <th className="text-left py-1.5 px-2 font-medium text-slate-500 uppercase">Group</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Threads</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">ρ</th>
+            <th className="text-right py-1.5 px-2 font-medium text-slate-500 uppercase">Predicts</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-slate-800/50">
+              <td className="py-1.5 px-2 text-slate-300">{row.key}</td>
+              <td className="py-1.5 px-2 text-right font-mono text-slate-400">{row.threads}</td>
+              <td className="py-1.5 px-2 text-right font-mono text-slate-300">{formatCorrelation(row.correlation)}</td>
+              <td className="py-1.5 px-2 text-right">
+                <Badge className={`${STRENGTH_STYLES[row.strength]} border-none text-xs`}>{row.strength}</Badge>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function SuggestionRow({ suggestion, onAccept }: { suggestion: ThresholdSuggestion; onAccept: () => void }) {
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 bg-slate-800/40 border border-slate-700/30 rounded-lg p-3">
+      <div className="space-y-1 min-w-0">
+        <p className="text-sm text-slate-300">
+          {SETTING_LABELS[suggestion.setting]}{' '}
+          <span className="font-mono text-slate-400">{suggestion.current}</span>
+          {suggestion.suggested !== null && (
+            <span className="font-mono text-cyan-400"> → {suggestion.suggested}</span>
+          )}
+        </p>
+        <p className="text-xs text-slate-500">{suggestion.reason}</p>
+      </div>
+      {suggestion.suggested !== null && (
+        <Button size="sm" onClick={onAccept} className="bg-cyan-500 text-white hover:bg-cyan-600 rounded-lg text-xs shrink-0">
+          <Check className="w-3.5 h-3.5" />
+          Use {suggestion.suggested}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * How well relevance_score predicted engagement at the selected checkpoint,
+ * with suggested relevance and auto-approve thresholds that apply in one click.
+ */
+export function ThresholdCalibration({
+  threads,
+  checkpoint,
+  checkpointLabel,
+  settings,
+  onAccept,
+}: {
+  threads: TrackedThread[]
+  checkpoint: MetricsCheckpoint
+  checkpointLabel: string
+  settings: Pick<AppSettings, ThresholdSetting>
+  onAccept: (patch: ThresholdPatch) => void
+}) {
+  const calibration = React.useMemo(
+    () => calibrateThresholds(threads, checkpoint, settings),
+    [threads, checkpoint, settings]
+  )
+  const suggestions = [calibration.suggestions.relevanceThreshold, calibration.suggestions.autoApproveThreshold]
+  const actionable = suggestions.filter(s => s.suggested !== null)
+  const data = calibration.bins.map(bin => ({ ...bin, performance: bin.performance ?? 0 }))
+
+  return (
+    <Card className="bg-slate-900 border-slate-700/50">
+      <CardHeader className="pb-3">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+          <div>
+            <CardTitle className="text-base font-semibold text-white flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-cyan-400" />
+              Threshold Calibration
+              <Badge className={`${STRENGTH_STYLES[calibration.overall.strength]} border-none text-xs`}>
+                ρ {formatCorrelation(calibration.overall.correlation)} · {calibration.overall.strength}
+              </Badge>
+            </CardTitle>
+            <CardDescription className="text-xs text-slate-500 mt-1">
+              How well the Manager&apos;s relevance score predicted engagement at {checkpointLabel}, over {calibration.points.length} measured {calibration.points.length === 1 ? 'thread' : 'threads'}. Each thread is compared with the typical thread on its platform; under {UNDERPERFORM_INDEX}× typical counts as a miss.
+              {calibration.unscored > 0 && ` ${calibration.unscored} measured ${calibration.unscored === 1 ? 'thread has' : 'threads have'} no recorded relevance score and ${calibration.unscored === 1 ? 'is' : 'are'} left out.`}
+            </CardDescription>
+          </div>
+          {actionable.length > 1 && (
+            <Button
+              size="sm"
+              onClick={() => onAccept(Object.fromEntries(actionable.map(s => [s.setting, s.suggested])))}
+              className="bg-cyan-500 text-white hover:bg-cyan-600 rounded-lg text-xs shrink-0"
+            >
+              <Check className="w-3.5 h-3.5" />
+              Use Both
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="space-y-2">
+          {suggestions.map(s => (
+            <SuggestionRow key={s.setting} suggestion={s} onAccept={() => onAccept({ [s.setting]: s.suggested })} />
+          ))}
+        </div>
+
+        {calibration.bins.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-6">No measured threads with a relevance score at this checkpoint yet.</p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <ChartContainer config={CHART_CONFIG} className="aspect-auto h-56 w-full">
+                <BarChart data={data} margin={{ left: -12, right: 8 }}>
+                  <CartesianGrid vertical={false} stroke="#334155" />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fill: '#94a3b8' }} interval={0} />
+                  <YAxis tickLine={false} axisLine={false} tick={{ fill: '#94a3b8' }} tickFormatter={(v: number) => `${v}×`} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ReferenceLine y={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                  <ReferenceLine y={UNDERPERFORM_INDEX} stroke="#f43f5e" strokeDasharray="2 4" />
+                  <Bar dataKey="performance" radius={[4, 4, 0, 0]}>
+                    {data.map(bin => <Cell key={bin.label} fill={binColor(bin, settings)} />)}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+              <p className="text-xs text-slate-500">
+                Median engagement against typical per relevance score range. Grey ranges are filtered out by the current relevance threshold and green ones are auto-approved; the dashed lines mark typical and a miss.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <CorrelationTable title="By Category" rows={calibration.by_category} />
+              <CorrelationTable title="By Classification" rows={calibration.by_classification} />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook — runs once when the server process starts.
+ * Starts the scheduled publish worker and the engagement metrics collector in
+ * the Node runtime only.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startPublishWorker } = await import('@/lib/publishWorker')
+    startPublishWorker()
+    const { startMetricsCollector } = await import('@/lib/metricsCollector')
+    startMetricsCollector()
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Agent Response Data Helpers
+ *
+ * Coerces extracted agent payloads into the shapes the dashboard renders.
+ * Finding the payload in the first place is lib/agentExtraction.ts.
+ */
+
+import type { ManagerResponse, SourceResults, ThreadDraft } from '@/lib/types'
+
+// --- Sanitizers ---
+// Agents return partial data often enough that every array and counter needs a fallback.
+
+/** Coerce one raw draft object into a ThreadDraft, filling missing fields. */
+export function sanitizeThreadDraft(d: any, idx: number): ThreadDraft {
+  return {
+    id: d?.id ?? `draft-${idx + 1}`,
+    title: d?.title ?? 'Untitled',
+    classification: d?.classification ?? 'TECH DEEP DIVE',
+    thread_content: d?.thread_content ?? '',
+    hashtags: d?.hashtags ?? '',
+    hook: d?.hook ?? '',
+    requires_review: d?.requires_review === true,
+    review_reason: d?.review_reason ?? '',
+    source_url: d?.source_url ?? '',
+    relevance_score: typeof d?.relevance_score === 'number' ? d.relevance_score : 50,
+  }
+}
+
+/** Keep only well-formed `source_results` entries. */
+function sanitizeSourceResults(raw: Record<string, any>): Record<string, SourceResults> {
+  const results: Record<string, SourceResults> = {}
+  for (const [id, entry] of Object.entries(raw)) {
+    if (!entry || !Array.isArray(entry.items)) continue
+    results[id] = {
+      items: entry.items,
+      total_fetched: typeof entry.total_fetched === 'number' ? entry.total_fetched : entry.items.length,
+      total_filtered: typeof entry.total_filtered === 'number' ? entry.total_filtered : entry.items.length,
+    }
+  }
+  return results
+}
+
+/** Ensure arrays are properly typed even if the agent returned partial data. */
+export function sanitizeManagerResponse(responseData: any): ManagerResponse {
+  return {
+    pipeline_status: responseData.pipeline_status ?? 'completed',
+    hn_results: {
+      stories: Array.isArray(responseData.hn_results?.stories) ? responseData.hn_results.stories : [],
+      total_fetched: responseData.hn_results?.total_fetched ?? 0,
+      total_filtered: responseData.hn_results?.total_filtered ?? 0,
+    },
+    arxiv_results: {
+      papers: Array.isArray(responseData.arxiv_results?.papers) ? responseData.arxiv_results.papers : [],
+      total_fetched: responseData.arxiv_results?.total_fetched ?? 0,
+      total_filtered: responseData.arxiv_results?.total_filtered ?? 0,
+    },
+    ...(responseData.source_results && typeof responseData.source_results === 'object'
+      ? { source_results: sanitizeSourceResults(responseData.source_results) }
+      : {}),
+    thread_drafts: Array.isArray(responseData.thread_drafts) ? responseData.thread_drafts.map(sanitizeThreadDraft) : [],
+    total_drafts: responseData.total_drafts ?? (Array.isArray(responseData.thread_drafts) ? responseData.thread_drafts.length : 0),
+    auto_approved: responseData.auto_approved ?? 0,
+    flagged_for_review: responseData.flagged_for_review ?? 0,
+    scan_timestamp: responseData.scan_timestamp ?? new Date().toISOString(),
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * Agent Response Extraction
+ *
+ * Finds schema JSON inside whatever an agent call returned. Lyzr wraps the
+ * agent's answer in several layers — the task envelope, the normalized
+ * { status, result, message } body — and the schema payload itself often
+ * arrives stringified into a text field, fenced in ```json, or embedded in
+ * prose. Both the server-side task normalization (lib/lyzrTask.ts) and every
+ * payload lookup on the dashboard, orchestrator and publisher go through here,
+ * so one envelope change means one fix.
+ *
+ * Search-path policy for extractAgentPayload — first match wins:
+ *   1. response.result   normalized body, where the payload should be
+ *   2. response          normalizeResponse flattened or kept a wrapper layer
+ *   3. raw_response      the untouched task text
+ *   4. the whole value   unknown envelopes, and bare strings (scheduled runs)
+ * Inside each root the search is depth-first through WRAPPER_KEYS in order,
+ * MAX_DEPTH levels deep. Strings are decoded with parseJsonText on the way
+ * down; arrays (content parts) are walked item by item. A node matches when
+ * it is a plain object holding the validator key.
+ *
+ * Every match carries the path it was found at, e.g.
+ * "response.result.text→JSON" or "raw_response→fenced JSON.result", so
+ * envelope drift is visible in the debug panel rather than an empty scan.
+ * Regression fixtures for real malformed responses live in
+ * fixtures/agent-responses/: each gives the input, which function it goes
+ * through ("payload" → extractAgentPayload with `validator_key`,
+ * "agent_text" → parseAgentText) and the expected path, null for no match.
+ * Add one whenever an envelope change breaks a scan.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** How a string was turned into JSON — the label that follows "→" in a path. */
+export type DecodeStep = 'JSON' | 'fenced JSON' | 'embedded JSON' | 'repaired JSON'
+
+export interface DecodedText {
+  data: any
+  via: DecodeStep
+}
+
+export interface ExtractionMatch<T> {
+  data: T
+  /** Where the payload was found, e.g. "response.result.text→JSON" */
+  path: string
+}
+
+// Keys agents and envelopes nest payloads under, in search order
+const WRAPPER_KEYS = ['result', 'response', 'data', 'output', 'content', 'message', 'text', 'raw_response', 'completion', 'choices']
+const MAX_DEPTH = 8
+// Candidate blocks tried per string, so a long prose answer can't stall a scan
+const MAX_CANDIDATES = 8
+
+// ---------------------------------------------------------------------------
+// Text → JSON
+// ---------------------------------------------------------------------------
+
+function tryJson(text: string): any {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Fix what LLMs commonly get wrong: smart quotes, comments, trailing commas,
+ * Python literals, unquoted keys and (when there are no double quotes at
+ * all) single-quoted strings. Only run after a strict parse has failed.
+ */
+function repairJson(text: string): string {
+  let fixed = text
+    .replace(/^\uFEFF/, '')
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/,(\s*[}\]])/g, '$1')
+    .replace(/\bTrue\b/g, 'true')
+    .replace(/\bFalse\b/g, 'false')
+    .replace(/\b(None|undefined)\b/g, 'null')
+  if (!fixed.includes('"')) fixed = fixed.replace(/'([^'\\]*(?:\\.[^'\\]*)*)'/g, '"$1"')
+  return fixed.replace(/([{,]\s*)([A-Za-z_$][\w$-]*)\s*:/g, '$1"$2":')
+}
+
+/** The balanced {…} or […] block starting at `start`, or null if it never closes. */
+function balancedBlock(text: string, start: number): string | null {
+  let depth = 0
+  let inString = false
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"') inString = true
+    else if (ch === '{' || ch === '[') depth++
+    else if (ch === '}' || ch === ']') {
+      depth--
+      if (depth === 0) return text.slice(start, i + 1)
+    }
+  }
+  return null
+}
+
+/** Fenced blocks that look like JSON, ```json fences first. */
+function fencedBlocks(text: string): string[] {
+  const tagged: string[] = []
+  const untagged: string[] = []
+  const fence = /```([\w-]*)[^\S\n]*\n?([\s\S]*?)```/g
+  let match: RegExpExecArray | null
+  while ((match = fence.exec(text)) !== null && tagged.length + untagged.length < MAX_CANDIDATES) {
+    const body = match[2].trim()
+    if (match[1].toLowerCase() === 'json') tagged.push(body)
+    else if (body.startsWith('{') || body.startsWith('[')) untagged.push(body)
+  }
+  return [...tagged, ...untagged]
+}
+
+/** Balanced blocks embedded in prose, largest first — the payload is usually the biggest one. */
+function embeddedBlocks(text: string): string[] {
+  const blocks: string[] = []
+  for (let i = 0; i < text.length && blocks.length < MAX_CANDIDATES; i++) {
+    if (text[i] !== '{' && text[i] !== '[') continue
+    const block = balancedBlock(text, i)
+    if (!block) continue
+    blocks.push(block)
+    i += block.length - 1
+  }
+  return blocks.sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Decode a string that contains JSON somewhere: the whole string, a fenced
+ * block, or a block embedded in prose, repairing common LLM mistakes as a
+ * last resort. Returns null when there is no JSON object or array to find.
+ */
+export function parseJsonText(text: string): DecodedText | null {
+  const trimmed = text.replace(/^\uFEFF/, '').trim()
+  if (!trimmed) return null
+
+  const whole = tryJson(trimmed)
+  if (whole !== undefined && (typeof whole === 'object' || typeof whole === 'string')) {
+    return whole === null ? null : { data: whole, via: 'JSON' }
+  }
+
+  const fenced = fencedBlocks(trimmed)
+  for (const block of fenced) {
+    const data = tryJson(block)
+    if (data !== undefined && data !== null) return { data, via: 'fenced JSON' }
+  }
+
+  const embedded = embeddedBlocks(trimmed)
+  for (const block of embedded) {
+    const data = tryJson(block)
+    if (data !== undefined && data !== null && typeof data === 'object') return { data, via: 'embedded JSON' }
+  }
+
+  for (const candidate of [trimmed, ...fenced, ...embedded]) {
+    const data = tryJson(repairJson(candidate))
+    if (data !== undefined && data !== null && typeof data === 'object') return { data, via: 'repaired JSON' }
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Payload search
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function appendKey(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function search(node: any, path: string, matches: (obj: any) => boolean, depth: number): ExtractionMatch<any> | null {
+  if (depth > MAX_DEPTH || node == null) return null
+
+  if (typeof node === 'string') {
+    const decoded = parseJsonText(node)
+    return decoded ? search(decoded.data, path ? `${path}→${decoded.via}` : decoded.via, matches, depth + 1) : null
+  }
+
+  if (Array.isArray(node)) {
+    for (let i = 0; i < node.length; i++) {
+      const found = search(node[i], appendKey(path, i), matches, depth + 1)
+      if (found) return found
+    }
+    return null
+  }
+
+  if (!isPlainObject(node)) return null
+  if (matches(node)) return { data: node, path: path || '(root)' }
+
+  for (const key of WRAPPER_KEYS) {
+    if (node[key] == null) continue
+    const found = search(node[key], appendKey(path, key), matches, depth + 1)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Find the schema payload holding `validatorKey` (e.g. "pipeline_status"
+ * for the Manager, "post_status" for the Twitter Publisher) in an agent
+ * result, a normalized response, or a raw response string.
+ */
+export function extractAgentPayload<T>(result: any, validatorKey: string): ExtractionMatch<T> | null {
+  if (result == null) return null
+  const matches = (obj: any) => validatorKey in obj
+
+  const roots: Array<[string, any]> = isPlainObject(result)
+    ? [
+        ['response.result', result.response?.result],
+        ['response', result.response],
+        ['raw_response', result.raw_response],
+        ['', result],
+      ]
+    : [['', result]]
+
+  for (const [path, node] of roots) {
+    const found = search(node, path, matches, 0)
+    if (found) return found as ExtractionMatch<T>
+  }
+  return null
+}
+
+/** extractAgentPayload without the path, for callers that only need the data. */
+export function extractAgentData<T>(result: any, validatorKey: string): T | null {
+  return extractAgentPayload<T>(result, validatorKey)?.data ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Raw agent text → agent response
+// ---------------------------------------------------------------------------
+
+// An agent response body: { status, result | message }, or a non-empty result object on its own
+function isAgentResponse(obj: any): boolean {
+  if (!isPlainObject(obj)) return false
+  if ((obj.status === 'success' || obj.status === 'error') && ('result' in obj || 'message' in obj)) return true
+  return isPlainObject(obj.result) && Object.keys(obj.result).length > 0
+}
+
+/**
+ * Decode the raw `response` of a completed Lyzr task into the object
+ * normalizeResponse expects: the agent's { status, result, message } body
+ * when one can be found, otherwise the outermost JSON value decoded.
+ * Returns null when the text holds no JSON, so callers fall back to the
+ * raw text.
+ */
+export function parseAgentText(raw: any): ExtractionMatch<any> | null {
+  if (raw == null) return null
+
+  let current: any = raw
+  let path = ''
+  for (let depth = 0; depth < MAX_DEPTH; depth++) {
+    if (typeof current === 'string') {
+      const decoded = parseJsonText(current)
+      if (!decoded) break
+      current = decoded.data
+      path = path ? `${path}→${decoded.via}` : decoded.via
+      continue
+    }
+    if (!isPlainObject(current) || isAgentResponse(current)) break
+    const key = WRAPPER_KEYS.find(k => current[k] != null && (typeof current[k] === 'object' || typeof current[k] === 'string'))
+    if (!key || (typeof current[key] === 'string' && !parseJsonText(current[key]))) break
+    current = current[key]
+    path = appendKey(path, key)
+  }
+
+  if (typeof current === 'string') return null
+  return { data: current, path: path || '(root)' }
+}
@@ -0,0 +1,163 @@
+/**
+ * Agent Traffic Record / Replay
+ *
+ * LYZR_TRAFFIC_MODE=record appends every task submit and poll made through
+ * lib/lyzrTask.ts (so /api/agent, /api/agent/stream and the publish worker)
+ * to a JSONL file: one line per call, the completed poll carrying the final
+ * task.response. LYZR_TRAFFIC_MODE=replay serves those lines back instead of
+ * calling Lyzr, so a user's recording reproduces their exact scan — envelope,
+ * extraction and sanitizing included — on another machine, without an API key.
+ *
+ * Replay picks the latest recording with the same agent_id and message, then
+ * falls back to the latest for the agent_id (scan prompts embed settings that
+ * may differ between machines). Publish instructions get no fallback — a
+ * recording of another tweet is no proof this one was posted. Polls replay in recorded order; the last one
+ * repeats once the sequence runs out.
+ *
+ * The file defaults to DATA_DIR/agent-traffic.jsonl; set LYZR_TRAFFIC_FILE to
+ * replay someone else's. Recordings contain prompts and agent output but no
+ * API key.
+ *
+ * Server-only — called from lib/lyzrTask.ts.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DATA_DIR } from '@/lib/fileStore'
+import { TWEET_MESSAGE_PREFIX } from '@/lib/twitterPublish'
+import type { FetchTaskResult, SubmitResult, TaskSubmitBody } from '@/lib/lyzrTask'
+
+export type TrafficMode = 'off' | 'record' | 'replay'
+
+export const AGENT_TRAFFIC_MODE: TrafficMode =
+  process.env.LYZR_TRAFFIC_MODE === 'record' || process.env.LYZR_TRAFFIC_MODE === 'replay' ? process.env.LYZR_TRAFFIC_MODE : 'off'
+export const AGENT_TRAFFIC_FILE = process.env.LYZR_TRAFFIC_FILE || path.join(DATA_DIR, 'agent-traffic.jsonl')
+
+export interface SubmitEntry {
+  kind: 'submit'
+  at: string
+  /** Lyzr's task id, null when the submit failed */
+  task_id: string | null
+  payload: TaskSubmitBody
+  result: SubmitResult
+}
+
+export interface PollEntry {
+  kind: 'poll'
+  at: string
+  task_id: string
+  result: FetchTaskResult
+}
+
+export type TrafficEntry = SubmitEntry | PollEntry
+
+// ---------------------------------------------------------------------------
+// Record
+// ---------------------------------------------------------------------------
+
+/** Append one entry. Recording must never break the call it records, so failures are only logged. */
+async function appendEntry(entry: TrafficEntry): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(AGENT_TRAFFIC_FILE), { recursive: true })
+    await fs.appendFile(AGENT_TRAFFIC_FILE, `${JSON.stringify(entry)}\n`, 'utf8')
+  } catch (error) {
+    console.warn('[agent-traffic] could not record:', error instanceof Error ? error.message : error)
+  }
+}
+
+export function recordSubmit(payload: TaskSubmitBody, result: SubmitResult): Promise<void> {
+  return appendEntry({ kind: 'submit', at: new Date().toISOString(), task_id: result.ok ? result.task_id ?? null : null, payload, result })
+}
+
+export function recordPoll(taskId: string, result: FetchTaskResult): Promise<void> {
+  return appendEntry({ kind: 'poll', at: new Date().toISOString(), task_id: taskId, result })
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+interface Recording {
+  submit: SubmitEntry
+  polls: FetchTaskResult[]
+}
+
+interface ReplayCursor {
+  polls: FetchTaskResult[]
+  next: number
+}
+
+let loaded: { mtimeMs: number; recordings: Recording[] } | null = null
+const cursors = new Map<string, ReplayCursor>()
+let replayCounter = 0
+
+/** Recordings in file order, re-read whenever the file changes. */
+async function loadRecordings(): Promise<Recording[]> {
+  let stat
+  try {
+    stat = await fs.stat(AGENT_TRAFFIC_FILE)
+  } catch {
+    return []
+  }
+  if (loaded && loaded.mtimeMs === stat.mtimeMs) return loaded.recordings
+
+  const text = await fs.readFile(AGENT_TRAFFIC_FILE, 'utf8')
+  const recordings: Recording[] = []
+  const byTaskId = new Map<string, Recording>()
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue
+    let entry: TrafficEntry
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+    if (entry.kind === 'submit') {
+      const recording = { submit: entry, polls: [] }
+      recordings.push(recording)
+      if (entry.task_id) byTaskId.set(entry.task_id, recording)
+    } else if (entry.kind === 'poll') {
+      byTaskId.get(entry.task_id)?.polls.push(entry.result)
+    }
+  }
+  loaded = { mtimeMs: stat.mtimeMs, recordings }
+  return recordings
+}
+
+function latest(recordings: Recording[], matches: (r: Recording) => boolean): Recording | null {
+  for (let i = recordings.length - 1; i >= 0; i--) {
+    if (matches(recordings[i])) return recordings[i]
+  }
+  return null
+}
+
+/** Stand-in for submitLyzrTask: the recorded submit result, under a fresh replay task id. */
+export async function replaySubmit(payload: TaskSubmitBody): Promise<SubmitResult> {
+  const recordings = await loadRecordings()
+  const sameAgent = (r: Recording) => r.submit.payload?.agent_id === payload.agent_id
+  const exact = latest(recordings, r => sameAgent(r) && r.submit.payload?.message === payload.message)
+  const publishing = typeof payload.message === 'string' && payload.message.startsWith(TWEET_MESSAGE_PREFIX)
+  const recording = exact ?? (publishing ? null : latest(recordings, sameAgent))
+
+  if (!recording) {
+    const what = publishing ? 'this publish instruction' : `agent ${payload.agent_id}`
+    return { ok: false, status: 404, error: `No recorded traffic for ${what} in ${AGENT_TRAFFIC_FILE}` }
+  }
+  if (!recording.submit.result.ok) return recording.submit.result
+
+  const taskId = `replay-${++replayCounter}-${recording.submit.task_id}`
+  cursors.set(taskId, { polls: recording.polls, next: 0 })
+  return { ...recording.submit.result, task_id: taskId }
+}
+
+/** Stand-in for fetchLyzrTask: the next recorded poll for a replayed task. */
+export async function replayPoll(taskId: string): Promise<FetchTaskResult> {
+  const cursor = cursors.get(taskId)
+  if (!cursor || cursor.polls.length === 0) {
+    return { ok: false, status: 404, error: 'Task expired or not found' }
+  }
+  const result = cursor.polls[Math.min(cursor.next, cursor.polls.length - 1)]
+  cursor.next++
+  if (result.ok && result.task?.status !== 'processing') cursors.delete(taskId)
+  return result
+}
@@ -17,7 +17,7 @@
  * ```
  */
 
-import { useState } from 'react'
+import { useState, useCallback } from 'react'
 import fetchWrapper from '@/lib/fetchWrapper'
 
 // Types
@@ -75,6 +75,13 @@ export interface UploadResponse {
   error?: string
 }
 
+export interface AgentStreamEvent {
+  event: 'submitted' | 'status' | 'result' | 'error'
+  data: any
+}
+
+export type AgentStreamStatus = 'idle' | 'submitting' | 'processing' | 'completed' | 'failed'
+
 const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
 
 /**
@@ -178,6 +185,91 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Call the AI Agent through the SSE route.
+ * The server does the polling and pushes submitted/status/result/error events,
+ * so callers get live progress instead of waiting on the final response.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: {
+    user_id?: string
+    session_id?: string
+    assets?: string[]
+    signal?: AbortSignal
+    onEvent?: (event: AgentStreamEvent) => void
+  }
+): Promise<AIAgentResponse> {
+  const failure = (msg: string): AIAgentResponse => ({
+    success: false,
+    response: { status: 'error', result: {}, message: msg },
+    error: msg,
+  })
+
+  try {
+    const res = await fetchWrapper('/api/agent/stream', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id: options?.user_id,
+        session_id: options?.session_id,
+        assets: options?.assets,
+      }),
+      signal: options?.signal,
+    })
+
+    if (!res?.body) {
+      return failure('No response from server')
+    }
+
+    const reader = res.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // SSE frames are separated by a blank line
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+
+        let eventName = 'message'
+        const dataLines: string[] = []
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) eventName = line.slice(6).trim()
+          else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim())
+        }
+        if (dataLines.length === 0) continue // heartbeat comment
+
+        let data: any
+        try {
+          data = JSON.parse(dataLines.join('\n'))
+        } catch {
+          continue
+        }
+
+        const event = { event: eventName, data } as AgentStreamEvent
+        options?.onEvent?.(event)
+
+        if (event.event === 'result') return data as AIAgentResponse
+        if (event.event === 'error') return failure(data?.error || 'Agent stream error')
+      }
+    }
+
+    return failure('Agent stream closed before a result was received')
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : 'Network error')
+  }
+}
+
 /**
  * Upload files via server-side API route
  */
@@ -264,6 +356,71 @@ export function useAIAgent() {
   }
 }
 
+/**
+ * React hook for streaming AI Agent calls with live status and elapsed time
+ */
+export function useAIAgentStream() {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
+  const [status, setStatus] = useState<AgentStreamStatus>('idle')
+  const [elapsedMs, setElapsedMs] = useState(0)
+  const [taskId, setTaskId] = useState<string | null>(null)
+  const [partial, setPartial] = useState<unknown>(null)
+
+  const callAgent = useCallback(async (
+    message: string,
+    agent_id: string,
+    options?: { user_id?: string; session_id?: string; assets?: string[]; signal?: AbortSignal }
+  ) => {
+    setLoading(true)
+    setError(null)
+    setResponse(null)
+    setStatus('submitting')
+    setElapsedMs(0)
+    setTaskId(null)
+    setPartial(null)
+
+    const result = await streamAIAgent(message, agent_id, {
+      ...options,
+      onEvent: ({ event, data }) => {
+        if (event === 'submitted') {
+          setTaskId(data?.task_id ?? null)
+          setStatus('processing')
+        } else if (event === 'status') {
+          setElapsedMs(data?.elapsed_ms ?? 0)
+          if (data?.partial !== undefined) setPartial(data.partial)
+        } else if (event === 'error') {
+          setElapsedMs(data?.elapsed_ms ?? 0)
+        }
+      },
+    })
+
+    if (result.success) {
+      setStatus('completed')
+      setResponse(result.response)
+    } else {
+      setStatus('failed')
+      setError(result.error || 'Unknown error')
+      setResponse(result.response)
+    }
+
+    setLoading(false)
+    return result
+  }, [])
+
+  return {
+    callAgent,
+    loading,
+    error,
+    response,
+    status,
+    elapsedMs,
+    taskId,
+    partial,
+  }
+}
+
 /**
  * React hook for file uploads
  */
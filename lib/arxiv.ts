@@ -0,0 +1,248 @@
+/**
+ * arXiv Ingestion
+ *
+ * Queries the arXiv export API and parses its Atom feed into ArxivPaper, so
+ * titles, authors and links come from arXiv itself rather than from the
+ * ARXIV__SEARCH_PAPERS tool output. The agents still score the papers — this
+ * module only supplies verified metadata.
+ *
+ * ARXIV_API_BASE_URL swaps the API for a local fixture server (see
+ * fixtures/arxiv/).
+ *
+ * Server-only — called from API routes.
+ */
+
+import type { ArxivPaper } from '@/lib/types'
+import { childElement, childElements, childText, collapseWhitespace, parseXml, type XmlElement } from '@/lib/xml'
+
+export const ARXIV_API_BASE_URL = process.env.ARXIV_API_BASE_URL || 'https://export.arxiv.org/api'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ArxivQuery {
+  /** arXiv category codes, e.g. cs.AI, cs.CR, cs.LG */
+  categories: string[]
+  /** Only papers submitted on or after this date */
+  from?: Date | null
+  /** Only papers submitted on or before this date */
+  to?: Date | null
+  /** Offset of the first result */
+  start?: number
+  /** Papers per request (arXiv caps this at 2000) */
+  maxResults?: number
+}
+
+export interface ArxivFeed {
+  papers: ArxivPaper[]
+  /** opensearch:totalResults — total matches, not just this page */
+  total_results: number
+  start_index: number
+  items_per_page: number
+}
+
+export interface FetchArxivOptions extends ArxivQuery {
+  /** Stop after this many papers across all pages (default 50) */
+  limit?: number
+  baseUrl?: string
+  timeoutMs?: number
+  /** Pause between page requests; arXiv asks clients to wait 3s */
+  pageDelayMs?: number
+}
+
+export interface ArxivFetchResult {
+  papers: ArxivPaper[]
+  total_fetched: number
+  total_results: number
+}
+
+/** The API reports a bad query as a single entry whose id is an errors URL. */
+export class ArxivApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArxivApiError'
+  }
+}
+
+// AppSettings.categories → arXiv categories searched for them
+export const ARXIV_CATEGORY_MAP: Record<string, string[]> = {
+  'AI/ML': ['cs.AI', 'cs.LG', 'cs.CL', 'cs.CV'],
+  'Cybersecurity': ['cs.CR'],
+  'Developer Tools': ['cs.SE', 'cs.PL'],
+  'Research': ['cs.AI', 'cs.LG'],
+}
+
+export const DEFAULT_ARXIV_CATEGORIES = ['cs.AI', 'cs.LG', 'cs.CR']
+
+const DEFAULT_PAGE_SIZE = 50
+const DEFAULT_LIMIT = 50
+const DEFAULT_TIMEOUT_MS = 15000
+const DEFAULT_PAGE_DELAY_MS = 3000
+
+// ---------------------------------------------------------------------------
+// Query
+// ---------------------------------------------------------------------------
+
+/** Dashboard category for an arXiv primary category, so content filters apply before any agent runs. */
+export function dashboardCategoryFor(arxivCategory: string): string {
+  if (arxivCategory === 'cs.CR') return 'Cybersecurity'
+  if (arxivCategory === 'cs.SE' || arxivCategory === 'cs.PL') return 'Developer Tools'
+  if (ARXIV_CATEGORY_MAP['AI/ML'].includes(arxivCategory)) return 'AI/ML'
+  return 'Research'
+}
+
+/** arXiv categories for the dashboard's enabled categories, de-duplicated. */
+export function arxivCategoriesFor(settingsCategories: string[]): string[] {
+  const mapped = settingsCategories.flatMap(c => ARXIV_CATEGORY_MAP[c] ?? [])
+  return mapped.length > 0 ? Array.from(new Set(mapped)) : DEFAULT_ARXIV_CATEGORIES
+}
+
+function arxivDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}`
+}
+
+/** The `search_query` expression: categories OR'd together, AND an optional submittedDate range. */
+export function buildSearchQuery(query: Pick<ArxivQuery, 'categories' | 'from' | 'to'>): string {
+  const valid = query.categories.filter(c => /^[a-z-]+(\.[A-Za-z-]+)?$/.test(c))
+  const categories = valid.length > 0 ? valid : DEFAULT_ARXIV_CATEGORIES
+  const parts = [categories.length === 1 ? `cat:${categories[0]}` : `(${categories.map(c => `cat:${c}`).join(' OR ')})`]
+  if (query.from || query.to) {
+    const from = query.from ? arxivDate(query.from) : '199101010000'
+    const to = query.to ? arxivDate(query.to) : arxivDate(new Date())
+    parts.push(`submittedDate:[${from} TO ${to}]`)
+  }
+  return parts.join(' AND ')
+}
+
+/** Full request URL for one page of results, newest submissions first. */
+export function buildQueryUrl(query: ArxivQuery, baseUrl = ARXIV_API_BASE_URL): string {
+  const params = new URLSearchParams({
+    search_query: buildSearchQuery(query),
+    start: String(Math.max(0, query.start ?? 0)),
+    max_results: String(Math.min(2000, Math.max(1, query.maxResults ?? DEFAULT_PAGE_SIZE))),
+    sortBy: 'submittedDate',
+    sortOrder: 'descending',
+  })
+  return `${baseUrl.replace(/\/+$/, '')}/query?${params}`
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function linkHref(entry: XmlElement, predicate: (attrs: Record<string, string>) => boolean): string {
+  return childElements(entry, 'link').find(l => predicate(l.attrs))?.attrs.href ?? ''
+}
+
+/**
+ * Map one Atom `<entry>` to an ArxivPaper. `arxiv_link` is the abs link exactly
+ * as arXiv gives it (version included); scores are left at 0 for the agents.
+ */
+export function entryToPaper(entry: XmlElement): ArxivPaper {
+  const absLink = linkHref(entry, a => a.rel === 'alternate') || childText(entry, 'id')
+  const pdfLink = linkHref(entry, a => a.title === 'pdf' || a.type === 'application/pdf')
+  const primary = childElement(entry, 'arxiv:primary_category')?.attrs.term
+    ?? childElement(entry, 'category')?.attrs.term
+    ?? ''
+
+  return {
+    title: childText(entry, 'title'),
+    authors: childElements(entry, 'author').map(a => childText(a, 'name')).filter(Boolean).join(', '),
+    abstract_summary: childText(entry, 'summary'),
+    arxiv_link: absLink,
+    category: dashboardCategoryFor(primary),
+    relevance_score: 0,
+    novelty_score: 0,
+    applicability_score: 0,
+    pdf_link: pdfLink,
+    primary_category: primary,
+    published: childText(entry, 'published'),
+  }
+}
+
+/** Parse an export API Atom response. Throws ArxivApiError for an error feed. */
+export function parseArxivFeed(xml: string): ArxivFeed {
+  const feed = childElement(parseXml(xml), 'feed')
+  if (!feed) throw new ArxivApiError('Response is not an Atom feed')
+
+  const entries = childElements(feed, 'entry')
+  const errorEntry = entries.find(e => childText(e, 'id').includes('/api/errors'))
+  if (errorEntry) {
+    throw new ArxivApiError(childText(errorEntry, 'summary') || childText(errorEntry, 'title') || 'arXiv API error')
+  }
+
+  const count = (name: string) => parseInt(collapseWhitespace(childElement(feed, name)?.text ?? ''), 10) || 0
+  return {
+    papers: entries.map(entryToPaper).filter(p => p.title && p.arxiv_link),
+    total_results: count('opensearch:totalResults'),
+    start_index: count('opensearch:startIndex'),
+    items_per_page: count('opensearch:itemsPerPage'),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fetch
+// ---------------------------------------------------------------------------
+
+async function getText(url: string, timeoutMs: number): Promise<string> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const res = await fetch(url, { signal: controller.signal, cache: 'no-store' })
+    if (!res.ok) throw new Error(`HTTP ${res.status} from arXiv`)
+    return await res.text()
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`arXiv timed out after ${timeoutMs}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Page through the query until `limit` papers are collected or the results
+ * run out. Errors on the first page throw; errors on later pages return what
+ * was already collected.
+ */
+export async function fetchArxivPapers(options: FetchArxivOptions): Promise<ArxivFetchResult> {
+  const baseUrl = options.baseUrl || ARXIV_API_BASE_URL
+  const limit = Math.max(1, options.limit ?? DEFAULT_LIMIT)
+  const pageSize = Math.min(limit, options.maxResults ?? DEFAULT_PAGE_SIZE)
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const pageDelayMs = options.pageDelayMs ?? DEFAULT_PAGE_DELAY_MS
+
+  const papers: ArxivPaper[] = []
+  const seen = new Set<string>()
+  let start = Math.max(0, options.start ?? 0)
+  let totalResults = 0
+
+  while (papers.length < limit) {
+    if (papers.length > 0 && pageDelayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, pageDelayMs))
+    }
+
+    let page: ArxivFeed
+    try {
+      page = parseArxivFeed(await getText(buildQueryUrl({ ...options, start, maxResults: pageSize }, baseUrl), timeoutMs))
+    } catch (error) {
+      if (papers.length === 0) throw error
+      break
+    }
+
+    totalResults = page.total_results
+    for (const paper of page.papers) {
+      if (seen.has(paper.arxiv_link) || papers.length >= limit) continue
+      seen.add(paper.arxiv_link)
+      papers.push(paper)
+    }
+
+    start += pageSize
+    if (page.papers.length < pageSize || start >= totalResults) break
+  }
+
+  return { papers, total_fetched: papers.length, total_results: totalResults }
+}
@@ -0,0 +1,181 @@
+/**
+ * Bluesky Publishing
+ *
+ * Posts threads to a Bluesky account over the AT Protocol: one
+ * app.bsky.feed.post record per post, each after the first carrying a reply
+ * ref to the thread root and to the post before it. Links and hashtags become
+ * richtext facets, which address the text by UTF-8 byte offset — that is what
+ * keeps a shortened link (see blueskyPublisher.prepare) pointing at its full
+ * URL.
+ *
+ * The AT Protocol has no idempotency keys; lib/threadProgress.ts records each
+ * post as it is created so a retry resumes after it instead.
+ *
+ * BLUESKY_HANDLE and BLUESKY_APP_PASSWORD (an app password, not the account
+ * password) open a session per thread. BLUESKY_SERVICE_URL points at a
+ * self-hosted PDS. Engagement counts are public and come from the AppView at
+ * BLUESKY_APPVIEW_URL, no session needed.
+ *
+ * Server-only — called from lib/platformPublish.ts and lib/metricsAdapters.ts.
+ */
+
+import type { PreparedPost } from '@/lib/publishers'
+
+export const BLUESKY_SERVICE_URL = (process.env.BLUESKY_SERVICE_URL || 'https://bsky.social').replace(/\/+$/, '')
+export const BLUESKY_APPVIEW_URL = (process.env.BLUESKY_APPVIEW_URL || 'https://public.api.bsky.app').replace(/\/+$/, '')
+const BLUESKY_HANDLE = process.env.BLUESKY_HANDLE || ''
+const BLUESKY_APP_PASSWORD = process.env.BLUESKY_APP_PASSWORD || ''
+
+const DEFAULT_TIMEOUT_MS = 15000
+const TAG_PATTERN = /(^|\s)#([^\s#]*[^\s#.,;:!?)\]])/g
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StrongRef {
+  uri: string
+  cid: string
+}
+
+export interface BlueskySession {
+  accessJwt: string
+  did: string
+  handle: string
+}
+
+interface Facet {
+  index: { byteStart: number; byteEnd: number }
+  features: Array<{ $type: 'app.bsky.richtext.facet#link'; uri: string } | { $type: 'app.bsky.richtext.facet#tag'; tag: string }>
+}
+
+export function blueskyConfigured(): boolean {
+  return !!BLUESKY_HANDLE && !!BLUESKY_APP_PASSWORD
+}
+
+// ---------------------------------------------------------------------------
+// Facets
+// ---------------------------------------------------------------------------
+
+const encoder = new TextEncoder()
+
+function byteRange(text: string, start: number, length: number): Facet['index'] {
+  const byteStart = encoder.encode(text.slice(0, start)).length
+  return { byteStart, byteEnd: byteStart + encoder.encode(text.slice(start, start + length)).length }
+}
+
+/** Link facets for the post's (possibly shortened) links, tag facets for its hashtags. */
+export function buildFacets(post: PreparedPost): Facet[] {
+  const facets: Facet[] = []
+  let from = 0
+  for (const link of post.links) {
+    const start = post.text.indexOf(link.text, from)
+    if (start < 0) continue
+    facets.push({ index: byteRange(post.text, start, link.text.length), features: [{ $type: 'app.bsky.richtext.facet#link', uri: link.url }] })
+    from = start + link.text.length
+  }
+  for (const match of Array.from(post.text.matchAll(TAG_PATTERN))) {
+    const start = (match.index ?? 0) + match[1].length
+    facets.push({ index: byteRange(post.text, start, match[2].length + 1), features: [{ $type: 'app.bsky.richtext.facet#tag', tag: match[2] }] })
+  }
+  return facets
+}
+
+// ---------------------------------------------------------------------------
+// XRPC
+// ---------------------------------------------------------------------------
+
+async function xrpc<T>(method: string, body: unknown, accessJwt?: string): Promise<T> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+  try {
+    const res = await fetch(`${BLUESKY_SERVICE_URL}/xrpc/${method}`, {
+      method: 'POST',
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(accessJwt ? { Authorization: `Bearer ${accessJwt}` } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => null)
+      throw new Error(data?.message ? `Bluesky: ${data.message}` : `HTTP ${res.status} from Bluesky ${method}`)
+    }
+    return await res.json()
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Bluesky timed out after ${DEFAULT_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/** "at://did:plc:…/app.bsky.feed.post/3k…" → bsky.app link for the post */
+function postUrl(uri: string, handle: string): string {
+  const rkey = uri.split('/').pop() ?? ''
+  return `https://bsky.app/profile/${handle}/post/${rkey}`
+}
+
+export async function createBlueskySession(): Promise<BlueskySession> {
+  if (!blueskyConfigured()) throw new Error('Bluesky is not configured — set BLUESKY_HANDLE and BLUESKY_APP_PASSWORD')
+  try {
+    return await xrpc<BlueskySession>('com.atproto.server.createSession', { identifier: BLUESKY_HANDLE, password: BLUESKY_APP_PASSWORD })
+  } catch (error) {
+    throw new Error(`Sign-in failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/** Create one post of a thread; `reply` holds the thread root and the post it answers. */
+export async function postBlueskyRecord(
+  session: BlueskySession,
+  post: PreparedPost,
+  reply: { root: StrongRef; parent: StrongRef } | null
+): Promise<{ post_id: string; cid: string; url: string }> {
+  const facets = buildFacets(post)
+  const created = await xrpc<StrongRef>('com.atproto.repo.createRecord', {
+    repo: session.did,
+    collection: 'app.bsky.feed.post',
+    record: {
+      $type: 'app.bsky.feed.post',
+      text: post.text,
+      createdAt: new Date().toISOString(),
+      ...(facets.length > 0 ? { facets } : {}),
+      ...(reply ? { reply } : {}),
+    },
+  }, session.accessJwt)
+  return { post_id: created.uri, cid: created.cid, url: postUrl(created.uri, session.handle) }
+}
+
+/** Likes, reposts (quotes included), replies and bookmarks per post URI. Bluesky reports no impressions. */
+export async function fetchBlueskyCounts(uris: string[]): Promise<Map<string, { likes: number; reposts: number; replies: number; bookmarks: number | null }>> {
+  const counts = new Map<string, { likes: number; reposts: number; replies: number; bookmarks: number | null }>()
+  if (uris.length === 0) return counts
+  const query = uris.map(uri => `uris=${encodeURIComponent(uri)}`).join('&')
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+  try {
+    const res = await fetch(`${BLUESKY_APPVIEW_URL}/xrpc/app.bsky.feed.getPosts?${query}`, { signal: controller.signal, cache: 'no-store' })
+    if (!res.ok) throw new Error(`HTTP ${res.status} from Bluesky app.bsky.feed.getPosts`)
+    const data = await res.json()
+    for (const post of Array.isArray(data?.posts) ? data.posts : []) {
+      counts.set(post.uri, {
+        likes: post.likeCount ?? 0,
+        reposts: (post.repostCount ?? 0) + (post.quoteCount ?? 0),
+        replies: post.replyCount ?? 0,
+        bookmarks: typeof post.bookmarkCount === 'number' ? post.bookmarkCount : null,
+      })
+    }
+    return counts
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Bluesky timed out after ${DEFAULT_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
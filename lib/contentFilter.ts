@@ -0,0 +1,213 @@
+/**
+ * Deterministic Content Filter
+ *
+ * Applies the blockedDomains, categories and sources settings to a scan result
+ * after the agent responds. The agents are only asked nicely; this is what
+ * actually enforces the settings. Every dropped item is recorded with the rule
+ * that removed it so the filter can be audited.
+ */
+
+import type { AppSettings, ManagerResponse, ThreadDraft } from '@/lib/types'
+import { SOURCE_ADAPTERS, isSourceEnabled } from '@/lib/sources'
+import { canonicalizeUrl } from '@/lib/dedup'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FilterReason = 'blocked_domain' | 'category' | 'source' | 'source_item_dropped'
+
+export interface FilterDrop {
+  /** Source adapter itemKind ('story', 'paper', …) or 'draft' */
+  kind: string
+  title: string
+  url: string
+  reason: FilterReason
+  /** Human-readable rule that matched, e.g. "*.medium.com" or "HN Jobs disabled" */
+  detail: string
+}
+
+export interface FilterResult {
+  response: ManagerResponse
+  dropped: FilterDrop[]
+}
+
+// ---------------------------------------------------------------------------
+// Domain matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse the blockedDomains textarea into normalized patterns.
+ * Accepts one entry per line (commas also work); full URLs are reduced to their host
+ * and a leading "www." is dropped so pasting a homepage URL blocks the whole site.
+ */
+export function parseBlockedDomains(raw: string): string[] {
+  return (raw ?? '')
+    .split(/[\n,]/)
+    .map(line => line.trim().toLowerCase())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => line.replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/:\d+$/, '').replace(/\.$/, '').replace(/^www\./, ''))
+    .filter(Boolean)
+}
+
+/** Extract the lowercase hostname from a URL, or '' if it cannot be parsed. */
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/\.$/, '')
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Match a hostname against one pattern.
+ *   example.com    → example.com and any subdomain
+ *   *.example.com  → subdomains only, not the apex
+ *   ex*mple.com    → glob, `*` matches within a single label
+ */
+export function domainMatches(hostname: string, pattern: string): boolean {
+  if (!hostname || !pattern) return false
+
+  if (pattern.startsWith('*.') && !pattern.slice(2).includes('*')) {
+    return hostname.endsWith(`.${pattern.slice(2)}`)
+  }
+
+  if (pattern.includes('*')) {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]*')
+    return new RegExp(`^${escaped}$`).test(hostname) || new RegExp(`\\.${escaped}$`).test(hostname)
+  }
+
+  return hostname === pattern || hostname.endsWith(`.${pattern}`)
+}
+
+/** Return the first blocked pattern matching the URL's host, or null. */
+export function findBlockedPattern(url: string, patterns: string[]): string | null {
+  const host = hostnameOf(url)
+  if (!host) return null
+  return patterns.find(p => domainMatches(host, p)) ?? null
+}
+
+// ---------------------------------------------------------------------------
+// Category / source matching
+// ---------------------------------------------------------------------------
+
+function normalizeLabel(value: string): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Words agents and native sources use for each AppSettings category, as
+ * normalizeLabel leaves them. Agents say "AI", "ML", "Security"; arXiv items
+ * carry their primary category ("cs.LG").
+ */
+const CATEGORY_ALIASES: Record<string, string[]> = {
+  'AI/ML': ['ai', 'ml', 'aiml', 'artificialintelligence', 'machinelearning', 'deeplearning', 'llm', 'llms', 'genai', 'nlp', 'cslg', 'csai', 'cscl', 'cscv', 'stml'],
+  'Cybersecurity': ['security', 'cybersecurity', 'infosec', 'appsec', 'privacy', 'vulnerability', 'cscr'],
+  'Startups': ['startup', 'startups', 'funding', 'venturecapital', 'vc', 'yc'],
+  'Developer Tools': ['devtools', 'developertools', 'developer', 'tooling', 'programming', 'opensource', 'csse', 'cspl'],
+  'Research': ['research', 'science', 'paper', 'papers', 'academia'],
+}
+
+/** Settings categories a source category maps to, by label, whole alias or any one word of it. */
+function settingsCategoriesOf(category: string, known: string[]): string[] {
+  const whole = normalizeLabel(category)
+  if (!whole) return []
+  const words = (category ?? '').toLowerCase().split(/[^a-z0-9.]+/).map(normalizeLabel).filter(Boolean)
+  return known.filter(label => {
+    const aliases = [normalizeLabel(label), ...(CATEGORY_ALIASES[label] ?? [])]
+    return aliases.includes(whole) || words.some(w => aliases.includes(w))
+  })
+}
+
+/**
+ * Whether an item's category is switched on. Only an item that maps to a
+ * known category, none of them enabled, is off; an empty or unrecognised
+ * category is never grounds to drop it.
+ */
+function categoryEnabled(category: string, enabled: string[]): boolean {
+  const known = Array.from(new Set([...Object.keys(CATEGORY_ALIASES), ...enabled]))
+  const matches = settingsCategoriesOf(category, known)
+  return matches.length === 0 || matches.some(label => enabled.includes(label))
+}
+
+// ---------------------------------------------------------------------------
+// Filter
+// ---------------------------------------------------------------------------
+
+/** Apply blockedDomains, categories and sources to a scan result. */
+export function applyContentFilters(
+  response: ManagerResponse,
+  settings: Pick<AppSettings, 'blockedDomains' | 'categories' | 'sources'>
+): FilterResult {
+  const blocked = parseBlockedDomains(settings.blockedDomains)
+  const categories = Array.isArray(settings.categories) ? settings.categories : []
+  const sources = Array.isArray(settings.sources) ? settings.sources : []
+  const dropped: FilterDrop[] = []
+  // Canonical keys, so a draft linking the item a little differently still matches
+  const droppedUrls = new Set<string>()
+
+  const drop = (kind: FilterDrop['kind'], title: string, url: string, reason: FilterReason, detail: string) => {
+    dropped.push({ kind, title: title ?? 'Untitled', url: url ?? '', reason, detail })
+    if (url) droppedUrls.add(canonicalizeUrl(url))
+  }
+
+  // Every source: disabled feed, blocked domain, then category
+  let filtered = response
+  for (const adapter of SOURCE_ADAPTERS) {
+    const results = adapter.read(response)
+    if (results.items.length === 0 && !results.total_fetched) continue
+    const enabled = isSourceEnabled(adapter, sources)
+    const items = results.items.filter(raw => {
+      const item = adapter.normalize(raw)
+      const label = adapter.sourceLabelOf(raw)
+      if (!enabled || (label && !sources.includes(label))) {
+        drop(adapter.itemKind, item.title, item.url, 'source', `${label ?? adapter.settingsLabels[0]} disabled`)
+        return false
+      }
+      const pattern = findBlockedPattern(item.url, blocked)
+      if (pattern) {
+        drop(adapter.itemKind, item.title, item.url, 'blocked_domain', pattern)
+        return false
+      }
+      if (!categoryEnabled(item.category, categories)) {
+        drop(adapter.itemKind, item.title, item.url, 'category', `${item.category || 'Uncategorized'} disabled`)
+        return false
+      }
+      return true
+    })
+    filtered = adapter.write(filtered, { ...results, items, total_filtered: items.length })
+  }
+  const disabledHosts = SOURCE_ADAPTERS
+    .filter(adapter => !isSourceEnabled(adapter, sources))
+    .flatMap(adapter => adapter.hosts.map(host => ({ host, label: adapter.settingsLabels[0] })))
+
+  // Drafts go when their own link is blocked or the item they were written from was dropped
+  const drafts = (response.thread_drafts ?? []).filter((draft: ThreadDraft) => {
+    const url = draft?.source_url ?? ''
+    const pattern = findBlockedPattern(url, blocked)
+    if (pattern) {
+      drop('draft', draft.title, url, 'blocked_domain', pattern)
+      return false
+    }
+    if (url && droppedUrls.has(canonicalizeUrl(url))) {
+      drop('draft', draft.title, url, 'source_item_dropped', 'Source item was filtered out')
+      return false
+    }
+    const disabled = disabledHosts.find(d => domainMatches(hostnameOf(url), d.host))
+    if (disabled) {
+      drop('draft', draft.title, url, 'source', `${disabled.label} disabled`)
+      return false
+    }
+    return true
+  })
+
+  return {
+    response: {
+      ...filtered,
+      thread_drafts: drafts,
+      total_drafts: drafts.length,
+      flagged_for_review: drafts.filter(d => d.requires_review).length,
+    },
+    dropped,
+  }
+}
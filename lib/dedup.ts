@@ -0,0 +1,202 @@
+/**
+ * Cross-Scan Deduplication
+ *
+ * Recognises stories, papers and drafts that already appeared in an earlier
+ * scan or were already posted. URLs are reduced to a canonical key (tracking
+ * parameters stripped, HN item links and arXiv abs/pdf/version variants
+ * collapsed) and titles are fuzzy-matched, so the same item is caught even
+ * when the agent links it differently.
+ */
+
+import type { ManagerResponse } from '@/lib/types'
+import { collectSourceItems } from '@/lib/sources'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DedupStatus = 'new' | 'seen' | 'posted'
+
+/** A source adapter's itemKind ('story', 'paper', …) or 'draft' */
+export type DedupItemKind = string
+
+/** One previously seen or posted item */
+export interface DedupEntry {
+  kind: DedupItemKind
+  url: string
+  title: string
+  status: Exclude<DedupStatus, 'new'>
+  /** Scan, publish-queue or tracked-thread record it came from */
+  origin_id: string
+  at: string
+}
+
+export interface DedupIndex {
+  byUrl: Map<string, DedupEntry[]>
+  titles: { tokens: Set<string>; entry: DedupEntry }[]
+}
+
+export interface DedupMatch {
+  status: DedupStatus
+  /** The earlier entry that matched, if any */
+  match: DedupEntry | null
+  via: 'url' | 'title' | null
+}
+
+/** Dedup results for a scan keyed by `itemKey(kind, url, title)` */
+export type DedupReport = Record<string, DedupMatch>
+
+// Jaccard similarity on title tokens at or above this counts as the same item
+export const TITLE_MATCH_THRESHOLD = 0.8
+
+const TRACKING_PARAMS = [
+  /^utm_/, /^fbclid$/, /^gclid$/, /^dclid$/, /^msclkid$/, /^mc_(cid|eid)$/, /^ref_src$/, /^ref_url$/,
+  /^igshid$/, /^_hs(enc|mi)$/, /^mkt_tok$/,
+]
+
+// Short names that are share tracking on these hosts but carry content elsewhere
+const HOST_TRACKING_PARAMS: Record<string, RegExp[]> = {
+  'twitter.com': [/^s$/, /^t$/, /^ref$/],
+  'x.com': [/^s$/, /^t$/, /^ref$/],
+  'youtube.com': [/^si$/, /^feature$/],
+  'youtu.be': [/^si$/],
+  'open.spotify.com': [/^si$/],
+}
+
+const TITLE_PREFIXES = /^(show hn|ask hn|tell hn|launch hn)\s*:\s*/i
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'for', 'and', 'or', 'to', 'in', 'on', 'with', 'is', 'at', 'by', 'from', 'via'])
+
+// ---------------------------------------------------------------------------
+// Canonical keys
+// ---------------------------------------------------------------------------
+
+/** arXiv id (without version) from any abs/pdf/html/export link, or null. */
+export function arxivIdFromUrl(url: string): string | null {
+  const match = /arxiv\.org\/(?:abs|pdf|html|format)\/((?:\d{4}\.\d{4,5})|(?:[a-z-]+(?:\.[A-Z]{2})?\/\d{7}))(?:v\d+)?(?:\.pdf)?/i.exec(url ?? '')
+  return match ? match[1].toLowerCase() : null
+}
+
+/** HN item id from a news.ycombinator.com/item?id= link, or null. */
+export function hnItemIdFromUrl(url: string): string | null {
+  const match = /news\.ycombinator\.com\/item\?(?:.*&)?id=(\d+)/i.exec(url ?? '')
+  return match ? match[1] : null
+}
+
+/**
+ * Reduce a URL to a stable key: `hn:<id>`, `arxiv:<id>`, or host+path+query
+ * without scheme, `www.`, fragment, trailing slash or tracking parameters.
+ */
+export function canonicalizeUrl(url: string): string {
+  const raw = (url ?? '').trim()
+  if (!raw) return ''
+
+  const hnId = hnItemIdFromUrl(raw)
+  if (hnId) return `hn:${hnId}`
+  const arxivId = arxivIdFromUrl(raw)
+  if (arxivId) return `arxiv:${arxivId}`
+
+  let parsed: URL
+  try {
+    parsed = new URL(/^[a-z]+:\/\//i.test(raw) ? raw : `https://${raw}`)
+  } catch {
+    return raw.toLowerCase()
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^(www|m|mobile)\./, '').replace(/\.$/, '')
+  const path = parsed.pathname.replace(/\/+$/, '').replace(/\/index\.html?$/i, '') || ''
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.concat(HOST_TRACKING_PARAMS[host] ?? []).some(p => p.test(key.toLowerCase())))
+    .sort(([a], [b]) => a.localeCompare(b))
+  const query = params.length > 0 ? `?${params.map(([k, v]) => `${k}=${v}`).join('&')}` : ''
+  return `${host}${path}${query}`
+}
+
+/** Lowercased significant words of a title, without HN prefixes and punctuation. */
+export function titleTokens(title: string): Set<string> {
+  const cleaned = (title ?? '')
+    .replace(TITLE_PREFIXES, '')
+    .toLowerCase()
+    .replace(/\[(pdf|video|\d{4})\]|\((pdf|video|\d{4})\)/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+  return new Set(cleaned.split(/\s+/).filter(w => w && !STOP_WORDS.has(w)))
+}
+
+/** Jaccard similarity of two token sets, 0-1. */
+export function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(t => { if (b.has(t)) shared++ })
+  return shared / (a.size + b.size - shared)
+}
+
+/** Report key for one item — canonical URL when there is one, else the normalized title. */
+export function itemKey(kind: DedupItemKind, url: string, title: string): string {
+  const canonical = canonicalizeUrl(url)
+  return canonical ? `${kind}:${canonical}` : `${kind}:title:${Array.from(titleTokens(title)).join(' ')}`
+}
+
+// ---------------------------------------------------------------------------
+// Index & matching
+// ---------------------------------------------------------------------------
+
+/** Index past entries for lookup by canonical URL and by title. */
+export function buildDedupIndex(entries: DedupEntry[]): DedupIndex {
+  const byUrl = new Map<string, DedupEntry[]>()
+  const titles: DedupIndex['titles'] = []
+  for (const entry of entries) {
+    const key = canonicalizeUrl(entry.url)
+    if (key) byUrl.set(key, [...(byUrl.get(key) ?? []), entry])
+    const tokens = titleTokens(entry.title)
+    if (tokens.size > 0) titles.push({ tokens, entry })
+  }
+  return { byUrl, titles }
+}
+
+/**
+ * Classify one item against the index. "posted" wins over "seen"; a URL match
+ * wins over a title match. Drafts are matched against the source they cite.
+ */
+export function matchItem(url: string, title: string, index: DedupIndex): DedupMatch {
+  const pick = (candidates: DedupEntry[]): DedupEntry | null =>
+    candidates.find(e => e.status === 'posted') ?? candidates[0] ?? null
+
+  const urlMatch = pick(index.byUrl.get(canonicalizeUrl(url)) ?? [])
+
+  const tokens = titleTokens(title)
+  const titleCandidates = tokens.size === 0
+    ? []
+    : index.titles.filter(t => titleSimilarity(tokens, t.tokens) >= TITLE_MATCH_THRESHOLD).map(t => t.entry)
+  const titleMatch = pick(titleCandidates)
+
+  if (urlMatch?.status === 'posted') return { status: 'posted', match: urlMatch, via: 'url' }
+  if (titleMatch?.status === 'posted') return { status: 'posted', match: titleMatch, via: 'title' }
+  if (urlMatch) return { status: 'seen', match: urlMatch, via: 'url' }
+  if (titleMatch) return { status: 'seen', match: titleMatch, via: 'title' }
+  return { status: 'new', match: null, via: null }
+}
+
+/** Entries for every source item and draft in a scan, all marked "seen". */
+export function scanToEntries(response: ManagerResponse, originId: string, at: string): DedupEntry[] {
+  const drafts = Array.isArray(response?.thread_drafts) ? response.thread_drafts : []
+  return [
+    ...collectSourceItems(response).map(({ adapter, item }) => ({ kind: adapter.itemKind, url: item.url, title: item.title, status: 'seen' as const, origin_id: originId, at })),
+    ...drafts.map(d => ({ kind: 'draft', url: d?.source_url ?? '', title: d?.title ?? '', status: 'seen' as const, origin_id: originId, at })),
+  ]
+}
+
+/** Classify every item of a scan against the index. */
+export function dedupScan(response: ManagerResponse, index: DedupIndex): DedupReport {
+  const report: DedupReport = {}
+  const add = (kind: DedupItemKind, url: string, title: string) => {
+    report[itemKey(kind, url, title)] = matchItem(url, title, index)
+  }
+  collectSourceItems(response).forEach(({ adapter, item }) => add(adapter.itemKind, item.url, item.title))
+  ;(response?.thread_drafts ?? []).forEach(d => add('draft', d?.source_url ?? '', d?.title ?? ''))
+  return report
+}
+
+/** Look up an item's status in a report; unknown items are "new". */
+export function dedupStatusOf(report: DedupReport, kind: DedupItemKind, url: string, title: string): DedupMatch {
+  return report[itemKey(kind, url, title)] ?? { status: 'new', match: null, via: null }
+}
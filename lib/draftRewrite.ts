@@ -0,0 +1,116 @@
+/**
+ * Draft Regeneration
+ *
+ * Rewrites a single ThreadDraft through the Classifier agent instead of
+ * re-running the whole scan. The agent gets the source item the draft was
+ * written from, the current draft and an optional free-text instruction
+ * ("shorter", "less hype", "add a code example").
+ */
+
+import { callAIAgent, type AIAgentResponse } from '@/lib/aiAgent'
+import { sanitizeThreadDraft } from '@/lib/agentData'
+import { extractAgentData } from '@/lib/agentExtraction'
+import { SOURCE_ADAPTERS } from '@/lib/sources'
+import type { AppSettings, ManagerResponse, ThreadDraft } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The raw item a draft was written from, with its adapter's itemKind */
+export interface DraftSourceItem {
+  kind: string
+  item: unknown
+}
+
+export interface RegenerateOutcome {
+  /** null when the agent failed or returned no usable draft */
+  draft: ThreadDraft | null
+  error?: string
+  raw: AIAgentResponse
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Find the source item a draft was written from, by URL and then by title. */
+export function findDraftSource(draft: ThreadDraft, scan: ManagerResponse | null): DraftSourceItem | null {
+  if (!draft || !scan) return null
+  const candidates = SOURCE_ADAPTERS.flatMap(adapter =>
+    adapter.read(scan).items.map(raw => ({ kind: adapter.itemKind, raw, item: adapter.normalize(raw) }))
+  )
+  const url = draft.source_url ?? ''
+  const title = (draft.title ?? '').toLowerCase()
+
+  const match = (url ? candidates.find(c => c.item.url === url) : undefined)
+    ?? (title ? candidates.find(c => (c.item.title ?? '').toLowerCase() === title) : undefined)
+  return match ? { kind: match.kind, item: match.raw } : null
+}
+
+function buildRewriteMessage(
+  draft: ThreadDraft,
+  source: DraftSourceItem | null,
+  instruction: string,
+  settings: Pick<AppSettings, 'threadStyle'>
+): string {
+  const current = {
+    id: draft.id,
+    title: draft.title,
+    classification: draft.classification,
+    hook: draft.hook,
+    thread_content: draft.thread_content,
+    hashtags: draft.hashtags,
+    source_url: draft.source_url,
+  }
+  const task = instruction.trim()
+    ? `Rewrite the current draft following this instruction: "${instruction.trim()}". Keep every fact grounded in the source item.`
+    : 'Write a fresh alternative to the current draft from the same source item. Use a different hook and angle.'
+
+  return `${task} Style: ${settings.threadStyle}. Keep each tweet within 280 characters and separate tweets with "---". Set requires_review with a review_reason for anything making security, financial or unverified claims. Return JSON: { "thread_drafts": [{ "id", "title", "classification", "thread_content", "hashtags", "hook", "requires_review", "review_reason", "source_url", "relevance_score" }] } containing exactly one draft.\n\nSource item (${source?.kind ?? 'unknown'}):\n${JSON.stringify(source?.item ?? { title: draft.title, url: draft.source_url })}\n\nCurrent draft:\n${JSON.stringify(current)}`
+}
+
+// ---------------------------------------------------------------------------
+// Regeneration
+// ---------------------------------------------------------------------------
+
+/**
+ * Ask the Classifier agent for a new version of one draft.
+ * The returned draft keeps the original id and source_url so it replaces the old one in place.
+ */
+export async function regenerateDraft(params: {
+  agentId: string
+  draft: ThreadDraft
+  source: DraftSourceItem | null
+  instruction?: string
+  settings: Pick<AppSettings, 'threadStyle'>
+}): Promise<RegenerateOutcome> {
+  const { agentId, draft, source, instruction = '', settings } = params
+  const raw = await callAIAgent(buildRewriteMessage(draft, source, instruction, settings), agentId)
+
+  if (!raw.success) {
+    return { draft: null, error: raw.error ?? raw.response?.message ?? 'Unknown error', raw }
+  }
+
+  // Accept either the thread_drafts wrapper or a bare draft object
+  const wrapped = extractAgentData<any>(raw, 'thread_drafts')
+  const candidate = Array.isArray(wrapped?.thread_drafts) && wrapped.thread_drafts.length > 0
+    ? wrapped.thread_drafts[0]
+    : extractAgentData<any>(raw, 'thread_content')
+
+  if (!candidate || typeof candidate.thread_content !== 'string' || !candidate.thread_content.trim()) {
+    return { draft: null, error: 'No thread draft found in agent response', raw }
+  }
+
+  const rewritten = sanitizeThreadDraft(candidate, 0)
+  return {
+    draft: {
+      ...rewritten,
+      id: draft.id,
+      source_url: draft.source_url || rewritten.source_url,
+      platforms: draft.platforms,
+      relevance_score: typeof candidate.relevance_score === 'number' ? rewritten.relevance_score : draft.relevance_score,
+    },
+    raw,
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Draft Version History
+ *
+ * Every change to a ThreadDraft — the scan that produced it, a regeneration,
+ * a human edit or a restore — is kept as a full snapshot so reviewers can see
+ * exactly what changed between versions, tweet by tweet.
+ */
+
+import type { ThreadDraft } from '@/lib/types'
+import { splitThread } from '@/lib/tweetText'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type VersionAuthor = 'agent' | 'human'
+
+export type VersionAction = 'scan' | 'regenerate' | 'rewrite' | 'edit' | 'restore'
+
+export interface DraftVersion {
+  /** 1-based, increasing per draft */
+  version: number
+  author: VersionAuthor
+  action: VersionAction
+  /** Rewrite instruction or the version a restore came from */
+  note: string
+  created_at: string
+  snapshot: ThreadDraft
+}
+
+/** Version lists keyed by ThreadDraft.id */
+export type DraftVersionMap = Record<string, DraftVersion[]>
+
+export type TweetDiffStatus = 'same' | 'changed' | 'added' | 'removed'
+
+export interface WordDiffPart {
+  text: string
+  type: 'same' | 'added' | 'removed'
+}
+
+export interface TweetDiffRow {
+  status: TweetDiffStatus
+  /** 1-based tweet positions on each side; null when the tweet does not exist there */
+  beforeIndex: number | null
+  afterIndex: number | null
+  before: string
+  after: string
+  /** Rendered parts for each side; word-level highlights on 'changed' rows */
+  beforeParts: WordDiffPart[]
+  afterParts: WordDiffPart[]
+}
+
+export interface DraftDiff {
+  tweets: TweetDiffRow[]
+  hookChanged: boolean
+  hashtagsChanged: boolean
+  reviewChanged: boolean
+}
+
+// ---------------------------------------------------------------------------
+// Version list
+// ---------------------------------------------------------------------------
+
+function sameContent(a: ThreadDraft, b: ThreadDraft): boolean {
+  return a.thread_content === b.thread_content
+    && a.hook === b.hook
+    && a.hashtags === b.hashtags
+    && a.title === b.title
+    && a.requires_review === b.requires_review
+    && a.review_reason === b.review_reason
+}
+
+/**
+ * Append a snapshot to a draft's version list.
+ * A snapshot identical to the latest version is not recorded again.
+ */
+export function appendVersion(
+  versions: DraftVersionMap,
+  draft: ThreadDraft,
+  author: VersionAuthor,
+  action: VersionAction,
+  note: string = ''
+): DraftVersionMap {
+  const list = versions[draft.id] ?? []
+  const latest = list[list.length - 1]
+  if (latest && sameContent(latest.snapshot, draft)) return versions
+
+  const entry: DraftVersion = {
+    version: (latest?.version ?? 0) + 1,
+    author,
+    action,
+    note,
+    created_at: new Date().toISOString(),
+    snapshot: { ...draft },
+  }
+  return { ...versions, [draft.id]: [...list, entry] }
+}
+
+/** Start a fresh version map with every draft of a scan recorded as an agent version. */
+export function seedVersions(drafts: ThreadDraft[], action: VersionAction = 'scan'): DraftVersionMap {
+  return (Array.isArray(drafts) ? drafts : []).reduce<DraftVersionMap>(
+    (map, draft) => appendVersion(map, draft, 'agent', action),
+    {}
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Diff
+// ---------------------------------------------------------------------------
+
+type Op<T> = { type: 'same' | 'added' | 'removed'; before?: T; after?: T }
+
+/** Longest-common-subsequence diff of two sequences. */
+function lcsDiff<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Op<T>[] {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equal(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+
+  const ops: Op<T>[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      ops.push({ type: 'same', before: a[i++], after: b[j++] })
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: 'removed', before: a[i++] })
+    } else {
+      ops.push({ type: 'added', after: b[j++] })
+    }
+  }
+  while (i < a.length) ops.push({ type: 'removed', before: a[i++] })
+  while (j < b.length) ops.push({ type: 'added', after: b[j++] })
+  return ops
+}
+
+/** Word-level diff of two tweets; whitespace is kept attached so parts render back verbatim. */
+export function diffWords(before: string, after: string): { beforeParts: WordDiffPart[]; afterParts: WordDiffPart[] } {
+  const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? []
+  const ops = lcsDiff(tokenize(before), tokenize(after), (x, y) => x === y)
+
+  const merge = (parts: WordDiffPart[], text: string, type: WordDiffPart['type']) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) last.text += text
+    else parts.push({ text, type })
+  }
+
+  const beforeParts: WordDiffPart[] = []
+  const afterParts: WordDiffPart[] = []
+  for (const op of ops) {
+    if (op.type !== 'added') merge(beforeParts, op.before, op.type === 'same' ? 'same' : 'removed')
+    if (op.type !== 'removed') merge(afterParts, op.after, op.type === 'same' ? 'same' : 'added')
+  }
+  return { beforeParts, afterParts }
+}
+
+/**
+ * Per-tweet diff between two versions of a draft.
+ * Identical tweets are aligned even when others were inserted or moved around them;
+ * runs of removed and added tweets between them are paired up as edits.
+ */
+export function diffDrafts(before: ThreadDraft, after: ThreadDraft): DraftDiff {
+  const beforeTweets = splitThread(before?.thread_content ?? '')
+  const afterTweets = splitThread(after?.thread_content ?? '')
+  const ops = lcsDiff(
+    beforeTweets.map((text, i) => ({ text, index: i + 1 })),
+    afterTweets.map((text, i) => ({ text, index: i + 1 })),
+    (x, y) => x.text === y.text
+  )
+
+  const rows: TweetDiffRow[] = []
+  let removed: { text: string; index: number }[] = []
+  let added: { text: string; index: number }[] = []
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length)
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const r = removed[k]
+      const a = added[k]
+      if (k < paired) {
+        rows.push({ status: 'changed', beforeIndex: r.index, afterIndex: a.index, before: r.text, after: a.text, ...diffWords(r.text, a.text) })
+      } else if (r) {
+        rows.push({ status: 'removed', beforeIndex: r.index, afterIndex: null, before: r.text, after: '', beforeParts: [{ text: r.text, type: 'removed' }], afterParts: [] })
+      } else {
+        rows.push({ status: 'added', beforeIndex: null, afterIndex: a.index, before: '', after: a.text, beforeParts: [], afterParts: [{ text: a.text, type: 'added' }] })
+      }
+    }
+    removed = []
+    added = []
+  }
+
+  for (const op of ops) {
+    if (op.type === 'removed') {
+      removed.push(op.before)
+    } else if (op.type === 'added') {
+      added.push(op.after)
+    } else {
+      flush()
+      rows.push({
+        status: 'same',
+        beforeIndex: op.before.index,
+        afterIndex: op.after.index,
+        before: op.before.text,
+        after: op.after.text,
+        beforeParts: [{ text: op.before.text, type: 'same' }],
+        afterParts: [{ text: op.after.text, type: 'same' }],
+      })
+    }
+  }
+  flush()
+
+  return {
+    tweets: rows,
+    hookChanged: (before?.hook ?? '') !== (after?.hook ?? ''),
+    hashtagsChanged: (before?.hashtags ?? '') !== (after?.hashtags ?? ''),
+    reviewChanged: (before?.requires_review ?? false) !== (after?.requires_review ?? false)
+      || (before?.review_reason ?? '') !== (after?.review_reason ?? ''),
+  }
+}
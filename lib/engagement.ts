@@ -0,0 +1,159 @@
+/**
+ * Engagement Metrics
+ *
+ * Shapes and arithmetic for per-thread engagement: every thread that posts
+ * successfully is tracked (lib/metricsCollector.ts) and its metrics are read
+ * at fixed checkpoints after posting — 1 hour, 24 hours and 7 days. A
+ * thread's impressions are its first post's, the reach of the hook; likes,
+ * reposts, replies and bookmarks are summed over every post of the thread.
+ *
+ * The Analytics tab and the collector both read these, so a rate or an
+ * average is computed the same way on either side.
+ */
+
+import type { PublishPlatform } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MetricsCheckpoint = '1h' | '24h' | '7d'
+
+export interface EngagementMetrics {
+  /** null when the platform doesn't report it (Mastodon, Bluesky) */
+  impressions: number | null
+  likes: number
+  reposts: number
+  replies: number
+  /** null when the platform doesn't report it */
+  bookmarks: number | null
+}
+
+export interface MetricsSnapshot {
+  checkpoint: MetricsCheckpoint
+  collected_at: string
+  /** null when collection failed or the checkpoint was missed */
+  metrics: EngagementMetrics | null
+  error: string
+  attempts: number
+}
+
+/** A posted thread whose engagement is being collected. */
+export interface TrackedThread {
+  id: string
+  draft_id: string
+  platform: PublishPlatform
+  title: string
+  classification: string
+  hook: string
+  /** Link the draft cites; missing on threads tracked before it was recorded */
+  source_url?: string
+  /** The draft's relevance_score when it was posted; missing on threads tracked before it was recorded */
+  relevance_score?: number
+  /** Category of the source item the draft was written from; empty when the scan is no longer archived */
+  category?: string
+  url: string
+  /** Every post of the thread, in order — tweet ids, Mastodon status ids, Bluesky at:// URIs */
+  post_ids: string[]
+  posted_at: string
+  snapshots: Partial<Record<MetricsCheckpoint, MetricsSnapshot>>
+  updated_at: string
+}
+
+/** Averages over a group of threads at one checkpoint. */
+export interface EngagementGroup {
+  key: string
+  threads: number
+  impressions: number | null
+  likes: number
+  reposts: number
+  replies: number
+  bookmarks: number | null
+  /** likes + reposts + replies + bookmarks per thread */
+  engagements: number
+  /** engagements / impressions, over the threads that report impressions */
+  engagement_rate: number | null
+}
+
+// Failed reads of one checkpoint before it is given up as missed
+export const MAX_METRICS_ATTEMPTS = 3
+
+export const METRICS_CHECKPOINTS: { id: MetricsCheckpoint; label: string; after_ms: number }[] = [
+  { id: '1h', label: '1 hour', after_ms: 60 * 60 * 1000 },
+  { id: '24h', label: '24 hours', after_ms: 24 * 60 * 60 * 1000 },
+  { id: '7d', label: '7 days', after_ms: 7 * 24 * 60 * 60 * 1000 },
+]
+
+// ---------------------------------------------------------------------------
+// Arithmetic
+// ---------------------------------------------------------------------------
+
+export function engagementsOf(metrics: EngagementMetrics): number {
+  return metrics.likes + metrics.reposts + metrics.replies + (metrics.bookmarks ?? 0)
+}
+
+export function engagementRate(metrics: EngagementMetrics): number | null {
+  return metrics.impressions ? engagementsOf(metrics) / metrics.impressions : null
+}
+
+/** Sum per-post metrics into the thread's: the first post's impressions, everything else added up. */
+export function combinePostMetrics(posts: EngagementMetrics[]): EngagementMetrics {
+  const sumOrNull = (values: Array<number | null>) => values.every(v => v === null) ? null : values.reduce((a, v) => a + (v ?? 0), 0)
+  return {
+    impressions: posts[0]?.impressions ?? null,
+    likes: posts.reduce((a, p) => a + p.likes, 0),
+    reposts: posts.reduce((a, p) => a + p.reposts, 0),
+    replies: posts.reduce((a, p) => a + p.replies, 0),
+    bookmarks: posts.length > 0 ? sumOrNull(posts.map(p => p.bookmarks)) : null,
+  }
+}
+
+/**
+ * What a hook leans on, for comparing hook styles rather than individual
+ * hooks. A hook can have several traits; one with none is "plain".
+ */
+export function hookTraits(hook: string): string[] {
+  const text = (hook ?? '').trim()
+  const traits: string[] = []
+  if (/\?\s*$/.test(text) || /^(why|how|what|who|when|is|are|do|does|can|should)\b/i.test(text)) traits.push('question')
+  if (/\d/.test(text)) traits.push('number')
+  if (/\b[A-Z]{4,}\b/.test(text)) traits.push('all caps')
+  if (/^(new|breaking|just)\b|\bjust (dropped|released|launched|revealed)\b/i.test(text)) traits.push('news')
+  if (/\b(here is|here's|thread|you need to know)\b/i.test(text)) traits.push('promise')
+  return traits.length > 0 ? traits : ['plain']
+}
+
+/**
+ * Average the threads' metrics at `checkpoint`, grouped by `keysOf` (a thread
+ * can fall in several groups), busiest groups first. Threads without metrics
+ * at that checkpoint are left out.
+ */
+export function groupEngagement(
+  threads: TrackedThread[],
+  checkpoint: MetricsCheckpoint,
+  keysOf: (thread: TrackedThread) => string[]
+): EngagementGroup[] {
+  const groups = new Map<string, EngagementMetrics[]>()
+  for (const thread of threads) {
+    const metrics = thread.snapshots?.[checkpoint]?.metrics
+    if (!metrics) continue
+    for (const key of keysOf(thread)) groups.set(key, [...(groups.get(key) ?? []), metrics])
+  }
+
+  const average = (values: number[]) => values.length > 0 ? values.reduce((a, v) => a + v, 0) / values.length : null
+  return Array.from(groups, ([key, list]) => {
+    const withImpressions = list.filter(m => m.impressions)
+    const reach = withImpressions.reduce((a, m) => a + m.impressions, 0)
+    return {
+      key,
+      threads: list.length,
+      impressions: average(withImpressions.map(m => m.impressions)),
+      likes: average(list.map(m => m.likes)),
+      reposts: average(list.map(m => m.reposts)),
+      replies: average(list.map(m => m.replies)),
+      bookmarks: average(list.filter(m => m.bookmarks !== null).map(m => m.bookmarks)),
+      engagements: average(list.map(engagementsOf)),
+      engagement_rate: reach > 0 ? withImpressions.reduce((a, m) => a + engagementsOf(m), 0) / reach : null,
+    }
+  }).sort((a, b) => b.threads - a.threads || b.engagements - a.engagements)
+}
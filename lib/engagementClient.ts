@@ -0,0 +1,92 @@
+'use client'
+
+/**
+ * Engagement Metrics Client Utility
+ *
+ * Client-side wrapper for /api/metrics: the threads the server tracks after
+ * posting, with their engagement at 1 hour, 24 hours and 7 days, and a way to
+ * read whatever checkpoints are due right now.
+ */
+
+import { useCallback, useState } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { TrackedThread } from '@/lib/engagement'
+
+/** Which adapter the server reads metrics through */
+export type MetricsSource = 'live' | 'fake' | 'off'
+
+export interface CollectSummary {
+  checked: number
+  collected: number
+  failed: number
+  missed: number
+}
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+export async function listTrackedThreads(): Promise<{ success: boolean; threads: TrackedThread[]; adapter?: MetricsSource; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/metrics')
+    const data = await res.json()
+    if (!data.success) return { success: false, threads: [], error: data.error }
+    return { success: true, threads: data.threads ?? [], adapter: data.adapter }
+  } catch (error) {
+    return { success: false, threads: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Read every checkpoint that has come due, rather than waiting for the server's next run. */
+export async function collectDueMetrics(): Promise<{ success: boolean; threads: TrackedThread[]; summary?: CollectSummary; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/metrics', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'collect' }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, threads: [], error: data.error }
+    return { success: true, threads: data.threads ?? [], summary: data.summary }
+  } catch (error) {
+    return { success: false, threads: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for tracked threads with loading/error state. */
+export function useEngagementMetrics() {
+  const [threads, setThreads] = useState<TrackedThread[]>([])
+  const [adapter, setAdapter] = useState<MetricsSource | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchThreads = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listTrackedThreads()
+    if (result.success) {
+      setThreads(result.threads)
+      setAdapter(result.adapter ?? null)
+    } else {
+      setError(result.error || 'Failed to load engagement metrics')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const collect = async () => {
+    setLoading(true)
+    setError(null)
+    const result = await collectDueMetrics()
+    if (result.success) setThreads(result.threads)
+    else setError(result.error || 'Failed to collect engagement metrics')
+    setLoading(false)
+    return result
+  }
+
+  return { threads, adapter, loading, error, fetchThreads, collect }
+}
@@ -0,0 +1,35 @@
+/**
+ * RSS / Atom Feed Config
+ *
+ * The stored shape of a registered feed and its defaults, shared by the
+ * Settings tab (lib/rssFeeds.ts), /api/feeds and the poller in
+ * lib/rssReader.ts.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FeedConfig {
+  id: string
+  url: string
+  /** Display name; also the item's source_type on the dashboard */
+  name: string
+  /** Dashboard category every entry of this feed is filed under */
+  category: string
+  /** 1-100 — relevance a fresh entry from this feed starts with */
+  weight: number
+  /** Minimum minutes between two fetches of this feed */
+  poll_interval_minutes: number
+  enabled: boolean
+  last_fetched_at: string | null
+  last_error: string
+  item_count: number
+  created_at: string
+  updated_at: string
+}
+
+export type FeedInput = Pick<FeedConfig, 'url' | 'name' | 'category' | 'weight' | 'poll_interval_minutes' | 'enabled'>
+
+export const DEFAULT_FEED_WEIGHT = 60
+export const DEFAULT_POLL_INTERVAL_MINUTES = 60
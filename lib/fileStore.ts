@@ -0,0 +1,71 @@
+/**
+ * Server-side JSON File Store
+ *
+ * Minimal persistence for API routes. Each collection is a directory under
+ * DATA_DIR and each record is one JSON file named by its id. Writes go through
+ * a temp file + rename so a crashed request never leaves a half-written record.
+ *
+ * Server-only — never import this from a 'use client' module.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data')
+
+function collectionDir(collection: string): string {
+  return path.join(DATA_DIR, collection)
+}
+
+function recordPath(collection: string, id: string): string {
+  // Ids come from request bodies — strip anything that could escape the collection dir
+  const safeId = id.replace(/[^a-zA-Z0-9_.-]/g, '_')
+  return path.join(collectionDir(collection), `${safeId}.json`)
+}
+
+/** Read one record, or null if it does not exist or cannot be parsed. */
+export async function readRecord<T>(collection: string, id: string): Promise<T | null> {
+  try {
+    const text = await fs.readFile(recordPath(collection, id), 'utf8')
+    return JSON.parse(text) as T
+  } catch {
+    return null
+  }
+}
+
+/** Create or replace one record. */
+export async function writeRecord<T>(collection: string, id: string, data: T): Promise<void> {
+  const target = recordPath(collection, id)
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  const tmp = `${target}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), 'utf8')
+  await fs.rename(tmp, target)
+}
+
+/** Delete one record. Returns false if it did not exist. */
+export async function deleteRecord(collection: string, id: string): Promise<boolean> {
+  try {
+    await fs.unlink(recordPath(collection, id))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Read every record in a collection. Unreadable files are skipped. */
+export async function listRecords<T>(collection: string): Promise<T[]> {
+  let files: string[]
+  try {
+    files = await fs.readdir(collectionDir(collection))
+  } catch {
+    return []
+  }
+
+  const records: T[] = []
+  for (const file of files) {
+    if (!file.endsWith('.json')) continue
+    const record = await readRecord<T>(collection, file.slice(0, -'.json'.length))
+    if (record) records.push(record)
+  }
+  return records
+}
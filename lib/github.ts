@@ -0,0 +1,341 @@
+/**
+ * GitHub Ingestion
+ *
+ * Two feeds from the GitHub REST API:
+ *   - Trending: repositories created inside the tracking window, most starred
+ *     first. GitHub has no trending endpoint, and for a repo that new every
+ *     star was gained inside the window.
+ *   - Releases: recent published releases of the repos on the watchlist
+ *     (AppSettings.githubWatchlist).
+ *
+ * Watched repos have their star count snapshotted daily in the `github_stars`
+ * collection, so they report stars gained over the window once they have been
+ * watched for a day. README summaries are only fetched for the items that are
+ * returned.
+ *
+ * GITHUB_TOKEN raises the rate limit from 60 to 5000 requests an hour.
+ * GITHUB_API_BASE_URL swaps the API for a local fixture server (see
+ * fixtures/github/).
+ *
+ * Server-only — called from API routes.
+ */
+
+import type { GitHubRepoItem } from '@/lib/types'
+import { readRecord, writeRecord } from '@/lib/fileStore'
+import { stripHtml } from '@/lib/xml'
+
+export const GITHUB_API_BASE_URL = process.env.GITHUB_API_BASE_URL || 'https://api.github.com'
+
+export const GITHUB_STARS_COLLECTION = 'github_stars'
+
+const DEFAULT_LIMIT = 20
+const DEFAULT_TIMEOUT_MS = 10000
+// Trending window and the span stars_gained is measured over
+const WINDOW_DAYS = 7
+// Ignore brand-new repos nobody has looked at yet
+const TRENDING_MIN_STARS = 20
+const RELEASES_PER_REPO = 2
+const REQUEST_CONCURRENCY = 4
+const SUMMARY_MAX_CHARS = 400
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FetchGitHubOptions {
+  trending: boolean
+  /** owner/repo names whose releases to collect */
+  watchlist: string[]
+  /** Only items filed under these categories; empty means all */
+  categories?: string[]
+  limit?: number
+  baseUrl?: string
+  token?: string
+  timeoutMs?: number
+}
+
+export interface GitHubFetchResult {
+  items: GitHubRepoItem[]
+  total_fetched: number
+  /** Partial failures; the items are still usable */
+  errors: string[]
+}
+
+interface GitHubRepo {
+  full_name: string
+  html_url: string
+  description: string | null
+  language: string | null
+  stargazers_count: number
+  topics?: string[]
+  created_at: string
+  archived?: boolean
+}
+
+interface GitHubRelease {
+  tag_name: string
+  name: string | null
+  body: string | null
+  html_url: string
+  published_at: string | null
+  draft: boolean
+  prerelease: boolean
+}
+
+interface StarSnapshot {
+  repo: string
+  /** Oldest first, trimmed to the window */
+  samples: { at: string; stars: number }[]
+}
+
+// Topic / description keywords → dashboard category; anything else is Developer Tools
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['Cybersecurity', /\b(security|infosec|pentest\w*|vulnerabilit\w+|malware|exploit\w*|cve|ctf|red-team|fuzz\w*|cryptograph\w*)\b/i],
+  ['AI/ML', /\b(ai|ml|llms?|machine-learning|deep-learning|neural|nlp|transformers?|pytorch|tensorflow|generative-ai|agents?|rag|diffusion|gpt)\b/i],
+  ['Research', /\b(research|paper|arxiv|benchmark)\b/i],
+]
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+function trimBase(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '')
+}
+
+async function githubRequest(url: string, options: { token?: string; timeoutMs: number; raw?: boolean }): Promise<Response> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs)
+  try {
+    const res = await fetch(url, {
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: {
+        Accept: options.raw ? 'application/vnd.github.raw' : 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      },
+    })
+    if (!res.ok) {
+      if ((res.status === 403 || res.status === 429) && res.headers.get('x-ratelimit-remaining') === '0') {
+        throw new Error('GitHub rate limit reached — set GITHUB_TOKEN for a higher limit')
+      }
+      throw new Error(`HTTP ${res.status} from ${url}`)
+    }
+    return res
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Timed out after ${options.timeoutMs}ms: ${url}`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+async function mapWithConcurrency<T, R>(inputs: T[], limit: number, fn: (input: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(inputs.length)
+  let next = 0
+  const worker = async () => {
+    while (next < inputs.length) {
+      const index = next++
+      results[index] = await fn(inputs[index])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, inputs.length) }, worker))
+  return results
+}
+
+// ---------------------------------------------------------------------------
+// Text helpers
+// ---------------------------------------------------------------------------
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text
+}
+
+/** Plain text from Markdown: drops code blocks, images, badges, headings and link targets. */
+export function markdownToPlain(markdown: string): string {
+  const text = (markdown ?? '')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/\*\*|__|[*`]/g, '')
+  return stripHtml(text)
+}
+
+/**
+ * First prose paragraph of a README — skips headings, badge rows, HTML
+ * banners and tables that usually come before it.
+ */
+export function summarizeReadme(markdown: string): string {
+  const paragraphs = (markdown ?? '').replace(/```[\s\S]*?```/g, '').split(/\n\s*\n/)
+  for (const paragraph of paragraphs) {
+    const trimmed = paragraph.trim()
+    if (!trimmed || /^#{1,6}\s/.test(trimmed) || trimmed.startsWith('|')) continue
+    const plain = markdownToPlain(trimmed)
+    if (plain.length >= 40) return truncate(plain, SUMMARY_MAX_CHARS)
+  }
+  return ''
+}
+
+export function categorizeRepo(repo: Pick<GitHubRepo, 'topics' | 'description'>): string {
+  const text = [...(repo.topics ?? []), repo.description ?? ''].join(' ')
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'Developer Tools'
+}
+
+/** 0-100 from a star count on a log scale: 100 → 50, 1k → 75, 10k → 100. */
+export function popularityScore(stars: number): number {
+  return Math.min(100, Math.max(0, Math.round(25 * Math.log10(Math.max(0, stars) + 1))))
+}
+
+// ---------------------------------------------------------------------------
+// Star tracking
+// ---------------------------------------------------------------------------
+
+/**
+ * Record today's star count and return the stars gained since the oldest
+ * sample inside the window, or null on a repo's first sighting.
+ */
+async function trackStars(repo: string, stars: number, now: number): Promise<number | null> {
+  const windowStart = now - WINDOW_DAYS * 24 * 60 * 60 * 1000
+  const id = repo.toLowerCase().replace('/', '__')
+  const existing = await readRecord<StarSnapshot>(GITHUB_STARS_COLLECTION, id)
+  const samples = (existing?.samples ?? []).filter(s => new Date(s.at).getTime() >= windowStart)
+  const baseline = samples[0]
+  // One sample per day is plenty
+  const last = samples[samples.length - 1]
+  if (!last || now - new Date(last.at).getTime() >= 24 * 60 * 60 * 1000) {
+    samples.push({ at: new Date(now).toISOString(), stars })
+  }
+  await writeRecord<StarSnapshot>(GITHUB_STARS_COLLECTION, id, { repo, samples })
+  return baseline ? Math.max(0, stars - baseline.stars) : null
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+function repoToItem(repo: GitHubRepo): GitHubRepoItem {
+  return {
+    kind: 'trending',
+    repo: repo.full_name,
+    url: repo.html_url,
+    title: repo.description ? `${repo.full_name}: ${truncate(repo.description, 120)}` : repo.full_name,
+    description: repo.description ?? '',
+    language: repo.language ?? '',
+    stars: repo.stargazers_count ?? 0,
+    stars_gained: repo.stargazers_count ?? 0,
+    topics: repo.topics ?? [],
+    readme_summary: '',
+    category: categorizeRepo(repo),
+    relevance_score: popularityScore(repo.stargazers_count ?? 0),
+  }
+}
+
+function releaseToItem(repo: GitHubRepo, release: GitHubRelease, starsGained: number): GitHubRepoItem {
+  const name = release.name?.trim() || release.tag_name
+  return {
+    ...repoToItem(repo),
+    kind: 'release',
+    url: release.html_url,
+    title: name.toLowerCase().includes(repo.full_name.split('/')[1].toLowerCase()) ? name : `${repo.full_name} ${name}`,
+    release_tag: release.tag_name,
+    release_notes: truncate(markdownToPlain(release.body ?? ''), SUMMARY_MAX_CHARS),
+    published_at: release.published_at ?? '',
+    stars_gained: starsGained,
+    // A release of a watched repo ranks above an equally starred trending one
+    relevance_score: Math.min(100, popularityScore(repo.stargazers_count ?? 0) + 10),
+  }
+}
+
+/** Repos created in the window with at least TRENDING_MIN_STARS stars, most starred first. */
+export async function fetchTrendingRepos(limit: number, baseUrl: string, token: string | undefined, timeoutMs: number): Promise<GitHubRepo[]> {
+  const since = new Date(Date.now() - WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  const query = new URLSearchParams({
+    q: `created:>${since} stars:>=${TRENDING_MIN_STARS} archived:false`,
+    sort: 'stars',
+    order: 'desc',
+    per_page: String(Math.min(100, limit)),
+  })
+  const res = await githubRequest(`${trimBase(baseUrl)}/search/repositories?${query}`, { token, timeoutMs })
+  const data = await res.json()
+  return Array.isArray(data?.items) ? data.items : []
+}
+
+export async function fetchRepo(repo: string, baseUrl: string, token: string | undefined, timeoutMs: number): Promise<GitHubRepo> {
+  const res = await githubRequest(`${trimBase(baseUrl)}/repos/${repo}`, { token, timeoutMs })
+  return res.json()
+}
+
+/** Published, non-draft releases from inside the window, newest first. */
+export async function fetchRecentReleases(repo: string, baseUrl: string, token: string | undefined, timeoutMs: number): Promise<GitHubRelease[]> {
+  const res = await githubRequest(`${trimBase(baseUrl)}/repos/${repo}/releases?per_page=10`, { token, timeoutMs })
+  const releases: GitHubRelease[] = await res.json()
+  const windowStart = Date.now() - WINDOW_DAYS * 24 * 60 * 60 * 1000
+  return (Array.isArray(releases) ? releases : [])
+    .filter(r => !r.draft && r.published_at && new Date(r.published_at).getTime() >= windowStart)
+    .sort((a, b) => (b.published_at ?? '').localeCompare(a.published_at ?? ''))
+}
+
+/** README summary, or '' when the repo has none. */
+export async function fetchReadmeSummary(repo: string, baseUrl: string, token: string | undefined, timeoutMs: number): Promise<string> {
+  try {
+    const res = await githubRequest(`${trimBase(baseUrl)}/repos/${repo}/readme`, { token, timeoutMs, raw: true })
+    return summarizeReadme(await res.text())
+  } catch {
+    return ''
+  }
+}
+
+/**
+ * Trending repos and watchlist releases, most relevant first. Like the HN
+ * fetcher, failures are collected in `errors` so one bad repo does not sink
+ * the rest.
+ */
+export async function fetchGitHubItems(options: FetchGitHubOptions): Promise<GitHubFetchResult> {
+  const baseUrl = options.baseUrl || GITHUB_API_BASE_URL
+  const token = options.token ?? process.env.GITHUB_TOKEN
+  const limit = Math.max(1, options.limit ?? DEFAULT_LIMIT)
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const categories = options.categories ?? []
+  const errors: string[] = []
+  const now = Date.now()
+
+  const trending: GitHubRepoItem[] = []
+  if (options.trending) {
+    try {
+      trending.push(...(await fetchTrendingRepos(limit, baseUrl, token, timeoutMs)).map(repoToItem))
+    } catch (error) {
+      errors.push(`trending: ${error instanceof Error ? error.message : 'fetch failed'}`)
+    }
+  }
+
+  const releases = (await mapWithConcurrency(options.watchlist, REQUEST_CONCURRENCY, async name => {
+    try {
+      const [repo, recent] = await Promise.all([
+        fetchRepo(name, baseUrl, token, timeoutMs),
+        fetchRecentReleases(name, baseUrl, token, timeoutMs),
+      ])
+      const gained = (await trackStars(repo.full_name, repo.stargazers_count ?? 0, now)) ?? 0
+      return recent.slice(0, RELEASES_PER_REPO).map(release => releaseToItem(repo, release, gained))
+    } catch (error) {
+      errors.push(`${name}: ${error instanceof Error ? error.message : 'fetch failed'}`)
+      return []
+    }
+  })).flat()
+
+  const fetched = [...releases, ...trending]
+  const kept = fetched
+    .filter(item => categories.length === 0 || categories.includes(item.category))
+    .sort((a, b) => b.relevance_score - a.relevance_score)
+    .slice(0, limit)
+
+  const repos = Array.from(new Set(kept.map(item => item.repo)))
+  const summaries = await mapWithConcurrency(repos, REQUEST_CONCURRENCY, repo => fetchReadmeSummary(repo, baseUrl, token, timeoutMs))
+  const summaryOf = new Map(repos.map((repo, i) => [repo, summaries[i]]))
+  const items = kept.map(item => ({ ...item, readme_summary: summaryOf.get(item.repo) ?? '' }))
+
+  return { items, total_fetched: fetched.length, errors }
+}
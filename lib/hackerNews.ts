@@ -0,0 +1,212 @@
+/**
+ * Hacker News Ingestion
+ *
+ * Reads stories straight from the official HN Firebase API so hn_score and
+ * comments_count are real numbers rather than whatever the HN agent reports.
+ * The agents still score, categorize and summarize — this module only supplies
+ * the raw items.
+ *
+ * HN_API_BASE_URL swaps the API for a local fixture server (see fixtures/hn/).
+ *
+ * Server-only — called from API routes.
+ */
+
+import type { HNStory } from '@/lib/types'
+
+export const HN_API_BASE_URL = process.env.HN_API_BASE_URL || 'https://hacker-news.firebaseio.com/v0'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Raw item from /item/<id>.json */
+export interface HNItem {
+  id: number
+  type?: 'story' | 'job' | 'comment' | 'poll' | 'pollopt'
+  by?: string
+  time?: number
+  title?: string
+  url?: string
+  text?: string
+  score?: number
+  descendants?: number
+  deleted?: boolean
+  dead?: boolean
+}
+
+export interface HNFeed {
+  /** Firebase list endpoint, without `.json` */
+  endpoint: string
+  /** source_type written on the resulting stories */
+  source_type: string
+}
+
+export interface FetchHNOptions {
+  /** AppSettings.sources labels; anything that is not an HN feed is ignored */
+  feeds: string[]
+  /** Stories to read per feed (default 30) */
+  limit?: number
+  baseUrl?: string
+  timeoutMs?: number
+}
+
+export interface HNFetchResult {
+  stories: HNStory[]
+  total_fetched: number
+  /** Per-feed or per-item failures; the rest of the result is still usable */
+  errors: string[]
+}
+
+// AppSettings.sources label → Firebase list endpoint
+export const HN_FEEDS: Record<string, HNFeed> = {
+  'HN Top': { endpoint: 'topstories', source_type: 'top' },
+  'HN New': { endpoint: 'newstories', source_type: 'new' },
+  'Ask HN': { endpoint: 'askstories', source_type: 'ask_hn' },
+  'Show HN': { endpoint: 'showstories', source_type: 'show_hn' },
+  'HN Jobs': { endpoint: 'jobstories', source_type: 'job' },
+}
+
+// A story listed in several feeds takes the first of these it appears in
+const FEED_PRECEDENCE = ['Ask HN', 'Show HN', 'HN Jobs', 'HN Top', 'HN New']
+
+const DEFAULT_LIMIT = 30
+const DEFAULT_TIMEOUT_MS = 10000
+// Items are fetched one request each — keep the fan-out polite
+const ITEM_CONCURRENCY = 8
+const SUMMARY_MAX_CHARS = 280
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+async function getJson<T>(url: string, timeoutMs: number): Promise<T> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const res = await fetch(url, { signal: controller.signal, cache: 'no-store' })
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${url}`)
+    return (await res.json()) as T
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Timed out after ${timeoutMs}ms: ${url}`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+function trimBase(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '')
+}
+
+/** Story ids for one feed, newest/highest ranked first. */
+export async function fetchFeedIds(feed: HNFeed, baseUrl = HN_API_BASE_URL, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<number[]> {
+  const ids = await getJson<unknown>(`${trimBase(baseUrl)}/${feed.endpoint}.json`, timeoutMs)
+  if (!Array.isArray(ids)) throw new Error(`${feed.endpoint} did not return a list of ids`)
+  return ids.filter((id): id is number => typeof id === 'number')
+}
+
+/** One item, or null when HN returns `null` for it. */
+export async function fetchItem(id: number, baseUrl = HN_API_BASE_URL, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<HNItem | null> {
+  return getJson<HNItem | null>(`${trimBase(baseUrl)}/item/${id}.json`, timeoutMs)
+}
+
+// ---------------------------------------------------------------------------
+// Mapping
+// ---------------------------------------------------------------------------
+
+/** Strip the HTML HN uses in Ask/Show/job text down to plain text. */
+export function hnTextToPlain(html: string): string {
+  return (html ?? '')
+    .replace(/<p>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x27;/g, "'")
+    .replace(/&#x2F;/g, '/')
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Map a raw item to an HNStory. category, relevance_score and summary (for
+ * link posts) are left for the agents to fill in.
+ */
+export function itemToStory(item: HNItem, sourceType: string): HNStory {
+  const text = hnTextToPlain(item.text ?? '')
+  return {
+    title: item.title ?? '',
+    url: item.url || `https://news.ycombinator.com/item?id=${item.id}`,
+    hn_score: typeof item.score === 'number' ? item.score : 0,
+    comments_count: typeof item.descendants === 'number' ? item.descendants : 0,
+    category: '',
+    relevance_score: 0,
+    summary: text.length > SUMMARY_MAX_CHARS ? `${text.slice(0, SUMMARY_MAX_CHARS - 1)}…` : text,
+    source_type: sourceType,
+  }
+}
+
+function isUsable(item: HNItem | null): item is HNItem {
+  return !!item && !item.deleted && !item.dead && !!item.title && (item.type === 'story' || item.type === 'job' || item.type === 'poll')
+}
+
+// ---------------------------------------------------------------------------
+// Fetch
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the requested feeds and their items. A story that appears in several
+ * feeds is kept once, under its most specific feed (Ask/Show/Jobs before
+ * Top/New) so source filters still see it as a Show HN post. Failures are
+ * collected in `errors` instead of thrown so one bad feed does not sink the
+ * others.
+ */
+export async function fetchHNStories(options: FetchHNOptions): Promise<HNFetchResult> {
+  const baseUrl = options.baseUrl || HN_API_BASE_URL
+  const limit = Math.max(1, options.limit ?? DEFAULT_LIMIT)
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  const errors: string[] = []
+
+  const feeds = FEED_PRECEDENCE.filter(label => options.feeds.includes(label)).map(label => ({ label, feed: HN_FEEDS[label] }))
+
+  const feedIds = await Promise.all(feeds.map(async ({ label, feed }) => {
+    try {
+      return (await fetchFeedIds(feed, baseUrl, timeoutMs)).slice(0, limit)
+    } catch (error) {
+      errors.push(`${label}: ${error instanceof Error ? error.message : 'fetch failed'}`)
+      return []
+    }
+  }))
+
+  const queue: { id: number; sourceType: string }[] = []
+  const queued = new Set<number>()
+  feeds.forEach(({ feed }, i) => {
+    for (const id of feedIds[i]) {
+      if (queued.has(id)) continue
+      queued.add(id)
+      queue.push({ id, sourceType: feed.source_type })
+    }
+  })
+
+  const stories: (HNStory | null)[] = new Array(queue.length).fill(null)
+  let next = 0
+  const worker = async () => {
+    while (next < queue.length) {
+      const index = next++
+      const { id, sourceType } = queue[index]
+      try {
+        const item = await fetchItem(id, baseUrl, timeoutMs)
+        if (isUsable(item)) stories[index] = itemToStory(item, sourceType)
+      } catch (error) {
+        errors.push(`item ${id}: ${error instanceof Error ? error.message : 'fetch failed'}`)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(ITEM_CONCURRENCY, queue.length) }, worker))
+
+  const usable = stories.filter((s): s is HNStory => s !== null)
+  return { stories: usable, total_fetched: usable.length, errors }
+}
@@ -1,344 +0,0 @@
-/**
- * Parse JSON from LLM responses with bulletproof error handling
- * Server-side utility for API routes
- */
-export default function parseLLMJson(
-  response: any,
-  options: Record<string, any> | null | undefined = {}
-): any {
-  if (!options || typeof options !== 'object' || Array.isArray(options)) options = {}
-
-  const {
-    attemptFix = true,
-    maxBlocks = 8,
-    preferFirst = true,
-    allowPartial = false,
-    maxUnwrapDepth = 6,
-    maxDecodeDepth = 3,
-    unwrapKeys = [
-      'raw_response',
-      'rawResponse',
-      'response',
-      'data',
-      'result',
-      'output',
-      'content',
-      'message',
-      'text',
-      'completion',
-    ],
-    preferRawResponse = true,
-  } = options as any
-
-  if (response === null || response === undefined) return null
-
-  const isPlainObject = (x: any) =>
-    x &&
-    typeof x === 'object' &&
-    !Array.isArray(x) &&
-    Object.prototype.toString.call(x) === '[object Object]'
-
-  const isLikelyLLMMessageArray = (x: any) =>
-    Array.isArray(x) && x.length > 0 && (typeof x[0] === 'string' || isPlainObject(x[0]))
-
-  const coerceToTextIfNeeded = (x: any): string | null => {
-    if (typeof x === 'string') return x
-    if (isPlainObject(x) || Array.isArray(x)) {
-      const extracted = extractTextFromKnownShapes(x)
-      if (extracted) return extracted
-      try {
-        return JSON.stringify(x)
-      } catch {
-        return null
-      }
-    }
-    try {
-      return String(x)
-    } catch {
-      return null
-    }
-  }
-
-  const extractTextFromKnownShapes = (x: any): string | null => {
-    try {
-      if (x?.content && Array.isArray(x.content)) {
-        const texts = x.content.map((p: any) => (typeof p === 'string' ? p : p?.text)).filter(Boolean)
-        if (texts.length) return texts.join('\n')
-      }
-      if (x?.choices && Array.isArray(x.choices)) {
-        const parts = x.choices
-          .map((c: any) => c?.message?.content ?? c?.delta?.content ?? c?.text)
-          .filter(Boolean)
-        if (parts.length) return parts.join('\n')
-      }
-      if (typeof x?.message === 'string') return x.message
-      if (typeof x?.text === 'string') return x.text
-      if (isLikelyLLMMessageArray(x)) {
-        const parts = x
-          .map((p: any) => (typeof p === 'string' ? p : p?.text ?? p?.message ?? p?.content))
-          .filter(Boolean)
-        if (parts.length) return parts.join('\n')
-      }
-    } catch {}
-    return null
-  }
-
-  const text = coerceToTextIfNeeded(response)
-  if (!text || text.trim().length === 0) return null
-
-  const jsonCache = new Map<string, string>()
-
-  const fixCommonJsonIssues = (jsonStr: string) => {
-    if (jsonCache.has(jsonStr)) return jsonCache.get(jsonStr)!
-    let fixed = jsonStr
-    fixed = fixed.replace(/^\uFEFF/, '')
-    fixed = fixed.replace(/\/\/.*$/gm, '')
-    fixed = fixed.replace(/\/\*[\s\S]*?\*\//g, '')
-    fixed = fixed.replace(/^\s*#.*$/gm, '')
-    fixed = fixed.replace(/[""]/g, '"').replace(/['']/g, "'")
-    fixed = fixed.replace(/,(\s*[}\]])/g, '$1')
-    fixed = fixed.replace(/,\s*$/g, '')
-    fixed = fixed.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":')
-    fixed = fixed.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"')
-    fixed = fixed.replace(/\bTrue\b/g, 'true')
-    fixed = fixed.replace(/\bFalse\b/g, 'false')
-    fixed = fixed.replace(/\bNone\b/g, 'null')
-    fixed = fixed.replace(/\bundefined\b/g, 'null')
-    fixed = fixed.replace(/\.\.\./g, '')
-    fixed = fixed.replace(/…/g, '')
-    if (allowPartial) {
-      const quoteCount = (fixed.match(/"/g) || []).length
-      if (quoteCount % 2 !== 0) fixed += '"'
-    }
-    jsonCache.set(jsonStr, fixed)
-    return fixed
-  }
-
-  const decodeJsonStringLoop = (value: any, depth = 0): any => {
-    if (depth >= maxDecodeDepth) return value
-    if (typeof value !== 'string') return value
-    const s = value.trim()
-    if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) {
-      try {
-        const parsed = JSON.parse(s)
-        return decodeJsonStringLoop(parsed, depth + 1)
-      } catch {
-        return value
-      }
-    }
-    if (s.startsWith('{') || s.startsWith('[')) {
-      try {
-        const parsed = JSON.parse(s)
-        return decodeJsonStringLoop(parsed, depth + 1)
-      } catch {
-        return value
-      }
-    }
-    return value
-  }
-
-  const findJsonBoundaries = (t: string): string | null => {
-    let start = -1
-    let end = -1
-    let depth = 0
-    let inDq = false
-    let inSq = false
-    let escapeNext = false
-
-    for (let i = 0; i < t.length; i++) {
-      const ch = t[i]
-      if (escapeNext) {
-        escapeNext = false
-        continue
-      }
-      if (ch === '\\') {
-        escapeNext = true
-        continue
-      }
-      if (ch === '"' && !inSq) {
-        inDq = !inDq
-        continue
-      }
-      if (ch === "'" && !inDq) {
-        inSq = !inSq
-        continue
-      }
-      if (!inDq && !inSq) {
-        if (ch === '{' || ch === '[') {
-          if (start === -1) start = i
-          depth++
-        } else if (ch === '}' || ch === ']') {
-          depth--
-          if (depth === 0 && start !== -1) {
-            end = i + 1
-            break
-          }
-        }
-      }
-    }
-    if (start !== -1 && end !== -1) return t.substring(start, end)
-    if (allowPartial && start !== -1) return t.substring(start)
-    return null
-  }
-
-  const extractJson = (t: string): string[] => {
-    const results: Array<{ content: string; priority: number }> = []
-    let match: RegExpExecArray | null
-
-    const jsonBlockPattern = /```(?:json|JSON)\s*\n?([\s\S]*?)\n?```/g
-    while ((match = jsonBlockPattern.exec(t)) !== null) {
-      if (results.length >= maxBlocks) break
-      const content = match[1]?.trim()
-      if (content) results.push({ content, priority: 1 })
-    }
-
-    const codeBlockPattern = /```\s*\n?([\s\S]*?)\n?```/g
-    while ((match = codeBlockPattern.exec(t)) !== null) {
-      if (results.length >= maxBlocks) break
-      const content = match[1]?.trim()
-      if (content && (content.startsWith('{') || content.startsWith('['))) {
-        results.push({ content, priority: 2 })
-      }
-    }
-
-    const inlinePattern = /`([^`]+)`/g
-    while ((match = inlinePattern.exec(t)) !== null) {
-      if (results.length >= maxBlocks) break
-      const content = match[1]?.trim()
-      if (content && (content.startsWith('{') || content.startsWith('['))) {
-        results.push({ content, priority: 3 })
-      }
-    }
-
-    const bounded = findJsonBoundaries(t)
-    if (bounded) results.push({ content: bounded.trim(), priority: 4 })
-
-    if (preferFirst) results.sort((a, b) => a.priority - b.priority)
-
-    const seen = new Set<string>()
-    const out: string[] = []
-    for (const r of results) {
-      if (!seen.has(r.content)) {
-        seen.add(r.content)
-        out.push(r.content)
-      }
-      if (out.length >= maxBlocks) break
-    }
-    return out
-  }
-
-  const tryParseJson = (jsonStr: string) => {
-    if (!jsonStr || jsonStr.trim().length === 0) {
-      return { success: false, data: null, error: 'Empty JSON string' }
-    }
-    let clean = jsonStr.trim()
-    try {
-      const parsed = JSON.parse(clean)
-      return { success: true, data: decodeJsonStringLoop(parsed), error: null }
-    } catch {}
-    if (attemptFix) {
-      const bounded = findJsonBoundaries(clean)
-      if (bounded) {
-        try {
-          const parsed = JSON.parse(bounded)
-          return { success: true, data: decodeJsonStringLoop(parsed), error: null }
-        } catch {}
-      }
-      clean = fixCommonJsonIssues(clean)
-      try {
-        const parsed = JSON.parse(clean)
-        return { success: true, data: decodeJsonStringLoop(parsed), error: null }
-      } catch {}
-      const extracted = findJsonBoundaries(clean)
-      if (extracted) {
-        try {
-          const parsed = JSON.parse(extracted)
-          return { success: true, data: decodeJsonStringLoop(parsed), error: null }
-        } catch {}
-      }
-    }
-    return { success: false, data: null, error: 'Failed to parse JSON after all attempts' }
-  }
-
-  const isFinalAgentResponse = (obj: any): boolean => {
-    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false
-    // Standard: has status + result/message
-    const hasStatus = 'status' in obj && (obj.status === 'success' || obj.status === 'error')
-    const hasResultOrMessage = 'result' in obj || 'message' in obj
-    if (hasStatus && hasResultOrMessage) return true
-    // Extended: has result as a non-empty object (agent schema response without status wrapper)
-    if ('result' in obj && obj.result && typeof obj.result === 'object'
-        && !Array.isArray(obj.result) && Object.keys(obj.result).length > 0) {
-      return true
-    }
-    return false
-  }
-
-  const unwrapResponse = (data: any) => {
-    let current = data
-    for (let depth = 0; depth < maxUnwrapDepth; depth++) {
-      if (!current || typeof current !== 'object') break
-      if (isFinalAgentResponse(current)) break
-      if (preferRawResponse && typeof current?.raw_response === 'string') {
-        const parsed = tryParseJson(current.raw_response)
-        if (parsed.success) {
-          current = parsed.data
-          continue
-        }
-      }
-      let advanced = false
-      for (const k of unwrapKeys) {
-        if (current && Object.prototype.hasOwnProperty.call(current, k) && current[k] != null) {
-          const v = current[k]
-          if (typeof v === 'string') {
-            const parsed = tryParseJson(v)
-            if (parsed.success) {
-              current = parsed.data
-              advanced = true
-              break
-            }
-          } else if (typeof v === 'object') {
-            current = v
-            advanced = true
-            break
-          }
-        }
-      }
-      if (!advanced) break
-    }
-    return current
-  }
-
-  try {
-    const m = text.match(/```json\s*\n([\s\S]*?)\n```/)
-    if (m) {
-      const extracted = m[1].trim()
-      const parsed = tryParseJson(extracted)
-      if (parsed.success) return unwrapResponse(parsed.data)
-    }
-  } catch {}
-
-  const direct = tryParseJson(text)
-  if (direct.success) return unwrapResponse(direct.data)
-
-  const candidates = extractJson(text).sort((a, b) => b.length - a.length)
-  for (const c of candidates) {
-    const r = tryParseJson(c)
-    if (r.success) return unwrapResponse(r.data)
-  }
-
-  if (attemptFix) {
-    const aggressive = findJsonBoundaries(text)
-    if (aggressive) {
-      const r = tryParseJson(aggressive)
-      if (r.success) return unwrapResponse(r.data)
-    }
-  }
-
-  return {
-    success: false,
-    data: null,
-    error: 'No valid JSON found in the response',
-    rawJson: null,
-  }
-}
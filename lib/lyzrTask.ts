@@ -0,0 +1,326 @@
+/**
+ * Lyzr Task API Helpers
+ *
+ * Shared by the /api/agent proxy, the /api/agent/stream SSE route and the
+ * publish worker: task submission, polling and normalization of completed
+ * task payloads.
+ *
+ * LYZR_AGENT_BASE_URL swaps the agent API host for the local mock server
+ * (npm run mock-lyzr, see scripts/mock-lyzr.js). LYZR_TRAFFIC_MODE records
+ * task traffic to JSONL or replays it instead of calling Lyzr (see
+ * lib/agentTraffic.ts).
+ *
+ * Server-only — reads LYZR_API_KEY.
+ */
+
+import { parseAgentText, parseJsonText } from '@/lib/agentExtraction'
+import { AGENT_TRAFFIC_MODE, recordPoll, recordSubmit, replayPoll, replaySubmit } from '@/lib/agentTraffic'
+
+export const LYZR_AGENT_BASE_URL = process.env.LYZR_AGENT_BASE_URL || 'https://agent-prod.studio.lyzr.ai'
+export const LYZR_TASK_URL = `${LYZR_AGENT_BASE_URL}/v3/inference/chat/task`
+export const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+/** Agent calls can be served — replay needs no API key */
+export const LYZR_AGENT_READY = !!LYZR_API_KEY || AGENT_TRAFFIC_MODE === 'replay'
+
+// Types
+interface ArtifactFile {
+  file_url: string
+  name: string
+  format_type: string
+}
+
+export interface ModuleOutputs {
+  artifact_files?: ArtifactFile[]
+  [key: string]: any
+}
+
+export interface NormalizedAgentResponse {
+  status: 'success' | 'error'
+  result: Record<string, any>
+  message?: string
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+    [key: string]: any
+  }
+}
+
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+export interface TaskSubmitBody {
+  message?: string
+  agent_id?: string
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+}
+
+export interface SubmitResult {
+  ok: boolean
+  /** Set when ok */
+  task_id?: string
+  agent_id?: string
+  user_id?: string
+  session_id?: string
+  /** Set when not ok */
+  status?: number
+  error?: string
+  raw_response?: string
+}
+
+export interface FetchTaskResult {
+  ok: boolean
+  /** Set when ok */
+  task?: any
+  /** Set when not ok */
+  status?: number
+  error?: string
+  raw_response?: string
+}
+
+/**
+ * Submit a new async task to Lyzr
+ */
+export async function submitLyzrTask(body: TaskSubmitBody): Promise<SubmitResult> {
+  const { message, agent_id, user_id, session_id, assets } = body
+
+  if (!message || !agent_id) {
+    return { ok: false, status: 400, error: 'message and agent_id are required' }
+  }
+
+  const finalUserId = user_id || `user-${generateUUID()}`
+  const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id: finalUserId,
+    session_id: finalSessionId,
+  }
+
+  if (assets && assets.length > 0) {
+    payload.assets = assets
+  }
+
+  if (AGENT_TRAFFIC_MODE === 'replay') return replaySubmit(payload)
+  const result = await sendLyzrTask(payload)
+  if (AGENT_TRAFFIC_MODE === 'record') await recordSubmit(payload, result)
+  return result
+}
+
+async function sendLyzrTask(payload: Record<string, any>): Promise<SubmitResult> {
+  const submitRes = await fetch(LYZR_TASK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(payload),
+  })
+
+  if (!submitRes.ok) {
+    const submitText = await submitRes.text()
+    let errorMsg = `Task submit failed with status ${submitRes.status}`
+    try {
+      const errorData = JSON.parse(submitText)
+      errorMsg = errorData?.detail || errorData?.error || errorData?.message || errorMsg
+    } catch {
+      const errorData = parseJsonText(submitText)?.data
+      errorMsg = errorData?.error || errorData?.message || errorMsg
+    }
+    return { ok: false, status: submitRes.status, error: errorMsg, raw_response: submitText }
+  }
+
+  const { task_id } = await submitRes.json()
+
+  return {
+    ok: true,
+    task_id,
+    agent_id: payload.agent_id,
+    user_id: payload.user_id,
+    session_id: payload.session_id,
+  }
+}
+
+/**
+ * Fetch the current state of a task — single request with API key
+ */
+export async function fetchLyzrTask(task_id: string): Promise<FetchTaskResult> {
+  if (AGENT_TRAFFIC_MODE === 'replay') return replayPoll(task_id)
+  const result = await pollLyzrTask(task_id)
+  if (AGENT_TRAFFIC_MODE === 'record') await recordPoll(task_id, result)
+  return result
+}
+
+async function pollLyzrTask(task_id: string): Promise<FetchTaskResult> {
+  const pollRes = await fetch(`${LYZR_TASK_URL}/${task_id}`, {
+    headers: {
+      'accept': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+  })
+
+  if (!pollRes.ok) {
+    const pollText = await pollRes.text()
+    const msg = pollRes.status === 404
+      ? 'Task expired or not found'
+      : `Poll failed with status ${pollRes.status}`
+    return { ok: false, status: pollRes.status, error: msg, raw_response: pollText }
+  }
+
+  return { ok: true, task: await pollRes.json() }
+}
+
+/**
+ * Build the completed-task body — envelope extraction + parseAgentText + normalizeResponse
+ */
+export function buildCompletedResponse(task: any) {
+  const rawText = JSON.stringify(task.response)
+  let moduleOutputs: ModuleOutputs | undefined
+  let agentResponseRaw: any = rawText
+
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      moduleOutputs = envelope.module_outputs
+      agentResponseRaw = envelope.response
+    }
+  } catch {
+    // Not standard JSON envelope — parseAgentText will handle it
+  }
+
+  const parsed = parseAgentText(agentResponseRaw)
+  const normalized = normalizeResponse(parsed ? parsed.data : agentResponseRaw)
+
+  return {
+    success: true,
+    status: 'completed',
+    response: normalized,
+    module_outputs: moduleOutputs,
+    timestamp: new Date().toISOString(),
+    raw_response: rawText,
+  }
+}
+
+/**
+ * Submit a task and poll it to completion on the server.
+ * Resolves with the same body POST /api/agent returns to the client poller,
+ * for server-side callers (the publish worker) that have no browser to poll.
+ */
+export async function runLyzrTask(body: TaskSubmitBody, timeoutMs: number = 5 * 60 * 1000): Promise<any> {
+  const failure = (error: string) => ({
+    success: false,
+    status: 'failed',
+    response: { status: 'error', result: {}, message: error },
+    error,
+  })
+
+  if (!LYZR_AGENT_READY) return failure('LYZR_API_KEY not configured on server')
+
+  const submitted = await submitLyzrTask(body)
+  if (!submitted.ok) return failure(submitted.error || 'Task submit failed')
+
+  const startTime = Date.now()
+  let attempt = 0
+  while (Date.now() - startTime < timeoutMs) {
+    const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
+    await new Promise(r => setTimeout(r, delay))
+    attempt++
+
+    const polled = await fetchLyzrTask(submitted.task_id)
+    if (!polled.ok) return failure(polled.error || 'Poll failed')
+
+    const task = polled.task
+    if (task.status === 'processing') continue
+    if (task.status === 'failed') return failure(task.error || 'Agent task failed')
+
+    return { ...buildCompletedResponse(task), agent_id: submitted.agent_id, user_id: submitted.user_id, session_id: submitted.session_id }
+  }
+
+  return failure(`Agent task timed out after ${Math.round(timeoutMs / 60000)} minutes`)
+}
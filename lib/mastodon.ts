@@ -0,0 +1,99 @@
+/**
+ * Mastodon Publishing
+ *
+ * Posts the statuses of a thread on one Mastodon account: the first status
+ * is public, each following one replies to the previous through
+ * in_reply_to_id (unlisted, so the thread shows once in followers' timelines).
+ * Every status carries the Idempotency-Key from lib/threadProgress.ts, which
+ * Mastodon honours for an hour, so a retried request can't post the same toot
+ * twice.
+ *
+ * MASTODON_BASE_URL is the account's instance (e.g. https://mastodon.social);
+ * MASTODON_ACCESS_TOKEN needs the write:statuses scope, plus read:statuses
+ * for the engagement counts the metrics collector reads back.
+ *
+ * Server-only — called from lib/platformPublish.ts and lib/metricsAdapters.ts.
+ */
+
+export const MASTODON_BASE_URL = (process.env.MASTODON_BASE_URL || '').replace(/\/+$/, '')
+const MASTODON_ACCESS_TOKEN = process.env.MASTODON_ACCESS_TOKEN || ''
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+interface MastodonStatus {
+  id: string
+  url: string | null
+  uri: string
+  favourites_count?: number
+  reblogs_count?: number
+  replies_count?: number
+}
+
+export function mastodonConfigured(): boolean {
+  return !!MASTODON_BASE_URL && !!MASTODON_ACCESS_TOKEN
+}
+
+async function postStatus(status: string, inReplyToId: string | null, idempotencyKey: string): Promise<MastodonStatus> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+  try {
+    const res = await fetch(`${MASTODON_BASE_URL}/api/v1/statuses`, {
+      method: 'POST',
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${MASTODON_ACCESS_TOKEN}`,
+        'Idempotency-Key': idempotencyKey,
+      },
+      body: JSON.stringify({
+        status,
+        visibility: inReplyToId ? 'unlisted' : 'public',
+        ...(inReplyToId ? { in_reply_to_id: inReplyToId } : {}),
+      }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => null)
+      throw new Error(body?.error ? `Mastodon: ${body.error}` : `HTTP ${res.status} from Mastodon`)
+    }
+    return await res.json()
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Mastodon timed out after ${DEFAULT_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/** Post one status of a thread; `inReplyToId` chains it under the previous one. */
+export async function postMastodonStatus(text: string, inReplyToId: string | null, idempotencyKey: string): Promise<{ post_id: string; url: string }> {
+  if (!mastodonConfigured()) throw new Error('Mastodon is not configured — set MASTODON_BASE_URL and MASTODON_ACCESS_TOKEN')
+  const status = await postStatus(text, inReplyToId, idempotencyKey)
+  return { post_id: status.id, url: status.url || status.uri }
+}
+
+/** Favourites, boosts and replies of one status. Mastodon reports no impressions or bookmarks. */
+export async function fetchMastodonCounts(statusId: string): Promise<{ likes: number; reposts: number; replies: number }> {
+  if (!mastodonConfigured()) throw new Error('Mastodon is not configured — set MASTODON_BASE_URL and MASTODON_ACCESS_TOKEN')
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+  try {
+    const res = await fetch(`${MASTODON_BASE_URL}/api/v1/statuses/${encodeURIComponent(statusId)}`, {
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: { Authorization: `Bearer ${MASTODON_ACCESS_TOKEN}` },
+    })
+    if (!res.ok) throw new Error(`HTTP ${res.status} from Mastodon for status ${statusId}`)
+    const status: MastodonStatus = await res.json()
+    return { likes: status.favourites_count ?? 0, reposts: status.reblogs_count ?? 0, replies: status.replies_count ?? 0 }
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Mastodon timed out after ${DEFAULT_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Engagement Metrics Collector
+ *
+ * Tracks every thread that posts successfully — by hand, with Publish All or
+ * from the schedule, all through publishToPlatform — in the `thread_metrics`
+ * collection, and reads its engagement through the metrics adapter
+ * (lib/metricsAdapters.ts) at each checkpoint: 1 hour, 24 hours and 7 days
+ * after it went up.
+ *
+ * A checkpoint is read once it is due and retried on later runs if the read
+ * fails. One the collector didn't reach in time (server down, collection
+ * switched off) is recorded as missed rather than filled with a later,
+ * larger number.
+ *
+ * Runs on an interval inside the Node server process (started from
+ * instrumentation.ts); POST /api/metrics { action: 'collect' } does the same
+ * work from an external cron.
+ *
+ * Server-only — uses the file store and platform credentials.
+ */
+
+import { listRecords, readRecord, writeRecord } from '@/lib/fileStore'
+import { metricsAdapter, type MetricsAdapter } from '@/lib/metricsAdapters'
+import { MAX_METRICS_ATTEMPTS, METRICS_CHECKPOINTS, type MetricsSnapshot, type TrackedThread } from '@/lib/engagement'
+import { collectSourceItems } from '@/lib/sources'
+import type { PlatformPostResult } from '@/lib/publishers'
+import type { ScanRecord } from '@/lib/scanHistory'
+import type { ThreadDraft } from '@/lib/types'
+
+export const THREAD_METRICS_COLLECTION = 'thread_metrics'
+// Archived scans, written by /api/history
+const SCANS_COLLECTION = 'scans'
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000
+// A checkpoint read later than this multiple of its age would overstate it
+const LATE_FACTOR = 1.5
+
+export interface MetricsRunSummary {
+  checked: number
+  collected: number
+  failed: number
+  missed: number
+}
+
+// Survives hot reloads in dev, where this module is re-evaluated
+const collectorState = globalThis as typeof globalThis & {
+  __metricsCollectorTimer?: ReturnType<typeof setInterval>
+  __metricsCollectorRunning?: boolean
+}
+
+/**
+ * Category of the item a draft was written from, found by URL and then by
+ * title in the newest archived scan that has it. Drafts don't carry one.
+ */
+async function sourceCategory(draft: ThreadDraft): Promise<string> {
+  const url = draft.source_url ?? ''
+  const title = (draft.title ?? '').toLowerCase()
+  if (!url && !title) return ''
+
+  const scans = await listRecords<ScanRecord>(SCANS_COLLECTION)
+  scans.sort((a, b) => (b.saved_at ?? '').localeCompare(a.saved_at ?? ''))
+  for (const scan of scans) {
+    const items = collectSourceItems(scan.response).map(s => s.item)
+    const match = (url ? items.find(i => i.url === url) : undefined)
+      ?? (title ? items.find(i => (i.title ?? '').toLowerCase() === title) : undefined)
+    if (match) return match.category ?? ''
+  }
+  return ''
+}
+
+/**
+ * Start tracking a thread that just finished posting. A repost of the same
+ * draft (a new first post) starts its checkpoints over. The draft's
+ * relevance_score and source category are kept for threshold calibration.
+ */
+export async function trackPostedThread(draft: ThreadDraft, result: PlatformPostResult): Promise<TrackedThread> {
+  const id = `${draft.id}-${result.platform}`
+  const postedAt = result.posts[0]?.posted_at ?? result.timestamp
+  const existing = await readRecord<TrackedThread>(THREAD_METRICS_COLLECTION, id)
+  const sameThread = existing?.post_ids?.[0] === result.posts[0]?.post_id
+  const thread: TrackedThread = {
+    id,
+    draft_id: draft.id,
+    platform: result.platform,
+    title: draft.title ?? '',
+    classification: draft.classification ?? '',
+    hook: draft.hook ?? '',
+    source_url: draft.source_url ?? '',
+    relevance_score: typeof draft.relevance_score === 'number' ? draft.relevance_score : undefined,
+    category: sameThread && existing.category ? existing.category : await sourceCategory(draft),
+    url: result.url,
+    post_ids: result.posts.map(p => p.post_id).filter(Boolean),
+    posted_at: sameThread ? existing.posted_at : postedAt,
+    snapshots: sameThread ? existing.snapshots ?? {} : {},
+    updated_at: new Date().toISOString(),
+  }
+  await writeRecord(THREAD_METRICS_COLLECTION, id, thread)
+  return thread
+}
+
+/** Every tracked thread, newest first. */
+export async function listTrackedThreads(): Promise<TrackedThread[]> {
+  const threads = await listRecords<TrackedThread>(THREAD_METRICS_COLLECTION)
+  return threads.sort((a, b) => (b.posted_at ?? '').localeCompare(a.posted_at ?? ''))
+}
+
+/** Read every checkpoint that has come due, one thread at a time. */
+export async function collectDueMetrics(now: Date = new Date(), adapter: MetricsAdapter | null = metricsAdapter()): Promise<MetricsRunSummary> {
+  const summary: MetricsRunSummary = { checked: 0, collected: 0, failed: 0, missed: 0 }
+  if (!adapter || collectorState.__metricsCollectorRunning) return summary
+  collectorState.__metricsCollectorRunning = true
+
+  try {
+    const threads = await listRecords<TrackedThread>(THREAD_METRICS_COLLECTION)
+    summary.checked = threads.length
+
+    for (const thread of threads) {
+      const age = now.getTime() - new Date(thread.posted_at).getTime()
+      if (isNaN(age)) continue
+      let changed = false
+
+      for (const checkpoint of METRICS_CHECKPOINTS) {
+        const previous = thread.snapshots?.[checkpoint.id]
+        if (age < checkpoint.after_ms || previous?.metrics || (previous?.attempts ?? 0) >= MAX_METRICS_ATTEMPTS) continue
+
+        let snapshot: MetricsSnapshot
+        if (age > checkpoint.after_ms * LATE_FACTOR) {
+          snapshot = {
+            checkpoint: checkpoint.id,
+            collected_at: now.toISOString(),
+            metrics: null,
+            error: previous?.error ? `Missed after ${previous.attempts} failed reads: ${previous.error}` : 'Missed — metrics were not collected in time',
+            attempts: MAX_METRICS_ATTEMPTS,
+          }
+          summary.missed++
+        } else {
+          try {
+            const metrics = await adapter.fetch(thread, checkpoint.id)
+            snapshot = { checkpoint: checkpoint.id, collected_at: now.toISOString(), metrics, error: '', attempts: (previous?.attempts ?? 0) + 1 }
+            summary.collected++
+          } catch (error) {
+            snapshot = {
+              checkpoint: checkpoint.id,
+              collected_at: now.toISOString(),
+              metrics: null,
+              error: `${adapter.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              attempts: (previous?.attempts ?? 0) + 1,
+            }
+            summary.failed++
+          }
+        }
+        thread.snapshots = { ...(thread.snapshots ?? {}), [checkpoint.id]: snapshot }
+        changed = true
+      }
+
+      if (changed) await writeRecord(THREAD_METRICS_COLLECTION, thread.id, { ...thread, updated_at: now.toISOString() })
+    }
+  } finally {
+    collectorState.__metricsCollectorRunning = false
+  }
+
+  return summary
+}
+
+/** Start the background interval once per server process, unless collection is off. */
+export function startMetricsCollector(): void {
+  if (collectorState.__metricsCollectorTimer || !metricsAdapter()) return
+
+  const interval = parseInt(process.env.METRICS_COLLECTOR_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS
+  collectorState.__metricsCollectorTimer = setInterval(() => {
+    collectDueMetrics().catch(error => {
+      console.error('[metrics-collector]', error instanceof Error ? error.message : error)
+    })
+  }, interval)
+}
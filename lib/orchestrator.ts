@@ -0,0 +1,375 @@
+/**
+ * Client-Driven Scan Orchestration
+ *
+ * Alternative to the single Manager agent call: fetches from the HN and arXiv
+ * agents in parallel, merges what came back and hands the merged items to the
+ * Classifier agent. Each stage reports its real status through `onStage`, and a
+ * failed source only drops its own items — the scan still completes with
+ * whatever the other source returned.
+ *
+ * HN stories and arXiv papers come from the HN Firebase API (/api/hn) and the
+ * arXiv export API (/api/arxiv) when they are reachable; the source agents then
+ * only score them, and the real metadata is restored afterwards so nothing the
+ * agent invented reaches the Classifier. If an API is unreachable its agent
+ * fetches on its own as before.
+ *
+ * Every other registered source (lib/sources.ts) is fetched through
+ * /api/sources without an agent, and the Classifier sees the items of all
+ * sources.
+ */
+
+import { callAIAgent, type AIAgentResponse } from '@/lib/aiAgent'
+import { sanitizeThreadDraft } from '@/lib/agentData'
+import { extractAgentPayload } from '@/lib/agentExtraction'
+import { canonicalizeUrl } from '@/lib/dedup'
+import { validatePayload, type SchemaReport } from '@/lib/schemaValidation'
+import { SOURCE_ADAPTERS, collectSourceItems, getSourceAdapter, isSourceEnabled, type SourceAdapter } from '@/lib/sources'
+import type { AppSettings, ArxivPaper, HNStory, ManagerResponse, SourceResults } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type OrchestrationStage = 'hn' | 'arxiv' | 'classify'
+
+export type StageStatus = 'pending' | 'active' | 'done' | 'skipped' | 'failed'
+
+export interface OrchestrationAgentIds {
+  hn: string
+  arxiv: string
+  classifier: string
+}
+
+export interface OrchestrationOutcome {
+  /** null only when no source produced any items */
+  response: ManagerResponse | null
+  /** Keyed by stage, or by source adapter id for agent-less sources */
+  errors: Partial<Record<OrchestrationStage | string, string>>
+  raw: Partial<Record<OrchestrationStage, AIAgentResponse>>
+  /** Schema check of each stage payload that could be extracted */
+  validation: SchemaReport[]
+}
+
+type SourceResult<T> = SourceResults<T>
+
+const STAGE_LABELS: Record<OrchestrationStage, string> = {
+  hn: 'HN agent',
+  arxiv: 'arXiv agent',
+  classify: 'Classifier',
+}
+
+// Sources with their own agent stage; the rest are fetched directly
+const AGENT_SOURCES = ['hn', 'arxiv']
+const HN_SOURCES = getSourceAdapter('hn')?.settingsLabels ?? []
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function agentError(result: AIAgentResponse): string {
+  return result?.error ?? result?.response?.message ?? 'Unknown error'
+}
+
+/**
+ * Pull a list plus counters out of a source agent response, tolerating a Manager-style wrapper key.
+ * Also returns the payload and where it was found, for schema validation.
+ */
+function extractSource<T>(result: AIAgentResponse, listKey: string, wrapperKey: string): { results: SourceResult<T>; payload: any; path: string } | null {
+  const direct = extractAgentPayload<any>(result, listKey)
+  const wrapped = direct ? null : extractAgentPayload<any>(result, wrapperKey)
+  const data = direct?.data ?? wrapped?.data?.[wrapperKey]
+  if (!data || !Array.isArray(data[listKey])) return null
+  const items = data[listKey] as T[]
+  return {
+    results: {
+      items,
+      total_fetched: typeof data.total_fetched === 'number' ? data.total_fetched : items.length,
+      total_filtered: typeof data.total_filtered === 'number' ? data.total_filtered : items.length,
+    },
+    payload: data,
+    path: direct ? direct.path : `${wrapped.path}.${wrapperKey}`,
+  }
+}
+
+/** The single instruction the Manager agent runs the whole pipeline from — also used for scheduled scans. */
+export function buildManagerScanMessage(settings: AppSettings): string {
+  return `Run a comprehensive intelligence scan of Hacker News and arXiv for trending AI, cybersecurity, startups, and breakthrough innovation content. Fetch, filter, score, classify, and generate Twitter thread drafts for all high-signal items. Relevance threshold: ${settings.relevanceThreshold}. Max threads: ${settings.maxThreadsPerScan}. Style: ${settings.threadStyle}.`
+}
+
+function buildHNMessage(settings: AppSettings, feeds: string[]): string {
+  return `Fetch the current trending Hacker News stories from these feeds: ${feeds.join(', ')}. Focus on these categories: ${settings.categories.join(', ')}. Score each story for relevance (0-100) and drop anything below ${settings.relevanceThreshold}. Return JSON: { "stories": [{ "title", "url", "hn_score", "comments_count", "category", "relevance_score", "summary", "source_type" }], "total_fetched", "total_filtered" }.`
+}
+
+function buildHNScoringMessage(settings: AppSettings, stories: HNStory[]): string {
+  const items = stories.map(s => ({ title: s.title, url: s.url, hn_score: s.hn_score, comments_count: s.comments_count, source_type: s.source_type, text: s.summary }))
+  return `Score these Hacker News stories, fetched live from the HN API. Focus on these categories: ${settings.categories.join(', ')}. For each story assign a category, a relevance_score (0-100) and a one-sentence summary, and drop anything below ${settings.relevanceThreshold}. Do not add stories and do not change title, url, hn_score, comments_count or source_type. Return JSON: { "stories": [{ "title", "url", "hn_score", "comments_count", "category", "relevance_score", "summary", "source_type" }], "total_fetched", "total_filtered" }.\n\nStories:\n${JSON.stringify(items)}`
+}
+
+function buildArxivMessage(settings: AppSettings): string {
+  return `Search arXiv for recent high-impact papers in these categories: ${settings.categories.join(', ')}. Score each paper for relevance, novelty and applicability (0-100) and drop anything with relevance below ${settings.relevanceThreshold}. Return JSON: { "papers": [{ "title", "authors", "abstract_summary", "arxiv_link", "category", "relevance_score", "novelty_score", "applicability_score" }], "total_fetched", "total_filtered" }.`
+}
+
+function buildArxivScoringMessage(settings: AppSettings, papers: ArxivPaper[]): string {
+  const items = papers.map(p => ({ title: p.title, authors: p.authors, arxiv_link: p.arxiv_link, primary_category: p.primary_category, abstract: p.abstract_summary }))
+  return `Score these arXiv papers, fetched live from the arXiv API. Focus on these categories: ${settings.categories.join(', ')}. For each paper assign a category, relevance, novelty and applicability scores (0-100) and a short abstract_summary, and drop anything with relevance below ${settings.relevanceThreshold}. Do not add papers and do not change title, authors or arxiv_link. Return JSON: { "papers": [{ "title", "authors", "abstract_summary", "arxiv_link", "category", "relevance_score", "novelty_score", "applicability_score" }], "total_fetched", "total_filtered" }.\n\nPapers:\n${JSON.stringify(items)}`
+}
+
+/** Classifier prompt over the items of every source, grouped by adapter countNoun. */
+export function buildClassifierMessage(settings: AppSettings, response: ManagerResponse): string {
+  const items: Record<string, { title: string; url: string; category: string; relevance_score: number; summary: string; source_type: string }[]> = {}
+  for (const { adapter, item } of collectSourceItems(response)) {
+    items[adapter.countNoun] = [
+      ...(items[adapter.countNoun] ?? []),
+      { title: item.title, url: item.url, category: item.category, relevance_score: item.relevance_score, summary: item.summary, source_type: item.source_type },
+    ]
+  }
+  return `Classify the following items and write Twitter thread drafts for the ${settings.maxThreadsPerScan} most relevant. Style: ${settings.threadStyle}. Separate tweets with "---". Use the item's url as source_url. classification is one of "TECH DEEP DIVE", "JOB POST + PREP THREAD", "RESEARCH SUMMARY THREAD" or "TOOL LAUNCH" — use "TOOL LAUNCH" for items with source_type "release" and other new tools or libraries, leading with what shipped and who it is for. Set requires_review with a review_reason for anything making security, financial or unverified claims. Return JSON: { "thread_drafts": [{ "id", "title", "classification", "thread_content", "hashtags", "hook", "requires_review", "review_reason", "source_url", "relevance_score" }] }.\n\nItems:\n${JSON.stringify(items)}`
+}
+
+// ---------------------------------------------------------------------------
+// Native sources
+// ---------------------------------------------------------------------------
+
+/**
+ * JSON body of a source route. Plain fetch, not fetchWrapper: a 502 from an
+ * unreachable upstream is the scan's cue to fall back, not a dead backend.
+ */
+async function fetchSourceRoute(url: string): Promise<any> {
+  const res = await fetch(url)
+  return res.json()
+}
+
+/** Live stories from /api/hn, or null when the HN API could not be reached. */
+async function fetchNativeHNStories(feeds: string[]): Promise<HNStory[] | null> {
+  try {
+    const data = await fetchSourceRoute(`/api/hn?${new URLSearchParams({ feeds: feeds.join(',') })}`)
+    return data.success && Array.isArray(data.stories) && data.stories.length > 0 ? data.stories : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keep the agent's category, relevance and summary but take title, URL, score,
+ * comments and source_type from the fetched story. Stories the agent returned
+ * that were not fetched are dropped.
+ */
+export function reconcileHNStories(scored: HNStory[], fetched: HNStory[]): HNStory[] {
+  const byUrl = new Map(fetched.map(s => [canonicalizeUrl(s.url), s]))
+  const byTitle = new Map(fetched.map(s => [s.title.trim().toLowerCase(), s]))
+  const used = new Set<HNStory>()
+  const result: HNStory[] = []
+  for (const story of scored) {
+    const real = byUrl.get(canonicalizeUrl(story?.url ?? '')) ?? byTitle.get((story?.title ?? '').trim().toLowerCase())
+    if (!real || used.has(real)) continue
+    used.add(real)
+    result.push({
+      ...real,
+      category: story?.category ?? '',
+      relevance_score: typeof story?.relevance_score === 'number' ? story.relevance_score : 0,
+      summary: story?.summary || real.summary,
+    })
+  }
+  return result
+}
+
+/** Live papers from /api/arxiv for the enabled categories, or null when arXiv could not be reached. */
+async function fetchNativeArxivPapers(settings: AppSettings): Promise<ArxivPaper[] | null> {
+  try {
+    const data = await fetchSourceRoute(`/api/arxiv?${new URLSearchParams({ topics: settings.categories.join(',') })}`)
+    return data.success && Array.isArray(data.papers) && data.papers.length > 0 ? data.papers : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Keep the agent's category, scores and summary but take title, authors and
+ * links from the feed. Papers the agent returned that are not in the feed are
+ * dropped.
+ */
+export function reconcileArxivPapers(scored: ArxivPaper[], fetched: ArxivPaper[]): ArxivPaper[] {
+  const byUrl = new Map(fetched.map(p => [canonicalizeUrl(p.arxiv_link), p]))
+  const byTitle = new Map(fetched.map(p => [p.title.trim().toLowerCase(), p]))
+  const used = new Set<ArxivPaper>()
+  const result: ArxivPaper[] = []
+  const score = (value: unknown) => (typeof value === 'number' ? value : 0)
+  for (const paper of scored) {
+    const real = byUrl.get(canonicalizeUrl(paper?.arxiv_link ?? '')) ?? byTitle.get((paper?.title ?? '').trim().toLowerCase())
+    if (!real || used.has(real)) continue
+    used.add(real)
+    result.push({
+      ...real,
+      category: paper?.category || real.category,
+      relevance_score: score(paper?.relevance_score),
+      novelty_score: score(paper?.novelty_score),
+      applicability_score: score(paper?.applicability_score),
+      abstract_summary: paper?.abstract_summary || real.abstract_summary,
+    })
+  }
+  return result
+}
+
+/** Items of an agent-less source from /api/sources. Throws with the route's error. */
+async function fetchSourceItems(adapter: SourceAdapter<any>, settings: AppSettings): Promise<SourceResults<any>> {
+  const query = new URLSearchParams({
+    source: adapter.id,
+    labels: adapter.settingsLabels.filter(l => settings.sources.includes(l)).join(','),
+    categories: settings.categories.join(','),
+    ...adapter.fetchParams?.(settings),
+  })
+  const data = await fetchSourceRoute(`/api/sources?${query}`).catch(() => null)
+  if (!data?.success || !Array.isArray(data.items)) {
+    throw new Error(data?.error ?? 'Source fetch failed')
+  }
+  return { items: data.items, total_fetched: data.total_fetched ?? data.items.length, total_filtered: data.items.length }
+}
+
+/**
+ * Fetch every enabled agent-less source in parallel. A failed source is left
+ * out and its error reported under the adapter id. Also used by Manager-mode
+ * scans, whose agent only returns HN and arXiv.
+ */
+export async function fetchDirectSources(settings: AppSettings): Promise<{
+  sources: { adapter: SourceAdapter<any>; results: SourceResults<any> }[]
+  errors: Record<string, string>
+}> {
+  const errors: Record<string, string> = {}
+  const adapters = SOURCE_ADAPTERS.filter(a => !AGENT_SOURCES.includes(a.id) && isSourceEnabled(a, settings.sources))
+  const fetched = await Promise.all(adapters.map(async adapter => {
+    try {
+      return { adapter, results: await fetchSourceItems(adapter, settings) }
+    } catch (error) {
+      errors[adapter.id] = error instanceof Error ? error.message : 'Source fetch failed'
+      return null
+    }
+  }))
+  return { sources: fetched.filter(Boolean), errors }
+}
+
+// ---------------------------------------------------------------------------
+// Orchestration
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the HN → arXiv → Classifier pipeline from the client.
+ * HN, arXiv and the agent-less sources run in parallel; the Classifier runs
+ * once all of them have settled.
+ */
+export async function runOrchestratedScan(params: {
+  agentIds: OrchestrationAgentIds
+  settings: AppSettings
+  onStage?: (stage: OrchestrationStage, status: StageStatus, agentId: string) => void
+}): Promise<OrchestrationOutcome> {
+  const { agentIds, settings, onStage } = params
+  const errors: OrchestrationOutcome['errors'] = {}
+  const raw: OrchestrationOutcome['raw'] = {}
+  const validation: SchemaReport[] = []
+
+  const runSource = async <T>(
+    stage: 'hn' | 'arxiv',
+    agentId: string,
+    buildMessage: (() => Promise<string>) | null,
+    listKey: string,
+    wrapperKey: string,
+    finalize: (result: SourceResult<T>) => SourceResult<T> = r => r
+  ): Promise<SourceResult<T>> => {
+    const empty: SourceResult<T> = { items: [], total_fetched: 0, total_filtered: 0 }
+    if (!buildMessage) {
+      onStage?.(stage, 'skipped', agentId)
+      return empty
+    }
+
+    onStage?.(stage, 'active', agentId)
+    const result = await callAIAgent(await buildMessage(), agentId)
+    raw[stage] = result
+
+    const extracted = result.success ? extractSource<T>(result, listKey, wrapperKey) : null
+    if (!extracted) {
+      errors[stage] = result.success ? `No ${listKey} found in agent response` : agentError(result)
+      onStage?.(stage, 'failed', agentId)
+      return empty
+    }
+
+    validation.push(validatePayload(STAGE_LABELS[stage], 'manager', extracted.payload, { subPath: wrapperKey, extractedFrom: extracted.path }))
+    onStage?.(stage, 'done', agentId)
+    return finalize(extracted.results)
+  }
+
+  const hnFeeds = settings.sources.filter(s => HN_SOURCES.includes(s))
+  let nativeStories: HNStory[] | null = null
+  const buildHN = async () => {
+    nativeStories = await fetchNativeHNStories(hnFeeds)
+    return nativeStories ? buildHNScoringMessage(settings, nativeStories) : buildHNMessage(settings, hnFeeds)
+  }
+  const finalizeHN = (result: SourceResult<HNStory>): SourceResult<HNStory> => {
+    if (!nativeStories) return result
+    const items = reconcileHNStories(result.items, nativeStories)
+    return { items, total_fetched: nativeStories.length, total_filtered: items.length }
+  }
+
+  let nativePapers: ArxivPaper[] | null = null
+  const buildArxiv = async () => {
+    nativePapers = await fetchNativeArxivPapers(settings)
+    return nativePapers ? buildArxivScoringMessage(settings, nativePapers) : buildArxivMessage(settings)
+  }
+  const finalizeArxiv = (result: SourceResult<ArxivPaper>): SourceResult<ArxivPaper> => {
+    if (!nativePapers) return result
+    const items = reconcileArxivPapers(result.items, nativePapers)
+    return { items, total_fetched: nativePapers.length, total_filtered: items.length }
+  }
+
+  const [hn, arxiv, direct] = await Promise.all([
+    runSource<HNStory>('hn', agentIds.hn, hnFeeds.length > 0 ? buildHN : null, 'stories', 'hn_results', finalizeHN),
+    runSource<ArxivPaper>('arxiv', agentIds.arxiv, settings.sources.includes('arXiv') ? buildArxiv : null, 'papers', 'arxiv_results', finalizeArxiv),
+    fetchDirectSources(settings),
+  ])
+  Object.assign(errors, direct.errors)
+
+  let response: ManagerResponse = {
+    pipeline_status: 'completed',
+    hn_results: { stories: hn.items, total_fetched: hn.total_fetched, total_filtered: hn.total_filtered },
+    arxiv_results: { papers: arxiv.items, total_fetched: arxiv.total_fetched, total_filtered: arxiv.total_filtered },
+    thread_drafts: [],
+    total_drafts: 0,
+    auto_approved: 0,
+    flagged_for_review: 0,
+    scan_timestamp: new Date().toISOString(),
+  }
+  for (const { adapter, results } of direct.sources) {
+    response = adapter.write(response, results)
+  }
+
+  if (collectSourceItems(response).length === 0) {
+    onStage?.('classify', 'skipped', agentIds.classifier)
+    return { response: null, errors, raw, validation }
+  }
+
+  // Classifier failure still leaves the fetched items on the dashboard
+  let drafts: ManagerResponse['thread_drafts'] = []
+  onStage?.('classify', 'active', agentIds.classifier)
+  const classified = await callAIAgent(buildClassifierMessage(settings, response), agentIds.classifier)
+  raw.classify = classified
+  const extractedDrafts = classified.success ? extractAgentPayload<any>(classified, 'thread_drafts') : null
+  const draftData = extractedDrafts?.data
+  if (draftData && Array.isArray(draftData.thread_drafts)) {
+    validation.push(validatePayload(STAGE_LABELS.classify, 'manager', draftData, { keys: ['thread_drafts'], extractedFrom: extractedDrafts.path }))
+    drafts = draftData.thread_drafts.map(sanitizeThreadDraft)
+    onStage?.('classify', 'done', agentIds.classifier)
+  } else {
+    errors.classify = classified.success ? 'No thread_drafts found in agent response' : agentError(classified)
+    onStage?.('classify', 'failed', agentIds.classifier)
+  }
+
+  response = {
+    ...response,
+    pipeline_status: Object.keys(errors).length > 0 ? 'partial' : 'completed',
+    thread_drafts: drafts,
+    total_drafts: drafts.length,
+    auto_approved: drafts.filter(d => !d.requires_review && d.relevance_score >= settings.autoApproveThreshold).length,
+    flagged_for_review: drafts.filter(d => d.requires_review).length,
+    scan_timestamp: new Date().toISOString(),
+  }
+
+  return { response, errors, raw, validation }
+}
@@ -0,0 +1,249 @@
+/**
+ * Platform Publishing
+ *
+ * Posts one draft to one platform, a post at a time: Twitter through the
+ * Twitter Publisher agent, Mastodon and Bluesky directly through
+ * lib/mastodon.ts and lib/bluesky.ts. Each platform's posts come from its
+ * Publisher spec, so what goes out matches what the Publisher tab counted. A
+ * draft whose posts don't fit a platform's limit is refused for that platform
+ * rather than cut off.
+ *
+ * Progress is saved after every post (lib/threadProgress.ts). A thread that
+ * failed part-way resumes from the first unposted post, replying to the last
+ * one that went out; `restart` posts it again from the top.
+ *
+ * A thread starting from the top first takes a slot under the publishing
+ * policy (lib/publishLimiter.ts); when none is free it is held, not posted,
+ * and the result says when it may go. Resuming a thread that already has
+ * posts out is never held — it was counted when it started.
+ *
+ * A thread that finishes posting is handed to the metrics collector
+ * (lib/metricsCollector.ts) to have its engagement read over the next week.
+ *
+ * Used by /api/publish (immediate posts) and the publish worker (scheduled
+ * posts).
+ *
+ * Server-only — reads platform credentials from the environment.
+ */
+
+import { runLyzrTask, LYZR_API_KEY } from '@/lib/lyzrTask'
+import { AGENT_TRAFFIC_MODE } from '@/lib/agentTraffic'
+import { buildTweetMessage, interpretPublishResult, type PublishAttempt } from '@/lib/twitterPublish'
+import { confirmWithLookup } from '@/lib/tweetLookup'
+import { postMastodonStatus, mastodonConfigured } from '@/lib/mastodon'
+import { createBlueskySession, postBlueskyRecord, blueskyConfigured, type BlueskySession } from '@/lib/bluesky'
+import { claimProgress, postTextHash, readProgress, releaseProgress, saveProgress } from '@/lib/threadProgress'
+import { releasePublishSlot, reservePublishSlot } from '@/lib/publishLimiter'
+import { trackPostedThread } from '@/lib/metricsCollector'
+import { checkThreadFor, describeOverLimit, getPublisher, postNounTitle, type PlatformPostResult, type PlatformStatus, type PreparedPost } from '@/lib/publishers'
+import type { SchemaReport } from '@/lib/schemaValidation'
+import type { PublishPlatform, ThreadDraft, ThreadPostState } from '@/lib/types'
+
+/** The post may have gone out, but nothing proves it — the thread stops rather than guess. */
+class UnconfirmedPostError extends Error {
+  constructor(message: string, readonly url: string) {
+    super(message)
+    this.name = 'UnconfirmedPostError'
+  }
+}
+
+/** Posts one post of a thread. `thread` holds the posts before it, already posted. */
+type PostOne = (post: PreparedPost, state: ThreadPostState, thread: ThreadPostState[], total: number) => Promise<Pick<ThreadPostState, 'post_id' | 'url' | 'cid'>>
+
+export function platformStatus(): Record<PublishPlatform, PlatformStatus> {
+  return {
+    // Replayed traffic would report a recorded tweet as posted
+    twitter: {
+      configured: !!LYZR_API_KEY && AGENT_TRAFFIC_MODE !== 'replay',
+      hint: AGENT_TRAFFIC_MODE === 'replay' ? 'LYZR_API_KEY and a LYZR_TRAFFIC_MODE other than replay' : 'LYZR_API_KEY',
+    },
+    mastodon: { configured: mastodonConfigured(), hint: 'MASTODON_BASE_URL and MASTODON_ACCESS_TOKEN' },
+    bluesky: { configured: blueskyConfigured(), hint: 'BLUESKY_HANDLE and BLUESKY_APP_PASSWORD' },
+  }
+}
+
+function failed(platform: PublishPlatform, errorMessage: string, posts: ThreadPostState[] = []): PlatformPostResult {
+  return {
+    platform,
+    status: 'failed',
+    url: posts[0]?.url ?? '',
+    posts,
+    resumed_from: null,
+    held_until: null,
+    timestamp: new Date().toISOString(),
+    error_message: errorMessage,
+    validation: null,
+  }
+}
+
+// A post that may be live counts as the thread having started
+function hasStarted(posts: ThreadPostState[]): boolean {
+  return posts.some(p => p.status === 'posted' || p.status === 'unconfirmed')
+}
+
+// ---------------------------------------------------------------------------
+// Per-platform posters
+// ---------------------------------------------------------------------------
+
+function twitterPoster(agentId: string, onReport: (report: SchemaReport) => void): PostOne {
+  return async (post, state, thread, total) => {
+    const parent = thread[state.index - 1] ?? null
+    const attempt: PublishAttempt = {
+      text: post.text,
+      replyToId: parent?.post_id ?? null,
+      postedIds: thread.slice(0, state.index).map(p => p.post_id).filter(Boolean),
+    }
+    const result = await runLyzrTask({
+      message: buildTweetMessage(post.text, { replyToId: attempt.replyToId, idempotencyKey: state.idempotency_key, index: state.index, total }),
+      agent_id: agentId,
+    })
+    const outcome = await confirmWithLookup(interpretPublishResult(result, attempt), attempt)
+    if (outcome.validation) onReport(outcome.validation)
+    if (outcome.status === 'unconfirmed') throw new UnconfirmedPostError(outcome.errorMessage, outcome.tweetUrl)
+    if (outcome.status !== 'success') throw new Error(outcome.errorMessage)
+    return { post_id: outcome.tweetId, url: outcome.tweetUrl }
+  }
+}
+
+const mastodonPoster: PostOne = async (post, state, thread) => {
+  return postMastodonStatus(post.text, thread[state.index - 1]?.post_id ?? null, state.idempotency_key)
+}
+
+function blueskyPoster(): PostOne {
+  let session: BlueskySession | null = null
+  return async (post, state, thread) => {
+    session = session ?? await createBlueskySession()
+    const root = thread[0]
+    const parent = thread[state.index - 1]
+    const reply = state.index > 0
+      ? { root: { uri: root.post_id, cid: root.cid ?? '' }, parent: { uri: parent.post_id, cid: parent.cid ?? '' } }
+      : null
+    return postBlueskyRecord(session, post, reply)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Thread loop
+// ---------------------------------------------------------------------------
+
+/**
+ * Post a draft to one platform, resuming after any posts an earlier attempt
+ * got out. Never throws — failures come back as a failed result.
+ */
+export async function publishToPlatform(
+  platform: PublishPlatform,
+  draft: ThreadDraft,
+  options: { agentId?: string; restart?: boolean } = {}
+): Promise<PlatformPostResult> {
+  const publisher = getPublisher(platform)
+  if (!publisher) return failed(platform, `Unknown platform: ${platform}`)
+  if (!draft?.id) return failed(platform, 'Draft has no id')
+
+  const check = checkThreadFor(publisher, draft)
+  if (!check.valid) return failed(platform, describeOverLimit(publisher, check))
+  if (platform === 'twitter' && !options.agentId) return failed(platform, 'agent_id is required for Twitter')
+  if (platform === 'twitter' && AGENT_TRAFFIC_MODE === 'replay') return failed(platform, 'Twitter posting is off while LYZR_TRAFFIC_MODE=replay')
+
+  let validation: SchemaReport | null = null
+  const postOne: PostOne = platform === 'twitter'
+    ? twitterPoster(options.agentId, report => { validation = report })
+    : platform === 'mastodon' ? mastodonPoster : blueskyPoster()
+
+  const posts = publisher.prepare(draft)
+
+  // Checked before the claim, which resets a restarted thread — a held repost keeps its old progress
+  let slotId: string | null = null
+  try {
+    const existing = await readProgress(draft.id, platform)
+    const resuming = !options.restart && !!existing && hasStarted(existing.posts)
+    if (!resuming) {
+      const slot = await reservePublishSlot({ draftId: draft.id, platform, category: draft.classification ?? '' })
+      if (!slot.allowed) {
+        const until = slot.next_allowed_at
+        return {
+          ...failed(platform, `Held by the publishing policy: ${slot.reason}${until ? '' : ' — no slot in the next three days'}`),
+          held_until: until,
+        }
+      }
+      slotId = slot.entry_id
+    }
+  } catch (error) {
+    return failed(platform, `Could not check the publishing policy: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+  const giveBackSlot = () => {
+    if (!slotId) return Promise.resolve()
+    return releasePublishSlot(slotId).catch(error => {
+      console.error('[publish]', `could not release publish slot ${slotId}:`, error instanceof Error ? error.message : error)
+    })
+  }
+
+  let progress
+  try {
+    progress = await claimProgress(draft.id, platform, posts.map(p => p.text), { restart: options.restart })
+  } catch (error) {
+    await giveBackSlot()
+    return failed(platform, error instanceof Error ? error.message : 'Could not read thread progress')
+  }
+  if (!progress) {
+    await giveBackSlot()
+    return failed(platform, 'This thread is already being posted')
+  }
+
+  const firstPending = progress.posts.findIndex(p => p.status !== 'posted')
+  let errorMessage = ''
+  let stoppedUnconfirmed = false
+  try {
+    for (let i = firstPending < 0 ? posts.length : firstPending; i < posts.length; i++) {
+      const state = progress.posts[i]
+      let posted: Pick<ThreadPostState, 'post_id' | 'url' | 'cid'>
+      try {
+        if (i > 0 && !progress.posts[i - 1].post_id) {
+          throw new Error(`${postNounTitle(publisher)} ${i} went out without an id to reply to — finish the thread by hand`)
+        }
+        posted = await postOne(posts[i], state, progress.posts, posts.length)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        if (error instanceof UnconfirmedPostError) {
+          stoppedUnconfirmed = true
+          progress.posts[i] = { ...state, status: 'unconfirmed', url: error.url, text_hash: postTextHash(posts[i].text), error_message: message }
+          errorMessage = `${postNounTitle(publisher)} ${i + 1} of ${posts.length} is unconfirmed: ${message}. ` +
+            `Check the account — posting again retries it with the same idempotency key`
+        } else {
+          progress.posts[i] = { ...state, status: 'failed', error_message: message }
+          const done = progress.posts.filter(p => p.status === 'posted').length
+          errorMessage = `${postNounTitle(publisher)} ${i + 1} of ${posts.length} failed: ${message}` +
+            (done > 0 ? ` (${done} posted — posting again resumes from ${publisher.postNoun} ${i + 1})` : '')
+        }
+        break
+      }
+      progress.posts[i] = { ...state, ...posted, status: 'posted', text_hash: postTextHash(posts[i].text), error_message: '', posted_at: new Date().toISOString() }
+      await saveProgress(progress)
+    }
+  } catch (error) {
+    // The post went out but could not be recorded — stop before the next one
+    errorMessage = `Could not save thread progress: ${error instanceof Error ? error.message : 'Unknown error'}`
+  } finally {
+    await releaseProgress(progress).catch(error => {
+      console.error('[publish]', `could not release ${progress.id}:`, error instanceof Error ? error.message : error)
+    })
+    if (!hasStarted(progress.posts)) await giveBackSlot()
+  }
+
+  const result: PlatformPostResult = {
+    platform,
+    status: !errorMessage ? 'success' : stoppedUnconfirmed ? 'unconfirmed' : 'failed',
+    url: progress.posts[0]?.url ?? '',
+    posts: progress.posts,
+    resumed_from: firstPending > 0 ? firstPending + 1 : null,
+    held_until: null,
+    timestamp: new Date().toISOString(),
+    error_message: errorMessage,
+    validation,
+  }
+  if (result.status === 'success') {
+    await trackPostedThread(draft, result).catch(error => {
+      console.error('[publish]', `could not track ${draft.id} for metrics:`, error instanceof Error ? error.message : error)
+    })
+  }
+  return result
+}
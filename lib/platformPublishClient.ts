@@ -0,0 +1,156 @@
+'use client'
+
+/**
+ * Platform Publish Client Utility
+ *
+ * Client-side wrapper for /api/publish, which posts a draft to Twitter
+ * (through the agent), Mastodon or Bluesky a post at a time, reports which
+ * platforms have credentials configured on the server, and reads and saves
+ * the publishing policy every post is held to.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { PlatformPostResult, PlatformStatus } from '@/lib/publishers'
+import type { PlatformUsage, PublishPolicy } from '@/lib/publishPolicy'
+import type { PublishPlatform, ThreadDraft } from '@/lib/types'
+
+export type PlatformStatusMap = Record<PublishPlatform, PlatformStatus>
+export type PlatformUsageMap = Record<PublishPlatform, PlatformUsage>
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+/** Which platforms the server can post to. */
+export async function fetchPlatformStatus(): Promise<{ success: boolean; platforms?: PlatformStatusMap; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish')
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, platforms: data.platforms }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** The publishing policy and how many threads each platform started recently. */
+export async function fetchPublishPolicy(): Promise<{ success: boolean; policy?: PublishPolicy; usage?: PlatformUsageMap; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish')
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, policy: data.policy, usage: data.usage }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Save the publishing policy; the server clamps out-of-range values and returns what it stored. */
+export async function savePublishPolicy(policy: PublishPolicy): Promise<{ success: boolean; policy?: PublishPolicy; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'save_policy', policy }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, policy: data.policy }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Post a draft to one platform. A thread that failed part-way resumes after
+ * its last posted post; `restart` posts it again from the top. `success` is
+ * the request; result.status is the thread, and result.held_until is set
+ * when the publishing policy held it.
+ */
+export async function postToPlatform(
+  platform: PublishPlatform,
+  draft: ThreadDraft,
+  options: { agentId?: string; restart?: boolean } = {}
+): Promise<{ success: boolean; result?: PlatformPostResult; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'publish', platform, draft, agent_id: options.agentId, restart: options.restart }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, result: data.result }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Start a draft's threads over after its text changed, so the next post goes
+ * out from the top instead of resuming under posts with the old text.
+ */
+export async function resetThreadProgress(draftId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'reset_progress', draftId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Hook
+// ---------------------------------------------------------------------------
+
+/** Platform credentials status, loaded once on mount; null until it arrives. */
+export function usePlatformStatus() {
+  const [platforms, setPlatforms] = useState<PlatformStatusMap | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchPlatformStatus().then(result => {
+      if (!cancelled && result.success && result.platforms) setPlatforms(result.platforms)
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  return platforms
+}
+
+/** Publishing policy and usage with loading/error state. */
+export function usePublishPolicy() {
+  const [policy, setPolicy] = useState<PublishPolicy | null>(null)
+  const [usage, setUsage] = useState<PlatformUsageMap | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPolicy = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await fetchPublishPolicy()
+    if (result.success) {
+      setPolicy(result.policy ?? null)
+      setUsage(result.usage ?? null)
+    } else {
+      setError(result.error || 'Failed to load publishing policy')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const save = async (next: PublishPolicy) => {
+    setError(null)
+    const result = await savePublishPolicy(next)
+    if (result.success && result.policy) setPolicy(result.policy)
+    else setError(result.error || 'Failed to save publishing policy')
+    return result
+  }
+
+  return { policy, usage, loading, error, fetchPolicy, save }
+}
@@ -0,0 +1,97 @@
+/**
+ * Publish Limiter
+ *
+ * Enforces the publishing policy (lib/publishPolicy.ts) on every thread that
+ * starts posting, whether it was posted by hand, by "Publish All" or by the
+ * scheduled worker — all three go through publishToPlatform, which reserves
+ * a slot here first. The policy and the log of started threads are stored in
+ * the `publish_policy` collection.
+ *
+ * Checking the policy and logging the thread happen as one step behind an
+ * in-process lock, so a manual post and the worker can't both take the last
+ * slot of the hour. A thread that never got a post out gives its slot back.
+ *
+ * Server-only — uses the file store.
+ */
+
+import { readRecord, writeRecord } from '@/lib/fileStore'
+import { serialized } from '@/lib/serialQueue'
+import { evaluatePublishPolicy, normalizePolicy, summarizeUsage, type PlatformUsage, type PolicyDecision, type PublishLogEntry, type PublishPolicy } from '@/lib/publishPolicy'
+import type { PublishPlatform } from '@/lib/types'
+
+export const PUBLISH_POLICY_COLLECTION = 'publish_policy'
+
+const POLICY_ID = 'policy'
+const LOG_ID = 'log'
+// Entries older than the longest window no longer count toward anything
+const LOG_RETENTION_MS = 48 * 60 * 60 * 1000
+// Queue for the log's check-and-reserve step, shared by the route and the worker
+const LIMITER_QUEUE = 'publish_limiter'
+
+interface PublishLog {
+  entries: PublishLogEntry[]
+}
+
+export interface SlotReservation extends PolicyDecision {
+  /** Log entry holding the slot; null when the thread was held */
+  entry_id: string | null
+}
+
+async function readLog(): Promise<PublishLogEntry[]> {
+  const log = await readRecord<PublishLog>(PUBLISH_POLICY_COLLECTION, LOG_ID)
+  return Array.isArray(log?.entries) ? log.entries : []
+}
+
+async function writeLog(entries: PublishLogEntry[]): Promise<void> {
+  const cutoff = Date.now() - LOG_RETENTION_MS
+  await writeRecord<PublishLog>(PUBLISH_POLICY_COLLECTION, LOG_ID, {
+    entries: entries.filter(e => new Date(e.at).getTime() > cutoff),
+  })
+}
+
+export async function readPublishPolicy(): Promise<PublishPolicy> {
+  return normalizePolicy(await readRecord<Partial<PublishPolicy>>(PUBLISH_POLICY_COLLECTION, POLICY_ID))
+}
+
+/** Store a new policy; out-of-range values are clamped. */
+export async function savePublishPolicy(input: Partial<PublishPolicy>): Promise<PublishPolicy> {
+  const policy = normalizePolicy({ ...(await readPublishPolicy()), ...input })
+  await writeRecord(PUBLISH_POLICY_COLLECTION, POLICY_ID, policy)
+  return policy
+}
+
+/** Threads each platform started in the last hour and day, for the Settings tab. */
+export async function publishUsage(platforms: PublishPlatform[]): Promise<Record<PublishPlatform, PlatformUsage>> {
+  return summarizeUsage(await readLog(), platforms)
+}
+
+/**
+ * Check the policy for a thread about to start on `platform` and, when it is
+ * allowed, log it so the next check counts it.
+ */
+export function reservePublishSlot(thread: { draftId: string; platform: PublishPlatform; category: string }): Promise<SlotReservation> {
+  return serialized(LIMITER_QUEUE, async () => {
+    const [policy, entries] = await Promise.all([readPublishPolicy(), readLog()])
+    const now = new Date()
+    const decision = evaluatePublishPolicy(policy, entries, { platform: thread.platform, category: thread.category, now })
+    if (!decision.allowed) return { ...decision, entry_id: null }
+
+    const entry: PublishLogEntry = {
+      id: `${thread.draftId}-${thread.platform}-${now.getTime()}`,
+      draft_id: thread.draftId,
+      platform: thread.platform,
+      category: thread.category,
+      at: now.toISOString(),
+    }
+    await writeLog([...entries, entry])
+    return { ...decision, entry_id: entry.id }
+  })
+}
+
+/** Give back a slot whose thread never got a post out. */
+export function releasePublishSlot(entryId: string): Promise<void> {
+  return serialized(LIMITER_QUEUE, async () => {
+    const entries = await readLog()
+    if (entries.some(e => e.id === entryId)) await writeLog(entries.filter(e => e.id !== entryId))
+  })
+}
@@ -0,0 +1,220 @@
+/**
+ * Publishing Policy
+ *
+ * Limits on how fast threads go out: a minimum gap between two threads,
+ * caps per hour and per day, quiet hours in the audience's time zone, and a
+ * daily cap per draft category. Every platform is its own account, so the
+ * limits count each platform's threads separately; hours and days are rolling
+ * windows ending at the moment a thread would start.
+ *
+ * The rules here are pure so the Settings tab can explain a hold the same way
+ * the server decides it. Enforcement — the stored policy, the log of started
+ * threads and the check-and-reserve step — lives in lib/publishLimiter.ts.
+ */
+
+import type { PublishPlatform } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PublishPolicy {
+  enabled: boolean
+  /** Minimum minutes between two threads on the same platform; 0 for none */
+  min_gap_minutes: number
+  /** 0 for no cap */
+  max_per_hour: number
+  /** 0 for no cap */
+  max_per_day: number
+  /** Local hour quiet hours begin, 0-23 */
+  quiet_start_hour: number
+  /** Local hour quiet hours end, 0-23 (exclusive); equal to the start for no quiet hours */
+  quiet_end_hour: number
+  /** IANA zone the quiet hours are in */
+  timezone: string
+  /** Threads per category per day; 0 for no cap */
+  category_daily_cap: number
+}
+
+/** One thread that started going out, counted against the limits. */
+export interface PublishLogEntry {
+  id: string
+  draft_id: string
+  platform: PublishPlatform
+  category: string
+  /** When the thread started posting, UTC ISO */
+  at: string
+}
+
+export interface PolicyDecision {
+  allowed: boolean
+  /** Which rule held the thread, for messages; empty when allowed */
+  reason: string
+  /** Earliest time every rule allows the thread; null when allowed or nothing ever will */
+  next_allowed_at: string | null
+}
+
+export interface PlatformUsage {
+  last_hour: number
+  last_day: number
+  last_at: string | null
+}
+
+export const DEFAULT_PUBLISH_POLICY: PublishPolicy = {
+  enabled: true,
+  min_gap_minutes: 30,
+  max_per_hour: 2,
+  max_per_day: 8,
+  quiet_start_hour: 23,
+  quiet_end_hour: 7,
+  timezone: 'America/New_York',
+  category_daily_cap: 3,
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+// Longest any combination of rules can hold a thread: a full day cap plus quiet hours
+const LOOKAHEAD_MS = 3 * DAY_MS
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function clampInt(value: any, min: number, max: number, fallback: number): number {
+  const n = Math.floor(Number(value))
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback
+}
+
+function validTimeZone(zone: any): boolean {
+  if (typeof zone !== 'string' || !zone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** A complete policy from stored or submitted values, defaults filling the gaps. */
+export function normalizePolicy(input: Partial<PublishPolicy> | null | undefined): PublishPolicy {
+  const d = DEFAULT_PUBLISH_POLICY
+  const p = input ?? {}
+  return {
+    enabled: typeof p.enabled === 'boolean' ? p.enabled : d.enabled,
+    min_gap_minutes: clampInt(p.min_gap_minutes, 0, 1440, d.min_gap_minutes),
+    max_per_hour: clampInt(p.max_per_hour, 0, 60, d.max_per_hour),
+    max_per_day: clampInt(p.max_per_day, 0, 500, d.max_per_day),
+    quiet_start_hour: clampInt(p.quiet_start_hour, 0, 23, d.quiet_start_hour),
+    quiet_end_hour: clampInt(p.quiet_end_hour, 0, 23, d.quiet_end_hour),
+    timezone: validTimeZone(p.timezone) ? p.timezone : d.timezone,
+    category_daily_cap: clampInt(p.category_daily_cap, 0, 100, d.category_daily_cap),
+  }
+}
+
+/** Categories compare case-insensitively — agents are not consistent about case. */
+export function categoryKey(category: string | null | undefined): string {
+  return (category ?? '').trim().toUpperCase()
+}
+
+// Formatters are slow to build and evaluation asks for thousands of hours
+const hourFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function localHour(date: Date, timeZone: string): number {
+  let formatter = hourFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', hour: '2-digit' })
+    hourFormatters.set(timeZone, formatter)
+  }
+  return Number(formatter.formatToParts(date).find(p => p.type === 'hour')?.value ?? 0)
+}
+
+/** True inside quiet hours; a start after the end wraps past midnight. */
+export function isQuietHour(date: Date, policy: PublishPolicy): boolean {
+  const start = policy.quiet_start_hour
+  const end = policy.quiet_end_hour
+  if (start === end) return false
+  const hour = localHour(date, policy.timezone)
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+interface LoggedThread {
+  time: number
+  category: string
+}
+
+/** Why a thread can't start at `at`, or null when every rule allows it. */
+function blockingRule(policy: PublishPolicy, logged: LoggedThread[], category: string, at: number): string | null {
+  if (isQuietHour(new Date(at), policy)) {
+    return `quiet hours (${policy.quiet_start_hour}:00–${policy.quiet_end_hour}:00 ${policy.timezone})`
+  }
+
+  const since = (ms: number) => logged.filter(e => e.time <= at && e.time > at - ms)
+
+  const gapMs = policy.min_gap_minutes * MINUTE_MS
+  if (gapMs > 0 && since(gapMs).length > 0) {
+    return `at least ${policy.min_gap_minutes} minutes between threads`
+  }
+  if (policy.max_per_hour > 0 && since(HOUR_MS).length >= policy.max_per_hour) {
+    return `${policy.max_per_hour} ${policy.max_per_hour === 1 ? 'thread' : 'threads'} per hour`
+  }
+  const lastDay = since(DAY_MS)
+  if (policy.max_per_day > 0 && lastDay.length >= policy.max_per_day) {
+    return `${policy.max_per_day} ${policy.max_per_day === 1 ? 'thread' : 'threads'} per day`
+  }
+  const key = categoryKey(category)
+  if (key && policy.category_daily_cap > 0 && lastDay.filter(e => e.category === key).length >= policy.category_daily_cap) {
+    return `${policy.category_daily_cap} ${key} ${policy.category_daily_cap === 1 ? 'thread' : 'threads'} per day`
+  }
+  return null
+}
+
+/**
+ * Decide whether a thread may start posting to `platform` now, given the
+ * threads already logged. A held thread gets the earliest minute every rule
+ * allows it, found by stepping forward a minute at a time.
+ */
+export function evaluatePublishPolicy(
+  policy: PublishPolicy,
+  log: PublishLogEntry[],
+  thread: { platform: PublishPlatform; category: string; now?: Date }
+): PolicyDecision {
+  if (!policy.enabled) return { allowed: true, reason: '', next_allowed_at: null }
+  const now = (thread.now ?? new Date()).getTime()
+  const logged = log
+    .filter(e => e.platform === thread.platform)
+    .map(e => ({ time: new Date(e.at).getTime(), category: categoryKey(e.category) }))
+    .filter(e => !isNaN(e.time) && e.time > now - DAY_MS)
+
+  const reason = blockingRule(policy, logged, thread.category, now)
+  if (!reason) return { allowed: true, reason: '', next_allowed_at: null }
+
+  for (let at = Math.ceil((now + 1) / MINUTE_MS) * MINUTE_MS; at <= now + LOOKAHEAD_MS; at += MINUTE_MS) {
+    if (!blockingRule(policy, logged, thread.category, at)) {
+      return { allowed: false, reason, next_allowed_at: new Date(at).toISOString() }
+    }
+  }
+  return { allowed: false, reason, next_allowed_at: null }
+}
+
+/** Threads each platform started in the last hour and day. */
+export function summarizeUsage(log: PublishLogEntry[], platforms: PublishPlatform[], now: Date = new Date()): Record<PublishPlatform, PlatformUsage> {
+  const usage = {} as Record<PublishPlatform, PlatformUsage>
+  for (const platform of platforms) {
+    const times = log
+      .filter(e => e.platform === platform)
+      .map(e => new Date(e.at).getTime())
+      .filter(t => !isNaN(t) && t <= now.getTime())
+      .sort((a, b) => a - b)
+    usage[platform] = {
+      last_hour: times.filter(t => t > now.getTime() - HOUR_MS).length,
+      last_day: times.filter(t => t > now.getTime() - DAY_MS).length,
+      last_at: times.length > 0 ? new Date(times[times.length - 1]).toISOString() : null,
+    }
+  }
+  return usage
+}
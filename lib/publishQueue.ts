@@ -0,0 +1,309 @@
+'use client'
+
+/**
+ * Publish Queue Client Utility
+ *
+ * Client-side wrapper for /api/publish-queue. Approved drafts are queued with a
+ * target time and time zone; the server-side publish worker posts them through
+ * the Twitter agent when they come due, whether or not a browser is open.
+ */
+
+import { useCallback, useState } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { PublishPlatform, ThreadDraft } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+// unconfirmed: the worker couldn't prove a tweet went out — check the account before rescheduling
+export type ScheduledPostStatus = 'scheduled' | 'posting' | 'published' | 'failed' | 'unconfirmed'
+
+export interface ScheduledPost {
+  id: string
+  draft_id: string
+  /** Snapshot of the draft at scheduling time — later edits need a reschedule */
+  draft: ThreadDraft
+  agent_id: string
+  /** UTC ISO timestamp the worker compares against */
+  scheduled_at: string
+  /** IANA zone the time was chosen in, for display */
+  timezone: string
+  status: ScheduledPostStatus
+  attempts: number
+  /** The Twitter thread, or the first platform's when Twitter isn't a target */
+  tweet_url: string
+  /** Thread URL per platform that was posted to; a reschedule after a partial failure skips these */
+  post_urls?: Partial<Record<PublishPlatform, string>>
+  error_message: string
+  created_at: string
+  updated_at: string
+  published_at: string | null
+}
+
+export interface PublishWindow {
+  timezone: string
+  /** Local hour the window opens, 0-23 */
+  startHour: number
+  /** Local hour the window closes, 1-24 (exclusive) */
+  endHour: number
+  /** Minimum gap between two posts */
+  spacingMinutes: number
+}
+
+export const US_TIMEZONES: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern (New York)' },
+  { value: 'America/Chicago', label: 'Central (Chicago)' },
+  { value: 'America/Denver', label: 'Mountain (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain, no DST (Phoenix)' },
+  { value: 'America/Los_Angeles', label: 'Pacific (Los Angeles)' },
+  { value: 'UTC', label: 'UTC' },
+]
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+/** List queued, posting, published and failed posts, soonest first. */
+export async function listScheduledPosts(): Promise<{ success: boolean; posts: ScheduledPost[]; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish-queue?action=list')
+    const data = await res.json()
+    if (!data.success) return { success: false, posts: [], error: data.error }
+    return { success: true, posts: data.posts || [] }
+  } catch (error) {
+    return { success: false, posts: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Queue a draft for a specific time. Replaces any pending entry for the same draft. */
+export async function schedulePost(params: {
+  draft: ThreadDraft
+  agent_id: string
+  scheduled_at: string
+  timezone: string
+}): Promise<{ success: boolean; post?: ScheduledPost; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish-queue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'schedule', ...params }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, post: data.post }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Move a queued, failed or unconfirmed post to a new time. It goes back to 'scheduled'. */
+export async function reschedulePost(
+  postId: string,
+  scheduled_at: string,
+  timezone: string
+): Promise<{ success: boolean; post?: ScheduledPost; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish-queue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'reschedule', postId, scheduled_at, timezone }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, post: data.post }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a post from the queue. Posts currently being published cannot be removed. */
+export async function cancelScheduledPost(postId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/publish-queue', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ postId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Time zone helpers
+// ---------------------------------------------------------------------------
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+}
+
+/** Wall-clock fields of an instant in the given zone. */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date)
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0)
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') }
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone)
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute)
+  return wallAsUtc - Math.floor(date.getTime() / 60000) * 60000
+}
+
+/** Convert a `YYYY-MM-DDTHH:mm` wall-clock time in `timeZone` to a UTC Date. */
+export function zonedTimeToUtc(local: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(local ?? '')
+  if (!match) return null
+  const [, y, mo, d, h, mi] = match.map(Number)
+  const wall = Date.UTC(y, mo - 1, d, h, mi)
+
+  // Two passes settle the offset across DST transitions
+  let utc = wall - offsetMs(new Date(wall), timeZone)
+  const corrected = wall - offsetMs(new Date(utc), timeZone)
+  if (corrected !== utc) utc = corrected
+  return new Date(utc)
+}
+
+/** Format a UTC instant as the `YYYY-MM-DDTHH:mm` value a datetime-local input expects. */
+export function utcToZonedInput(iso: string, timeZone: string): string {
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ''
+  const p = zonedParts(date, timeZone)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`
+}
+
+/** Human-readable time in the zone, e.g. "Tue, Mar 4, 9:30 AM EST". */
+export function formatInZone(iso: string, timeZone: string): string {
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return iso
+  return date.toLocaleString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  })
+}
+
+/** Day key (`YYYY-MM-DD`) of an instant in the zone, for grouping the timeline. */
+export function zonedDayKey(iso: string, timeZone: string): string {
+  return utcToZonedInput(iso, timeZone).slice(0, 10)
+}
+
+/** True when the instant falls inside the posting window's local hours. */
+export function isInsideWindow(date: Date, window: PublishWindow): boolean {
+  const { hour } = zonedParts(date, window.timezone)
+  return hour >= window.startHour && hour < window.endHour
+}
+
+/**
+ * Pick `count` posting times inside the window, at least `spacingMinutes` apart
+ * from each other and from already-taken slots. Candidates step in 15-minute
+ * increments from `after`, so a scan finishing at 3am lands at the window opening.
+ */
+export function suggestPublishSlots(
+  count: number,
+  window: PublishWindow,
+  taken: string[] = [],
+  after: Date = new Date()
+): Date[] {
+  const STEP_MS = 15 * 60 * 1000
+  const spacingMs = Math.max(0, window.spacingMinutes) * 60 * 1000
+  const occupied = taken.map(t => new Date(t).getTime()).filter(t => !isNaN(t))
+  const slots: Date[] = []
+
+  // Start at the next quarter hour, at least five minutes out
+  let candidate = Math.ceil((after.getTime() + 5 * 60 * 1000) / STEP_MS) * STEP_MS
+  const limit = candidate + 30 * 24 * 60 * 60 * 1000
+
+  while (slots.length < count && candidate < limit) {
+    const date = new Date(candidate)
+    const clear = occupied.every(t => Math.abs(t - candidate) >= spacingMs)
+    if (isInsideWindow(date, window) && clear) {
+      slots.push(date)
+      occupied.push(candidate)
+    }
+    candidate += STEP_MS
+  }
+  return slots
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for the publish queue with loading/error state. */
+export function usePublishQueue() {
+  const [posts, setPosts] = useState<ScheduledPost[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPosts = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listScheduledPosts()
+    if (result.success) {
+      setPosts(result.posts)
+    } else {
+      setError(result.error || 'Failed to fetch publish queue')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const upsertLocal = (post: ScheduledPost) => {
+    setPosts(prev => [...prev.filter(p => p.id !== post.id && !(p.draft_id === post.draft_id && p.status === 'scheduled')), post]
+      .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at)))
+  }
+
+  const schedule = async (params: Parameters<typeof schedulePost>[0]) => {
+    setError(null)
+    const result = await schedulePost(params)
+    if (result.success && result.post) upsertLocal(result.post)
+    else setError(result.error || 'Failed to schedule post')
+    return result
+  }
+
+  const reschedule = async (postId: string, scheduled_at: string, timezone: string) => {
+    setError(null)
+    const result = await reschedulePost(postId, scheduled_at, timezone)
+    if (result.success && result.post) upsertLocal(result.post)
+    else setError(result.error || 'Failed to reschedule post')
+    return result
+  }
+
+  const cancel = async (postId: string) => {
+    setError(null)
+    const result = await cancelScheduledPost(postId)
+    if (result.success) setPosts(prev => prev.filter(p => p.id !== postId))
+    else setError(result.error || 'Failed to cancel post')
+    return result
+  }
+
+  return {
+    posts,
+    loading,
+    error,
+    fetchPosts,
+    schedule,
+    reschedule,
+    cancel,
+  }
+}
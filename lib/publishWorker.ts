@@ -0,0 +1,151 @@
+/**
+ * Scheduled Publish Worker
+ *
+ * Posts queued threads to their draft's platforms (Twitter through the agent,
+ * Mastodon and Bluesky directly) when their scheduled time arrives. Runs
+ * inside the Node server process (started from instrumentation.ts), so
+ * scheduled posts go out even when no browser is open. On hosts without a
+ * long-lived process, POST /api/publish-queue { action: 'run_due' } from an
+ * external cron does the same work.
+ *
+ * A platform the publishing policy holds is not a failure: the post goes back
+ * to 'scheduled' at the earliest time the policy allows, and platforms that
+ * did go out are skipped on the next attempt.
+ *
+ * Server-only — uses the file store and the platform credentials.
+ */
+
+import { listRecords, readRecord, writeRecord } from '@/lib/fileStore'
+import { publishToPlatform } from '@/lib/platformPublish'
+import { draftPlatforms, getPublisher } from '@/lib/publishers'
+import type { ScheduledPost } from '@/lib/publishQueue'
+
+export const PUBLISH_QUEUE_COLLECTION = 'publish_queue'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+// A post stuck in 'posting' this long was interrupted (server restart mid-call)
+const STALE_POSTING_MS = 10 * 60 * 1000
+
+export interface WorkerRunSummary {
+  checked: number
+  published: number
+  failed: number
+  unconfirmed: number
+  /** Rescheduled because the publishing policy held them */
+  held: number
+  recovered: number
+}
+
+// Survives hot reloads in dev, where this module is re-evaluated
+const workerState = globalThis as typeof globalThis & {
+  __publishWorkerTimer?: ReturnType<typeof setInterval>
+  __publishWorkerRunning?: boolean
+}
+
+async function savePost(post: ScheduledPost, changes: Partial<ScheduledPost>): Promise<ScheduledPost> {
+  const updated = { ...post, ...changes, updated_at: new Date().toISOString() }
+  await writeRecord(PUBLISH_QUEUE_COLLECTION, post.id, updated)
+  return updated
+}
+
+/**
+ * Publish one queued post to each of its draft's platforms and record the
+ * outcome. Platforms already in post_urls went out on an earlier attempt.
+ */
+async function publishPost(post: ScheduledPost): Promise<ScheduledPost> {
+  const posting = await savePost(post, { status: 'posting', attempts: (post.attempts ?? 0) + 1 })
+  const postUrls = { ...(posting.post_urls ?? {}) }
+  const errors: string[] = []
+  const holds: Array<{ message: string; until: string }> = []
+  let unconfirmed = false
+
+  try {
+    for (const platform of draftPlatforms(posting.draft)) {
+      if (postUrls[platform] !== undefined) continue
+      const outcome = await publishToPlatform(platform, posting.draft, { agentId: posting.agent_id })
+      if (outcome.validation?.violations.length) {
+        console.warn('[publish-worker]', `${posting.id}: publisher reply departs from schema:`, outcome.validation.violations.map(v => `${v.path} ${v.kind}`).join(', '))
+      }
+      if (outcome.status === 'success') postUrls[platform] = outcome.url
+      else if (outcome.held_until) holds.push({ message: `${getPublisher(platform)?.label ?? platform}: ${outcome.error_message}`, until: outcome.held_until })
+      else errors.push(`${getPublisher(platform)?.label ?? platform}: ${outcome.error_message}`)
+      if (outcome.status === 'unconfirmed') unconfirmed = true
+    }
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'Server error')
+  }
+
+  if (errors.length === 0 && holds.length > 0) {
+    const until = holds.map(h => h.until).sort()[0]
+    return await savePost(posting, {
+      status: 'scheduled',
+      scheduled_at: until,
+      post_urls: postUrls,
+      tweet_url: postUrls.twitter || Object.values(postUrls).find(Boolean) || '',
+      error_message: holds.map(h => h.message).join('; '),
+    })
+  }
+
+  return await savePost(posting, {
+    status: errors.length === 0 ? 'published' : unconfirmed ? 'unconfirmed' : 'failed',
+    post_urls: postUrls,
+    tweet_url: postUrls.twitter || Object.values(postUrls).find(Boolean) || '',
+    error_message: errors.join('; '),
+    published_at: errors.length === 0 ? new Date().toISOString() : null,
+  })
+}
+
+/**
+ * Publish every post whose scheduled time has passed, oldest first.
+ * Posts are published one at a time so a thread never interleaves with another.
+ */
+export async function processDuePosts(now: Date = new Date()): Promise<WorkerRunSummary> {
+  const summary: WorkerRunSummary = { checked: 0, published: 0, failed: 0, unconfirmed: 0, held: 0, recovered: 0 }
+  if (workerState.__publishWorkerRunning) return summary
+  workerState.__publishWorkerRunning = true
+
+  try {
+    const posts = await listRecords<ScheduledPost>(PUBLISH_QUEUE_COLLECTION)
+    summary.checked = posts.length
+
+    // Never retry an interrupted post automatically — it may already be live
+    for (const post of posts) {
+      if (post.status === 'posting' && now.getTime() - new Date(post.updated_at).getTime() > STALE_POSTING_MS) {
+        await savePost(post, { status: 'failed', error_message: 'Publishing was interrupted. Check the account before rescheduling.' })
+        summary.recovered++
+      }
+    }
+
+    const due = posts
+      .filter(p => p.status === 'scheduled' && new Date(p.scheduled_at).getTime() <= now.getTime())
+      .sort((a, b) => a.scheduled_at.localeCompare(b.scheduled_at))
+
+    for (const post of due) {
+      // Re-read in case it was cancelled or rescheduled while an earlier post was publishing
+      const current = await readRecord<ScheduledPost>(PUBLISH_QUEUE_COLLECTION, post.id)
+      if (!current || current.status !== 'scheduled' || new Date(current.scheduled_at).getTime() > Date.now()) continue
+
+      const result = await publishPost(current)
+      if (result.status === 'published') summary.published++
+      else if (result.status === 'unconfirmed') summary.unconfirmed++
+      else if (result.status === 'scheduled') summary.held++
+      else summary.failed++
+    }
+  } finally {
+    workerState.__publishWorkerRunning = false
+  }
+
+  return summary
+}
+
+/** Start the background interval once per server process. */
+export function startPublishWorker(): void {
+  if (workerState.__publishWorkerTimer || process.env.PUBLISH_WORKER_DISABLED === 'true') return
+
+  const interval = parseInt(process.env.PUBLISH_WORKER_INTERVAL_MS || '') || DEFAULT_INTERVAL_MS
+  workerState.__publishWorkerTimer = setInterval(() => {
+    processDuePosts().catch(error => {
+      console.error('[publish-worker]', error instanceof Error ? error.message : error)
+    })
+  }, interval)
+}
@@ -0,0 +1,210 @@
+/**
+ * Publisher Registry
+ *
+ * One spec per platform a thread can be posted to: how a post is measured,
+ * its character limit, how links are handled, and how a draft becomes the
+ * list of posts that go out. The Publisher tab, the draft checks and the
+ * server-side posting code (lib/platformPublish.ts) all read these specs, so
+ * a thread is split, counted and posted the same way everywhere.
+ *
+ * Twitter posts through the Twitter Publisher agent; Mastodon and Bluesky
+ * post directly through their APIs from /api/publish.
+ */
+
+import { AtSign, Cloud, Twitter, type LucideIcon } from 'lucide-react'
+import { graphemeLength, splitThread, tweetWeightedLength, URL_PATTERN, type ThreadCheck } from '@/lib/tweetText'
+import type { SchemaReport } from '@/lib/schemaValidation'
+import type { PublishPlatform, ThreadDraft, ThreadPostState } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A link whose display text differs from its target — Bluesky shortens long URLs. */
+export interface PostLink {
+  text: string
+  url: string
+}
+
+export interface PreparedPost {
+  text: string
+  links: PostLink[]
+}
+
+/** What posting a thread to one platform produced — the body /api/publish returns. */
+export interface PlatformPostResult {
+  platform: PublishPlatform
+  /** unconfirmed: a post may have gone out without proof; the thread stopped there */
+  status: 'success' | 'failed' | 'unconfirmed'
+  /** The first post of the thread */
+  url: string
+  /** Every post of the thread and how far it got */
+  posts: ThreadPostState[]
+  /** 1-based post this attempt resumed from; null when it started at the top */
+  resumed_from: number | null
+  /** Set when the publishing policy held the thread: the earliest it may start */
+  held_until: string | null
+  timestamp: string
+  error_message: string
+  /** Schema check of the Twitter agent's last reply; null for the other platforms */
+  validation: SchemaReport | null
+}
+
+export interface PlatformStatus {
+  configured: boolean
+  /** What to set when it isn't */
+  hint: string
+}
+
+export interface Publisher {
+  id: PublishPlatform
+  label: string
+  /** One post of a thread, for messages — "tweet", "toot", "post" */
+  postNoun: string
+  icon: LucideIcon
+  /** Tailwind classes for the platform chip */
+  accent: string
+  charLimit: number
+  /** How links count toward the limit, shown next to the counts */
+  linkNote: string
+  /** Length of one post as the platform counts it */
+  measure(text: string): number
+  /** The posts a draft turns into, hashtags on the last one */
+  prepare(draft: Pick<ThreadDraft, 'thread_content' | 'hashtags'>): PreparedPost[]
+}
+
+// Mastodon's default; instances can raise it but never lower it below this
+export const MASTODON_CHAR_LIMIT = 500
+// Mastodon counts every link as this many characters, like t.co
+const MASTODON_URL_LENGTH = 23
+export const BLUESKY_CHAR_LIMIT = 300
+// Longest link text Bluesky posts show before eliding the rest
+const BLUESKY_LINK_TEXT_MAX = 30
+
+export const DEFAULT_PLATFORMS: PublishPlatform[] = ['twitter']
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Posts with the hashtags appended to the last one. */
+function withHashtags(draft: Pick<ThreadDraft, 'thread_content' | 'hashtags'>): string[] {
+  const posts = splitThread(draft?.thread_content ?? '')
+  const hashtags = (draft?.hashtags ?? '').trim()
+  if (hashtags && posts.length > 0) posts[posts.length - 1] = `${posts[posts.length - 1]} ${hashtags}`
+  return posts
+}
+
+function urlsIn(text: string): string[] {
+  // Trailing punctuation belongs to the sentence, not the link
+  return Array.from(text.matchAll(URL_PATTERN), m => m[0].replace(/[.,;:!?)\]]+$/, ''))
+}
+
+/** "https://www.example.com/a/long/path" → "example.com/a/long/pa…" */
+export function shortenLinkText(url: string): string {
+  const bare = url.replace(/^https?:\/\//i, '').replace(/^www\./i, '').replace(/\/$/, '')
+  return bare.length > BLUESKY_LINK_TEXT_MAX ? `${bare.slice(0, BLUESKY_LINK_TEXT_MAX - 1)}…` : bare
+}
+
+function plainPosts(draft: Pick<ThreadDraft, 'thread_content' | 'hashtags'>): PreparedPost[] {
+  return withHashtags(draft).map(text => ({ text, links: [] }))
+}
+
+// ---------------------------------------------------------------------------
+// Publishers
+// ---------------------------------------------------------------------------
+
+export const twitterPublisher: Publisher = {
+  id: 'twitter',
+  label: 'Twitter / X',
+  postNoun: 'tweet',
+  icon: Twitter,
+  accent: 'bg-sky-500/20 text-sky-400',
+  charLimit: 280,
+  linkNote: 'links count as 23',
+  measure: tweetWeightedLength,
+  prepare: plainPosts,
+}
+
+export const mastodonPublisher: Publisher = {
+  id: 'mastodon',
+  label: 'Mastodon',
+  postNoun: 'toot',
+  icon: AtSign,
+  accent: 'bg-violet-500/20 text-violet-400',
+  charLimit: MASTODON_CHAR_LIMIT,
+  linkNote: 'links count as 23',
+  measure(text) {
+    const urls = urlsIn(text)
+    let rest = text
+    for (const url of urls) rest = rest.replace(url, '')
+    return graphemeLength(rest) + urls.length * MASTODON_URL_LENGTH
+  },
+  prepare: plainPosts,
+}
+
+export const blueskyPublisher: Publisher = {
+  id: 'bluesky',
+  label: 'Bluesky',
+  postNoun: 'post',
+  icon: Cloud,
+  accent: 'bg-blue-500/20 text-blue-400',
+  charLimit: BLUESKY_CHAR_LIMIT,
+  linkNote: `links shortened to ${BLUESKY_LINK_TEXT_MAX} characters`,
+  measure: graphemeLength,
+  // Bluesky counts link text in full, so long URLs are shortened and kept as link facets
+  prepare(draft) {
+    return withHashtags(draft).map(post => {
+      const links: PostLink[] = []
+      let text = post
+      for (const url of urlsIn(post)) {
+        const display = shortenLinkText(url)
+        text = text.replace(url, display)
+        links.push({ text: display, url: /^https?:\/\//i.test(url) ? url : `https://${url}` })
+      }
+      return { text, links }
+    })
+  },
+}
+
+export const PUBLISHERS: Publisher[] = [twitterPublisher, mastodonPublisher, blueskyPublisher]
+
+export function getPublisher(id: string): Publisher | undefined {
+  return PUBLISHERS.find(p => p.id === id)
+}
+
+/** Platforms a draft goes to — Twitter only until the user picks others. */
+export function draftPlatforms(draft: Pick<ThreadDraft, 'platforms'> | null | undefined): PublishPlatform[] {
+  const picked = (draft?.platforms ?? DEFAULT_PLATFORMS).filter(id => getPublisher(id))
+  return picked.length > 0 ? picked : DEFAULT_PLATFORMS
+}
+
+/** Check every post of a draft against one platform's limit. */
+export function checkThreadFor(publisher: Publisher, draft: Pick<ThreadDraft, 'thread_content' | 'hashtags'>): ThreadCheck {
+  const checks = publisher.prepare(draft).map((post, index) => {
+    const length = publisher.measure(post.text)
+    return { index, text: post.text, length, overLimit: length > publisher.charLimit }
+  })
+  const overLimit = checks.filter(c => c.overLimit).map(c => c.index + 1)
+  return { valid: checks.length > 0 && overLimit.length === 0, tweets: checks, overLimit }
+}
+
+/** "Tweet", "Toot", "Post" — for messages that start with the noun */
+export function postNounTitle(publisher: Publisher): string {
+  return publisher.postNoun.charAt(0).toUpperCase() + publisher.postNoun.slice(1)
+}
+
+/** "Toot 2, 4 over the Mastodon 500-character limit" */
+export function describeOverLimit(publisher: Publisher, check: ThreadCheck): string {
+  if (check.tweets.length === 0) return 'Thread is empty'
+  return `${postNounTitle(publisher)} ${check.overLimit.join(', ')} over the ${publisher.label} ${publisher.charLimit}-character limit`
+}
+
+/** Check a draft against every platform it is set to go to; approval needs all of them to pass. */
+export function checkDraftPlatforms(draft: Pick<ThreadDraft, 'thread_content' | 'hashtags' | 'platforms'>): { valid: boolean; failing: Array<{ publisher: Publisher; check: ThreadCheck }> } {
+  const failing = draftPlatforms(draft)
+    .map(id => getPublisher(id))
+    .map(publisher => ({ publisher, check: checkThreadFor(publisher, draft) }))
+    .filter(({ check }) => !check.valid)
+  return { valid: failing.length === 0, failing }
+}
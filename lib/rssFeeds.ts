@@ -0,0 +1,163 @@
+'use client'
+
+/**
+ * RSS / Atom Feed Client Utility
+ *
+ * Client-side wrapper for /api/feeds. Registered feeds are stored on the
+ * server, polled there no more often than their interval, and their entries
+ * reach scans through the `rss` source adapter.
+ */
+
+import { useCallback, useState } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { FeedConfig, FeedInput } from '@/lib/feedConfig'
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+/** List registered feeds. */
+export async function listFeeds(): Promise<{ success: boolean; feeds: FeedConfig[]; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/feeds')
+    const data = await res.json()
+    if (!data.success) return { success: false, feeds: [], error: data.error }
+    return { success: true, feeds: data.feeds || [] }
+  } catch (error) {
+    return { success: false, feeds: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Register a feed. The server fetches it once to check that it parses. */
+export async function createFeed(input: FeedInput): Promise<{ success: boolean; feed?: FeedConfig; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/feeds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'create', ...input }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Change any of a feed's settings. */
+export async function updateFeed(feedId: string, changes: Partial<FeedInput>): Promise<{ success: boolean; feed?: FeedConfig; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/feeds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'update', feedId, ...changes }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/**
+ * Fetch a feed now, ignoring its polling interval. Plain fetch: a feed that
+ * fails to load comes back as a 502 with the updated feed, which fetchWrapper
+ * would take for a dead backend.
+ */
+export async function refreshFeed(feedId: string): Promise<{ success: boolean; feed?: FeedConfig; error?: string }> {
+  try {
+    const res = await fetch('/api/feeds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'refresh', feedId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Remove a feed and its cached entries. */
+export async function deleteFeed(feedId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/feeds', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ feedId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for managing registered feeds with loading/error state. */
+export function useRssFeeds() {
+  const [feeds, setFeeds] = useState<FeedConfig[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upsertLocal = (feed: FeedConfig) => {
+    setFeeds(prev => {
+      const exists = prev.some(f => f.id === feed.id)
+      return exists ? prev.map(f => (f.id === feed.id ? feed : f)) : [...prev, feed]
+    })
+  }
+
+  const fetchFeeds = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listFeeds()
+    if (result.success) {
+      setFeeds(result.feeds)
+    } else {
+      setError(result.error || 'Failed to fetch feeds')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const create = async (input: FeedInput) => {
+    setError(null)
+    const result = await createFeed(input)
+    if (result.success && result.feed) upsertLocal(result.feed)
+    else setError(result.error || 'Failed to add feed')
+    return result
+  }
+
+  const update = async (feedId: string, changes: Partial<FeedInput>) => {
+    setError(null)
+    const result = await updateFeed(feedId, changes)
+    if (result.success && result.feed) upsertLocal(result.feed)
+    else setError(result.error || 'Failed to update feed')
+    return result
+  }
+
+  const refresh = async (feedId: string) => {
+    setError(null)
+    const result = await refreshFeed(feedId)
+    if (result.feed) upsertLocal(result.feed)
+    if (!result.success) setError(result.error || 'Failed to refresh feed')
+    return result
+  }
+
+  const remove = async (feedId: string) => {
+    setError(null)
+    const result = await deleteFeed(feedId)
+    if (result.success) setFeeds(prev => prev.filter(f => f.id !== feedId))
+    else setError(result.error || 'Failed to delete feed')
+    return result
+  }
+
+  return {
+    feeds,
+    loading,
+    error,
+    fetchFeeds,
+    create,
+    update,
+    refresh,
+    remove,
+  }
+}
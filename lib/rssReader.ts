@@ -0,0 +1,248 @@
+/**
+ * RSS / Atom Reader
+ *
+ * Fetches the feeds registered through /api/feeds and normalizes their
+ * entries into SourceItems for the `rss` source adapter. Understands RSS 2.0
+ * (`channel > item`), RSS 1.0 / RDF (`rdf:RDF > item`) and Atom
+ * (`feed > entry`).
+ *
+ * Each feed is fetched at most once per `poll_interval_minutes`; between
+ * polls its parsed entries are served from the `rss_cache` collection, so
+ * frequent scans do not hammer small blogs.
+ *
+ * Server-only — called from API routes.
+ */
+
+import type { SourceItem } from '@/lib/types'
+import type { FeedConfig } from '@/lib/feedConfig'
+import { readRecord, writeRecord, listRecords } from '@/lib/fileStore'
+import { childElement, childElements, childText, collapseWhitespace, parseXml, stripHtml, type XmlElement } from '@/lib/xml'
+
+export const RSS_FEEDS_COLLECTION = 'rss_feeds'
+export const RSS_CACHE_COLLECTION = 'rss_cache'
+
+const DEFAULT_TIMEOUT_MS = 15000
+const SUMMARY_MAX_CHARS = 400
+// Entries kept per feed — older ones fall off the end of most feeds anyway
+const MAX_ENTRIES_PER_FEED = 50
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface FeedEntry {
+  title: string
+  url: string
+  summary: string
+  author: string
+  /** ISO date, or '' when the feed gives none */
+  published_at: string
+}
+
+export interface ParsedFeed {
+  title: string
+  entries: FeedEntry[]
+}
+
+interface FeedCache {
+  feed_id: string
+  url: string
+  fetched_at: string
+  entries: FeedEntry[]
+}
+
+export interface PollResult {
+  feed: FeedConfig
+  entries: FeedEntry[]
+  /** False when the entries came from the cache */
+  fetched: boolean
+  error?: string
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function toIsoDate(value: string): string {
+  if (!value) return ''
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? '' : date.toISOString()
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text
+}
+
+/** Atom link: rel="alternate" (or no rel) wins over self/enclosure/etc. */
+function atomLink(entry: XmlElement): string {
+  const links = childElements(entry, 'link')
+  const alternate = links.find(l => !l.attrs.rel || l.attrs.rel === 'alternate') ?? links[0]
+  return alternate?.attrs.href ?? ''
+}
+
+function atomEntryToFeedEntry(entry: XmlElement): FeedEntry {
+  const author = childElements(entry, 'author').map(a => childText(a, 'name')).filter(Boolean).join(', ')
+  return {
+    title: stripHtml(childElement(entry, 'title')?.text ?? ''),
+    url: atomLink(entry),
+    summary: truncate(stripHtml(childElement(entry, 'summary')?.text || childElement(entry, 'content')?.text || ''), SUMMARY_MAX_CHARS),
+    author,
+    published_at: toIsoDate(childText(entry, 'published') || childText(entry, 'updated')),
+  }
+}
+
+function rssItemToFeedEntry(item: XmlElement): FeedEntry {
+  // Some feeds only give a permalink guid
+  const guid = childElement(item, 'guid')
+  const guidUrl = guid && guid.attrs.isPermaLink !== 'false' && /^https?:\/\//.test(guid.text.trim()) ? guid.text.trim() : ''
+  return {
+    title: stripHtml(childElement(item, 'title')?.text ?? ''),
+    url: childText(item, 'link') || guidUrl,
+    summary: truncate(stripHtml(childElement(item, 'description')?.text || childElement(item, 'content:encoded')?.text || ''), SUMMARY_MAX_CHARS),
+    author: childText(item, 'dc:creator') || childText(item, 'author'),
+    published_at: toIsoDate(childText(item, 'pubDate') || childText(item, 'dc:date')),
+  }
+}
+
+/** Parse an RSS 2.0, RSS 1.0 or Atom document. Throws when it is none of them. */
+export function parseFeed(xml: string): ParsedFeed {
+  const doc = parseXml(xml)
+  const root = doc.children[0]
+
+  let parsed: ParsedFeed
+  if (root?.name === 'feed') {
+    parsed = { title: stripHtml(childElement(root, 'title')?.text ?? ''), entries: childElements(root, 'entry').map(atomEntryToFeedEntry) }
+  } else if (root?.name === 'rss') {
+    const channel = childElement(root, 'channel')
+    parsed = { title: childText(channel, 'title'), entries: childElements(channel, 'item').map(rssItemToFeedEntry) }
+  } else if (root?.name === 'rdf:RDF') {
+    parsed = { title: childText(childElement(root, 'channel'), 'title'), entries: childElements(root, 'item').map(rssItemToFeedEntry) }
+  } else {
+    throw new Error(root ? `Not an RSS or Atom feed (root element <${root.name}>)` : 'Empty response')
+  }
+
+  return {
+    title: collapseWhitespace(parsed.title),
+    entries: parsed.entries.filter(e => e.title && e.url).slice(0, MAX_ENTRIES_PER_FEED),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fetching
+// ---------------------------------------------------------------------------
+
+async function getText(url: string, timeoutMs: number): Promise<string> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+  try {
+    const res = await fetch(url, {
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5' },
+    })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    return await res.text()
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Timed out after ${timeoutMs}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/** Fetch and parse one feed URL without touching the store. */
+export async function fetchFeed(url: string, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<ParsedFeed> {
+  return parseFeed(await getText(url, timeoutMs))
+}
+
+function isCacheFresh(cache: FeedCache | null, feed: FeedConfig, now: number): cache is FeedCache {
+  if (!cache || cache.url !== feed.url) return false
+  return now - new Date(cache.fetched_at).getTime() < feed.poll_interval_minutes * 60 * 1000
+}
+
+/**
+ * Entries for one feed — from the cache while it is younger than the feed's
+ * polling interval, otherwise fetched. A failed fetch falls back to the stale
+ * cache and records the error on the feed.
+ */
+export async function pollFeed(feed: FeedConfig, options: { force?: boolean } = {}): Promise<PollResult> {
+  const now = Date.now()
+  const cache = await readRecord<FeedCache>(RSS_CACHE_COLLECTION, feed.id)
+  if (!options.force && isCacheFresh(cache, feed, now)) {
+    return { feed, entries: cache.entries, fetched: false }
+  }
+
+  const fetchedAt = new Date(now).toISOString()
+  try {
+    const parsed = await fetchFeed(feed.url)
+    await writeRecord<FeedCache>(RSS_CACHE_COLLECTION, feed.id, { feed_id: feed.id, url: feed.url, fetched_at: fetchedAt, entries: parsed.entries })
+    const updated: FeedConfig = { ...feed, last_fetched_at: fetchedAt, last_error: '', item_count: parsed.entries.length }
+    await writeRecord(RSS_FEEDS_COLLECTION, feed.id, updated)
+    return { feed: updated, entries: parsed.entries, fetched: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Fetch failed'
+    const updated: FeedConfig = { ...feed, last_error: message }
+    await writeRecord(RSS_FEEDS_COLLECTION, feed.id, updated)
+    const stale = cache && cache.url === feed.url ? cache.entries : []
+    return { feed: updated, entries: stale, fetched: false, error: message }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+/**
+ * Feed weight scaled by age: full weight for the first day, falling linearly
+ * to half weight at seven days. Undated entries count as a day old.
+ */
+export function entryRelevance(entry: FeedEntry, weight: number, now = Date.now()): number {
+  const published = entry.published_at ? new Date(entry.published_at).getTime() : now - 24 * 60 * 60 * 1000
+  const ageDays = Math.max(0, (now - published) / (24 * 60 * 60 * 1000))
+  const factor = ageDays <= 1 ? 1 : Math.max(0.5, 1 - ((ageDays - 1) / 6) * 0.5)
+  return Math.round(Math.min(100, Math.max(1, weight)) * factor)
+}
+
+export function entryToSourceItem(entry: FeedEntry, feed: FeedConfig, now = Date.now()): SourceItem {
+  return {
+    title: entry.title,
+    url: entry.url,
+    summary: entry.summary,
+    category: feed.category,
+    relevance_score: entryRelevance(entry, feed.weight, now),
+    source_type: feed.name,
+    byline: entry.author || undefined,
+  }
+}
+
+export interface RssFetchOptions {
+  /** Only feeds filed under these categories; empty means all */
+  categories?: string[]
+  limit?: number
+}
+
+/** Poll every enabled feed and return their entries, most relevant first. */
+export async function fetchRssItems(options: RssFetchOptions = {}): Promise<{ items: SourceItem[]; total_fetched: number; errors: string[] }> {
+  const categories = options.categories ?? []
+  const feeds = (await listRecords<FeedConfig>(RSS_FEEDS_COLLECTION))
+    .filter(f => f.enabled && (categories.length === 0 || categories.includes(f.category)))
+
+  const errors: string[] = []
+  const items: SourceItem[] = []
+  const now = Date.now()
+  // Sequential — feed counts are small and most polls hit the cache
+  for (const feed of feeds) {
+    const result = await pollFeed(feed)
+    if (result.error) errors.push(`${feed.name}: ${result.error}`)
+    items.push(...result.entries.map(entry => entryToSourceItem(entry, result.feed, now)))
+  }
+
+  const sorted = items.sort((a, b) => b.relevance_score - a.relevance_score)
+  return {
+    items: options.limit ? sorted.slice(0, options.limit) : sorted,
+    total_fetched: items.length,
+    errors,
+  }
+}
@@ -0,0 +1,267 @@
+'use client'
+
+/**
+ * Scan History Client Utility
+ *
+ * Client-side wrapper for the /api/history archive of past Manager scans.
+ * Every completed scan is saved with its settings and raw agent response so a
+ * thread can be traced back to the run that produced it.
+ */
+
+import { useCallback, useState } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+import type { AppSettings, ManagerResponse, ThreadDraft } from '@/lib/types'
+import type { FilterDrop } from '@/lib/contentFilter'
+import type { DedupEntry } from '@/lib/dedup'
+import type { SchemaReport } from '@/lib/schemaValidation'
+import type { DraftVersionMap } from '@/lib/draftVersions'
+import { SOURCE_ADAPTERS } from '@/lib/sources'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScanRecord {
+  id: string
+  saved_at: string
+  response: ManagerResponse
+  settings: AppSettings | null
+  raw_response: string
+  /** Items removed by the content filter before the response was saved */
+  filter_report: FilterDrop[]
+  /** Schema check of the agent payloads the scan was built from */
+  schema_report?: SchemaReport[]
+  /** Every version of every draft — scan, regenerations, edits, restores */
+  draft_versions?: DraftVersionMap
+}
+
+export interface ScanSummary {
+  id: string
+  scan_timestamp: string
+  saved_at: string
+  pipeline_status: string
+  /** Item count per source adapter id */
+  item_counts: Record<string, number>
+  draft_count: number
+  flagged_for_review: number
+}
+
+export interface ScanItemDiff {
+  added: string[]
+  removed: string[]
+  unchanged: string[]
+}
+
+export interface ScanComparison {
+  /** One diff per source adapter, in registry order */
+  sources: { id: string; title: string; diff: ScanItemDiff }[]
+  drafts: ScanItemDiff
+}
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+/** Scans loaded per page of the History tab */
+export const SCAN_PAGE_SIZE = 50
+
+/** List saved scans, newest first. */
+export async function listScans(params?: {
+  skip?: number
+  limit?: number
+}): Promise<{ success: boolean; scans: ScanSummary[]; total: number; error?: string }> {
+  try {
+    const query = new URLSearchParams({ action: 'list' })
+    if (params?.skip != null) query.set('skip', String(params.skip))
+    if (params?.limit != null) query.set('limit', String(params.limit))
+    const res = await fetchWrapper(`/api/history?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, scans: [], total: 0, error: data.error }
+    return { success: true, scans: data.scans || [], total: data.total ?? 0 }
+  } catch (error) {
+    return { success: false, scans: [], total: 0, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Load one saved scan including its settings and raw response. */
+export async function getScan(scanId: string): Promise<{ success: boolean; scan?: ScanRecord; error?: string }> {
+  try {
+    const query = new URLSearchParams({ action: 'get', scanId })
+    const res = await fetchWrapper(`/api/history?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, scan: data.scan }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Items from every archived scan and every published post, for cross-scan dedup. */
+export async function getDedupEntries(excludeScanId?: string): Promise<{ success: boolean; entries: DedupEntry[]; error?: string }> {
+  try {
+    const query = new URLSearchParams({ action: 'dedup_entries' })
+    if (excludeScanId) query.set('exclude', excludeScanId)
+    const res = await fetchWrapper(`/api/history?${query}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, entries: [], error: data.error }
+    return { success: true, entries: data.entries || [] }
+  } catch (error) {
+    return { success: false, entries: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Save a sanitized scan result to the archive. */
+export async function saveScan(params: {
+  response: ManagerResponse
+  settings: AppSettings
+  raw_response: unknown
+  filter_report?: FilterDrop[]
+  schema_report?: SchemaReport[]
+  draft_versions?: DraftVersionMap
+}): Promise<{ success: boolean; scan?: ScanSummary; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, scan: data.scan }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Write a scan's current drafts and their version history back to the archive. */
+export async function updateScanDrafts(
+  scanId: string,
+  drafts: ThreadDraft[],
+  versions: DraftVersionMap
+): Promise<{ success: boolean; scan?: ScanSummary; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/history', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'update_drafts', scanId, thread_drafts: drafts, draft_versions: versions }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, scan: data.scan }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Permanently delete a saved scan. */
+export async function deleteScan(scanId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/history', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scanId }),
+    })
+    return res.json()
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+function diffKeys(before: string[], after: string[]): ScanItemDiff {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  return {
+    added: after.filter(k => !beforeSet.has(k)),
+    removed: before.filter(k => !afterSet.has(k)),
+    unchanged: after.filter(k => beforeSet.has(k)),
+  }
+}
+
+/** Compare two scans by item title — what appeared, disappeared or stayed between runs. */
+export function compareScans(before: ManagerResponse, after: ManagerResponse): ScanComparison {
+  const titles = <T extends { title: string }>(items: T[] | undefined) =>
+    (Array.isArray(items) ? items : []).map(i => i?.title ?? '').filter(Boolean)
+
+  return {
+    sources: SOURCE_ADAPTERS.map(adapter => ({
+      id: adapter.id,
+      title: adapter.title,
+      diff: diffKeys(
+        adapter.read(before).items.map(i => adapter.normalize(i).title).filter(Boolean),
+        adapter.read(after).items.map(i => adapter.normalize(i).title).filter(Boolean)
+      ),
+    })),
+    drafts: diffKeys(titles(before?.thread_drafts), titles(after?.thread_drafts)),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for browsing the scan archive with loading/error state. */
+export function useScanHistory() {
+  const [scans, setScans] = useState<ScanSummary[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  /** Load the first page, replacing whatever was loaded. */
+  const fetchScans = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listScans({ skip: 0, limit: SCAN_PAGE_SIZE })
+    if (result.success) {
+      setScans(result.scans)
+      setTotal(result.total)
+    } else {
+      setError(result.error || 'Failed to fetch scan history')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  /** Append the next page of older scans. */
+  const loadMore = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listScans({ skip: scans.length, limit: SCAN_PAGE_SIZE })
+    if (result.success) {
+      // Scans saved since the first page shift the list; skip any already shown
+      setScans(prev => [...prev, ...result.scans.filter(s => !prev.some(p => p.id === s.id))])
+      setTotal(result.total)
+    } else {
+      setError(result.error || 'Failed to fetch scan history')
+    }
+    setLoading(false)
+    return result
+  }, [scans.length])
+
+  const remove = async (scanId: string) => {
+    setLoading(true)
+    setError(null)
+    const result = await deleteScan(scanId)
+    if (result.success) {
+      setScans(prev => prev.filter(s => s.id !== scanId))
+      setTotal(prev => prev - 1)
+    } else {
+      setError(result.error || 'Failed to delete scan')
+    }
+    setLoading(false)
+    return result
+  }
+
+  return {
+    scans,
+    total,
+    loading,
+    error,
+    fetchScans,
+    loadMore,
+    remove,
+  }
+}
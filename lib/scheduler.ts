@@ -7,7 +7,7 @@
  * All API calls are proxied through the server so the API key never reaches the browser.
  */
 
-import { useState } from 'react'
+import { useCallback, useState } from 'react'
 import fetchWrapper from '@/lib/fetchWrapper'
 
 // ---------------------------------------------------------------------------
@@ -409,6 +409,47 @@ export function cronToHuman(cron: string): string {
   return cron
 }
 
+export type CronFrequency = 'hourly' | 'daily' | 'weekdays' | 'weekly' | 'custom'
+
+export interface CronSpec {
+  frequency: CronFrequency
+  /** 0-23, ignored for hourly */
+  hour: number
+  /** 0-59 */
+  minute: number
+  /** 0 = Sunday … 6 = Saturday, weekly only */
+  dayOfWeek: number
+  /** Run every N hours, hourly only */
+  everyHours: number
+  /** Raw expression, custom only */
+  custom: string
+}
+
+/** Build a 5-part cron expression from builder fields. */
+export function buildCron(spec: CronSpec): string {
+  const minute = Math.min(59, Math.max(0, Math.floor(spec.minute || 0)))
+  const hour = Math.min(23, Math.max(0, Math.floor(spec.hour || 0)))
+  switch (spec.frequency) {
+    case 'hourly':
+      return spec.everyHours > 1 ? `${minute} */${Math.floor(spec.everyHours)} * * *` : `${minute} * * * *`
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`
+    case 'weekly':
+      return `${minute} ${hour} * * ${Math.min(6, Math.max(0, Math.floor(spec.dayOfWeek || 0)))}`
+    case 'custom':
+      return (spec.custom ?? '').trim().replace(/\s+/g, ' ')
+    case 'daily':
+    default:
+      return `${minute} ${hour} * * *`
+  }
+}
+
+/** True for a 5-part expression whose fields only use cron characters. */
+export function isValidCron(cron: string): boolean {
+  const parts = (cron ?? '').trim().split(/\s+/)
+  return parts.length === 5 && parts.every(p => /^[\d*/,-]+$/.test(p))
+}
+
 // ---------------------------------------------------------------------------
 // React hook
 // ---------------------------------------------------------------------------
@@ -420,7 +461,7 @@ export function useScheduler() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchSchedules = async (params?: { agentId?: string; is_active?: boolean }) => {
+  const fetchSchedules = useCallback(async (params?: { agentId?: string; is_active?: boolean }) => {
     setLoading(true)
     setError(null)
     const result = await listSchedules(params)
@@ -432,7 +473,7 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
   const toggleSchedule = async (schedule: Schedule) => {
     setLoading(true)
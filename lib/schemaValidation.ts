@@ -0,0 +1,171 @@
+/**
+ * Agent Response Schema Validation
+ *
+ * Checks extracted agent payloads against the `response_schema` blocks in
+ * response_schemas/*.json. The sanitizers in lib/agentData.ts still fill gaps
+ * so the dashboard can render; this module reports what they had to fill, so
+ * drift in an agent's output shows up in the debug panel instead of as
+ * silently defaulted values.
+ *
+ * Schema nodes are written by example: "string" / "number" / "boolean"
+ * leaves, objects of nodes, and one-element arrays giving the item shape.
+ * Fields the schema does not mention are ignored.
+ */
+
+import managerSchemaFile from '@/response_schemas/trend_intelligence_manager_response.json'
+import publisherSchemaFile from '@/response_schemas/twitter_publisher_agent_response.json'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SchemaNode = string | SchemaNode[] | { [key: string]: SchemaNode }
+
+export type ViolationKind = 'missing' | 'wrong_type' | 'out_of_range'
+
+export interface SchemaViolation {
+  /** e.g. thread_drafts[2].relevance_score */
+  path: string
+  kind: ViolationKind
+  expected: string
+  /** Short description of what was there instead */
+  actual: string
+}
+
+export interface SchemaReport {
+  /** Agent or pipeline stage the payload came from, e.g. "Manager", "Classifier" */
+  agent: string
+  /** Schema file name and, for stage payloads, the sub-tree checked */
+  schema: string
+  violations: SchemaViolation[]
+  /** Where the payload was found in the agent response, e.g. "response.result.text→JSON" */
+  extracted_from?: string
+  checked_at: string
+}
+
+export interface AgentSchema {
+  file: string
+  root: SchemaNode
+}
+
+export type AgentSchemaKey = 'manager' | 'publisher'
+
+export const AGENT_SCHEMAS: Record<AgentSchemaKey, AgentSchema> = {
+  manager: { file: 'trend_intelligence_manager_response.json', root: managerSchemaFile.response_schema as SchemaNode },
+  publisher: { file: 'twitter_publisher_agent_response.json', root: publisherSchemaFile.response_schema as SchemaNode },
+}
+
+// The schema files only give types; ranges come from the prompts (scores are 0-100, counts are non-negative)
+const FIELD_RANGES: Record<string, [number, number]> = {
+  relevance_score: [0, 100],
+  novelty_score: [0, 100],
+  applicability_score: [0, 100],
+  hn_score: [0, Infinity],
+  comments_count: [0, Infinity],
+  total_fetched: [0, Infinity],
+  total_filtered: [0, Infinity],
+  total_drafts: [0, Infinity],
+  auto_approved: [0, Infinity],
+  flagged_for_review: [0, Infinity],
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (value === undefined) return 'undefined'
+  if (Array.isArray(value)) return `array(${value.length})`
+  if (typeof value === 'object') return 'object'
+  const text = typeof value === 'string' ? JSON.stringify(value) : String(value)
+  return `${typeof value} ${text.length > 40 ? `${text.slice(0, 39)}…` : text}`
+}
+
+function describeNode(node: SchemaNode): string {
+  if (typeof node === 'string') return node
+  return Array.isArray(node) ? 'array' : 'object'
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`
+  return base ? `${base}.${key}` : key
+}
+
+/** The schema node at a dotted path, e.g. "hn_results", or null if the schema has none. */
+export function schemaAt(root: SchemaNode, path: string): SchemaNode | null {
+  let node: SchemaNode | undefined = root
+  for (const key of path.split('.').filter(Boolean)) {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return null
+    node = node[key]
+  }
+  return node ?? null
+}
+
+/** Every way `value` departs from `node`. An empty list means it conforms. */
+export function validateAgainst(node: SchemaNode, value: unknown, path = ''): SchemaViolation[] {
+  const field = path.split('.').pop()?.replace(/\[\d+\]$/, '') ?? ''
+
+  if (value === undefined || value === null) {
+    return [{ path: path || '(root)', kind: 'missing', expected: describeNode(node), actual: describeValue(value) }]
+  }
+
+  if (typeof node === 'string') {
+    if (typeof value !== node || (node === 'number' && !Number.isFinite(value))) {
+      return [{ path, kind: 'wrong_type', expected: node, actual: describeValue(value) }]
+    }
+    const range = FIELD_RANGES[field]
+    if (node === 'number' && range && ((value as number) < range[0] || (value as number) > range[1])) {
+      const expected = range[1] === Infinity ? `number >= ${range[0]}` : `number ${range[0]}-${range[1]}`
+      return [{ path, kind: 'out_of_range', expected, actual: describeValue(value) }]
+    }
+    return []
+  }
+
+  if (Array.isArray(node)) {
+    if (!Array.isArray(value)) return [{ path, kind: 'wrong_type', expected: 'array', actual: describeValue(value) }]
+    const item = node[0]
+    return item === undefined ? [] : value.flatMap((v, i) => validateAgainst(item, v, joinPath(path, i)))
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return [{ path: path || '(root)', kind: 'wrong_type', expected: 'object', actual: describeValue(value) }]
+  }
+  return Object.entries(node).flatMap(([key, child]) => validateAgainst(child, (value as Record<string, unknown>)[key], joinPath(path, key)))
+}
+
+/**
+ * Validate a payload against an agent schema, or against one sub-tree of it
+ * (`subPath`, e.g. "hn_results" for the HN stage of an orchestrated scan).
+ * Listed `keys` restrict the check to those top-level fields — the Classifier
+ * only returns the manager schema's `thread_drafts`.
+ */
+export function validatePayload(
+  agent: string,
+  schemaKey: AgentSchemaKey,
+  payload: unknown,
+  options: { subPath?: string; keys?: string[]; extractedFrom?: string } = {}
+): SchemaReport {
+  const schema = AGENT_SCHEMAS[schemaKey]
+  let node = options.subPath ? schemaAt(schema.root, options.subPath) : schema.root
+  if (node && options.keys && typeof node === 'object' && !Array.isArray(node)) {
+    const picked: Record<string, SchemaNode> = {}
+    for (const key of options.keys) {
+      if (node[key] !== undefined) picked[key] = node[key]
+    }
+    node = picked
+  }
+  const scope = [options.subPath, options.keys?.join(', ')].filter(Boolean).join(' → ')
+  return {
+    agent,
+    schema: scope ? `${schema.file} (${scope})` : schema.file,
+    violations: node ? validateAgainst(node, payload) : [],
+    ...(options.extractedFrom ? { extracted_from: options.extractedFrom } : {}),
+    checked_at: new Date().toISOString(),
+  }
+}
+
+/** Total violations across reports. */
+export function countViolations(reports: SchemaReport[] | null | undefined): number {
+  return (reports ?? []).reduce((sum, r) => sum + r.violations.length, 0)
+}
@@ -0,0 +1,22 @@
+/**
+ * Serial Queues
+ *
+ * Named promise-chain queues for read-check-write steps on the file store:
+ * tasks on the same queue run one at a time, in the order they were queued.
+ * The queues live on globalThis so they survive hot reloads in dev, and the
+ * API routes and the background workers share them.
+ *
+ * Server-only — one process; separate server processes don't share a queue.
+ */
+
+const queueState = globalThis as typeof globalThis & {
+  __serialQueues?: Map<string, Promise<unknown>>
+}
+
+/** Run `task` on the `name` queue after every earlier task there has finished. */
+export function serialized<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const queues = queueState.__serialQueues ??= new Map()
+  const run = (queues.get(name) ?? Promise.resolve()).then(task, task)
+  queues.set(name, run.catch(() => undefined))
+  return run
+}
@@ -0,0 +1,69 @@
+/**
+ * Source Fetchers
+ *
+ * The server half of the source adapter contract (lib/sources.ts): how each
+ * source's raw items are fetched. Keyed by adapter id and served generically
+ * by /api/sources. Items come back in the adapter's stored shape — HNStory for
+ * hn, ArxivPaper for arxiv, GitHubRepoItem for github, SourceItem for
+ * everything else.
+ *
+ * Server-only — called from API routes.
+ */
+
+import { fetchHNStories } from '@/lib/hackerNews'
+import { arxivCategoriesFor, fetchArxivPapers } from '@/lib/arxiv'
+import { fetchRssItems } from '@/lib/rssReader'
+import { fetchGitHubItems } from '@/lib/github'
+import { parseRepoList } from '@/lib/sources'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SourceFetchOptions {
+  /** Enabled AppSettings.sources labels belonging to this source */
+  labels: string[]
+  /** Enabled AppSettings.categories */
+  categories: string[]
+  limit?: number
+  /** Adapter-specific query parameters (SourceAdapter.fetchParams) */
+  params?: Record<string, string>
+}
+
+export interface SourceFetchResult<T = any> {
+  items: T[]
+  total_fetched: number
+  /** Partial failures; the items are still usable */
+  errors: string[]
+}
+
+export type SourceFetcher = (options: SourceFetchOptions) => Promise<SourceFetchResult>
+
+// arXiv window used when a scan asks for recent papers
+const ARXIV_WINDOW_DAYS = 7
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const SOURCE_FETCHERS: Record<string, SourceFetcher> = {
+  hn: async ({ labels, limit }) => {
+    const result = await fetchHNStories({ feeds: labels, limit })
+    return { items: result.stories, total_fetched: result.total_fetched, errors: result.errors }
+  },
+
+  arxiv: async ({ categories, limit }) => {
+    const from = new Date(Date.now() - ARXIV_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    const result = await fetchArxivPapers({ categories: arxivCategoriesFor(categories), from, limit })
+    return { items: result.papers, total_fetched: result.total_fetched, errors: [] }
+  },
+
+  github: ({ labels, categories, limit, params }) => fetchGitHubItems({
+    trending: labels.includes('GitHub Trending'),
+    watchlist: labels.includes('GitHub Releases') ? parseRepoList(params?.watchlist ?? '') : [],
+    categories,
+    limit,
+  }),
+
+  rss: ({ categories, limit }) => fetchRssItems({ categories, limit }),
+}
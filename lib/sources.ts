@@ -0,0 +1,314 @@
+/**
+ * Source Adapter Registry
+ *
+ * Every content source (Hacker News, arXiv, …) is described by one
+ * SourceAdapter. The dashboard, content filters, dedup and the classifier
+ * prompt iterate `SOURCE_ADAPTERS` instead of naming sources, so a new feed is
+ * one adapter here plus a fetcher in lib/sourceFetchers.ts.
+ *
+ * HN and arXiv keep their original `hn_results` / `arxiv_results` keys because
+ * the Manager agent's schema returns them; any other source stores its items
+ * under `source_results[adapter.id]` — GitHubRepoItems for github, already
+ * normalized SourceItems for adapters made with createSourceAdapter.
+ *
+ * Client-safe — fetching lives in lib/sourceFetchers.ts (server-only).
+ */
+
+import type { LucideIcon } from 'lucide-react'
+import { FlaskConical, GitBranch, Newspaper, Rss } from 'lucide-react'
+import type { AppSettings, ArxivPaper, GitHubRepoItem, HNStory, ManagerResponse, SourceItem, SourceResults } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScoreField {
+  /** 'relevance_score' or a key of SourceItem.scores */
+  key: string
+  label: string
+  /** Tailwind background class for the bar */
+  color: string
+}
+
+export interface SourceAdapter<T = SourceItem> {
+  /** Stable id — key in source_results and /api/sources?source= */
+  id: string
+  /** Section title on the dashboard */
+  title: string
+  /** Plural noun for counts, e.g. "HN stories" */
+  countNoun: string
+  /** Dedup / filter-report kind for one item */
+  itemKind: string
+  /** AppSettings.sources labels belonging to this source */
+  settingsLabels: string[]
+  /** Labels switched on in DEFAULT_SETTINGS */
+  defaultLabels: string[]
+  /** Hosts whose links belong to this source — drafts citing them go when the source is disabled */
+  hosts: string[]
+  layout: 'list' | 'grid'
+  icon: LucideIcon
+  /** Tailwind classes for the section icon and item links */
+  accent: { icon: string; link: string }
+  scoreFields: ScoreField[]
+  read(response: ManagerResponse | null | undefined): SourceResults<T>
+  write(response: ManagerResponse, results: SourceResults<T>): ManagerResponse
+  normalize(item: T): SourceItem
+  /** The AppSettings.sources label an item came from, or null when it cannot be told */
+  sourceLabelOf(item: T): string | null
+  /** Extra /api/sources query parameters taken from settings */
+  fetchParams?(settings: AppSettings): Record<string, string>
+}
+
+function emptyResults<T>(): SourceResults<T> {
+  return { items: [], total_fetched: 0, total_filtered: 0 }
+}
+
+function relevance(value: unknown): number {
+  return typeof value === 'number' ? value : 0
+}
+
+// ---------------------------------------------------------------------------
+// Hacker News
+// ---------------------------------------------------------------------------
+
+// HN source_type values the agents emit → the label used in AppSettings.sources
+const HN_SOURCE_LABELS: Record<string, string> = {
+  top: 'HN Top',
+  new: 'HN New',
+  ask: 'Ask HN',
+  ask_hn: 'Ask HN',
+  show: 'Show HN',
+  show_hn: 'Show HN',
+  job: 'HN Jobs',
+  jobs: 'HN Jobs',
+}
+
+/** Map an HN story's source_type to its settings label, or null if unrecognised. */
+export function hnSourceLabel(sourceType: string): string | null {
+  return HN_SOURCE_LABELS[(sourceType ?? '').toLowerCase().replace(/\s+/g, '_')] ?? null
+}
+
+const hnAdapter: SourceAdapter<HNStory> = {
+  id: 'hn',
+  title: 'Hacker News Stories',
+  countNoun: 'HN stories',
+  itemKind: 'story',
+  settingsLabels: ['HN Top', 'HN New', 'Ask HN', 'Show HN', 'HN Jobs'],
+  defaultLabels: ['HN Top', 'HN New', 'Ask HN', 'Show HN', 'HN Jobs'],
+  hosts: [],
+  layout: 'list',
+  icon: Newspaper,
+  accent: { icon: 'text-orange-400', link: 'text-cyan-300 hover:text-cyan-200' },
+  scoreFields: [{ key: 'relevance_score', label: '', color: 'bg-cyan-500' }],
+  read: response => ({
+    items: Array.isArray(response?.hn_results?.stories) ? response.hn_results.stories : [],
+    total_fetched: response?.hn_results?.total_fetched ?? 0,
+    total_filtered: response?.hn_results?.total_filtered ?? 0,
+  }),
+  write: (response, results) => ({
+    ...response,
+    hn_results: { stories: results.items, total_fetched: results.total_fetched, total_filtered: results.total_filtered },
+  }),
+  normalize: story => ({
+    title: story?.title ?? '',
+    url: story?.url ?? '',
+    summary: story?.summary ?? '',
+    category: story?.category ?? '',
+    relevance_score: relevance(story?.relevance_score),
+    source_type: story?.source_type ?? '',
+    stats: [
+      { label: 'pts', value: story?.hn_score ?? 0 },
+      { label: 'comments', value: story?.comments_count ?? 0 },
+    ],
+  }),
+  sourceLabelOf: story => hnSourceLabel(story?.source_type ?? ''),
+}
+
+// ---------------------------------------------------------------------------
+// arXiv
+// ---------------------------------------------------------------------------
+
+const arxivAdapter: SourceAdapter<ArxivPaper> = {
+  id: 'arxiv',
+  title: 'arXiv Research Papers',
+  countNoun: 'arXiv papers',
+  itemKind: 'paper',
+  settingsLabels: ['arXiv'],
+  defaultLabels: ['arXiv'],
+  hosts: ['arxiv.org'],
+  layout: 'grid',
+  icon: FlaskConical,
+  accent: { icon: 'text-purple-400', link: 'text-purple-300 hover:text-purple-200' },
+  scoreFields: [
+    { key: 'relevance_score', label: 'Relevance', color: 'bg-cyan-500' },
+    { key: 'novelty', label: 'Novelty', color: 'bg-purple-500' },
+    { key: 'applicability', label: 'Applicability', color: 'bg-emerald-500' },
+  ],
+  read: response => ({
+    items: Array.isArray(response?.arxiv_results?.papers) ? response.arxiv_results.papers : [],
+    total_fetched: response?.arxiv_results?.total_fetched ?? 0,
+    total_filtered: response?.arxiv_results?.total_filtered ?? 0,
+  }),
+  write: (response, results) => ({
+    ...response,
+    arxiv_results: { papers: results.items, total_fetched: results.total_fetched, total_filtered: results.total_filtered },
+  }),
+  normalize: paper => ({
+    title: paper?.title ?? '',
+    url: paper?.arxiv_link ?? '',
+    summary: paper?.abstract_summary ?? '',
+    category: paper?.category ?? '',
+    relevance_score: relevance(paper?.relevance_score),
+    source_type: paper?.primary_category ?? '',
+    byline: paper?.authors || 'Unknown authors',
+    scores: { novelty: relevance(paper?.novelty_score), applicability: relevance(paper?.applicability_score) },
+  }),
+  sourceLabelOf: () => 'arXiv',
+}
+
+// ---------------------------------------------------------------------------
+// GitHub
+// ---------------------------------------------------------------------------
+
+/** owner/repo names from a watchlist: one per line or comma, github.com URLs accepted. */
+export function parseRepoList(text: string): string[] {
+  const repos = (text ?? '')
+    .split(/[\n,]/)
+    .map(line => line.trim().replace(/^https?:\/\/(www\.)?github\.com\//i, '').replace(/\.git$/, '').replace(/\/+$/, ''))
+    .filter(repo => /^[\w.-]+\/[\w.-]+$/.test(repo))
+  return Array.from(new Set(repos.map(r => r.toLowerCase())))
+}
+
+function compactNumber(value: number): string {
+  return value >= 1000 ? `${(value / 1000).toFixed(value >= 10000 ? 0 : 1)}k` : String(value)
+}
+
+const githubAdapter: SourceAdapter<GitHubRepoItem> = {
+  id: 'github',
+  title: 'GitHub Trending & Releases',
+  countNoun: 'GitHub repos and releases',
+  itemKind: 'repo',
+  settingsLabels: ['GitHub Trending', 'GitHub Releases'],
+  defaultLabels: ['GitHub Trending', 'GitHub Releases'],
+  // Not github.com — HN and feed items link there too
+  hosts: [],
+  layout: 'list',
+  icon: GitBranch,
+  accent: { icon: 'text-emerald-400', link: 'text-emerald-300 hover:text-emerald-200' },
+  scoreFields: [{ key: 'relevance_score', label: '', color: 'bg-emerald-500' }],
+  read: response => {
+    const stored = response?.source_results?.github
+    return stored && Array.isArray(stored.items) ? stored : emptyResults()
+  },
+  write: (response, results) => ({
+    ...response,
+    source_results: { ...(response.source_results ?? {}), github: results },
+  }),
+  normalize: item => ({
+    title: item?.title ?? '',
+    url: item?.url ?? '',
+    summary: (item?.kind === 'release' ? item?.release_notes : '') || item?.readme_summary || item?.description || '',
+    category: item?.category ?? '',
+    relevance_score: relevance(item?.relevance_score),
+    source_type: item?.kind === 'release' ? 'release' : 'trending',
+    byline: [item?.repo, item?.language].filter(Boolean).join(' · '),
+    stats: [
+      ...(item?.stars_gained > 0 ? [{ label: 'stars gained', value: `+${compactNumber(item.stars_gained)}` }] : []),
+      { label: 'stars', value: compactNumber(item?.stars ?? 0) },
+    ],
+  }),
+  sourceLabelOf: item => (item?.kind === 'release' ? 'GitHub Releases' : 'GitHub Trending'),
+  fetchParams: settings => ({ watchlist: parseRepoList(settings.githubWatchlist).join(',') }),
+}
+
+// ---------------------------------------------------------------------------
+// Generic adapters
+// ---------------------------------------------------------------------------
+
+/**
+ * Adapter for a source whose items are stored as SourceItems under
+ * `source_results[id]`. New feeds only describe themselves.
+ */
+export function createSourceAdapter(
+  config: Omit<SourceAdapter<SourceItem>, 'read' | 'write' | 'normalize' | 'sourceLabelOf'> & {
+    sourceLabelOf?: (item: SourceItem) => string | null
+  }
+): SourceAdapter<SourceItem> {
+  return {
+    ...config,
+    read: response => {
+      const stored = response?.source_results?.[config.id]
+      return stored && Array.isArray(stored.items) ? stored : emptyResults()
+    },
+    write: (response, results) => ({
+      ...response,
+      source_results: { ...(response.source_results ?? {}), [config.id]: results },
+    }),
+    normalize: item => item,
+    sourceLabelOf: config.sourceLabelOf ?? (() => config.settingsLabels[0] ?? null),
+  }
+}
+
+// Entries of the feeds registered in Settings; source_type is the feed's name
+const rssAdapter = createSourceAdapter({
+  id: 'rss',
+  title: 'RSS & Atom Feeds',
+  countNoun: 'feed items',
+  itemKind: 'article',
+  settingsLabels: ['RSS Feeds'],
+  defaultLabels: ['RSS Feeds'],
+  hosts: [],
+  layout: 'list',
+  icon: Rss,
+  accent: { icon: 'text-amber-400', link: 'text-amber-200 hover:text-amber-100' },
+  scoreFields: [{ key: 'relevance_score', label: '', color: 'bg-amber-500' }],
+})
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** Every source, in dashboard order. */
+export const SOURCE_ADAPTERS: SourceAdapter<any>[] = [hnAdapter, arxivAdapter, githubAdapter, rssAdapter]
+
+export function getSourceAdapter(id: string): SourceAdapter<any> | null {
+  return SOURCE_ADAPTERS.find(a => a.id === id) ?? null
+}
+
+/** All AppSettings.sources labels, in settings order. */
+export const SOURCE_LABELS: string[] = SOURCE_ADAPTERS.flatMap(a => a.settingsLabels)
+
+export const DEFAULT_SOURCE_LABELS: string[] = SOURCE_ADAPTERS.flatMap(a => a.defaultLabels)
+
+/** Whether any of the adapter's labels is switched on. */
+export function isSourceEnabled(adapter: SourceAdapter<any>, enabledLabels: string[]): boolean {
+  return adapter.settingsLabels.some(label => enabledLabels.includes(label))
+}
+
+/** Normalized items of every source in a scan, tagged with the adapter they came from. */
+export function collectSourceItems(response: ManagerResponse | null | undefined): { adapter: SourceAdapter<any>; item: SourceItem }[] {
+  return SOURCE_ADAPTERS.flatMap(adapter => adapter.read(response).items.map(raw => ({ adapter, item: adapter.normalize(raw) })))
+}
+
+/** Summed fetched / filtered counters across sources. */
+export function sourceTotals(response: ManagerResponse | null | undefined): { fetched: number; filtered: number } {
+  return SOURCE_ADAPTERS.reduce((acc, adapter) => {
+    const results = adapter.read(response)
+    return { fetched: acc.fetched + (results.total_fetched ?? 0), filtered: acc.filtered + (results.total_filtered ?? 0) }
+  }, { fetched: 0, filtered: 0 })
+}
+
+/** "5 HN stories and 3 arXiv papers" — sources with items only. */
+export function describeSourceCounts(response: ManagerResponse | null | undefined): string {
+  const parts = SOURCE_ADAPTERS
+    .map(adapter => ({ adapter, count: adapter.read(response).items.length }))
+    .filter(p => p.count > 0)
+    .map(p => `${p.count} ${p.adapter.countNoun}`)
+  if (parts.length === 0) return 'no source items'
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+}
+
+/** Value of a score field on a normalized item. */
+export function scoreValue(item: SourceItem, field: ScoreField): number {
+  return field.key === 'relevance_score' ? item.relevance_score : item.scores?.[field.key] ?? 0
+}
@@ -0,0 +1,147 @@
+/**
+ * Thread Progress
+ *
+ * How far each draft's thread got on each platform, one record per
+ * draft + platform in the `thread_progress` collection. Every post is saved
+ * the moment it goes out, so a thread that fails at tweet 4 — or a server
+ * that dies mid-thread — resumes from tweet 4 as a reply to tweet 3 instead
+ * of posting tweets 1 to 3 again.
+ *
+ * Each post carries an idempotency key built from the draft, platform, round
+ * and index. Retries reuse it (Mastodon dedupes on it, the Twitter agent is
+ * told to); a deliberate repost starts a new round and so new keys.
+ *
+ * A record is locked while a thread is being posted so a manual post and the
+ * scheduled worker can't post the same thread side by side.
+ *
+ * Each post that went out keeps a hash of its text. Once the draft is edited
+ * its thread no longer resumes — the new text would go out as replies under
+ * the old posts — until a repost starts it over; editing a draft in the
+ * dashboard resets its progress to a fresh round.
+ *
+ * Server-only — uses the file store.
+ */
+
+import { createHash } from 'crypto'
+import { readRecord, writeRecord } from '@/lib/fileStore'
+import { serialized } from '@/lib/serialQueue'
+import type { PublishPlatform, ThreadPostState } from '@/lib/types'
+
+export const THREAD_PROGRESS_COLLECTION = 'thread_progress'
+
+// A lock this old was left by an interrupted request
+const STALE_LOCK_MS = 10 * 60 * 1000
+const PROGRESS_QUEUE = 'thread_progress'
+
+export interface ThreadProgress {
+  id: string
+  draft_id: string
+  platform: PublishPlatform
+  /** Bumped by a deliberate repost; part of every idempotency key */
+  round: number
+  posts: ThreadPostState[]
+  locked_at: string | null
+  updated_at: string
+}
+
+export function progressId(draftId: string, platform: PublishPlatform): string {
+  return `${draftId}-${platform}`
+}
+
+export function idempotencyKey(draftId: string, platform: PublishPlatform, round: number, index: number): string {
+  return `${draftId}:${platform}:r${round}:${index}`
+}
+
+export function postTextHash(text: string): string {
+  return createHash('sha256').update(text ?? '').digest('hex').slice(0, 16)
+}
+
+function pendingPost(draftId: string, platform: PublishPlatform, round: number, index: number): ThreadPostState {
+  return {
+    index,
+    status: 'pending',
+    post_id: '',
+    url: '',
+    idempotency_key: idempotencyKey(draftId, platform, round, index),
+    error_message: '',
+    posted_at: null,
+  }
+}
+
+export async function readProgress(draftId: string, platform: PublishPlatform): Promise<ThreadProgress | null> {
+  return readRecord<ThreadProgress>(THREAD_PROGRESS_COLLECTION, progressId(draftId, platform))
+}
+
+/**
+ * Lock a thread's progress for posting `texts`, one per post. Posted entries
+ * are kept so posting resumes after them; `restart` starts a new round
+ * instead. Returns null when another request holds the lock, and throws when
+ * a post that went out had other text than the one now at its place.
+ */
+export function claimProgress(
+  draftId: string,
+  platform: PublishPlatform,
+  texts: string[],
+  options: { restart?: boolean } = {}
+): Promise<ThreadProgress | null> {
+  // Read, check and write as one step so two claims can't both see the record unlocked
+  return serialized(PROGRESS_QUEUE, async () => {
+    const existing = await readProgress(draftId, platform)
+    const now = new Date()
+    if (existing?.locked_at && now.getTime() - new Date(existing.locked_at).getTime() < STALE_LOCK_MS) return null
+
+    const round = !existing ? 0 : options.restart ? existing.round + 1 : existing.round
+    const kept = existing && !options.restart ? existing.posts : []
+    // Records from before text hashes were kept can't be checked
+    const changed = kept
+      .filter(p => (p.status === 'posted' || p.status === 'unconfirmed') && p.text_hash && p.text_hash !== postTextHash(texts[p.index]))
+      .map(p => p.index + 1)
+    if (changed.length > 0) {
+      throw new Error(`${changed.length === 1 ? 'Post' : 'Posts'} ${changed.join(', ')} went out with different text — ` +
+        'repost the thread to post the edited version from the top')
+    }
+    const progress: ThreadProgress = {
+      id: progressId(draftId, platform),
+      draft_id: draftId,
+      platform,
+      round,
+      posts: Array.from({ length: texts.length }, (_, i) => kept[i] ?? pendingPost(draftId, platform, round, i)),
+      locked_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    }
+    await writeRecord(THREAD_PROGRESS_COLLECTION, progress.id, progress)
+    return progress
+  })
+}
+
+export async function saveProgress(progress: ThreadProgress): Promise<void> {
+  progress.updated_at = new Date().toISOString()
+  await writeRecord(THREAD_PROGRESS_COLLECTION, progress.id, progress)
+}
+
+export async function releaseProgress(progress: ThreadProgress): Promise<void> {
+  progress.locked_at = null
+  await saveProgress(progress)
+}
+
+/**
+ * Start a draft's thread over on `platform` after its text changed: a new
+ * round with no posts, so the next post starts from the top under new
+ * idempotency keys. Returns false while the thread is being posted.
+ */
+export function resetProgress(draftId: string, platform: PublishPlatform): Promise<boolean> {
+  return serialized(PROGRESS_QUEUE, async () => {
+    const existing = await readProgress(draftId, platform)
+    if (!existing || existing.posts.length === 0) return true
+    const now = new Date()
+    if (existing.locked_at && now.getTime() - new Date(existing.locked_at).getTime() < STALE_LOCK_MS) return false
+    await writeRecord(THREAD_PROGRESS_COLLECTION, existing.id, {
+      ...existing,
+      round: existing.round + 1,
+      posts: [],
+      locked_at: null,
+      updated_at: now.toISOString(),
+    })
+    return true
+  })
+}
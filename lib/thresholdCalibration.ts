@@ -0,0 +1,293 @@
+/**
+ * Threshold Calibration
+ *
+ * Checks the Manager's relevance_score against what posted threads actually
+ * got (lib/engagement.ts) and suggests values for the Relevance and
+ * Auto-Approve sliders from it.
+ *
+ * Raw engagement isn't comparable across platforms, so each thread is scored
+ * against the typical (median) thread of its own platform at the same
+ * checkpoint: 1 is typical, 2 twice the engagements. A thread below
+ * UNDERPERFORM_INDEX of typical counts as a miss.
+ *
+ *   Relevance threshold     the highest cut where most of the threads below
+ *                           it missed — those are the items not worth drafting.
+ *   Auto-approve threshold  the lowest score from which almost every thread
+ *                           hit, so skipping review costs little.
+ *
+ * Only threads that passed the thresholds in effect were ever posted, so the
+ * data can't show how items below the current relevance threshold would have
+ * done; a lower value is only suggested when the threads just above it did
+ * well. No suggestion is made until there are enough measured threads and
+ * the score predicts engagement at all.
+ */
+
+import { engagementsOf, type MetricsCheckpoint, type TrackedThread } from '@/lib/engagement'
+import type { AppSettings } from '@/lib/types'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ThresholdSetting = 'relevanceThreshold' | 'autoApproveThreshold'
+
+/** A measured thread with a relevance_score, scored against its platform's typical thread. */
+export interface CalibrationPoint {
+  thread_id: string
+  relevance_score: number
+  /** Engagements over the platform median at the checkpoint; 1 is typical */
+  performance: number
+  category: string
+  classification: string
+}
+
+/** Threads whose relevance_score falls in [min, max], for the calibration chart. */
+export interface CalibrationBin {
+  label: string
+  min: number
+  max: number
+  threads: number
+  /** Median performance of the bin; null when empty */
+  performance: number | null
+  /** Share of the bin's threads that missed */
+  miss_rate: number | null
+}
+
+/** How well relevance_score ranks engagement within one group. */
+export interface ScoreCorrelation {
+  key: string
+  threads: number
+  /** Spearman rank correlation; null with fewer than MIN_CORRELATION_THREADS threads */
+  correlation: number | null
+  /** 'inverse' when higher scores go with lower engagement */
+  strength: 'strong' | 'moderate' | 'weak' | 'none' | 'inverse' | 'too few'
+}
+
+export interface ThresholdSuggestion {
+  setting: ThresholdSetting
+  current: number
+  /** null when the data doesn't support a change */
+  suggested: number | null
+  reason: string
+}
+
+export interface ThresholdCalibration {
+  checkpoint: MetricsCheckpoint
+  points: CalibrationPoint[]
+  /** Measured threads left out because no relevance_score was recorded for them */
+  unscored: number
+  overall: ScoreCorrelation
+  bins: CalibrationBin[]
+  by_category: ScoreCorrelation[]
+  by_classification: ScoreCorrelation[]
+  suggestions: Record<ThresholdSetting, ThresholdSuggestion>
+}
+
+// Below this share of the typical thread's engagements a thread counts as a miss
+export const UNDERPERFORM_INDEX = 0.75
+// Measured, scored threads needed before any threshold is suggested
+export const MIN_CALIBRATION_THREADS = 8
+export const MIN_CORRELATION_THREADS = 5
+// Threads needed on either side of a candidate threshold
+const MIN_SIDE_THREADS = 3
+// A cut is worth filtering when at least this share of the threads below it missed
+const FILTER_MISS_RATE = 0.5
+// Auto-approving is safe from the score where at most this share missed
+const AUTO_APPROVE_MISS_RATE = 0.2
+// Correlation below which the score is treated as not predicting engagement
+const MIN_PREDICTIVE_CORRELATION = 0.1
+// Matches the settings sliders
+const THRESHOLD_STEP = 5
+const BIN_WIDTH = 10
+
+// ---------------------------------------------------------------------------
+// Statistics
+// ---------------------------------------------------------------------------
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/** 1-based ranks, ties sharing their average rank. */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const result = new Array<number>(values.length)
+  for (let i = 0; i < order.length;) {
+    let j = i
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++
+    for (let k = i; k <= j; k++) result[order[k].index] = (i + j) / 2 + 1
+    i = j + 1
+  }
+  return result
+}
+
+/** Spearman rank correlation, or null when either side is constant. */
+export function rankCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length !== ys.length || xs.length < 2) return null
+  const rx = ranks(xs)
+  const ry = ranks(ys)
+  const mean = (rx.length + 1) / 2
+  let covariance = 0
+  let varX = 0
+  let varY = 0
+  for (let i = 0; i < rx.length; i++) {
+    covariance += (rx[i] - mean) * (ry[i] - mean)
+    varX += (rx[i] - mean) ** 2
+    varY += (ry[i] - mean) ** 2
+  }
+  return varX > 0 && varY > 0 ? covariance / Math.sqrt(varX * varY) : null
+}
+
+function correlationOf(key: string, points: CalibrationPoint[]): ScoreCorrelation {
+  const correlation = points.length >= MIN_CORRELATION_THREADS
+    ? rankCorrelation(points.map(p => p.relevance_score), points.map(p => p.performance))
+    : null
+  const strength: ScoreCorrelation['strength'] = correlation === null ? 'too few'
+    : correlation >= 0.5 ? 'strong'
+    : correlation >= 0.3 ? 'moderate'
+    : correlation >= MIN_PREDICTIVE_CORRELATION ? 'weak'
+    : correlation > -MIN_PREDICTIVE_CORRELATION ? 'none'
+    : 'inverse'
+  return { key, threads: points.length, correlation, strength }
+}
+
+function correlationsBy(points: CalibrationPoint[], keyOf: (point: CalibrationPoint) => string): ScoreCorrelation[] {
+  const groups = new Map<string, CalibrationPoint[]>()
+  for (const point of points) groups.set(keyOf(point), [...(groups.get(keyOf(point)) ?? []), point])
+  return Array.from(groups, ([key, list]) => correlationOf(key, list)).sort((a, b) => b.threads - a.threads)
+}
+
+const missRate = (points: CalibrationPoint[]) =>
+  points.length > 0 ? points.filter(p => p.performance < UNDERPERFORM_INDEX).length / points.length : null
+
+// ---------------------------------------------------------------------------
+// Calibration
+// ---------------------------------------------------------------------------
+
+/**
+ * Score every measured thread that has a relevance_score against its
+ * platform's median thread at `checkpoint`.
+ */
+export function calibrationPoints(threads: TrackedThread[], checkpoint: MetricsCheckpoint): { points: CalibrationPoint[]; unscored: number } {
+  const measured = threads.filter(t => t.snapshots?.[checkpoint]?.metrics)
+  const typical = new Map<string, number>()
+  for (const platform of Array.from(new Set(measured.map(t => t.platform)))) {
+    typical.set(platform, median(measured.filter(t => t.platform === platform).map(t => engagementsOf(t.snapshots[checkpoint].metrics))) ?? 0)
+  }
+
+  const scored = measured.filter(t => typeof t.relevance_score === 'number')
+  return {
+    unscored: measured.length - scored.length,
+    points: scored.map(t => ({
+      thread_id: t.id,
+      relevance_score: t.relevance_score,
+      // +1 on both sides keeps a platform whose typical thread got nothing from dividing by zero
+      performance: (engagementsOf(t.snapshots[checkpoint].metrics) + 1) / (typical.get(t.platform) + 1),
+      category: t.category?.trim() || 'Uncategorized',
+      classification: t.classification?.trim() || 'Unclassified',
+    })),
+  }
+}
+
+function calibrationBins(points: CalibrationPoint[]): CalibrationBin[] {
+  if (points.length === 0) return []
+  const lowest = Math.floor(Math.min(...points.map(p => p.relevance_score)) / BIN_WIDTH) * BIN_WIDTH
+  const bins: CalibrationBin[] = []
+  for (let min = Math.min(lowest, 100 - BIN_WIDTH); min < 100; min += BIN_WIDTH) {
+    // The top bin takes the 100s too
+    const max = min + BIN_WIDTH >= 100 ? 100 : min + BIN_WIDTH - 1
+    const inBin = points.filter(p => p.relevance_score >= min && p.relevance_score <= max)
+    bins.push({
+      label: `${min}–${max}`,
+      min,
+      max,
+      threads: inBin.length,
+      performance: median(inBin.map(p => p.performance)),
+      miss_rate: missRate(inBin),
+    })
+  }
+  return bins
+}
+
+function suggestRelevance(points: CalibrationPoint[], current: number): ThresholdSuggestion {
+  const base = { setting: 'relevanceThreshold' as const, current }
+  let best: { threshold: number; below: CalibrationPoint[] } | null = null
+  for (let t = THRESHOLD_STEP; t <= 100; t += THRESHOLD_STEP) {
+    const below = points.filter(p => p.relevance_score < t)
+    const above = points.length - below.length
+    if (below.length >= MIN_SIDE_THREADS && above >= MIN_SIDE_THREADS && missRate(below) >= FILTER_MISS_RATE) best = { threshold: t, below }
+  }
+
+  if (best && best.threshold > current) {
+    const missed = best.below.filter(p => p.performance < UNDERPERFORM_INDEX).length
+    return { ...base, suggested: best.threshold, reason: `${missed} of ${best.below.length} threads scored below ${best.threshold} got under ${UNDERPERFORM_INDEX}× the typical thread's engagement.` }
+  }
+
+  // Nothing above the current threshold is worth cutting; see whether the threads just above it held up
+  const nearThreshold = points.filter(p => p.relevance_score < current + BIN_WIDTH)
+  const nearMissRate = missRate(nearThreshold)
+  if (current >= THRESHOLD_STEP && nearThreshold.length >= MIN_SIDE_THREADS && nearMissRate !== null && nearMissRate <= AUTO_APPROVE_MISS_RATE) {
+    return { ...base, suggested: current - THRESHOLD_STEP, reason: `Threads scored ${current}–${current + BIN_WIDTH - 1} did as well as the rest (${nearThreshold.length} measured) — a slightly lower threshold lets more of them through.` }
+  }
+  return { ...base, suggested: null, reason: 'No score range above the current threshold consistently underperforms.' }
+}
+
+function suggestAutoApprove(points: CalibrationPoint[], current: number, floor: number): ThresholdSuggestion {
+  const base = { setting: 'autoApproveThreshold' as const, current }
+  for (let t = Math.ceil(floor / THRESHOLD_STEP) * THRESHOLD_STEP; t <= 100; t += THRESHOLD_STEP) {
+    const above = points.filter(p => p.relevance_score >= t)
+    if (above.length < MIN_SIDE_THREADS) break
+    if (missRate(above) <= AUTO_APPROVE_MISS_RATE) {
+      const hits = above.filter(p => p.performance >= UNDERPERFORM_INDEX).length
+      return t === current
+        ? { ...base, suggested: null, reason: `The current value already fits: ${hits} of ${above.length} threads scored ${t}+ did at least ${UNDERPERFORM_INDEX}× typical.` }
+        : { ...base, suggested: t, reason: `${hits} of ${above.length} threads scored ${t} or more got at least ${UNDERPERFORM_INDEX}× the typical thread's engagement.` }
+    }
+  }
+  return { ...base, suggested: null, reason: `Even the top-scored threads miss more than ${Math.round(AUTO_APPROVE_MISS_RATE * 100)}% of the time — keep reviewing them.` }
+}
+
+/**
+ * Calibrate the relevance and auto-approve thresholds against engagement at
+ * `checkpoint`. Suggestions are whole multiples of the slider step; the
+ * auto-approve one never falls below the relevance threshold.
+ */
+export function calibrateThresholds(
+  threads: TrackedThread[],
+  checkpoint: MetricsCheckpoint,
+  settings: Pick<AppSettings, ThresholdSetting>
+): ThresholdCalibration {
+  const { points, unscored } = calibrationPoints(threads, checkpoint)
+  const overall = correlationOf('All threads', points)
+
+  let suggestions: Record<ThresholdSetting, ThresholdSuggestion>
+  const hold = (reason: string): Record<ThresholdSetting, ThresholdSuggestion> => ({
+    relevanceThreshold: { setting: 'relevanceThreshold', current: settings.relevanceThreshold, suggested: null, reason },
+    autoApproveThreshold: { setting: 'autoApproveThreshold', current: settings.autoApproveThreshold, suggested: null, reason },
+  })
+  if (points.length < MIN_CALIBRATION_THREADS) {
+    suggestions = hold(`Needs ${MIN_CALIBRATION_THREADS} measured threads with a relevance score; ${points.length} so far.`)
+  } else if ((overall.correlation ?? 0) < MIN_PREDICTIVE_CORRELATION) {
+    suggestions = hold(`relevance_score doesn't predict engagement yet (ρ ${(overall.correlation ?? 0).toFixed(2)}), so moving the threshold would be guesswork.`)
+  } else {
+    const relevance = suggestRelevance(points, settings.relevanceThreshold)
+    suggestions = {
+      relevanceThreshold: relevance,
+      autoApproveThreshold: suggestAutoApprove(points, settings.autoApproveThreshold, relevance.suggested ?? settings.relevanceThreshold),
+    }
+  }
+
+  return {
+    checkpoint,
+    points,
+    unscored,
+    overall,
+    bins: calibrationBins(points),
+    by_category: correlationsBy(points, p => p.category),
+    by_classification: correlationsBy(points, p => p.classification),
+    suggestions,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Tweet Lookup
+ *
+ * Optional second check on a publish outcome: asks an adapter whether the
+ * tweet ID the agent reported really exists and holds the text just sent. A
+ * matching tweet confirms an outcome (including a link found in an
+ * unstructured reply); a missing one, or one with other text, turns a
+ * reported success into "unconfirmed". When the lookup itself fails (rate
+ * limit, network) the outcome is left as the format check judged it.
+ *
+ * Adapters:
+ *   x-api  GET /2/tweets/:id on the X API v2 with TWITTER_BEARER_TOKEN.
+ *          TWITTER_API_BASE_URL points it elsewhere — the mock Lyzr server
+ *          answers for the tweets it "posted".
+ *
+ * TWEET_LOOKUP picks the adapter ("x-api" or "off"); by default x-api is used
+ * whenever TWITTER_BEARER_TOKEN is set.
+ *
+ * fetchTweetMetrics reads public engagement counts through the same API for
+ * the metrics collector.
+ *
+ * Server-only — uses the bearer token.
+ */
+
+import type { PublishAttempt, PublishOutcome } from '@/lib/twitterPublish'
+
+export const TWITTER_API_BASE_URL = (process.env.TWITTER_API_BASE_URL || 'https://api.x.com').replace(/\/+$/, '')
+const TWITTER_BEARER_TOKEN = process.env.TWITTER_BEARER_TOKEN || ''
+
+const DEFAULT_TIMEOUT_MS = 10000
+
+export type LookupResult = 'found' | 'not_found' | 'unknown'
+
+export interface TweetLookupAdapter {
+  id: string
+  /** `text` is the tweet's text when found, if the adapter returns it */
+  lookup(tweetId: string): Promise<{ result: LookupResult; detail: string; text?: string }>
+}
+
+export const xApiLookup: TweetLookupAdapter = {
+  id: 'x-api',
+  async lookup(tweetId) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+    try {
+      const res = await fetch(`${TWITTER_API_BASE_URL}/2/tweets/${tweetId}`, {
+        signal: controller.signal,
+        cache: 'no-store',
+        headers: { Authorization: `Bearer ${TWITTER_BEARER_TOKEN}` },
+      })
+      if (res.status === 404) return { result: 'not_found', detail: `tweet ${tweetId} does not exist` }
+      if (!res.ok) return { result: 'unknown', detail: `HTTP ${res.status} from the X API` }
+      const body = await res.json()
+      if (body?.data?.id === tweetId) return { result: 'found', detail: '', text: typeof body.data.text === 'string' ? body.data.text : undefined }
+      // The API answers 200 with an errors array for missing or deleted tweets
+      return { result: 'not_found', detail: body?.errors?.[0]?.detail ?? `tweet ${tweetId} does not exist` }
+    } catch (error) {
+      const detail = error instanceof Error && error.name === 'AbortError' ? `X API timed out after ${DEFAULT_TIMEOUT_MS}ms` : error instanceof Error ? error.message : 'Lookup failed'
+      return { result: 'unknown', detail }
+    } finally {
+      clearTimeout(timer)
+    }
+  },
+}
+
+const ADAPTERS: TweetLookupAdapter[] = [xApiLookup]
+
+/** The configured adapter, or null when lookups are off. */
+export function tweetLookupAdapter(): TweetLookupAdapter | null {
+  const chosen = process.env.TWEET_LOOKUP
+  if (chosen === 'off') return null
+  if (chosen) return ADAPTERS.find(a => a.id === chosen) ?? null
+  return TWITTER_BEARER_TOKEN ? xApiLookup : null
+}
+
+// The API returns links as t.co short links and &, <, > as entities
+function comparableText(text: string): string {
+  return text
+    .replace(/https?:\/\/\S+/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Check an outcome's tweet ID through the lookup adapter, when one is
+ * configured. With `attempt`, a found tweet only confirms the outcome when its
+ * text is the text just sent — an agent pointing at some other tweet of the
+ * account is not a post.
+ */
+export async function confirmWithLookup(
+  outcome: PublishOutcome,
+  attempt: PublishAttempt | null = null,
+  adapter: TweetLookupAdapter | null = tweetLookupAdapter()
+): Promise<PublishOutcome> {
+  if (!adapter || !outcome.tweetId || outcome.status === 'failed') return outcome
+
+  const { result, detail, text } = await adapter.lookup(outcome.tweetId)
+  if (result === 'found') {
+    if (attempt && text !== undefined && comparableText(text) !== comparableText(attempt.text)) {
+      return { ...outcome, status: 'unconfirmed', errorMessage: `Could not confirm the tweet was posted: tweet ${outcome.tweetId} holds different text than the tweet just sent` }
+    }
+    return { ...outcome, status: 'success', errorMessage: '' }
+  }
+  if (result === 'not_found') {
+    return { ...outcome, status: 'unconfirmed', errorMessage: `Could not confirm the tweet was posted: ${adapter.id} lookup says ${detail}` }
+  }
+  if (outcome.status === 'success') console.warn('[tweet-lookup]', `could not check tweet ${outcome.tweetId}: ${detail}`)
+  return outcome
+}
+
+// ---------------------------------------------------------------------------
+// Metrics
+// ---------------------------------------------------------------------------
+
+export interface TweetPublicMetrics {
+  impression_count?: number
+  like_count?: number
+  retweet_count?: number
+  quote_count?: number
+  reply_count?: number
+  bookmark_count?: number
+}
+
+/** public_metrics per tweet id, from GET /2/tweets. Tweets the API doesn't return are left out. */
+export async function fetchTweetMetrics(tweetIds: string[]): Promise<Map<string, TweetPublicMetrics>> {
+  const metrics = new Map<string, TweetPublicMetrics>()
+  if (tweetIds.length === 0) return metrics
+  if (!TWITTER_BEARER_TOKEN) throw new Error('TWITTER_BEARER_TOKEN is not set')
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT_MS)
+  try {
+    const res = await fetch(`${TWITTER_API_BASE_URL}/2/tweets?ids=${tweetIds.join(',')}&tweet.fields=public_metrics`, {
+      signal: controller.signal,
+      cache: 'no-store',
+      headers: { Authorization: `Bearer ${TWITTER_BEARER_TOKEN}` },
+    })
+    if (!res.ok) throw new Error(`HTTP ${res.status} from the X API`)
+    const body = await res.json()
+    for (const tweet of Array.isArray(body?.data) ? body.data : []) {
+      if (tweet?.id) metrics.set(tweet.id, tweet.public_metrics ?? {})
+    }
+    return metrics
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`X API timed out after ${DEFAULT_TIMEOUT_MS}ms`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
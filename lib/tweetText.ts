@@ -0,0 +1,110 @@
+/**
+ * Tweet Text Utilities
+ *
+ * Splitting thread_content into tweets and counting characters the way
+ * Twitter/X does: every URL costs 23, emoji and CJK (anything outside the
+ * Latin/general-punctuation ranges) cost 2, everything else costs 1.
+ */
+
+import type { ThreadDraft } from '@/lib/types'
+
+export const TWEET_CHAR_LIMIT = 280
+export const TWEET_URL_LENGTH = 23
+
+// Code point ranges Twitter weights as a single character (twitter-text v3 config)
+const SINGLE_WEIGHT_RANGES: Array<[number, number]> = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+]
+
+export const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|org|net|io|ai|dev|co|app|gg|xyz|edu|gov|me|ly|so|sh)\b(?:\/[^\s<>"]*)?/gi
+
+// Built at runtime so the `u` flag does not depend on the compile target
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u')
+
+export interface TweetCheck {
+  index: number
+  text: string
+  length: number
+  overLimit: boolean
+}
+
+export interface ThreadCheck {
+  valid: boolean
+  tweets: TweetCheck[]
+  /** 1-based positions of tweets over the limit, for messages */
+  overLimit: number[]
+}
+
+/** Split thread_content on the `---` delimiter into trimmed, non-empty tweets. */
+export function splitThread(content: string): string[] {
+  if (!content) return []
+  return content.split('---').map(t => t.trim()).filter(Boolean)
+}
+
+/** Join tweets back into thread_content using the delimiter the agents emit. */
+export function joinThread(tweets: string[]): string {
+  return tweets.map(t => t.trim()).filter(Boolean).join('\n---\n')
+}
+
+function codePointWeight(cp: number): number {
+  return SINGLE_WEIGHT_RANGES.some(([lo, hi]) => cp >= lo && cp <= hi) ? 1 : 2
+}
+
+function segmentText(text: string): string[] {
+  const Segmenter = (Intl as any).Segmenter
+  if (typeof Segmenter === 'function') {
+    return Array.from(new Segmenter(undefined, { granularity: 'grapheme' }).segment(text), (s: any) => s.segment as string)
+  }
+  return Array.from(text)
+}
+
+/** User-perceived characters (grapheme clusters), the unit Mastodon and Bluesky count in. */
+export function graphemeLength(text: string): number {
+  return text ? segmentText(text.normalize('NFC')).length : 0
+}
+
+/** Weighted length of one tweet as Twitter/X counts it. */
+export function tweetWeightedLength(text: string): number {
+  if (!text) return 0
+  const normalized = text.normalize('NFC')
+
+  let urlCount = 0
+  const withoutUrls = normalized.replace(URL_PATTERN, () => {
+    urlCount++
+    return ''
+  })
+
+  let length = urlCount * TWEET_URL_LENGTH
+  for (const segment of segmentText(withoutUrls)) {
+    if (EMOJI_PATTERN.test(segment)) {
+      // A whole emoji sequence (ZWJ, skin tone, flags) counts as one double-width character
+      length += 2
+      continue
+    }
+    for (const ch of Array.from(segment)) {
+      length += codePointWeight(ch.codePointAt(0) ?? 0)
+    }
+  }
+  return length
+}
+
+/**
+ * Check every tweet of a draft against the limit.
+ * Hashtags are appended to the final tweet when posting, so they count there.
+ */
+export function validateThread(draft: Pick<ThreadDraft, 'thread_content' | 'hashtags'>): ThreadCheck {
+  const tweets = splitThread(draft?.thread_content ?? '')
+  const hashtags = (draft?.hashtags ?? '').trim()
+
+  const checks = tweets.map((text, index) => {
+    const counted = index === tweets.length - 1 && hashtags ? `${text} ${hashtags}` : text
+    const length = tweetWeightedLength(counted)
+    return { index, text, length, overLimit: length > TWEET_CHAR_LIMIT }
+  })
+
+  const overLimit = checks.filter(c => c.overLimit).map(c => c.index + 1)
+  return { valid: checks.length > 0 && overLimit.length === 0, tweets: checks, overLimit }
+}
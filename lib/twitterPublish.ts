@@ -0,0 +1,173 @@
+/**
+ * Twitter Publish Helpers
+ *
+ * The message sent to the Twitter Publisher agent and the interpretation of
+ * its reply. Used by lib/platformPublish.ts for both immediate and scheduled
+ * posts, so both judge success the same way.
+ *
+ * A tweet only counts as posted when a structured post_status "success"
+ * names it by a tweet URL or ID in a valid format. Anything less is
+ * "unconfirmed" — never inferred from wording, since "I could not post the
+ * tweet" contains every word a keyword check would look for. A tweet link in
+ * a prose reply is kept as the candidate but stays unconfirmed until
+ * lib/tweetLookup.ts finds it.
+ *
+ * A reply naming the tweet it was replying to, or an earlier tweet of the same
+ * thread, is not proof the new tweet went out and is never taken as success.
+ */
+
+import { extractAgentPayload } from '@/lib/agentExtraction'
+import { validatePayload, type SchemaReport } from '@/lib/schemaValidation'
+import type { TwitterResponse } from '@/lib/types'
+
+export type PublishVerdict = 'success' | 'failed' | 'unconfirmed'
+
+export interface PublishOutcome {
+  status: PublishVerdict
+  tweetUrl: string
+  /** Format-checked tweet ID, when the reply named one */
+  tweetId: string
+  timestamp: string
+  errorMessage: string
+  /** Schema check of the structured reply; null when there was none */
+  validation: SchemaReport | null
+}
+
+/** The tweet just sent to the agent, for checking its reply against. */
+export interface PublishAttempt {
+  text: string
+  /** Tweet it replies to; null for the first tweet of a thread */
+  replyToId: string | null
+  /** Tweets of this thread already posted */
+  postedIds: string[]
+}
+
+export interface TweetReference {
+  ok: boolean
+  id: string
+  url: string
+  /** Why the value doesn't name a tweet; empty when ok */
+  problem: string
+}
+
+// Tweet IDs are unsigned 64-bit snowflakes: digits only, no leading zero, at most 19 of them
+const TWEET_ID_PATTERN = /^[1-9]\d{0,18}$/
+const TWEET_URL_PATTERN = /^https?:\/\/(?:www\.|mobile\.)?(?:x|twitter)\.com\/(?:[A-Za-z0-9_]{1,15}|i(?:\/web)?)\/status(?:es)?\/(\d+)(?:[/?#]\S*)?$/i
+const TWEET_URL_IN_TEXT = /https?:\/\/(?:www\.|mobile\.)?(?:x|twitter)\.com\/[^\s"'<>)\]]+/gi
+
+/** How every publish instruction starts; replay never stands in a recording for one */
+export const TWEET_MESSAGE_PREFIX = 'Post this tweet'
+
+/**
+ * Build the instruction for posting one tweet of a thread. Threads go out a
+ * tweet at a time so each tweet's id is known before the next replies to it,
+ * and a failure part-way resumes instead of reposting.
+ */
+export function buildTweetMessage(text: string, options: { replyToId: string | null; idempotencyKey: string; index: number; total: number }): string {
+  const target = options.replyToId ? ` as a reply to tweet ${options.replyToId}` : ''
+  return `${TWEET_MESSAGE_PREFIX}${target} (tweet ${options.index + 1} of ${options.total} in a thread):\n\n${text}\n\n` +
+    `Idempotency key: ${options.idempotencyKey}\n` +
+    'If a tweet with this idempotency key was already posted, do not post it again — report its tweet_url.'
+}
+
+/** Check that a reported tweet URL or bare ID names a tweet, and normalize it to both. */
+export function verifyTweetReference(value: unknown): TweetReference {
+  const text = typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : ''
+  const invalid = (problem: string): TweetReference => ({ ok: false, id: '', url: '', problem })
+  if (!text) return invalid('no tweet URL or ID was returned')
+
+  if (/^\d+$/.test(text)) {
+    return TWEET_ID_PATTERN.test(text)
+      ? { ok: true, id: text, url: `https://x.com/i/status/${text}`, problem: '' }
+      : invalid(`"${text}" is not a valid tweet ID`)
+  }
+
+  const match = TWEET_URL_PATTERN.exec(text)
+  if (!match) return invalid(`"${text.slice(0, 120)}" is not a tweet URL`)
+  if (!TWEET_ID_PATTERN.test(match[1])) return invalid(`"${match[1]}" in ${text} is not a valid tweet ID`)
+  return { ok: true, id: match[1], url: text, problem: '' }
+}
+
+/** The reply's own words, for finding a tweet link in an unstructured answer. */
+function replyText(result: any): string {
+  const candidates = [result?.response?.message, result?.response?.result?.text, result?.response?.result?.message]
+    .filter(c => typeof c === 'string' && c.trim())
+  if (candidates.length === 0) return typeof result?.raw_response === 'string' ? result.raw_response : ''
+  return Array.from(new Set(candidates)).join('\n')
+}
+
+/** Why a reported tweet can't be the one just posted; empty when it can be. */
+function staleReference(id: string, attempt: PublishAttempt | null): string {
+  if (!attempt) return ''
+  if (id === attempt.replyToId) return `the reply names tweet ${id}, which is the tweet it was replying to`
+  if (attempt.postedIds.includes(id)) return `the reply names tweet ${id}, an earlier tweet of this thread`
+  return ''
+}
+
+function unconfirmed(problem: string, reference: { url: string; id: string }, validation: SchemaReport | null): PublishOutcome {
+  return {
+    status: 'unconfirmed',
+    tweetUrl: reference.url,
+    tweetId: reference.id,
+    timestamp: new Date().toISOString(),
+    errorMessage: `Could not confirm the tweet was posted: ${problem}`,
+    validation,
+  }
+}
+
+/**
+ * Turn a Twitter agent response (as returned by /api/agent) into a publish
+ * outcome. With `attempt`, links to the reply target or to tweets already in
+ * the thread are not accepted as the new tweet.
+ */
+export function interpretPublishResult(result: any, attempt: PublishAttempt | null = null): PublishOutcome {
+  if (!result?.success) {
+    return {
+      status: 'failed',
+      tweetUrl: '',
+      tweetId: '',
+      timestamp: new Date().toISOString(),
+      errorMessage: result?.error ?? result?.response?.message ?? 'Unknown error',
+      validation: null,
+    }
+  }
+
+  // Use deep extractor to find Twitter response schema
+  const extracted = extractAgentPayload<TwitterResponse>(result, 'post_status')
+  if (extracted) {
+    const twitterData = extracted.data
+    const validation = validatePayload('Twitter Publisher', 'publisher', twitterData, { extractedFrom: extracted.path })
+    if ((twitterData.post_status ?? '').toLowerCase() !== 'success') {
+      return {
+        status: 'failed',
+        tweetUrl: '',
+        tweetId: '',
+        timestamp: twitterData.timestamp ?? new Date().toISOString(),
+        errorMessage: twitterData.error_message || 'Agent reported failure',
+        validation,
+      }
+    }
+    const reference = verifyTweetReference(twitterData.tweet_url)
+    if (!reference.ok) return unconfirmed(`the agent reported success but ${reference.problem}`, { url: twitterData.tweet_url ?? '', id: '' }, validation)
+    const stale = staleReference(reference.id, attempt)
+    if (stale) return unconfirmed(`the agent reported success but ${stale}`, { url: '', id: '' }, validation)
+    return {
+      status: 'success',
+      tweetUrl: reference.url,
+      tweetId: reference.id,
+      timestamp: twitterData.timestamp ?? new Date().toISOString(),
+      errorMessage: '',
+      validation,
+    }
+  }
+
+  // No post_status schema — a tweet link in the reply is a candidate for lookup, nothing more
+  const text = replyText(result)
+  const reference = (text.match(TWEET_URL_IN_TEXT) ?? [])
+    .map(url => verifyTweetReference(url.replace(/[.,;:!?]+$/, '')))
+    .find(ref => ref.ok && !staleReference(ref.id, attempt))
+  if (reference) {
+    return unconfirmed(`the reply had no post_status, only a link to tweet ${reference.id}`, reference, null)
+  }
+  return unconfirmed(`the reply had no post_status and no tweet link: "${text.slice(0, 200)}"`, { url: '', id: '' }, null)
+}
@@ -0,0 +1,178 @@
+/**
+ * Shared Trend Intelligence Types
+ *
+ * Shapes of the agent payloads (see response_schemas/) and the dashboard state
+ * that is shared between the page, client utilities and API routes.
+ */
+
+export interface HNStory {
+  title: string
+  url: string
+  hn_score: number
+  comments_count: number
+  category: string
+  relevance_score: number
+  summary: string
+  source_type: string
+}
+
+export interface ArxivPaper {
+  title: string
+  authors: string
+  abstract_summary: string
+  arxiv_link: string
+  category: string
+  relevance_score: number
+  novelty_score: number
+  applicability_score: number
+  /** Set when the paper came from the arXiv API rather than only from an agent */
+  pdf_link?: string
+  primary_category?: string
+  published?: string
+}
+
+/** A trending repository or a new release of a watched one (lib/github.ts) */
+export interface GitHubRepoItem {
+  kind: 'trending' | 'release'
+  /** owner/name */
+  repo: string
+  /** Repository page, or the release page for releases */
+  url: string
+  title: string
+  description: string
+  language: string
+  stars: number
+  /** Stars gained over the tracking window; every star for a repo created inside it */
+  stars_gained: number
+  topics: string[]
+  readme_summary: string
+  release_tag?: string
+  release_notes?: string
+  published_at?: string
+  category: string
+  relevance_score: number
+}
+
+/** Common shape every source adapter normalizes its items to (see lib/sources.ts) */
+export interface SourceItem {
+  title: string
+  url: string
+  summary: string
+  category: string
+  relevance_score: number
+  /** Feed within the source, e.g. "top", "show_hn", "cs.LG" */
+  source_type: string
+  /** Authors, owner or publisher */
+  byline?: string
+  /** Counters shown on the card, e.g. { label: 'pts', value: 612 } */
+  stats?: { label: string; value: number | string }[]
+  /** Extra 0-100 scores named by the adapter's scoreFields */
+  scores?: Record<string, number>
+}
+
+export interface SourceResults<T = SourceItem> {
+  items: T[]
+  total_fetched: number
+  total_filtered: number
+}
+
+export interface ThreadDraft {
+  id: string
+  title: string
+  classification: string
+  thread_content: string
+  hashtags: string
+  hook: string
+  requires_review: boolean
+  review_reason: string
+  source_url: string
+  relevance_score: number
+  /** Platforms to publish to; Twitter only when unset */
+  platforms?: PublishPlatform[]
+}
+
+export type PublishPlatform = 'twitter' | 'mastodon' | 'bluesky'
+
+export interface ManagerResponse {
+  pipeline_status: string
+  hn_results: {
+    stories: HNStory[]
+    total_fetched: number
+    total_filtered: number
+  }
+  arxiv_results: {
+    papers: ArxivPaper[]
+    total_fetched: number
+    total_filtered: number
+  }
+  /** Sources other than HN and arXiv, keyed by adapter id, in each adapter's stored item shape */
+  source_results?: Record<string, SourceResults<any>>
+  thread_drafts: ThreadDraft[]
+  total_drafts: number
+  auto_approved: number
+  flagged_for_review: number
+  scan_timestamp: string
+}
+
+export interface TwitterResponse {
+  post_status: string
+  tweet_url: string
+  posted_content: string
+  timestamp: string
+  error_message: string
+}
+
+/** One post of a thread on one platform, as far as publishing got. */
+export interface ThreadPostState {
+  index: number
+  /** unconfirmed: the agent replied without a verifiable tweet — it may or may not be live */
+  status: 'pending' | 'posted' | 'failed' | 'unconfirmed'
+  /** Tweet id, Mastodon status id or Bluesky at:// URI — what the next post replies to */
+  post_id: string
+  url: string
+  /** Bluesky record CID, needed alongside the URI in reply refs */
+  cid?: string
+  /** Stable for this draft, platform and index, so a retry can't post it twice */
+  idempotency_key: string
+  /** lib/threadProgress.ts postTextHash of the text sent, once it may have gone out */
+  text_hash?: string
+  error_message: string
+  posted_at: string | null
+}
+
+export interface PublishRecord {
+  draftId: string
+  platform: PublishPlatform
+  title: string
+  /** Source the thread was about, for cross-scan dedup */
+  sourceUrl?: string
+  /** unconfirmed: the platform may have the thread, but no post ID proved it */
+  status: 'pending' | 'posting' | 'success' | 'failed' | 'unconfirmed'
+  /** URL of the thread on its platform */
+  tweetUrl: string
+  timestamp: string
+  errorMessage: string
+  /** Per-post progress; a failed thread resumes from the first post not yet posted */
+  posts?: ThreadPostState[]
+}
+
+export interface AppSettings {
+  relevanceThreshold: number
+  categories: string[]
+  sources: string[]
+  autoApproveThreshold: number
+  maxThreadsPerScan: number
+  threadStyle: string
+  blockedDomains: string
+  /** owner/repo per line — repos whose releases the GitHub source watches */
+  githubWatchlist: string
+  /** 'manager' delegates the whole pipeline to the Manager agent; 'orchestrated' drives the sub-agents from the client */
+  scanMode: 'manager' | 'orchestrated'
+  /** IANA zone scheduled posts are planned in */
+  publishTimezone: string
+  /** Local hours [start, end) inside which auto-scheduling places posts */
+  publishWindowStart: number
+  publishWindowEnd: number
+  /** Minimum gap between two scheduled posts */
+  publishSpacingMinutes: number
+}
@@ -0,0 +1,140 @@
+/**
+ * Minimal XML Reader
+ *
+ * Just enough XML for the Atom/RSS feeds the source clients read: elements,
+ * attributes, text, CDATA and the standard entities. No DTDs, no namespace
+ * resolution — element names keep their prefix (`arxiv:primary_category`).
+ * Malformed input never throws; unclosed elements are closed at end of input.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface XmlElement {
+  name: string
+  attrs: Record<string, string>
+  children: XmlElement[]
+  /** Concatenated text and CDATA directly inside this element */
+  text: string
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+export function decodeEntities(value: string): string {
+  return (value ?? '').replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : whole
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? whole
+  })
+}
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const pattern = /([^\s=/]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(source)) !== null) {
+    attrs[match[1]] = decodeEntities(match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+/** Parse a document and return a synthetic `#document` element holding the root. */
+export function parseXml(xml: string): XmlElement {
+  const doc: XmlElement = { name: '#document', attrs: {}, children: [], text: '' }
+  const stack: XmlElement[] = [doc]
+  const source = xml ?? ''
+  let pos = 0
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos)
+    const current = stack[stack.length - 1]
+    if (lt === -1) {
+      current.text += decodeEntities(source.slice(pos))
+      break
+    }
+    if (lt > pos) current.text += decodeEntities(source.slice(pos, lt))
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4)
+      pos = end === -1 ? source.length : end + 3
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9)
+      current.text += source.slice(lt + 9, end === -1 ? source.length : end)
+      pos = end === -1 ? source.length : end + 3
+    } else if (source.startsWith('<?', lt) || source.startsWith('<!', lt)) {
+      const end = source.indexOf('>', lt)
+      pos = end === -1 ? source.length : end + 1
+    } else if (source.startsWith('</', lt)) {
+      const end = source.indexOf('>', lt)
+      const name = source.slice(lt + 2, end === -1 ? source.length : end).trim()
+      // Pop back to the matching element; ignore stray closing tags
+      const index = stack.map(e => e.name).lastIndexOf(name)
+      if (index > 0) stack.length = index
+      pos = end === -1 ? source.length : end + 1
+    } else {
+      const end = source.indexOf('>', lt)
+      if (end === -1) break
+      const body = source.slice(lt + 1, end)
+      const selfClosing = body.endsWith('/')
+      const inner = selfClosing ? body.slice(0, -1) : body
+      const nameMatch = /^[^\s/>]+/.exec(inner)
+      if (nameMatch) {
+        const element: XmlElement = { name: nameMatch[0], attrs: parseAttrs(inner.slice(nameMatch[0].length)), children: [], text: '' }
+        current.children.push(element)
+        if (!selfClosing) stack.push(element)
+      }
+      pos = end + 1
+    }
+  }
+
+  return doc
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/** Direct children with this name. */
+export function childElements(element: XmlElement | null | undefined, name: string): XmlElement[] {
+  return (element?.children ?? []).filter(c => c.name === name)
+}
+
+/** First direct child with this name, or null. */
+export function childElement(element: XmlElement | null | undefined, name: string): XmlElement | null {
+  return (element?.children ?? []).find(c => c.name === name) ?? null
+}
+
+/** Whitespace-collapsed text of the first child with this name, or ''. */
+export function childText(element: XmlElement | null | undefined, name: string): string {
+  return collapseWhitespace(childElement(element, name)?.text ?? '')
+}
+
+export function collapseWhitespace(value: string): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim()
+}
+
+// Tags that separate words; any other tag is dropped without a gap
+const BLOCK_TAGS = /<\/?(p|br|hr|div|li|ul|ol|h[1-6]|tr|td|th|blockquote|pre|figure|figcaption|section|article)\b[^>]*>/gi
+
+/** Plain text from an HTML fragment such as an RSS description. */
+export function stripHtml(html: string): string {
+  const text = (html ?? '')
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(BLOCK_TAGS, ' ')
+    .replace(/<[^>]+>/g, '')
+  return collapseWhitespace(decodeEntities(text))
+}
@@ -20,6 +20,8 @@ const nextConfig = {
 
   // Enable experimental features for faster dev
   experimental: {
+    // Runs instrumentation.ts on server start (scheduled publish worker)
+    instrumentationHook: true,
     // Optimize package imports for faster builds
     optimizePackageImports: [
       'lucide-react',
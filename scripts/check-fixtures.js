@@ -0,0 +1,65 @@
+/**
+ * Agent response fixture check
+ *
+ * Runs every fixture in fixtures/agent-responses/ through lib/agentExtraction.ts
+ * and fails when the reported path differs from the fixture's expected_path:
+ *
+ *   npm run check-fixtures
+ *
+ * "payload" fixtures go through extractAgentPayload(input, validator_key),
+ * "agent_text" fixtures through parseAgentText(input). An expected_path of
+ * null means nothing may match.
+ */
+
+const fs = require('fs')
+const path = require('path')
+const ts = require('typescript')
+
+const ROOT = path.join(__dirname, '..')
+const FIXTURES = path.join(ROOT, 'fixtures', 'agent-responses')
+
+function loadTs(file) {
+  const source = fs.readFileSync(file, 'utf8')
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    fileName: file,
+  })
+  const mod = { exports: {} }
+  new Function('module', 'exports', 'require', outputText)(mod, mod.exports, require)
+  return mod.exports
+}
+
+const { extractAgentPayload, parseAgentText } = loadTs(path.join(ROOT, 'lib', 'agentExtraction.ts'))
+
+function actualPath(fixture) {
+  switch (fixture.extract) {
+    case 'agent_text':
+      return parseAgentText(fixture.input)?.path ?? null
+    case 'payload':
+      return extractAgentPayload(fixture.input, fixture.validator_key)?.path ?? null
+    default:
+      throw new Error(`unknown extract "${fixture.extract}"`)
+  }
+}
+
+let failures = 0
+for (const name of fs.readdirSync(FIXTURES).filter(f => f.endsWith('.json')).sort()) {
+  const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURES, name), 'utf8'))
+  let actual
+  try {
+    actual = actualPath(fixture)
+  } catch (err) {
+    actual = `threw: ${err.message}`
+  }
+  if (actual === fixture.expected_path) {
+    console.log(`ok    ${name}`)
+  } else {
+    failures++
+    console.log(`FAIL  ${name}: expected ${JSON.stringify(fixture.expected_path)}, got ${JSON.stringify(actual)}`)
+  }
+}
+
+if (failures > 0) {
+  console.log(`\n${failures} fixture(s) failed`)
+  process.exit(1)
+}
@@ -0,0 +1,59 @@
+/**
+ * Offline fixture server
+ *
+ * Serves fixtures/ as static files so source APIs can be pointed at it instead
+ * of the real services, e.g.
+ *
+ *   npm run fixtures
+ *   HN_API_BASE_URL=http://localhost:4100/hn npm run dev
+ *   ARXIV_API_BASE_URL=http://localhost:4100/arxiv npm run dev
+ *   GITHUB_API_BASE_URL=http://localhost:4100/github npm run dev
+ *
+ * RSS fixtures are plain files — register e.g.
+ * http://localhost:4100/rss/security-blog.rss as a feed in Settings.
+ *
+ * Port: FIXTURE_PORT (default 4100).
+ */
+
+const http = require('http')
+const fs = require('fs')
+const path = require('path')
+
+const ROOT = path.join(__dirname, '..', 'fixtures')
+const PORT = parseInt(process.env.FIXTURE_PORT || '4100', 10)
+
+const CONTENT_TYPES = {
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.atom': 'application/atom+xml',
+  '.rss': 'application/rss+xml',
+}
+
+const server = http.createServer((req, res) => {
+  const pathname = decodeURIComponent(new URL(req.url, 'http://localhost').pathname)
+  const file = path.join(ROOT, path.normalize(pathname))
+
+  // Never serve anything outside fixtures/
+  if (!file.startsWith(ROOT + path.sep)) {
+    res.writeHead(403).end()
+    return
+  }
+
+  // A directory stands for the resource itself when its sub-resources are files too
+  // (GitHub's repos/owner/name next to repos/owner/name/releases)
+  const target = fs.existsSync(file) && fs.statSync(file).isDirectory() ? path.join(file, 'index.json') : file
+
+  fs.readFile(target, (err, body) => {
+    if (err) {
+      res.writeHead(404, { 'Content-Type': 'application/json' }).end('null')
+      console.log(`404 ${pathname}`)
+      return
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(target)] || 'application/octet-stream' }).end(body)
+    console.log(`200 ${pathname}`)
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Serving ${ROOT} on http://localhost:${PORT}`)
+})
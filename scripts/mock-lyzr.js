@@ -0,0 +1,563 @@
+/**
+ * Local mock Lyzr server
+ *
+ * Stands in for the Lyzr agent, scheduler, RAG and crawl APIs so the whole
+ * scan → approve → publish flow runs offline without spending credits:
+ *
+ *   npm run mock-lyzr
+ *   LYZR_API_KEY=mock \
+ *   LYZR_AGENT_BASE_URL=http://localhost:4200 \
+ *   LYZR_SCHEDULER_BASE_URL=http://localhost:4200 \
+ *   LYZR_RAG_BASE_URL=http://localhost:4200 \
+ *   LYZR_CRAWL_BASE_URL=http://localhost:4200 npm run dev
+ *
+ * Combine with the fixture server (npm run fixtures) for HN, arXiv and GitHub.
+ *
+ * Agent tasks are answered from a script of rules, matched in order against
+ * the submitted message and agent_id (default fixtures/lyzr/script.json,
+ * override with MOCK_LYZR_SCRIPT). A rule gives a canned `response` (object
+ * or raw text) or `response_file`, or a built-in `handler` that answers from
+ * the items in the message, plus optional:
+ *
+ *   delay_ms  how long the task stays "processing" (default MOCK_LYZR_DELAY_MS, 1000)
+ *   fail      "submit" (submit returns `status`, default 500), "task" (task
+ *             completes as failed), "expire" (poll returns 404) or "hang"
+ *             (task never completes)
+ *   error     error message for failures
+ *   times     apply only to the first N matching tasks — e.g. fail once, then succeed
+ *
+ * Schedules, RAG documents and uploaded assets are kept in memory. Schedules
+ * never fire on their own; "Run now" executes the schedule's message through
+ * the same script and records an execution log.
+ *
+ * GET /2/tweets/:id mimics the X API lookup for the tweets the publish handler
+ * posted, so TWITTER_API_BASE_URL=http://localhost:4200 with any
+ * TWITTER_BEARER_TOKEN exercises publish verification. GET /2/tweets?ids=…
+ * returns made-up public_metrics for them, for ENGAGEMENT_METRICS=live.
+ *
+ * Control endpoints for tests:
+ *   GET  /__mock/requests   every request received, oldest first
+ *   POST /__mock/script     replace the rules ({ "rules": [...] })
+ *   POST /__mock/reset      reload the script file and clear all state
+ *
+ * Port: MOCK_LYZR_PORT (default 4200).
+ */
+
+const http = require('http')
+const fs = require('fs')
+const path = require('path')
+const crypto = require('crypto')
+
+const PORT = parseInt(process.env.MOCK_LYZR_PORT || '4200', 10)
+const SCRIPT_FILE = path.resolve(process.env.MOCK_LYZR_SCRIPT || path.join(__dirname, '..', 'fixtures', 'lyzr', 'script.json'))
+const DEFAULT_DELAY_MS = parseInt(process.env.MOCK_LYZR_DELAY_MS || '1000', 10)
+const MAX_LOGGED_REQUESTS = 500
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+let rules = []
+let ruleUses = new Map()
+let tasks = new Map()
+let schedules = new Map()
+let executions = []
+let ragDocuments = new Map()
+let requestLog = []
+let tweetCounter = 0
+// Idempotency key → tweet URL, so a retried tweet reports the original
+let postedTweets = new Map()
+// Text of every tweet "posted" by id, for the X API lookup stand-in
+let tweetTexts = new Map()
+
+function loadScript() {
+  const script = JSON.parse(fs.readFileSync(SCRIPT_FILE, 'utf8'))
+  rules = Array.isArray(script.rules) ? script.rules : []
+}
+
+function reset() {
+  loadScript()
+  ruleUses = new Map()
+  tasks = new Map()
+  schedules = new Map()
+  executions = []
+  ragDocuments = new Map()
+  requestLog = []
+  tweetCounter = 0
+  postedTweets = new Map()
+  tweetTexts = new Map()
+}
+
+function id() {
+  return crypto.randomUUID()
+}
+
+// ---------------------------------------------------------------------------
+// Built-in handlers — answer from the items embedded in the prompt
+// ---------------------------------------------------------------------------
+
+/** The JSON value after the last "<label>\n" in a prompt, or null. */
+function jsonAfter(message, label) {
+  const at = message.lastIndexOf(`${label}\n`)
+  if (at === -1) return null
+  try {
+    return JSON.parse(message.slice(at + label.length + 1).trim())
+  } catch {
+    return null
+  }
+}
+
+function guessCategory(text) {
+  const t = text.toLowerCase()
+  if (/secur|cve|vulnerab|exploit|malware|breach/.test(t)) return 'Cybersecurity'
+  if (/startup|funding|raises|seed|series [ab]|yc /.test(t)) return 'Startups'
+  if (/arxiv|paper|benchmark|theorem/.test(t)) return 'Research'
+  if (/llm|model|neural|gpt|transformer|agent|\bai\b|\bml\b/.test(t)) return 'AI/ML'
+  return 'Developer Tools'
+}
+
+// Scores fall off down the list so thresholds and top-N limits have something to cut
+function scoreAt(index) {
+  return Math.max(40, 92 - index * 6)
+}
+
+function firstSentence(text, fallback) {
+  const sentence = String(text || '').replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s/)[0]
+  return sentence ? sentence.slice(0, 200) : fallback
+}
+
+const HANDLERS = {
+  score_stories(message) {
+    const stories = jsonAfter(message, 'Stories:') || []
+    const scored = stories.map((s, i) => ({
+      title: s.title,
+      url: s.url,
+      hn_score: s.hn_score,
+      comments_count: s.comments_count,
+      category: guessCategory(`${s.title} ${s.text || ''}`),
+      relevance_score: scoreAt(i),
+      summary: firstSentence(s.text, s.title),
+      source_type: s.source_type,
+    }))
+    return { stories: scored, total_fetched: stories.length, total_filtered: scored.length }
+  },
+
+  score_papers(message) {
+    const papers = jsonAfter(message, 'Papers:') || []
+    const scored = papers.map((p, i) => ({
+      title: p.title,
+      authors: p.authors,
+      abstract_summary: firstSentence(p.abstract, p.title),
+      arxiv_link: p.arxiv_link,
+      category: 'Research',
+      relevance_score: scoreAt(i),
+      novelty_score: scoreAt(i + 1),
+      applicability_score: scoreAt(i + 2),
+    }))
+    return { papers: scored, total_fetched: papers.length, total_filtered: scored.length }
+  },
+
+  classify(message) {
+    const groups = jsonAfter(message, 'Items:') || {}
+    const limit = parseInt((message.match(/drafts for the (\d+) most relevant/) || [])[1] || '5', 10)
+    const items = Object.values(groups)
+      .flat()
+      .sort((a, b) => (b.relevance_score || 0) - (a.relevance_score || 0))
+      .slice(0, limit)
+    const thread_drafts = items.map((item, i) => {
+      const sensitive = /secur|cve|vulnerab|exploit|breach|funding|raises/i.test(`${item.title} ${item.summary}`)
+      const classification = item.source_type === 'release' ? 'TOOL LAUNCH'
+        : /arxiv\.org/.test(item.url || '') ? 'RESEARCH SUMMARY THREAD'
+        : /hiring|job/i.test(item.source_type || '') ? 'JOB POST + PREP THREAD'
+        : 'TECH DEEP DIVE'
+      return {
+        id: `draft-${i + 1}`,
+        title: item.title,
+        classification,
+        thread_content: `1/ ${item.title}\n---\n2/ ${item.summary || 'Details in the link below.'}\n---\n3/ Source: ${item.url}`,
+        hashtags: `#${String(item.category || 'tech').replace(/[^A-Za-z]/g, '')}`,
+        hook: item.title,
+        requires_review: sensitive,
+        review_reason: sensitive ? 'Mock: mentions security or financial claims' : '',
+        source_url: item.url,
+        relevance_score: item.relevance_score || 50,
+      }
+    })
+    return { thread_drafts }
+  },
+
+  rewrite(message) {
+    const current = jsonAfter(message, 'Current draft:') || {}
+    const instruction = (message.match(/following this instruction: "([^"]*)"/) || [])[1]
+    return {
+      thread_drafts: [{
+        ...current,
+        hook: `Take two: ${current.hook || current.title || ''}`,
+        thread_content: `${instruction ? `(${instruction}) ` : ''}${current.thread_content || ''}`,
+        requires_review: false,
+        review_reason: '',
+        relevance_score: 75,
+      }],
+    }
+  },
+
+  // One tweet of a thread per task; a repeated idempotency key returns the tweet already posted
+  publish(message) {
+    const key = (message.match(/Idempotency key: (\S+)/) || [])[1]
+    const content = message.replace(/^Post this tweet[^:]*:\s*/, '').split('\n\nIdempotency key:')[0]
+    let tweetUrl = key && postedTweets.get(key)
+    if (!tweetUrl) {
+      tweetCounter++
+      const tweetId = `${Date.now()}${String(tweetCounter).padStart(3, '0')}`
+      tweetUrl = `https://x.com/mock_lyzr/status/${tweetId}`
+      tweetTexts.set(tweetId, content)
+      if (key) postedTweets.set(key, tweetUrl)
+    }
+    return {
+      post_status: 'success',
+      tweet_url: tweetUrl,
+      posted_content: content,
+      timestamp: new Date().toISOString(),
+      error_message: '',
+    }
+  },
+}
+
+// ---------------------------------------------------------------------------
+// Script matching
+// ---------------------------------------------------------------------------
+
+function findRule(message, agentId) {
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i]
+    const match = rule.match || {}
+    if (match.agent_id && match.agent_id !== agentId) continue
+    if (match.message_includes && !message.includes(match.message_includes)) continue
+    const used = ruleUses.get(i) || 0
+    if (typeof rule.times === 'number' && used >= rule.times) continue
+    ruleUses.set(i, used + 1)
+    return rule
+  }
+  return null
+}
+
+/** The agent's reply text for a rule — what Lyzr puts in the task's response.response. */
+function replyText(rule, message) {
+  if (!rule) return 'Mock Lyzr has no scripted response for this message.'
+  let reply = rule.response
+  if (rule.handler) {
+    const handler = HANDLERS[rule.handler]
+    reply = handler ? handler(message) : `Mock Lyzr has no handler named "${rule.handler}".`
+  } else if (rule.response_file) {
+    const file = path.resolve(path.dirname(SCRIPT_FILE), rule.response_file)
+    const text = fs.readFileSync(file, 'utf8')
+    reply = file.endsWith('.json') ? JSON.parse(text) : text
+  }
+  return typeof reply === 'string' ? reply : JSON.stringify(reply ?? {})
+}
+
+// ---------------------------------------------------------------------------
+// HTTP helpers
+// ---------------------------------------------------------------------------
+
+function send(res, status, body) {
+  if (body === undefined) {
+    res.writeHead(status).end()
+    return
+  }
+  const text = typeof body === 'string' ? body : JSON.stringify(body)
+  res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' }).end(text)
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+function parseJson(buffer) {
+  try {
+    return JSON.parse(buffer.toString('utf8') || 'null')
+  } catch {
+    return null
+  }
+}
+
+/** File names from a multipart body — the mock never needs the contents. */
+function multipartFileNames(buffer) {
+  return [...buffer.toString('latin1').matchAll(/filename="([^"]*)"/g)].map(m => m[1])
+}
+
+// ---------------------------------------------------------------------------
+// Agent tasks — /v3/inference/chat/task and /v3/assets/upload
+// ---------------------------------------------------------------------------
+
+function submitTask(body, res) {
+  if (!body || !body.message || !body.agent_id) {
+    return send(res, 422, { detail: 'message and agent_id are required' })
+  }
+  const rule = findRule(body.message, body.agent_id)
+  if (rule && rule.fail === 'submit') {
+    return send(res, rule.status || 500, { detail: rule.error || 'Mock submit failure' })
+  }
+  const task = {
+    id: id(),
+    rule,
+    message: body.message,
+    agent_id: body.agent_id,
+    ready_at: Date.now() + (rule && typeof rule.delay_ms === 'number' ? rule.delay_ms : DEFAULT_DELAY_MS),
+  }
+  tasks.set(task.id, task)
+  send(res, 200, { task_id: task.id })
+}
+
+function pollTask(taskId, res) {
+  const task = tasks.get(taskId)
+  const fail = task && task.rule && task.rule.fail
+  if (!task || fail === 'expire') return send(res, 404, { detail: 'Task not found' })
+  if (fail === 'hang' || Date.now() < task.ready_at) return send(res, 200, { task_id: task.id, status: 'processing' })
+  if (fail === 'task') return send(res, 200, { task_id: task.id, status: 'failed', error: task.rule.error || 'Mock task failure' })
+  if (task.reply === undefined) task.reply = replyText(task.rule, task.message)
+  send(res, 200, {
+    task_id: task.id,
+    status: 'completed',
+    response: { response: task.reply, module_outputs: {} },
+  })
+}
+
+function uploadAssets(buffer, res) {
+  const names = multipartFileNames(buffer)
+  const results = names.map(file_name => ({ asset_id: `asset-${id().slice(0, 8)}`, file_name, success: true }))
+  send(res, 200, { results, total_files: names.length, successful_uploads: names.length, failed_uploads: 0 })
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler — /schedules
+// ---------------------------------------------------------------------------
+
+function createSchedule(body, res) {
+  if (!body || !body.agent_id || !body.cron_expression || !body.message) {
+    return send(res, 422, { detail: 'agent_id, cron_expression and message are required' })
+  }
+  const now = new Date().toISOString()
+  const schedule = {
+    id: id(),
+    user_id: body.user_id || 'mock-user',
+    agent_id: body.agent_id,
+    message: body.message,
+    cron_expression: body.cron_expression,
+    timezone: body.timezone || 'UTC',
+    max_retries: body.max_retries ?? 3,
+    retry_delay: body.retry_delay ?? 300,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+    next_run_time: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    last_run_at: null,
+    last_run_success: null,
+  }
+  schedules.set(schedule.id, schedule)
+  send(res, 201, schedule)
+}
+
+function setActive(schedule, active, res) {
+  if (schedule.is_active === active) {
+    return send(res, 400, { detail: `Schedule is already ${active ? 'active' : 'paused'}` })
+  }
+  schedule.is_active = active
+  schedule.updated_at = new Date().toISOString()
+  send(res, 200, schedule)
+}
+
+function triggerSchedule(schedule, res) {
+  const rule = findRule(schedule.message, schedule.agent_id)
+  const failed = !!(rule && rule.fail)
+  const now = new Date().toISOString()
+  executions.unshift({
+    id: id(),
+    schedule_id: schedule.id,
+    agent_id: schedule.agent_id,
+    user_id: schedule.user_id,
+    session_id: `${schedule.agent_id}-${id().slice(0, 12)}`,
+    executed_at: now,
+    attempt: 1,
+    max_attempts: schedule.max_retries + 1,
+    success: !failed,
+    payload_message: schedule.message,
+    response_status: failed ? rule.status || 500 : 200,
+    response_output: failed ? '' : replyText(rule, schedule.message),
+    error_message: failed ? rule.error || 'Mock execution failure' : null,
+  })
+  schedule.last_run_at = now
+  schedule.last_run_success = !failed
+  send(res, 202, 'Schedule triggered')
+}
+
+function page(list, query) {
+  const skip = parseInt(query.get('skip') || '0', 10)
+  const limit = parseInt(query.get('limit') || '50', 10)
+  return list.slice(skip, skip + limit)
+}
+
+function handleScheduler(method, parts, query, body, res) {
+  // parts: ['schedules', ...]
+  if (method === 'GET' && parts.length === 1) {
+    let list = [...schedules.values()]
+    if (query.get('agent_id')) list = list.filter(s => s.agent_id === query.get('agent_id'))
+    if (query.get('is_active')) list = list.filter(s => String(s.is_active) === query.get('is_active'))
+    return send(res, 200, { schedules: page(list, query), total: list.length })
+  }
+  if (method === 'POST' && parts.length === 1) return createSchedule(body, res)
+  if (method === 'GET' && parts[1] === 'by-agent') {
+    return send(res, 200, { agent_id: parts[2], schedules: [...schedules.values()].filter(s => s.agent_id === parts[2]), webhooks: [] })
+  }
+  if (method === 'GET' && parts[1] === 'executions' && parts[2] === 'recent') {
+    let list = executions
+    if (query.get('agent_id')) list = list.filter(e => e.agent_id === query.get('agent_id'))
+    if (query.get('success')) list = list.filter(e => String(e.success) === query.get('success'))
+    return send(res, 200, { executions: page(list, query), total: list.length })
+  }
+
+  const schedule = schedules.get(parts[1])
+  if (!schedule) return send(res, 404, { detail: 'Schedule not found' })
+  if (method === 'GET' && parts.length === 2) return send(res, 200, schedule)
+  if (method === 'DELETE' && parts.length === 2) {
+    schedules.delete(schedule.id)
+    return send(res, 204)
+  }
+  if (method === 'GET' && parts[2] === 'logs') {
+    const list = executions.filter(e => e.schedule_id === schedule.id)
+    return send(res, 200, { executions: page(list, query), total: list.length })
+  }
+  if (method === 'POST' && parts[2] === 'pause') return setActive(schedule, false, res)
+  if (method === 'POST' && parts[2] === 'resume') return setActive(schedule, true, res)
+  if (method === 'POST' && parts[2] === 'trigger') return triggerSchedule(schedule, res)
+  send(res, 404, { detail: 'Not found' })
+}
+
+// ---------------------------------------------------------------------------
+// RAG — /v3/rag, /v3/train and the crawl API
+// ---------------------------------------------------------------------------
+
+function ragDocs(ragId) {
+  if (!ragDocuments.has(ragId)) ragDocuments.set(ragId, [])
+  return ragDocuments.get(ragId)
+}
+
+function handleRag(method, parts, query, buffer, res) {
+  // GET /v3/rag/documents/{rag_id}/
+  if (method === 'GET' && parts[1] === 'rag' && parts[2] === 'documents') {
+    return send(res, 200, ragDocs(parts[3]).map(name => `storage/${name}`))
+  }
+  // POST /v3/train/{type}/?rag_id=
+  if (method === 'POST' && parts[1] === 'train') {
+    const ragId = query.get('rag_id')
+    if (!ragId) return send(res, 422, { detail: 'rag_id is required' })
+    const docs = ragDocs(ragId)
+    for (const name of multipartFileNames(buffer)) {
+      if (!docs.includes(name)) docs.push(name)
+    }
+    return send(res, 200, { document_count: docs.length })
+  }
+  // DELETE /v3/rag/{rag_id}/docs/
+  if (method === 'DELETE' && parts[1] === 'rag' && parts[3] === 'docs') {
+    const names = parseJson(buffer)
+    const docs = ragDocs(parts[2])
+    ragDocuments.set(parts[2], docs.filter(d => !(Array.isArray(names) && names.includes(d))))
+    return send(res, 200, { deleted: Array.isArray(names) ? names.length : 0 })
+  }
+  send(res, 404, { detail: 'Not found' })
+}
+
+function crawl(body, res) {
+  if (!body || !body.url || !body.rag_id) return send(res, 422, { detail: 'url and rag_id are required' })
+  const docs = ragDocs(body.rag_id)
+  const name = `${new URL(body.url).hostname}.txt`
+  if (!docs.includes(name)) docs.push(name)
+  send(res, 200, { status: 'started' })
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost')
+  const parts = url.pathname.split('/').filter(Boolean)
+  const buffer = await readBody(req)
+  const isJson = (req.headers['content-type'] || '').includes('application/json')
+  const body = isJson ? parseJson(buffer) : null
+
+  console.log(`${req.method} ${url.pathname}${url.search}`)
+
+  if (parts[0] === '__mock') {
+    if (req.method === 'GET' && parts[1] === 'requests') return send(res, 200, { requests: requestLog })
+    if (req.method === 'POST' && parts[1] === 'script') {
+      if (!body || !Array.isArray(body.rules)) return send(res, 400, { detail: 'body must be { "rules": [...] }' })
+      rules = body.rules
+      ruleUses = new Map()
+      return send(res, 200, { rules: rules.length })
+    }
+    if (req.method === 'POST' && parts[1] === 'reset') {
+      reset()
+      return send(res, 200, { rules: rules.length })
+    }
+    return send(res, 404, { detail: 'Not found' })
+  }
+
+  // X API v2 tweet lookup (TWITTER_API_BASE_URL) — knows only the tweets posted here
+  if (req.method === 'GET' && parts[0] === '2' && parts[1] === 'tweets' && parts.length === 2) {
+    if (!req.headers.authorization) return send(res, 401, { title: 'Unauthorized' })
+    const ids = (url.searchParams.get('ids') || '').split(',').filter(Boolean)
+    const data = ids.filter(id => tweetTexts.has(id)).map(id => {
+      // Stable numbers per tweet, so repeated reads agree
+      const seed = Number(id.slice(-4)) || 1
+      const impressions = 200 + (seed % 1800)
+      return {
+        id,
+        text: tweetTexts.get(id),
+        public_metrics: {
+          impression_count: impressions,
+          like_count: Math.round(impressions * 0.03),
+          retweet_count: Math.round(impressions * 0.006),
+          quote_count: seed % 3,
+          reply_count: Math.round(impressions * 0.004),
+          bookmark_count: Math.round(impressions * 0.005),
+        },
+      }
+    })
+    return send(res, 200, data.length > 0 ? { data } : { errors: [{ title: 'Not Found Error', detail: 'Could not find any of the requested tweets.' }] })
+  }
+  if (req.method === 'GET' && parts[0] === '2' && parts[1] === 'tweets' && parts.length === 3) {
+    if (!req.headers.authorization) return send(res, 401, { title: 'Unauthorized' })
+    return tweetTexts.has(parts[2])
+      ? send(res, 200, { data: { id: parts[2], text: tweetTexts.get(parts[2]) } })
+      : send(res, 200, { errors: [{ title: 'Not Found Error', detail: `Could not find tweet with id: [${parts[2]}].` }] })
+  }
+
+  requestLog.push({ method: req.method, path: url.pathname, query: url.search, body, at: new Date().toISOString() })
+  if (requestLog.length > MAX_LOGGED_REQUESTS) requestLog.shift()
+
+  if (!req.headers['x-api-key']) return send(res, 401, { detail: 'Missing x-api-key header' })
+
+  try {
+    const route = parts.join('/')
+    if (req.method === 'POST' && route === 'v3/inference/chat/task') return submitTask(body, res)
+    if (req.method === 'GET' && parts.length === 5 && route.startsWith('v3/inference/chat/task/')) return pollTask(parts[4], res)
+    if (req.method === 'POST' && route === 'v3/assets/upload') return uploadAssets(buffer, res)
+    if (parts[0] === 'schedules') return handleScheduler(req.method, parts, url.searchParams, body, res)
+    if (parts[0] === 'v3' && (parts[1] === 'rag' || parts[1] === 'train')) return handleRag(req.method, parts, url.searchParams, buffer, res)
+    if (req.method === 'POST' && route === 'api/v1/rag/crawl') return crawl(body, res)
+    send(res, 404, { detail: 'Not found' })
+  } catch (error) {
+    send(res, 500, { detail: error instanceof Error ? error.message : String(error) })
+  }
+})
+
+reset()
+server.listen(PORT, () => {
+  console.log(`Mock Lyzr on http://localhost:${PORT} — ${rules.length} rules from ${SCRIPT_FILE}`)
+})